@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type {
+  AlertRule,
+  AlertCloseReason,
+  AlertDelivery,
+  AlertSubscriptionResponse,
+  AlertDeliveriesResponse,
+  AlertTestResponse,
+} from "@shared/schema";
+import { alertCloseReasons } from "@shared/schema";
+import { useAlerts } from "@/hooks/use-alerts";
+
+// Rules offered by the alerts dialog; the server accepts any combination
+const ALERT_CLOSE_REASON_LABELS: Record<AlertCloseReason, string> = {
+  sl: "Stop loss",
+  tp: "Take profit",
+  liquidation: "Liquidation",
+  user: "Manual close",
+};
+
+function describeAlertRule(rule: AlertRule): string {
+  switch (rule.type) {
+    case "liquidation_proximity":
+      return `Mark within ${(rule.withinPct * 100).toFixed(1)}% of liquidation`;
+    case "unrealized_pnl_below":
+      return `Unrealized PnL below ${rule.thresholdUsd < 0 ? "-" : ""}$${Math.abs(rule.thresholdUsd).toFixed(2)}`;
+    case "position_closed":
+      return `Closed by ${rule.reasons.map((r) => ALERT_CLOSE_REASON_LABELS[r].toLowerCase()).join(", ")}`;
+  }
+}
+
+// apiRequest errors read "<status>: <body>"; show the API's own message when there is one
+function apiErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).error ?? message;
+  } catch {
+    return body;
+  }
+}
+
+function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+const DELIVERY_STATUS_CLASSES: Record<AlertDelivery["status"], string> = {
+  delivered: "border-emerald-500/50 text-emerald-500",
+  pending: "text-muted-foreground",
+  failed: "border-destructive/50 text-destructive",
+};
+
+function AlertSubscriptionCard({ id, onRemove }: { id: string; onRemove: () => void }) {
+  const { data: subscriptionData, error: subscriptionError } = useQuery<AlertSubscriptionResponse>({
+    queryKey: [`/api/alerts/${id}`],
+    retry: false,
+  });
+  const { data: deliveriesData } = useQuery<AlertDeliveriesResponse>({
+    queryKey: [`/api/alerts/${id}/deliveries`],
+    queryFn: async () => {
+      const res = await fetch(`/api/alerts/${id}/deliveries?limit=10`);
+      if (!res.ok) throw new Error("Failed to fetch deliveries");
+      return res.json();
+    },
+    enabled: !!subscriptionData,
+    refetchInterval: 15_000,
+  });
+
+  const testAlert = useMutation({
+    mutationFn: async () => (await apiRequest("POST", `/api/alerts/${id}/test`)).json() as Promise<AlertTestResponse>,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: [`/api/alerts/${id}/deliveries`] }),
+  });
+  const deleteAlert = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/alerts/${id}`),
+    onSuccess: onRemove,
+  });
+
+  // The server no longer knows the subscription (e.g. an in-memory server restarted)
+  if (subscriptionError) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-md border border-border/50 px-3 py-2">
+        <p className="text-xs text-muted-foreground">This alert no longer exists on the server.</p>
+        <Button size="sm" variant="ghost" onClick={onRemove}>
+          Remove
+        </Button>
+      </div>
+    );
+  }
+  if (!subscriptionData) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+  const { subscription } = subscriptionData;
+  const deliveries = deliveriesData?.deliveries ?? [];
+
+  return (
+    <div className="space-y-2 rounded-md border border-border/50 px-3 py-2" data-testid={`alert-${id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate" title={subscription.webhookUrl}>
+            {subscription.webhookUrl}
+          </p>
+          <ul className="text-xs text-muted-foreground">
+            {subscription.rules.map((rule, index) => (
+              <li key={index}>{describeAlertRule(rule)}</li>
+            ))}
+          </ul>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={testAlert.isPending}
+            onClick={() => testAlert.mutate()}
+            data-testid={`button-test-alert-${id}`}
+          >
+            {testAlert.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Test"}
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            disabled={deleteAlert.isPending}
+            onClick={() => deleteAlert.mutate()}
+            title="Delete alert"
+            data-testid={`button-delete-alert-${id}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {(testAlert.error || deleteAlert.error) && (
+        <p className="text-xs text-destructive">{apiErrorMessage(testAlert.error ?? deleteAlert.error)}</p>
+      )}
+      {deliveries.length > 0 && (
+        <div className="space-y-1 border-t border-border/50 pt-2">
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate" title={delivery.payload.message}>
+                {delivery.payload.message}
+              </span>
+              <span className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                {new Date(delivery.createdAt).toLocaleString()}
+                <Badge
+                  variant="outline"
+                  className={DELIVERY_STATUS_CLASSES[delivery.status]}
+                  title={delivery.error ?? `${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`}
+                >
+                  {delivery.status}
+                  {delivery.responseStatus !== null && ` ${delivery.responseStatus}`}
+                </Badge>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Webhook alerts for one address; subscriptions are checked and delivered by the server, and remembered in this browser
+export function AlertsDialog({
+  open,
+  onOpenChange,
+  address,
+  network,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  address: string | null;
+  network: string;
+}) {
+  const { alerts, addAlert, removeAlert } = useAlerts();
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [secret, setSecret] = useState(generateWebhookSecret);
+  const [liquidationEnabled, setLiquidationEnabled] = useState(true);
+  const [liquidationPct, setLiquidationPct] = useState("10");
+  const [pnlEnabled, setPnlEnabled] = useState(false);
+  const [pnlThreshold, setPnlThreshold] = useState("-100");
+  const [closeReasons, setCloseReasons] = useState<AlertCloseReason[]>(["sl", "tp", "liquidation"]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const addressAlerts = address
+    ? alerts.filter((a) => a.address === address.toLowerCase() && a.network === network)
+    : [];
+
+  const createAlert = useMutation({
+    mutationFn: async (rules: AlertRule[]) =>
+      (await apiRequest("POST", "/api/alerts", { address, network, webhookUrl, secret, rules })).json() as Promise<AlertSubscriptionResponse>,
+    onSuccess: ({ subscription }) => {
+      addAlert({ id: subscription.id, network: subscription.network, address: subscription.address });
+      setWebhookUrl("");
+      setSecret(generateWebhookSecret());
+      setFormError(null);
+    },
+    onError: (error) => setFormError(apiErrorMessage(error)),
+  });
+
+  const submit = () => {
+    const rules: AlertRule[] = [];
+    if (liquidationEnabled) {
+      const pct = Number(liquidationPct);
+      if (!(pct > 0 && pct <= 100)) {
+        setFormError("Liquidation distance must be between 0 and 100%");
+        return;
+      }
+      rules.push({ type: "liquidation_proximity", withinPct: pct / 100 });
+    }
+    if (pnlEnabled) {
+      const threshold = Number(pnlThreshold);
+      if (pnlThreshold.trim() === "" || !Number.isFinite(threshold)) {
+        setFormError("Enter an unrealized PnL threshold in USD");
+        return;
+      }
+      rules.push({ type: "unrealized_pnl_below", thresholdUsd: threshold });
+    }
+    if (closeReasons.length > 0) {
+      rules.push({ type: "position_closed", reasons: closeReasons });
+    }
+    if (rules.length === 0) {
+      setFormError("Pick at least one rule");
+      return;
+    }
+    createAlert.mutate(rules);
+  };
+
+  const toggleCloseReason = (reason: AlertCloseReason, checked: boolean) => {
+    setCloseReasons((current) =>
+      checked ? [...current, reason] : current.filter((r) => r !== reason),
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Position alerts</DialogTitle>
+          <DialogDescription>
+            The server checks this address every minute and POSTs alerts to
+            your webhook, signed with the secret below.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!address ? (
+          <p className="text-sm text-muted-foreground">
+            Alerts watch a single wallet. Select one of the portfolio's wallets first.
+          </p>
+        ) : (
+          <>
+            {addressAlerts.length > 0 && (
+              <div className="space-y-2">
+                {addressAlerts.map((alert) => (
+                  <AlertSubscriptionCard key={alert.id} id={alert.id} onRemove={() => removeAlert(alert.id)} />
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <Input
+                placeholder="https://example.com/webhooks/sai"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                data-testid="input-alert-webhook"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="alert-secret" className="text-xs">
+                  Signing secret (copy it now; it is not shown again)
+                </Label>
+                <Input
+                  id="alert-secret"
+                  className="font-mono text-xs"
+                  value={secret}
+                  onChange={(e) => setSecret(e.target.value)}
+                  data-testid="input-alert-secret"
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="alert-liquidation"
+                  checked={liquidationEnabled}
+                  onCheckedChange={(checked) => setLiquidationEnabled(checked === true)}
+                />
+                <Label htmlFor="alert-liquidation" className="text-sm font-normal">
+                  Mark within
+                </Label>
+                <Input
+                  type="number"
+                  className="h-8 w-20"
+                  value={liquidationPct}
+                  onChange={(e) => setLiquidationPct(e.target.value)}
+                  disabled={!liquidationEnabled}
+                  data-testid="input-alert-liquidation-pct"
+                />
+                <span className="text-sm">% of liquidation</span>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="alert-pnl"
+                  checked={pnlEnabled}
+                  onCheckedChange={(checked) => setPnlEnabled(checked === true)}
+                />
+                <Label htmlFor="alert-pnl" className="text-sm font-normal">
+                  Unrealized PnL below $
+                </Label>
+                <Input
+                  type="number"
+                  className="h-8 w-24"
+                  value={pnlThreshold}
+                  onChange={(e) => setPnlThreshold(e.target.value)}
+                  disabled={!pnlEnabled}
+                  data-testid="input-alert-pnl-threshold"
+                />
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-sm">Position closed by</p>
+                <div className="flex flex-wrap gap-3">
+                  {alertCloseReasons.map((reason) => (
+                    <div key={reason} className="flex items-center gap-1.5">
+                      <Checkbox
+                        id={`alert-close-${reason}`}
+                        checked={closeReasons.includes(reason)}
+                        onCheckedChange={(checked) => toggleCloseReason(reason, checked === true)}
+                      />
+                      <Label htmlFor={`alert-close-${reason}`} className="text-sm font-normal">
+                        {ALERT_CLOSE_REASON_LABELS[reason]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {formError && (
+                <p className="text-xs text-destructive" data-testid="text-alert-error">
+                  {formError}
+                </p>
+              )}
+              <Button
+                className="w-full"
+                onClick={submit}
+                disabled={createAlert.isPending || !webhookUrl}
+                data-testid="button-create-alert"
+              >
+                {createAlert.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create alert
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
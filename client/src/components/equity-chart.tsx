@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { EquityPoint } from "@shared/schema";
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { formatCompactUsd } from "@/lib/format";
+
+type EquityRange = "7d" | "30d" | "90d" | "all";
+
+const EQUITY_RANGE_DAYS: Record<EquityRange, number | null> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  all: null,
+};
+
+const equityChartConfig: ChartConfig = {
+  realizedPnl: { label: "Realized PnL", color: "hsl(var(--chart-1))" },
+  withUnrealized: { label: "Incl. unrealized", color: "hsl(var(--chart-4))" },
+  drawdown: { label: "Drawdown", color: "hsl(0 84% 60%)" },
+};
+
+function formatChartDate(time: number): string {
+  return new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+// Cumulative realized PnL from closed trades, with an optional overlay that adds open positions' unrealized PnL today
+export function EquityChart({
+  curve,
+  unrealizedPnl,
+  loading,
+  hideValues,
+}: {
+  curve: EquityPoint[];
+  unrealizedPnl?: number;
+  loading: boolean;
+  hideValues?: boolean;
+}) {
+  const [range, setRange] = useState<EquityRange>("all");
+  const [showUnrealized, setShowUnrealized] = useState(true);
+
+  const points = curve.map((point) => ({
+    time: new Date(point.timestamp).getTime(),
+    realizedPnl: point.realizedPnl,
+    drawdown: point.drawdown,
+    withUnrealized: undefined as number | undefined,
+  }));
+
+  // Keep equity levels absolute: a range starts from the realized PnL and drawdown carried in from before it
+  const days = EQUITY_RANGE_DAYS[range];
+  const now = Date.now();
+  let chartData = points;
+  if (days !== null) {
+    const cutoff = now - days * 24 * 60 * 60 * 1000;
+    const before = points.filter((p) => p.time < cutoff);
+    chartData = points.filter((p) => p.time >= cutoff);
+    const carried = before[before.length - 1];
+    if (carried) {
+      chartData = [{ ...carried, time: cutoff }, ...chartData];
+    }
+  }
+
+  const last = points[points.length - 1];
+  const hasUnrealized = unrealizedPnl !== undefined && unrealizedPnl !== 0;
+  if (showUnrealized && hasUnrealized && chartData.length > 0 && last) {
+    const end = chartData[chartData.length - 1];
+    chartData = [
+      ...chartData.slice(0, -1),
+      { ...end, withUnrealized: end.realizedPnl },
+      { ...last, time: now, withUnrealized: last.realizedPnl + unrealizedPnl },
+    ];
+  }
+
+  // Amounts are left out of the tooltip entirely while values are hidden
+  const tooltipLabel = (_: unknown, payload: Array<{ payload?: { time?: number } }>) =>
+    payload?.[0]?.payload?.time ? new Date(payload[0].payload.time).toLocaleString() : "";
+  const yAxis = (
+    <YAxis
+      tickLine={false}
+      axisLine={false}
+      width={60}
+      tickFormatter={(value: number) => (hideValues ? "•••" : formatCompactUsd(value))}
+    />
+  );
+  const xAxis = (hide: boolean) => (
+    <XAxis
+      dataKey="time"
+      type="number"
+      scale="time"
+      domain={["dataMin", "dataMax"]}
+      tickLine={false}
+      axisLine={false}
+      minTickGap={32}
+      hide={hide}
+      tickFormatter={formatChartDate}
+    />
+  );
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
+        <div>
+          <CardTitle>Equity Curve</CardTitle>
+          <CardDescription>
+            Cumulative realized PnL by close time, and drawdown from the running peak
+          </CardDescription>
+        </div>
+        <div className="flex gap-1 flex-wrap">
+          {hasUnrealized && (
+            <Button
+              variant={showUnrealized ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setShowUnrealized(!showUnrealized)}
+              data-testid="button-equity-unrealized"
+            >
+              Unrealized
+            </Button>
+          )}
+          {(Object.keys(EQUITY_RANGE_DAYS) as EquityRange[]).map((option) => (
+            <Button
+              key={option}
+              variant={range === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setRange(option)}
+              data-testid={`button-equity-${option}`}
+            >
+              {option === "all" ? "All" : option.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-80 w-full" />
+        ) : chartData.length > 0 ? (
+          <>
+            <ChartContainer config={equityChartConfig} className="h-56 w-full">
+              <LineChart data={chartData} syncId="equity">
+                <CartesianGrid vertical={false} />
+                {xAxis(true)}
+                {yAxis}
+                {!hideValues && (
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={tooltipLabel} />} />
+                )}
+                <Line
+                  dataKey="realizedPnl"
+                  type="stepAfter"
+                  stroke="var(--color-realizedPnl)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                {showUnrealized && hasUnrealized && (
+                  <Line
+                    dataKey="withUnrealized"
+                    type="linear"
+                    stroke="var(--color-withUnrealized)"
+                    strokeWidth={2}
+                    strokeDasharray="4 4"
+                    dot={false}
+                    connectNulls={false}
+                  />
+                )}
+              </LineChart>
+            </ChartContainer>
+            <ChartContainer config={equityChartConfig} className="h-24 w-full mt-2">
+              <AreaChart data={chartData} syncId="equity">
+                <CartesianGrid vertical={false} />
+                {xAxis(false)}
+                {yAxis}
+                {!hideValues && (
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={tooltipLabel} />} />
+                )}
+                <Area
+                  dataKey="drawdown"
+                  type="stepAfter"
+                  stroke="var(--color-drawdown)"
+                  fill="var(--color-drawdown)"
+                  fillOpacity={0.3}
+                />
+              </AreaChart>
+            </ChartContainer>
+          </>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            No closed trades in this range
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { ChevronDown, Download, ChevronUp } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { MarketStats } from "@shared/schema";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { formatCompactUsd } from "@/lib/format";
+
+function formatHoldingTime(ms: number | null): string {
+  if (ms === null) return "-";
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function marketLabel(market: MarketStats): string {
+  return `${market.pair} (${market.collateralToken})`;
+}
+
+type MarketSortKey = "market" | "trades" | "winRate" | "realizedPnl" | "fees" | "avgLeverage" | "avgHoldingMs" | "longShare";
+
+const MARKET_COLUMNS: { key: MarketSortKey; label: string; value: (m: MarketStats) => string | number | null }[] = [
+  { key: "market", label: "Market", value: marketLabel },
+  { key: "trades", label: "Trades", value: (m) => m.trades },
+  { key: "winRate", label: "Win Rate", value: (m) => (m.closedTrades > 0 ? m.winRate : null) },
+  { key: "realizedPnl", label: "Realized PnL", value: (m) => m.realizedPnl },
+  { key: "fees", label: "Fees", value: (m) => m.fees },
+  { key: "avgLeverage", label: "Avg Leverage", value: (m) => m.avgLeverage },
+  { key: "avgHoldingMs", label: "Avg Hold", value: (m) => m.avgHoldingMs },
+  { key: "longShare", label: "Long / Short", value: (m) => m.longTrades / Math.max(m.trades, 1) },
+];
+
+function marketsToCsv(markets: MarketStats[]): string {
+  const header = "pair,collateral_token,trades,closed_trades,wins,win_rate,realized_pnl_usd,fees_usd,avg_leverage,avg_holding_hours,long_trades,short_trades";
+  const rows = markets.map((m) =>
+    [
+      m.pair,
+      m.collateralToken,
+      m.trades,
+      m.closedTrades,
+      m.wins,
+      m.winRate.toFixed(4),
+      m.realizedPnl.toFixed(2),
+      m.fees.toFixed(2),
+      m.avgLeverage.toFixed(2),
+      m.avgHoldingMs === null ? "" : (m.avgHoldingMs / 3600000).toFixed(2),
+      m.longTrades,
+      m.shortTrades,
+    ].join(","),
+  );
+  return [header, ...rows].join("\n");
+}
+
+const marketChartConfig: ChartConfig = {
+  realizedPnl: { label: "Realized PnL", color: "hsl(var(--chart-1))" },
+};
+
+// Realized PnL, fees and trading habits per pair and collateral token
+export function MarketBreakdown({
+  markets,
+  hideValues,
+}: {
+  markets: MarketStats[];
+  hideValues?: boolean;
+}) {
+  const [sortKey, setSortKey] = useState<MarketSortKey>("realizedPnl");
+  const [sortDesc, setSortDesc] = useState(true);
+
+  const column = MARKET_COLUMNS.find((c) => c.key === sortKey)!;
+  // Missing values (no closed trades) always sort last
+  const sorted = [...markets].sort((a, b) => {
+    const [va, vb] = [column.value(a), column.value(b)];
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    const diff = typeof va === "string" ? va.localeCompare(String(vb)) : va - (vb as number);
+    return sortDesc ? -diff : diff;
+  });
+
+  const toggleSort = (key: MarketSortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(key !== "market");
+    }
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([marketsToCsv(sorted)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "sai-markets.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const formatUsd = (value: number) =>
+    hideValues ? "•••••" : `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+  const chartData = sorted.map((m) => ({ market: marketLabel(m), realizedPnl: m.realizedPnl }));
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
+        <div>
+          <CardTitle>Markets</CardTitle>
+          <CardDescription>Performance by pair and collateral token</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={exportCsv}
+          data-testid="button-markets-csv"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={marketChartConfig} className="h-56 w-full mb-4">
+          <BarChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="market" tickLine={false} axisLine={false} interval={0} tick={{ fontSize: 10 }} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={60}
+              tickFormatter={(value: number) => (hideValues ? "•••" : formatCompactUsd(value))}
+            />
+            {!hideValues && <ChartTooltip content={<ChartTooltipContent />} />}
+            <Bar dataKey="realizedPnl" radius={4}>
+              {chartData.map((entry) => (
+                <Cell key={entry.market} fill={entry.realizedPnl >= 0 ? "hsl(142 71% 45%)" : "hsl(0 84% 60%)"} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {MARKET_COLUMNS.map((c) => (
+                  <TableHead key={c.key} className={c.key === "market" ? "" : "text-right"}>
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(c.key)}
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                      data-testid={`sort-markets-${c.key}`}
+                    >
+                      {c.label}
+                      {sortKey === c.key && (sortDesc ? <ChevronDown className="h-3 w-3" /> : <ChevronUp className="h-3 w-3" />)}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.map((m) => (
+                <TableRow key={`${m.pair}-${m.collateralToken}`} data-testid={`row-market-${m.pair}-${m.collateralToken}`}>
+                  <TableCell className="font-medium">{marketLabel(m)}</TableCell>
+                  <TableCell className="text-right font-mono">{m.trades}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {m.closedTrades > 0 ? `${(m.winRate * 100).toFixed(1)}%` : "-"}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-mono ${m.realizedPnl > 0 ? "text-emerald-500" : m.realizedPnl < 0 ? "text-red-500" : ""}`}
+                  >
+                    {m.closedTrades > 0 ? formatUsd(m.realizedPnl) : "-"}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {hideValues ? "•••••" : `$${m.fees.toFixed(2)}`}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{m.avgLeverage.toFixed(1)}x</TableCell>
+                  <TableCell className="text-right font-mono">{formatHoldingTime(m.avgHoldingMs)}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    <span className="text-emerald-500">{m.longTrades}</span>
+                    {" / "}
+                    <span className="text-red-500">{m.shortTrades}</span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+import { useRef, useMemo, useCallback, memo } from "react";
+import { Share2, ShieldAlert, Target } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TableCell, TableHead, TableRow } from "@/components/ui/table";
+import { VirtualTable } from "@/components/virtual-table";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { formatShortDateTime, formatSignedPct, formatWallet } from "@/lib/format";
+import type { NibiPrices, OpenPosition } from "@shared/schema";
+import { denominate, formatDenominated, type Denomination, type DenominatedAmount } from "@shared/denomination";
+
+function formatPositionPrice(price: number | null | undefined): string {
+  if (price === null || price === undefined) return "-";
+  if (price >= 1000)
+    return `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  return `$${price.toFixed(4)}`;
+}
+
+interface PositionRowData {
+  position: OpenPosition;
+  markPrice: number | undefined;
+  collateral: DenominatedAmount | null;
+  unrealizedPnl: DenominatedAmount | null;
+  borrowingFee: DenominatedAmount | null;
+  unrealizedPnlPct: string;
+  openedAt: string;
+}
+
+const PositionRow = memo(function PositionRow({
+  row,
+  onShare,
+  hideValues,
+  showWallet,
+}: {
+  row: PositionRowData;
+  onShare?: (position: OpenPosition) => void;
+  hideValues?: boolean;
+  showWallet?: boolean;
+}) {
+  const { position, collateral, unrealizedPnl, borrowingFee } = row;
+  const pnlColor =
+    (position.unrealizedPnlPct ?? 0) >= 0
+      ? "text-green-500"
+      : "text-red-500";
+
+  return (
+    <TableRow data-testid={`row-position-${position.tradeId}`}>
+      <TableCell>
+        {onShare && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onShare(position)}
+            data-testid={`button-share-position-${position.tradeId}`}
+          >
+            <Share2 className="h-4 w-4" />
+          </Button>
+        )}
+      </TableCell>
+      {showWallet && (
+        <TableCell className="font-mono text-xs text-muted-foreground">
+          {hideValues ? "••••••" : formatWallet(position.wallet)}
+        </TableCell>
+      )}
+      <TableCell className="font-medium">{position.pair}</TableCell>
+      <TableCell>
+        <Badge
+          variant={
+            position.direction === "long" ? "default" : "secondary"
+          }
+        >
+          {position.direction.toUpperCase()} {position.leverage}x
+        </Badge>
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm">
+        {hideValues ? "•••••" : collateral ? formatDenominated(collateral) : "-"}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm">
+        {formatPositionPrice(position.entryPrice)}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm">
+        {formatPositionPrice(row.markPrice)}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm text-muted-foreground">
+        {formatPositionPrice(position.liquidationPrice)}
+        {position.liquidationDistancePct !== undefined && (
+          <div
+            className={`text-xs ${position.liquidationDistancePct < 0.1 ? "text-red-500" : ""}`}
+            title="Adverse move to liquidation"
+          >
+            {(position.liquidationDistancePct * 100).toFixed(1)}% away
+          </div>
+        )}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm">
+        {formatPositionPrice(position.stopLoss)}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm">
+        {formatPositionPrice(position.takeProfit)}
+      </TableCell>
+      <TableCell
+        className={`text-right font-mono text-sm ${pnlColor}`}
+      >
+        {unrealizedPnl ? (
+          <>
+            {hideValues ? (
+              <span className="text-muted-foreground">•••••</span>
+            ) : (
+              formatDenominated(unrealizedPnl, { signed: true })
+            )}
+            <span className="text-xs ml-1">({row.unrealizedPnlPct})</span>
+          </>
+        ) : (
+          "-"
+        )}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm text-muted-foreground">
+        {hideValues
+          ? "•••••"
+          : borrowingFee
+            ? formatDenominated(borrowingFee, { digits: 4 })
+            : "-"}
+      </TableCell>
+      <TableCell className="text-sm text-muted-foreground">{row.openedAt}</TableCell>
+    </TableRow>
+  );
+});
+
+const POSITION_ROW_HEIGHT = 73;
+
+export function OpenPositionsTable({
+  positions,
+  isLoading,
+  onShare,
+  hideValues,
+  showWallet,
+  denomination = "usd",
+  nibiPrices,
+}: {
+  positions: OpenPosition[];
+  isLoading: boolean;
+  onShare?: (position: OpenPosition) => void;
+  hideValues?: boolean;
+  showWallet?: boolean;
+  denomination?: Denomination;
+  nibiPrices?: NibiPrices;
+}) {
+  const rows = useMemo(
+    () =>
+      positions.map((position): PositionRowData => {
+        const amount = (usd: number | undefined, native: number | undefined) =>
+          denominate(usd, native, position.collateralToken, denomination, nibiPrices);
+        return {
+          position,
+          // Older responses lack the mark price; derive it from the PnL percentage then
+          markPrice:
+            position.currentPrice ??
+            (position.unrealizedPnlPct !== undefined && position.leverage > 0
+              ? position.direction === "long"
+                ? position.entryPrice *
+                  (1 + position.unrealizedPnlPct / position.leverage)
+                : position.entryPrice *
+                  (1 - position.unrealizedPnlPct / position.leverage)
+              : undefined),
+          collateral: amount(position.collateral, position.native?.collateral),
+          unrealizedPnl: amount(position.unrealizedPnl, position.native?.unrealizedPnl),
+          borrowingFee: amount(position.borrowingFee, position.native?.borrowingFee),
+          unrealizedPnlPct: formatSignedPct(position.unrealizedPnlPct),
+          openedAt: formatShortDateTime(position.openedAt),
+        };
+      }),
+    [positions, denomination, nibiPrices],
+  );
+  const virtual = useVirtualRows(rows.length, POSITION_ROW_HEIGHT);
+
+  const onShareRef = useRef(onShare);
+  onShareRef.current = onShare;
+  const share = useCallback(
+    (position: OpenPosition) => onShareRef.current?.(position),
+    [],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (positions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No open positions found
+      </div>
+    );
+  }
+
+  return (
+    <VirtualTable
+      virtual={virtual}
+      header={
+        <TableRow>
+          <TableHead></TableHead>
+          {showWallet && <TableHead>Wallet</TableHead>}
+          <TableHead>Pair</TableHead>
+          <TableHead>Direction</TableHead>
+          <TableHead className="text-right">Collateral</TableHead>
+          <TableHead className="text-right">Entry Price</TableHead>
+          <TableHead className="text-right">Mark Price</TableHead>
+          <TableHead className="text-right">Liq. Price</TableHead>
+          <TableHead className="text-right">
+            <div className="flex items-center justify-end gap-1">
+              <ShieldAlert className="h-3 w-3" />
+              Stop Loss
+            </div>
+          </TableHead>
+          <TableHead className="text-right">
+            <div className="flex items-center justify-end gap-1">
+              <Target className="h-3 w-3" />
+              Take Profit
+            </div>
+          </TableHead>
+          <TableHead className="text-right">Unrealized PnL</TableHead>
+          <TableHead className="text-right">Borrowing Fee</TableHead>
+          <TableHead>Opened</TableHead>
+        </TableRow>
+      }
+    >
+      {rows.slice(virtual.start, virtual.end).map((row) => (
+        <PositionRow
+          key={row.position.tradeId}
+          row={row}
+          onShare={onShare ? share : undefined}
+          hideValues={hideValues}
+          showWallet={showWallet}
+        />
+      ))}
+    </VirtualTable>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState, useMemo } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { EquityPoint } from "@shared/schema";
+import { buildDailyPnl, monthWeeks, zonedDayRange, dayKeyInZone } from "@shared/calendar";
+
+// Time zones offered by the PnL calendar, after the browser's own
+export const CALENDAR_TIME_ZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Los_Angeles",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// A calendar day selected in the PnL calendar; from/to bound the day in the chosen time zone
+export interface DayFilter {
+  day: string;
+  timeZone: string;
+  from: string;
+  to: string;
+}
+
+function pnlCellColor(pnl: number, maxAbs: number): string | undefined {
+  if (pnl === 0 || maxAbs === 0) return undefined;
+  const alpha = 0.15 + 0.75 * Math.min(1, Math.abs(pnl) / maxAbs);
+  return pnl > 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(239, 68, 68, ${alpha})`;
+}
+
+// Month view of realized PnL per local day, with weekly totals in the right margin and the monthly total in the header
+export function PnlCalendar({
+  curve,
+  selectedDay,
+  onSelectDay,
+  hideValues,
+}: {
+  curve: EquityPoint[];
+  selectedDay: string | null;
+  onSelectDay: (filter: DayFilter) => void;
+  hideValues?: boolean;
+}) {
+  const localTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+  const [timeZone, setTimeZone] = useState(localTimeZone);
+  const days = useMemo(() => buildDailyPnl(curve, timeZone), [curve, timeZone]);
+
+  // Start on the month of the most recent close
+  const latest = curve[curve.length - 1];
+  const initialMonth = (latest ? dayKeyInZone(new Date(latest.timestamp), timeZone) : new Date().toISOString()).slice(0, 7);
+  const [month, setMonth] = useState<string | null>(null);
+  const shownMonth = month ?? initialMonth;
+  const [year, monthIndex] = [Number(shownMonth.slice(0, 4)), Number(shownMonth.slice(5, 7)) - 1];
+  const weeks = monthWeeks(year, monthIndex);
+
+  const shiftMonth = (delta: number) => {
+    const next = new Date(Date.UTC(year, monthIndex + delta, 1));
+    setMonth(next.toISOString().slice(0, 7));
+  };
+
+  const monthDays = weeks.flat().filter((day): day is string => day !== null);
+  const monthTotal = monthDays.reduce((sum, day) => sum + (days.get(day)?.pnl ?? 0), 0);
+  const monthTrades = monthDays.reduce((sum, day) => sum + (days.get(day)?.trades ?? 0), 0);
+  const maxAbs = Math.max(0, ...monthDays.map((day) => Math.abs(days.get(day)?.pnl ?? 0)));
+
+  const formatPnl = (pnl: number) =>
+    hideValues ? "•••" : `${pnl >= 0 ? "+" : "-"}$${Math.abs(pnl).toFixed(2)}`;
+  const pnlText = (pnl: number) =>
+    pnl > 0 ? "text-emerald-500" : pnl < 0 ? "text-red-500" : "text-muted-foreground";
+  const timeZones = [localTimeZone, ...CALENDAR_TIME_ZONES.filter((zone) => zone !== localTimeZone)];
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
+        <div>
+          <CardTitle>Daily PnL</CardTitle>
+          <CardDescription>
+            Realized PnL by close day. Click a day to see its trades.
+          </CardDescription>
+        </div>
+        <Select value={timeZone} onValueChange={setTimeZone}>
+          <SelectTrigger className="w-[200px] text-xs" data-testid="select-calendar-timezone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {timeZones.map((zone) => (
+              <SelectItem key={zone} value={zone} className="text-xs">
+                {zone === localTimeZone ? `${zone} (local)` : zone}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between mb-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => shiftMonth(-1)}
+            data-testid="button-calendar-prev"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="text-center">
+            <p className="font-medium">
+              {new Date(Date.UTC(year, monthIndex, 1)).toLocaleDateString(undefined, {
+                month: "long",
+                year: "numeric",
+                timeZone: "UTC",
+              })}
+            </p>
+            <p className={`text-xs font-mono ${pnlText(monthTotal)}`} data-testid="text-calendar-month-total">
+              {formatPnl(monthTotal)} · {monthTrades} trade{monthTrades === 1 ? "" : "s"}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => shiftMonth(1)}
+            data-testid="button-calendar-next"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="grid grid-cols-8 gap-1 text-xs">
+          {WEEKDAY_LABELS.map((label) => (
+            <div key={label} className="text-center text-muted-foreground pb-1">
+              {label}
+            </div>
+          ))}
+          <div className="text-right text-muted-foreground pb-1 pr-1">Week</div>
+          {weeks.map((week, index) => {
+            const weekTotal = week.reduce((sum, day) => sum + (day ? days.get(day)?.pnl ?? 0 : 0), 0);
+            return (
+              <div key={index} className="contents">
+                {week.map((day, dayIndex) => {
+                  if (!day) return <div key={dayIndex} />;
+                  const entry = days.get(day);
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      disabled={!entry}
+                      onClick={() => onSelectDay({ day, timeZone, ...zonedDayRange(day, timeZone) })}
+                      title={entry ? `${day}: ${formatPnl(entry.pnl)} over ${entry.trades} trade${entry.trades === 1 ? "" : "s"}` : day}
+                      className={`h-12 rounded-md border text-left p-1 transition-colors ${
+                        selectedDay === day ? "border-primary" : "border-border/40"
+                      } ${entry ? "hover:border-primary/60 cursor-pointer" : "cursor-default bg-muted/20"}`}
+                      style={{ backgroundColor: entry ? pnlCellColor(entry.pnl, maxAbs) : undefined }}
+                      data-testid={`calendar-day-${day}`}
+                    >
+                      <span className="block text-[10px] text-muted-foreground">{Number(day.slice(8))}</span>
+                      {entry && (
+                        <span className="block font-mono text-[10px] truncate">{formatPnl(entry.pnl)}</span>
+                      )}
+                    </button>
+                  );
+                })}
+                <div className={`h-12 flex items-center justify-end pr-1 font-mono ${pnlText(weekTotal)}`}>
+                  {weekTotal !== 0 ? formatPnl(weekTotal) : "-"}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
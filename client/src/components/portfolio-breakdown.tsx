@@ -0,0 +1,120 @@
+import { Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { WalletTradesSummary, WalletPositionsSummary, WalletVaultsSummary } from "@shared/schema";
+import { formatWallet } from "@/lib/format";
+
+// Per-wallet totals of a portfolio; clicking a row filters every tab to that wallet
+export function PortfolioBreakdown({
+  name,
+  tradeWallets,
+  positionWallets,
+  vaultWallets,
+  walletFilter,
+  onWalletFilterChange,
+  hideValues,
+}: {
+  name: string;
+  tradeWallets: WalletTradesSummary[];
+  positionWallets: WalletPositionsSummary[];
+  vaultWallets: WalletVaultsSummary[];
+  walletFilter: string | null;
+  onWalletFilterChange: (wallet: string | null) => void;
+  hideValues?: boolean;
+}) {
+  const formatUsd = (value: number) =>
+    hideValues ? "•••••" : `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+  const pnlClass = (value: number) =>
+    value > 0 ? "text-emerald-500" : value < 0 ? "text-red-500" : "";
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          {name}
+        </CardTitle>
+        <CardDescription>
+          {tradeWallets.length} wallet{tradeWallets.length === 1 ? "" : "s"}.
+          Select a wallet to filter the stats and tabs below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Wallet</TableHead>
+              <TableHead className="text-right">Closed Trades</TableHead>
+              <TableHead className="text-right">Win Rate</TableHead>
+              <TableHead className="text-right">Realized PnL</TableHead>
+              <TableHead className="text-right">Open Positions</TableHead>
+              <TableHead className="text-right">Unrealized PnL</TableHead>
+              <TableHead className="text-right">Vault Deposits</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow
+              className={`cursor-pointer ${walletFilter === null ? "bg-muted/50" : ""}`}
+              onClick={() => onWalletFilterChange(null)}
+              data-testid="row-portfolio-all"
+            >
+              <TableCell className="font-medium">All wallets</TableCell>
+              <TableCell className="text-right font-mono text-sm">
+                {tradeWallets.reduce((sum, w) => sum + w.closedTrades, 0)}
+              </TableCell>
+              <TableCell className="text-right font-mono text-sm">-</TableCell>
+              <TableCell className="text-right font-mono text-sm">
+                {formatUsd(tradeWallets.reduce((sum, w) => sum + w.totalPnlAmount, 0))}
+              </TableCell>
+              <TableCell className="text-right font-mono text-sm">
+                {positionWallets.reduce((sum, w) => sum + w.positions, 0)}
+              </TableCell>
+              <TableCell className="text-right font-mono text-sm">
+                {formatUsd(positionWallets.reduce((sum, w) => sum + w.unrealizedPnl, 0))}
+              </TableCell>
+              <TableCell className="text-right font-mono text-sm">
+                {vaultWallets.reduce((sum, w) => sum + w.positions, 0)}
+              </TableCell>
+            </TableRow>
+            {tradeWallets.map((walletTrades) => {
+              const walletPositions = positionWallets.find((w) => w.wallet === walletTrades.wallet);
+              const walletVaults = vaultWallets.find((w) => w.wallet === walletTrades.wallet);
+              return (
+                <TableRow
+                  key={walletTrades.wallet}
+                  className={`cursor-pointer ${walletFilter === walletTrades.wallet ? "bg-muted/50" : ""}`}
+                  onClick={() => onWalletFilterChange(walletTrades.wallet)}
+                  data-testid={`row-portfolio-wallet-${walletTrades.wallet}`}
+                >
+                  <TableCell className="font-mono text-xs">
+                    {hideValues ? "••••••" : formatWallet(walletTrades.wallet)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {walletTrades.closedTrades}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {walletTrades.closedTrades > 0
+                      ? `${((walletTrades.wins / walletTrades.closedTrades) * 100).toFixed(1)}%`
+                      : "-"}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono text-sm ${pnlClass(walletTrades.totalPnlAmount)}`}>
+                    {formatUsd(walletTrades.totalPnlAmount)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {walletPositions?.positions ?? "-"}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono text-sm ${pnlClass(walletPositions?.unrealizedPnl ?? 0)}`}>
+                    {walletPositions ? formatUsd(walletPositions.unrealizedPnl) : "-"}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {walletVaults?.positions ?? "-"}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
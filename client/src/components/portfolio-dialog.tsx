@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { parseAddressList, MAX_PORTFOLIO_WALLETS } from "@shared/address";
+import { type Portfolio } from "@/hooks/use-portfolios";
+
+export function PortfolioDialog({
+  open,
+  onOpenChange,
+  portfolios,
+  addressPrefix,
+  onSave,
+  onDelete,
+  onOpenPortfolio,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  portfolios: Portfolio[];
+  addressPrefix: string;
+  onSave: (portfolio: Portfolio) => void;
+  onDelete: (id: string) => void;
+  onOpenPortfolio: (portfolio: Portfolio) => void;
+}) {
+  const [name, setName] = useState("");
+  const [addressesText, setAddressesText] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const createPortfolio = () => {
+    if (!name.trim()) {
+      setFormError("Give the portfolio a name");
+      return;
+    }
+    const parsed = parseAddressList(addressesText, addressPrefix);
+    if (!parsed.ok) {
+      setFormError(parsed.error);
+      return;
+    }
+    const portfolio: Portfolio = {
+      id: `${Date.now()}`,
+      name: name.trim(),
+      addresses: parsed.wallets.map((w) => w.evm),
+    };
+    onSave(portfolio);
+    setName("");
+    setAddressesText("");
+    setFormError(null);
+    onOpenPortfolio(portfolio);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Portfolios</DialogTitle>
+          <DialogDescription>
+            Group several wallets to see their trades, positions and vaults
+            together. Portfolios are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {portfolios.length > 0 && (
+          <div className="space-y-2">
+            {portfolios.map((portfolio) => (
+              <div
+                key={portfolio.id}
+                className="flex items-center justify-between gap-2 rounded-md border border-border/50 px-3 py-2"
+                data-testid={`portfolio-${portfolio.id}`}
+              >
+                <div>
+                  <p className="text-sm font-medium">{portfolio.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {portfolio.addresses.length} wallet
+                    {portfolio.addresses.length === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onOpenPortfolio(portfolio)}
+                    data-testid={`button-open-portfolio-${portfolio.id}`}
+                  >
+                    Open
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => onDelete(portfolio.id)}
+                    title="Delete portfolio"
+                    data-testid={`button-delete-portfolio-${portfolio.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <Input
+            placeholder="Portfolio name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-portfolio-name"
+          />
+          <Textarea
+            placeholder={`One address per line (0x… or ${addressPrefix}1…), up to ${MAX_PORTFOLIO_WALLETS}`}
+            className="font-mono text-xs min-h-[120px]"
+            value={addressesText}
+            onChange={(e) => setAddressesText(e.target.value)}
+            data-testid="input-portfolio-addresses"
+          />
+          {formError && (
+            <p className="text-xs text-destructive" data-testid="text-portfolio-error">
+              {formError}
+            </p>
+          )}
+          <Button
+            className="w-full"
+            onClick={createPortfolio}
+            data-testid="button-create-portfolio"
+          >
+            Save and open
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TaxReportFormat, TaxReportResponse } from "@shared/schema";
+import { CALENDAR_TIME_ZONES } from "@/components/pnl-calendar";
+
+const TAX_REPORT_FORMATS: { value: Exclude<TaxReportFormat, "json">; label: string }[] = [
+  { value: "generic", label: "Generic CSV" },
+  { value: "koinly", label: "Koinly CSV" },
+  { value: "cointracking", label: "CoinTracking CSV" },
+];
+
+// Realized gain/loss of closed trades and vault withdrawals for a tax year, valued at historical collateral prices
+export function TaxReport({
+  address,
+  network,
+  wallet,
+  hideValues,
+}: {
+  address: string;
+  network: string;
+  wallet: string | null;
+  hideValues?: boolean;
+}) {
+  const localTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [timeZone, setTimeZone] = useState(localTimeZone);
+  const [format, setFormat] = useState<Exclude<TaxReportFormat, "json">>("generic");
+
+  const params = new URLSearchParams({ address, network, year: String(year), timeZone });
+  if (wallet) params.set("wallet", wallet);
+
+  const { data, isLoading, error } = useQuery<TaxReportResponse>({
+    queryKey: ["/api/tax-report", address, network, wallet, year, timeZone],
+    queryFn: async () => {
+      const res = await fetch(`/api/tax-report?${params.toString()}`);
+      if (!res.ok) throw new Error("Failed to build tax report");
+      return res.json();
+    },
+  });
+
+  const download = () => {
+    const link = document.createElement("a");
+    link.href = `/api/tax-report?${params.toString()}&format=${format}`;
+    link.download = "";
+    link.click();
+  };
+
+  const formatUsd = (value: number) =>
+    hideValues ? "•••••" : `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+  const years = Array.from({ length: 6 }, (_, i) => currentYear - i);
+  const timeZones = [localTimeZone, ...CALENDAR_TIME_ZONES.filter((zone) => zone !== localTimeZone)];
+  const totals = data?.totals;
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
+        <div>
+          <CardTitle>Tax Report</CardTitle>
+          <CardDescription>
+            Realized gains and losses of closed trades and vault withdrawals
+          </CardDescription>
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-[90px] text-xs" data-testid="select-tax-year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((option) => (
+                <SelectItem key={option} value={String(option)} className="text-xs">
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={timeZone} onValueChange={setTimeZone}>
+            <SelectTrigger className="w-[180px] text-xs" data-testid="select-tax-timezone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZones.map((zone) => (
+                <SelectItem key={zone} value={zone} className="text-xs">
+                  {zone === localTimeZone ? `${zone} (local)` : zone}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : error || !totals ? (
+          <p className="text-sm text-destructive">Failed to build the tax report.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4" data-testid="tax-report-totals">
+            <div>
+              <p className="text-xs text-muted-foreground">Proceeds</p>
+              <p className="font-mono">{formatUsd(totals.proceeds)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Cost basis</p>
+              <p className="font-mono">{formatUsd(totals.costBasis)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Gain / loss</p>
+              <p className={`font-mono ${totals.gainLoss >= 0 ? "text-green-500" : "text-red-500"}`}>
+                {formatUsd(totals.gainLoss)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Short {formatUsd(totals.shortTermGainLoss)} · Long {formatUsd(totals.longTermGainLoss)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Fees (included)</p>
+              <p className="font-mono">{formatUsd(totals.fees)}</p>
+              <p className="text-xs text-muted-foreground">
+                {totals.lines} line{totals.lines === 1 ? "" : "s"}
+              </p>
+            </div>
+          </div>
+        )}
+        {data?.lines.some((line) => line.priceEstimated) && (
+          <p className="text-xs text-amber-500 mb-3">
+            Some lines use today's collateral price because no historical price was indexed.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Select value={format} onValueChange={(value) => setFormat(value as Exclude<TaxReportFormat, "json">)}>
+            <SelectTrigger className="w-[180px] text-xs" data-testid="select-tax-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TAX_REPORT_FORMATS.map((option) => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={download} data-testid="button-download-tax-report">
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
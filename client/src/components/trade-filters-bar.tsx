@@ -0,0 +1,175 @@
+import { useState, useRef, useEffect, type ComponentProps } from "react";
+import { Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TradesResponse, TradeFilters } from "@shared/schema";
+
+// Text input that reports its value once typing pauses, so every keystroke doesn't refetch
+function DebouncedInput({
+  value,
+  onCommit,
+  ...props
+}: { value: string; onCommit: (value: string) => void } & Omit<ComponentProps<typeof Input>, "value" | "onChange">) {
+  const [draft, setDraft] = useState(value);
+  const onCommitRef = useRef(onCommit);
+  onCommitRef.current = onCommit;
+
+  useEffect(() => setDraft(value), [value]);
+  useEffect(() => {
+    if (draft === value) return;
+    const timer = setTimeout(() => onCommitRef.current(draft), 400);
+    return () => clearTimeout(timer);
+  }, [draft, value]);
+
+  return <Input {...props} value={draft} onChange={(e) => setDraft(e.target.value)} />;
+}
+
+const ALL_FILTER_VALUE = "all";
+
+export function TradeFiltersBar({
+  filters,
+  options,
+  activeCount,
+  onChange,
+  onReset,
+}: {
+  filters: TradeFilters;
+  options?: TradesResponse["filterOptions"];
+  activeCount: number;
+  onChange: (update: Partial<TradeFilters>) => void;
+  onReset: () => void;
+}) {
+  const fromSelect = (value: string) => (value === ALL_FILTER_VALUE ? undefined : value);
+  const toLeverage = (value: string) => (Number(value) > 0 ? Number(value) : undefined);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4" data-testid="trade-filters">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <DebouncedInput
+          value={filters.q ?? ""}
+          onCommit={(q) => onChange({ q: q.trim() || undefined })}
+          placeholder="Trade id"
+          className="h-9 w-32 pl-8"
+          data-testid="input-trade-search"
+        />
+      </div>
+      <Select
+        value={filters.pair ?? ALL_FILTER_VALUE}
+        onValueChange={(value) => onChange({ pair: fromSelect(value) })}
+      >
+        <SelectTrigger className="h-9 w-28" data-testid="select-filter-pair">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_FILTER_VALUE}>All pairs</SelectItem>
+          {options?.pairs.map((pair) => (
+            <SelectItem key={pair} value={pair}>
+              {pair}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.direction ?? ALL_FILTER_VALUE}
+        onValueChange={(value) => onChange({ direction: fromSelect(value) as TradeFilters["direction"] })}
+      >
+        <SelectTrigger className="h-9 w-28" data-testid="select-filter-direction">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_FILTER_VALUE}>Long & short</SelectItem>
+          <SelectItem value="long">Long</SelectItem>
+          <SelectItem value="short">Short</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.status ?? ALL_FILTER_VALUE}
+        onValueChange={(value) => onChange({ status: fromSelect(value) as TradeFilters["status"] })}
+      >
+        <SelectTrigger className="h-9 w-28" data-testid="select-filter-status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_FILTER_VALUE}>Open & closed</SelectItem>
+          <SelectItem value="open">Open</SelectItem>
+          <SelectItem value="closed">Closed</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.outcome ?? ALL_FILTER_VALUE}
+        onValueChange={(value) => onChange({ outcome: fromSelect(value) as TradeFilters["outcome"] })}
+      >
+        <SelectTrigger className="h-9 w-28" data-testid="select-filter-outcome">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_FILTER_VALUE}>Wins & losses</SelectItem>
+          <SelectItem value="win">Wins</SelectItem>
+          <SelectItem value="loss">Losses</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select
+        value={filters.collateralToken ?? ALL_FILTER_VALUE}
+        onValueChange={(value) => onChange({ collateralToken: fromSelect(value) })}
+      >
+        <SelectTrigger className="h-9 w-32" data-testid="select-filter-token">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_FILTER_VALUE}>All collateral</SelectItem>
+          {options?.collateralTokens.map((token) => (
+            <SelectItem key={token} value={token}>
+              {token}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-1">
+        <DebouncedInput
+          type="number"
+          min={1}
+          value={filters.minLeverage?.toString() ?? ""}
+          onCommit={(value) => onChange({ minLeverage: toLeverage(value) })}
+          placeholder="Min lev."
+          className="h-9 w-24"
+          data-testid="input-filter-min-leverage"
+        />
+        <span className="text-muted-foreground">-</span>
+        <DebouncedInput
+          type="number"
+          min={1}
+          value={filters.maxLeverage?.toString() ?? ""}
+          onCommit={(value) => onChange({ maxLeverage: toLeverage(value) })}
+          placeholder="Max lev."
+          className="h-9 w-24"
+          data-testid="input-filter-max-leverage"
+        />
+      </div>
+      <div className="flex items-center gap-1" title="Trade time (close time for closed trades), UTC days">
+        <Input
+          type="date"
+          value={filters.from ?? ""}
+          onChange={(e) => onChange({ from: e.target.value || undefined })}
+          className="h-9 w-36"
+          data-testid="input-filter-from"
+        />
+        <span className="text-muted-foreground">-</span>
+        <Input
+          type="date"
+          value={filters.to ?? ""}
+          onChange={(e) => onChange({ to: e.target.value || undefined })}
+          className="h-9 w-36"
+          data-testid="input-filter-to"
+        />
+      </div>
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={onReset} data-testid="button-clear-trade-filters">
+          <X className="h-4 w-4 mr-1" />
+          Clear filters ({activeCount})
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useRef, useMemo, useEffect, useCallback, memo } from "react";
+import {
+  TrendingUp,
+  TrendingDown,
+  Activity,
+  Loader2,
+  ChevronDown,
+  ChevronUp,
+  Share2,
+  FileSearch,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TableCell, TableHead, TableRow } from "@/components/ui/table";
+import { VirtualTable } from "@/components/virtual-table";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { formatShortDateTime, formatSignedPct, formatWallet } from "@/lib/format";
+import type { FeeSource, NibiPrices, SortOrder, Trade, TradeSortKey } from "@shared/schema";
+import { denominate, formatDenominated, type Denomination, type DenominatedAmount } from "@shared/denomination";
+
+const FEE_SOURCE_LABELS: Record<FeeSource, string> = {
+  receipt: "RPC",
+  keeper: "Keeper",
+  both: "✓",
+};
+
+function feeSourceTitle(trade: Trade): string {
+  if (trade.feeMismatch) {
+    return "Receipt and Sai Keeper fees disagree - showing the receipt value";
+  }
+  if (trade.feeSource === "both") return "Receipt and Sai Keeper fees agree";
+  if (trade.feeSource === "keeper") return "From Sai Keeper fee transactions (receipt unavailable)";
+  return "From the transaction receipt";
+}
+
+function SortableHead({
+  label,
+  sortKey,
+  sort,
+  order,
+  onSort,
+  alignRight,
+}: {
+  label: string;
+  sortKey: TradeSortKey;
+  sort?: TradeSortKey;
+  order?: SortOrder;
+  onSort?: (key: TradeSortKey) => void;
+  alignRight?: boolean;
+}) {
+  return (
+    <TableHead className={alignRight ? "text-right" : undefined}>
+      {onSort ? (
+        <button
+          type="button"
+          onClick={() => onSort(sortKey)}
+          className="inline-flex items-center gap-1 hover:text-foreground"
+          data-testid={`sort-trades-${sortKey}`}
+        >
+          {label}
+          {sort === sortKey && (order === "asc" ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />)}
+        </button>
+      ) : (
+        label
+      )}
+    </TableHead>
+  );
+}
+
+// A trade row's display values, computed once per trade and denomination instead of on every render
+interface TradeRowData {
+  trade: Trade;
+  collateral: DenominatedAmount | null;
+  pnl: DenominatedAmount | null;
+  received: DenominatedAmount | null;
+  fees: DenominatedAmount | null;
+  profitPct: string;
+  openedAt: string;
+  closedAt: string;
+}
+
+const TradeRow = memo(function TradeRow({
+  row,
+  onShare,
+  hideValues,
+  showWallet,
+  network,
+}: {
+  row: TradeRowData;
+  onShare?: (trade: Trade) => void;
+  hideValues?: boolean;
+  showWallet?: boolean;
+  network?: string;
+}) {
+  const { trade, collateral, pnl, received, fees } = row;
+
+  return (
+    <TableRow data-testid={`row-trade-${trade.txHash.slice(0, 8)}`}>
+      <TableCell>
+        {onShare && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onShare(trade)}
+            data-testid={`button-share-trade-${trade.txHash.slice(0, 8)}`}
+          >
+            <Share2 className="h-4 w-4" />
+          </Button>
+        )}
+        {network && trade.tradeIndex && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+            <a
+              href={`/trade/${network}/${trade.tradeIndex}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              title="Trade details"
+              data-testid={`link-trade-detail-${trade.tradeIndex}`}
+            >
+              <FileSearch className="h-4 w-4" />
+            </a>
+          </Button>
+        )}
+      </TableCell>
+      {showWallet && (
+        <TableCell className="font-mono text-xs text-muted-foreground">
+          {hideValues ? "••••••" : formatWallet(trade.wallet)}
+        </TableCell>
+      )}
+      <TableCell className="font-medium">{trade.pair || "-"}</TableCell>
+      <TableCell>
+        {trade.direction && (
+          <Badge
+            variant="outline"
+            className={
+              trade.direction === "long"
+                ? "border-emerald-500/50 text-emerald-500"
+                : "border-red-500/50 text-red-500"
+            }
+          >
+            {trade.direction === "long" ? (
+              <TrendingUp className="h-3 w-3 mr-1" />
+            ) : (
+              <TrendingDown className="h-3 w-3 mr-1" />
+            )}
+            {trade.direction.toUpperCase()}
+          </Badge>
+        )}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm">
+        {trade.leverage ? `${trade.leverage}x` : "-"}
+      </TableCell>
+      <TableCell className="text-right font-mono">
+        {trade.openPrice ? `$${trade.openPrice.toLocaleString()}` : "-"}
+      </TableCell>
+      <TableCell className="text-right font-mono">
+        {trade.closePrice
+          ? `$${trade.closePrice.toLocaleString()}`
+          : "-"}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm">
+        {hideValues
+          ? "•••••"
+          : collateral
+            ? formatDenominated(collateral)
+            : "-"}
+      </TableCell>
+      <TableCell className="text-right">
+        {pnl ? (
+          <span
+            className={`font-semibold ${
+              pnl.value >= 0 ? "text-emerald-500" : "text-red-500"
+            }`}
+          >
+            {hideValues ? (
+              <span className="text-muted-foreground">•••••</span>
+            ) : (
+              formatDenominated(pnl, { signed: true })
+            )}
+            <span className="text-xs ml-1">({row.profitPct})</span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        )}
+      </TableCell>
+      <TableCell className="text-right font-mono text-sm">
+        {hideValues
+          ? "•••••"
+          : received
+            ? formatDenominated(received)
+            : "-"}
+      </TableCell>
+      <TableCell
+        className="text-right font-mono text-sm"
+        title={trade.feeSource ? feeSourceTitle(trade) : undefined}
+      >
+        {fees ? (
+          <>
+            {hideValues ? "•••••" : formatDenominated(fees)}
+            {trade.feeSource && (
+              <span
+                className={`text-xs ml-1 ${
+                  trade.feeMismatch ? "text-amber-500" : "text-muted-foreground"
+                }`}
+              >
+                {trade.feeMismatch ? "⚠" : FEE_SOURCE_LABELS[trade.feeSource]}
+              </span>
+            )}
+          </>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        )}
+      </TableCell>
+      <TableCell className="text-sm text-muted-foreground">{row.openedAt}</TableCell>
+      <TableCell className="text-sm text-muted-foreground">{row.closedAt}</TableCell>
+    </TableRow>
+  );
+});
+
+const TRADE_ROW_HEIGHT = 65;
+
+export function TradesTable({
+  trades,
+  loading,
+  onShare,
+  hideValues,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  showWallet,
+  network,
+  denomination = "usd",
+  nibiPrices,
+  sort,
+  order,
+  onSort,
+  filtered,
+}: {
+  trades: Trade[];
+  loading: boolean;
+  onShare?: (trade: Trade) => void;
+  hideValues?: boolean;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  showWallet?: boolean;
+  // Links each row to its detail page when set
+  network?: string;
+  denomination?: Denomination;
+  nibiPrices?: NibiPrices;
+  sort?: TradeSortKey;
+  order?: SortOrder;
+  onSort?: (key: TradeSortKey) => void;
+  // Whether trade filters are applied, for the empty state
+  filtered?: boolean;
+}) {
+  const rows = useMemo(
+    () =>
+      trades.map((trade): TradeRowData => {
+        const amount = (usd: number | undefined, native: number | undefined) =>
+          denominate(usd, native, trade.collateralToken, denomination, nibiPrices);
+        return {
+          trade,
+          collateral: amount(trade.collateral || undefined, trade.native?.collateral),
+          pnl: amount(trade.pnlAmount, trade.native?.pnlAmount),
+          received: amount(trade.amountReceived, trade.native?.amountReceived),
+          fees: amount(trade.totalFees, trade.native?.totalFees),
+          profitPct: formatSignedPct(trade.profitPct),
+          openedAt: formatShortDateTime(trade.openTimestamp),
+          closedAt: formatShortDateTime(trade.closeTimestamp),
+        };
+      }),
+    [trades, denomination, nibiPrices],
+  );
+  const virtual = useVirtualRows(rows.length, TRADE_ROW_HEIGHT);
+
+  // Stable callbacks, so the memoized rows don't re-render when the parent does
+  const onShareRef = useRef(onShare);
+  onShareRef.current = onShare;
+  const share = useCallback((trade: Trade) => onShareRef.current?.(trade), []);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  // Scrolling to the bottom loads the next page
+  useEffect(() => {
+    if (virtual.atEnd && hasMore && !loadingMore) onLoadMoreRef.current?.();
+  }, [virtual.atEnd, hasMore, loadingMore]);
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(5)].map((_, i) => (
+          <Skeleton key={i} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (trades.length === 0 && !hasMore) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+        <Activity className="h-12 w-12 mb-4 opacity-50" />
+        {filtered ? (
+          <p className="text-lg">No trades match these filters</p>
+        ) : (
+          <>
+            <p className="text-lg">No trades found for this address</p>
+            <p className="text-sm">Try a different address or check back later</p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <VirtualTable
+        virtual={virtual}
+        header={
+          <TableRow>
+            <TableHead></TableHead>
+            {showWallet && <TableHead>Wallet</TableHead>}
+            <SortableHead label="Pair" sortKey="pair" sort={sort} order={order} onSort={onSort} />
+            <SortableHead label="Direction" sortKey="direction" sort={sort} order={order} onSort={onSort} />
+            <SortableHead label="Leverage" sortKey="leverage" sort={sort} order={order} onSort={onSort} alignRight />
+            <TableHead className="text-right">Entry Price</TableHead>
+            <TableHead className="text-right">Exit Price</TableHead>
+            <SortableHead label="Collateral" sortKey="collateral" sort={sort} order={order} onSort={onSort} alignRight />
+            <SortableHead label="PnL" sortKey="pnl" sort={sort} order={order} onSort={onSort} alignRight />
+            <SortableHead label="Returned" sortKey="received" sort={sort} order={order} onSort={onSort} alignRight />
+            <SortableHead label="Fees" sortKey="fees" sort={sort} order={order} onSort={onSort} alignRight />
+            <SortableHead label="Time Opened" sortKey="opened" sort={sort} order={order} onSort={onSort} />
+            <SortableHead label="Time Closed" sortKey="time" sort={sort} order={order} onSort={onSort} />
+          </TableRow>
+        }
+      >
+        {rows.slice(virtual.start, virtual.end).map((row) => (
+          <TradeRow
+            key={row.trade.txHash}
+            row={row}
+            onShare={onShare ? share : undefined}
+            hideValues={hideValues}
+            showWallet={showWallet}
+            network={network}
+          />
+        ))}
+      </VirtualTable>
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center pt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            data-testid="button-load-more-trades"
+          >
+            {loadingMore && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,16 @@ import { cn } from "@/lib/utils"
 
 const Table = React.forwardRef<
   HTMLTableElement,
-  React.HTMLAttributes<HTMLTableElement>
->(({ className, ...props }, ref) => (
-  <div className="relative w-full overflow-auto">
+  React.HTMLAttributes<HTMLTableElement> & {
+    // The wrapper is the scroll container, e.g. for sticky headers or virtualized rows
+    containerRef?: React.Ref<HTMLDivElement>
+    containerClassName?: string
+  }
+>(({ className, containerRef, containerClassName, ...props }, ref) => (
+  <div
+    ref={containerRef}
+    className={cn("relative w-full overflow-auto", containerClassName)}
+  >
     <table
       ref={ref}
       className={cn("w-full caption-bottom text-sm", className)}
@@ -0,0 +1,229 @@
+import { useRef, useMemo, useCallback, memo } from "react";
+import { Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TableCell, TableHead, TableRow } from "@/components/ui/table";
+import { VirtualTable } from "@/components/virtual-table";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { formatWallet } from "@/lib/format";
+import type { NibiPrices, VaultPosition } from "@shared/schema";
+import { denominate, formatDenominated, type Denomination, type DenominatedAmount } from "@shared/denomination";
+
+interface VaultRowData {
+  key: string;
+  index: number;
+  position: VaultPosition;
+  depositAmount: DenominatedAmount;
+  currentValue: DenominatedAmount;
+  earnings: DenominatedAmount;
+  depositDate: string;
+}
+
+const VaultRow = memo(function VaultRow({
+  row,
+  onShare,
+  hideValues,
+  showWallet,
+}: {
+  row: VaultRowData;
+  onShare: (position: VaultPosition) => void;
+  hideValues?: boolean;
+  showWallet?: boolean;
+}) {
+  const { index, position, depositAmount, currentValue, earnings } = row;
+
+  return (
+    <TableRow
+      data-testid={`vault-row-${index}`}
+      className={
+        position.action === "withdraw"
+          ? "opacity-70"
+          : ""
+      }
+    >
+      <TableCell>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onShare(position)}
+          data-testid={`button-share-vault-${index}`}
+        >
+          <Share2 className="h-4 w-4" />
+        </Button>
+      </TableCell>
+      {showWallet && (
+        <TableCell className="font-mono text-xs text-muted-foreground">
+          {hideValues ? "••••••" : formatWallet(position.wallet)}
+        </TableCell>
+      )}
+      <TableCell>
+        <Badge
+          variant={
+            position.action === "deposit"
+              ? "default"
+              : "secondary"
+          }
+          className={`font-mono text-xs ${position.action === "withdraw" ? "bg-orange-500/20 text-orange-400" : "bg-green-500/20 text-green-400"}`}
+        >
+          {position.action === "deposit"
+            ? "Deposit"
+            : "Withdraw"}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        <Badge
+          variant="outline"
+          className="font-mono"
+        >
+          SLP-{position.vaultSymbol}
+        </Badge>
+      </TableCell>
+      <TableCell className="font-mono">
+        {position.action === "withdraw" ? "-" : ""}
+        {formatDenominated(depositAmount, {
+          digits: depositAmount.value < 1 ? 4 : 2,
+        })}
+      </TableCell>
+      <TableCell className="font-mono text-muted-foreground">
+        {position.action === "withdraw" ? "-" : ""}
+        {position.shares < 1
+          ? position.shares.toFixed(4)
+          : position.shares.toFixed(2)}
+      </TableCell>
+      <TableCell className="font-mono">
+        {position.action === "withdraw" ? (
+          <span className="text-muted-foreground">
+            -
+          </span>
+        ) : (
+          formatDenominated(currentValue, {
+            digits: currentValue.value < 1 ? 4 : 2,
+          })
+        )}
+      </TableCell>
+      <TableCell>
+        {position.action === "withdraw" ? (
+          <span className="text-muted-foreground text-xs">
+            Realized
+          </span>
+        ) : (
+          <span
+            className={`font-mono ${earnings.value >= 0 ? "text-green-500" : "text-red-500"}`}
+          >
+            {formatDenominated(earnings, {
+              signed: true,
+              digits:
+                Math.abs(earnings.value) < 0.01 ? 6 : 4,
+            })}
+            <span className="text-xs text-muted-foreground ml-1">
+              (
+              {position.earningsPercent >= 0
+                ? "+"
+                : ""}
+              {position.earningsPercent.toFixed(2)}
+              %)
+            </span>
+          </span>
+        )}
+      </TableCell>
+      <TableCell>
+        <span className="font-mono text-primary">
+          {position.apy.toFixed(2)}%
+        </span>
+      </TableCell>
+      <TableCell className="text-muted-foreground text-sm">{row.depositDate}</TableCell>
+      <TableCell>
+        {position.evmTxHash && (
+          <a
+            href={`https://nibiscan.io/tx/${position.evmTxHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline font-mono text-xs"
+            data-testid={`vault-tx-link-${index}`}
+          >
+            {position.evmTxHash.slice(0, 8)}...
+          </a>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+});
+
+const VAULT_ROW_HEIGHT = 65;
+
+export function VaultPositionsTable({
+  positions,
+  onShare,
+  hideValues,
+  showWallet,
+  denomination,
+  nibiPrices,
+}: {
+  positions: VaultPosition[];
+  onShare: (position: VaultPosition) => void;
+  hideValues?: boolean;
+  showWallet?: boolean;
+  denomination: Denomination;
+  nibiPrices?: NibiPrices;
+}) {
+  const rows = useMemo(
+    () =>
+      positions.map((position, index): VaultRowData => {
+        // Vault entries are in their own token with USD amounts alongside
+        const amount = (field: "depositAmount" | "currentValue" | "earnings") =>
+          denominate(position.usd[field], position[field], position.vaultSymbol, denomination, nibiPrices)!;
+        return {
+          key: `${position.vaultSymbol}-${index}`,
+          index,
+          position,
+          depositAmount: amount("depositAmount"),
+          currentValue: amount("currentValue"),
+          earnings: amount("earnings"),
+          depositDate: position.depositDate
+            ? new Date(position.depositDate).toLocaleDateString()
+            : "-",
+        };
+      }),
+    [positions, denomination, nibiPrices],
+  );
+  const virtual = useVirtualRows(rows.length, VAULT_ROW_HEIGHT);
+
+  const onShareRef = useRef(onShare);
+  onShareRef.current = onShare;
+  const share = useCallback(
+    (position: VaultPosition) => onShareRef.current(position),
+    [],
+  );
+
+  return (
+    <VirtualTable
+      virtual={virtual}
+      header={
+        <TableRow>
+          <TableHead></TableHead>
+          {showWallet && <TableHead>Wallet</TableHead>}
+          <TableHead>Type</TableHead>
+          <TableHead>Vault</TableHead>
+          <TableHead>Amount</TableHead>
+          <TableHead>LP Tokens</TableHead>
+          <TableHead>Current Value</TableHead>
+          <TableHead>Earnings</TableHead>
+          <TableHead>APY</TableHead>
+          <TableHead>Deposit Date</TableHead>
+          <TableHead>Tx</TableHead>
+        </TableRow>
+      }
+    >
+      {rows.slice(virtual.start, virtual.end).map((row) => (
+        <VaultRow
+          key={row.key}
+          row={row}
+          onShare={share}
+          hideValues={hideValues}
+          showWallet={showWallet}
+        />
+      ))}
+    </VirtualTable>
+  );
+}
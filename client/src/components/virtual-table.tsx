@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+import {
+  Table,
+  TableBody,
+  TableHeader,
+} from "@/components/ui/table";
+import type { VirtualRows } from "@/hooks/use-virtual-rows";
+
+// A table whose body is windowed by useVirtualRows: it scrolls inside a fixed-height area under a sticky header,
+// and spacer rows stand in for the rows that aren't mounted. `children` are the rows from start to end
+export function VirtualTable({
+  virtual,
+  header,
+  children,
+}: {
+  virtual: VirtualRows<HTMLDivElement>;
+  header: ReactNode;
+  children: ReactNode;
+}) {
+  return (
+    <Table containerRef={virtual.containerRef} containerClassName="max-h-[70vh]">
+      <TableHeader className="sticky top-0 z-10 bg-card">{header}</TableHeader>
+      <TableBody ref={virtual.bodyRef}>
+        {virtual.paddingTop > 0 && <tr style={{ height: virtual.paddingTop }} />}
+        {children}
+        {virtual.paddingBottom > 0 && <tr style={{ height: virtual.paddingBottom }} />}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { VolumeGranularity, VolumeHistoryResponse } from "@shared/schema";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { formatCompactUsd } from "@/lib/format";
+
+const VOLUME_GRANULARITY_LABELS: Record<VolumeGranularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const VOLUME_SERIES_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+];
+
+export function VolumeChart({ network }: { network: string }) {
+  const [granularity, setGranularity] = useState<VolumeGranularity>("week");
+
+  const { data, isLoading } = useQuery<VolumeHistoryResponse>({
+    queryKey: ["/api/protocol-stats/volume/history", network, granularity],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/protocol-stats/volume/history?network=${network}&granularity=${granularity}`,
+      );
+      if (!res.ok) throw new Error("Failed to fetch volume history");
+      return res.json();
+    },
+  });
+
+  // Stack each period by collateral token
+  const collaterals = data?.byCollateral.map((entry) => entry.key) || [];
+  const chartConfig: ChartConfig = Object.fromEntries(
+    collaterals.map((symbol, index) => [
+      symbol,
+      { label: symbol, color: VOLUME_SERIES_COLORS[index % VOLUME_SERIES_COLORS.length] },
+    ]),
+  );
+  const chartData = (data?.series || []).map((period) => ({
+    period: period.period,
+    ...period.byCollateral,
+  }));
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle>Protocol Volume</CardTitle>
+          <CardDescription>
+            {data
+              ? `${formatCompactUsd(data.totalVolume)} across ${data.tradeCount.toLocaleString()} trades`
+              : "Trading volume by period and collateral token"}
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(VOLUME_GRANULARITY_LABELS) as VolumeGranularity[]).map((option) => (
+            <Button
+              key={option}
+              variant={granularity === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setGranularity(option)}
+              data-testid={`button-volume-${option}`}
+            >
+              {VOLUME_GRANULARITY_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : chartData.length > 0 ? (
+          <>
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="period" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={60}
+                  tickFormatter={(value: number) => formatCompactUsd(value)}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {collaterals.map((symbol) => (
+                  <Bar key={symbol} dataKey={symbol} stackId="volume" fill={`var(--color-${symbol})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+            {data && data.byMarket.length > 0 && (
+              <div className="mt-4 flex flex-wrap gap-2">
+                {data.byMarket.slice(0, 8).map((entry) => (
+                  <Badge key={entry.key} variant="secondary" className="font-mono">
+                    {entry.key}: {formatCompactUsd(entry.volume)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            Volume history is still being indexed
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+import * as React from "react"
+
+// An alert subscription created from this browser; its id is the only handle the server gives out
+export interface SavedAlert {
+  id: string
+  network: string
+  // Lowercase 0x form
+  address: string
+}
+
+const STORAGE_KEY = "sai-pnl:alerts"
+
+function loadAlerts(): SavedAlert[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export function useAlerts() {
+  const [alerts, setAlerts] = React.useState<SavedAlert[]>(loadAlerts)
+
+  React.useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(alerts))
+  }, [alerts])
+
+  const addAlert = React.useCallback((alert: SavedAlert) => {
+    setAlerts((current) => [...current.filter((a) => a.id !== alert.id), alert])
+  }, [])
+
+  const removeAlert = React.useCallback((id: string) => {
+    setAlerts((current) => current.filter((a) => a.id !== id))
+  }, [])
+
+  return { alerts, addAlert, removeAlert }
+}
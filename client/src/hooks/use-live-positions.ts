@@ -0,0 +1,80 @@
+import * as React from "react"
+import type { LivePositionsMessage, OpenPositionsResponse } from "@shared/schema"
+
+const LIVE_POSITIONS_PATH = "/ws/positions"
+const RECONNECT_DELAY_MS = 5000
+
+export type LiveStatus = "connecting" | "live" | "offline"
+
+export interface LivePositionsQuery {
+  address: string
+  network: string
+  wallet?: string | null
+}
+
+// Subscribes to server-pushed position updates while a query is given; reconnects after drops
+export function useLivePositions(
+  query: LivePositionsQuery | null,
+  onPositions: (data: OpenPositionsResponse) => void
+) {
+  const [status, setStatus] = React.useState<LiveStatus>("offline")
+  const [updatedAt, setUpdatedAt] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const onPositionsRef = React.useRef(onPositions)
+  onPositionsRef.current = onPositions
+
+  const search = query
+    ? new URLSearchParams({
+        address: query.address,
+        network: query.network,
+        ...(query.wallet ? { wallet: query.wallet } : {}),
+      }).toString()
+    : null
+
+  React.useEffect(() => {
+    if (!search) {
+      setStatus("offline")
+      return
+    }
+
+    let socket: WebSocket | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+    let stopped = false
+
+    const connect = () => {
+      setStatus("connecting")
+      const protocol = window.location.protocol === "https:" ? "wss" : "ws"
+      socket = new WebSocket(`${protocol}://${window.location.host}${LIVE_POSITIONS_PATH}?${search}`)
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as LivePositionsMessage
+        if (message.type === "positions") {
+          setStatus("live")
+          setUpdatedAt(message.updatedAt)
+          setError(null)
+          onPositionsRef.current(message.data)
+        } else {
+          setError(message.error)
+        }
+      }
+
+      socket.onclose = (event) => {
+        if (stopped) return
+        setStatus("offline")
+        // An invalid query will not become valid by retrying
+        if (event.code !== 1008) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS)
+        }
+      }
+    }
+
+    connect()
+    return () => {
+      stopped = true
+      clearTimeout(reconnectTimer)
+      socket?.close()
+    }
+  }, [search])
+
+  return { status, updatedAt, error }
+}
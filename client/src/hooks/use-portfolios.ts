@@ -0,0 +1,43 @@
+import * as React from "react"
+
+// A named group of wallets; addresses are stored in their lowercase 0x form
+export interface Portfolio {
+  id: string
+  name: string
+  addresses: string[]
+}
+
+const STORAGE_KEY = "sai-pnl:portfolios"
+
+function loadPortfolios(): Portfolio[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+// Portfolios live in this browser only; nothing is sent to the server until one is opened
+export function usePortfolios() {
+  const [portfolios, setPortfolios] = React.useState<Portfolio[]>(loadPortfolios)
+
+  React.useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(portfolios))
+  }, [portfolios])
+
+  const savePortfolio = React.useCallback((portfolio: Portfolio) => {
+    setPortfolios((current) => {
+      const index = current.findIndex((p) => p.id === portfolio.id)
+      if (index === -1) return [...current, portfolio]
+      return current.map((p) => (p.id === portfolio.id ? portfolio : p))
+    })
+  }, [])
+
+  const deletePortfolio = React.useCallback((id: string) => {
+    setPortfolios((current) => current.filter((p) => p.id !== id))
+  }, [])
+
+  return { portfolios, savePortfolio, deletePortfolio }
+}
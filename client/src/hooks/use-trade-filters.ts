@@ -0,0 +1,62 @@
+import * as React from "react"
+import { useLocation, useSearch } from "wouter"
+import { tradeFiltersSchema, type TradeFilters } from "@shared/schema"
+
+type TradeFilterKey = keyof TradeFilters
+
+const TRADE_FILTER_KEYS = Object.keys(tradeFiltersSchema.shape) as TradeFilterKey[]
+// Everything but the sort order
+const FILTER_ONLY_KEYS = TRADE_FILTER_KEYS.filter((key) => key !== "sort" && key !== "order")
+const DEFAULT_TRADE_FILTERS = tradeFiltersSchema.parse({})
+
+// Each parameter is read on its own, so one bad value in a shared link doesn't drop the others
+export function parseTradeFilters(search: string): TradeFilters {
+  const params = new URLSearchParams(search)
+  const filters: Record<string, unknown> = { ...DEFAULT_TRADE_FILTERS }
+  for (const key of TRADE_FILTER_KEYS) {
+    const value = params.get(key)
+    if (!value) continue
+    const parsed = tradeFiltersSchema.shape[key].safeParse(value)
+    if (parsed.success) filters[key] = parsed.data
+  }
+  return filters as TradeFilters
+}
+
+// Query parameters for /api/trades and the page URL; defaults are left out
+export function tradeFilterParams(filters: TradeFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const key of TRADE_FILTER_KEYS) {
+    const value = filters[key]
+    if (value !== undefined && value !== "" && value !== DEFAULT_TRADE_FILTERS[key]) {
+      params.set(key, String(value))
+    }
+  }
+  return params
+}
+
+// Trade History filters and sort order, kept in the URL so a filtered view survives reloads and can be shared
+export function useTradeFilters() {
+  const search = useSearch()
+  const [location, navigate] = useLocation()
+  const filters = React.useMemo(() => parseTradeFilters(search), [search])
+
+  const setFilters = React.useCallback(
+    (update: Partial<TradeFilters>) => {
+      // Other parameters in the URL are left alone
+      const params = new URLSearchParams(search)
+      for (const key of TRADE_FILTER_KEYS) params.delete(key)
+      tradeFilterParams({ ...filters, ...update }).forEach((value, key) => params.set(key, value))
+      const query = params.toString()
+      navigate(query ? `${location}?${query}` : location, { replace: true })
+    },
+    [search, filters, location, navigate]
+  )
+
+  const resetFilters = React.useCallback(() => {
+    setFilters(Object.fromEntries(FILTER_ONLY_KEYS.map((key) => [key, undefined])))
+  }, [setFilters])
+
+  const activeFilterCount = FILTER_ONLY_KEYS.filter((key) => filters[key] !== undefined).length
+
+  return { filters, setFilters, resetFilters, activeFilterCount }
+}
@@ -0,0 +1,73 @@
+import * as React from "react"
+
+const DEFAULT_OVERSCAN = 8
+
+export interface VirtualRows<TContainer extends HTMLElement> {
+  // Attach to the scroll container and to the tbody holding the rows
+  containerRef: (element: TContainer | null) => void
+  bodyRef: (element: HTMLTableSectionElement | null) => void
+  // Rows [start, end) are rendered; spacer rows of these heights stand in for the rest
+  start: number
+  end: number
+  paddingTop: number
+  paddingBottom: number
+  // Whether the last rendered row is the last row and the container has been scrolled
+  atEnd: boolean
+}
+
+// Windowed table rendering: only the rows in or near the container's viewport are mounted. Row heights start at
+// the estimate and are then measured from the rendered rows, so they only need to be roughly uniform
+export function useVirtualRows<TContainer extends HTMLElement = HTMLDivElement>(
+  count: number,
+  estimatedRowHeight: number,
+  overscan = DEFAULT_OVERSCAN
+): VirtualRows<TContainer> {
+  const [container, setContainer] = React.useState<TContainer | null>(null)
+  const [body, setBody] = React.useState<HTMLTableSectionElement | null>(null)
+  const [viewport, setViewport] = React.useState({ scrollTop: 0, height: 0 })
+  const [rowHeight, setRowHeight] = React.useState(estimatedRowHeight)
+
+  React.useEffect(() => {
+    if (!container) return
+    // One state update per frame, however often scroll fires
+    let frame = 0
+    const update = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() =>
+        setViewport({ scrollTop: container.scrollTop, height: container.clientHeight })
+      )
+    }
+    update()
+    container.addEventListener("scroll", update, { passive: true })
+    const observer = new ResizeObserver(update)
+    observer.observe(container)
+    return () => {
+      cancelAnimationFrame(frame)
+      container.removeEventListener("scroll", update)
+      observer.disconnect()
+    }
+  }, [container])
+
+  // Before the first measurement, render one screenful
+  const viewportHeight = viewport.height || window.innerHeight
+  const start = Math.min(count, Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - overscan))
+  const end = Math.min(count, Math.ceil((viewport.scrollTop + viewportHeight) / rowHeight) + overscan)
+  const paddingTop = start * rowHeight
+  const paddingBottom = (count - end) * rowHeight
+
+  React.useLayoutEffect(() => {
+    if (!body || end <= start) return
+    const measured = (body.offsetHeight - paddingTop - paddingBottom) / (end - start)
+    if (measured > 0 && Math.abs(measured - rowHeight) > 1) setRowHeight(measured)
+  }, [body, start, end, paddingTop, paddingBottom, rowHeight])
+
+  return {
+    containerRef: setContainer,
+    bodyRef: setBody,
+    start,
+    end,
+    paddingTop,
+    paddingBottom,
+    atEnd: end === count && viewport.scrollTop > 0,
+  }
+}
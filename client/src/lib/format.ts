@@ -0,0 +1,24 @@
+// Display formatting shared by the dashboard, its tables and charts
+
+export function formatWallet(address: string | undefined): string {
+  return address ? `${address.slice(0, 6)}...${address.slice(-4)}` : "-";
+}
+
+export function formatShortDateTime(timestamp: string | undefined): string {
+  return timestamp
+    ? new Date(timestamp).toLocaleString(undefined, {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "-";
+}
+
+export function formatSignedPct(value: number | undefined): string {
+  return value !== undefined ? `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%` : "-";
+}
+
+export function formatCompactUsd(value: number): string {
+  return `$${value.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 1 })}`;
+}
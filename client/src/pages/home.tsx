@@ -1,5 +1,5 @@
-import { useState, useRef } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useRef, useMemo, type ReactNode } from "react";
+import { useQuery, useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -11,14 +11,15 @@ import {
   Loader2,
   Wallet,
   ChevronDown,
-  Target,
-  ShieldAlert,
   Link2,
   Share2,
   Eye,
   EyeOff,
   Download,
   Twitter,
+  Users,
+  Bell,
+  X,
 } from "lucide-react";
 import html2canvas from "html2canvas";
 import { SHARE_MESSAGES, SHARE_URL } from "@/config/shareMessages";
@@ -109,14 +110,6 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
 import {
   Form,
   FormControl,
@@ -146,16 +139,87 @@ import type {
   GlobalStatsResponse,
   VaultPositionsResponse,
   VaultPosition,
+  NetworksResponse,
+  TraderStatsResponse,
+  TraderStats,
+  TradeSortKey,
 } from "@shared/schema";
+import { parseAddress, evmToBech32 } from "@shared/address";
+import { usePortfolios, type Portfolio } from "@/hooks/use-portfolios";
+import { useLivePositions } from "@/hooks/use-live-positions";
+import { useTradeFilters, tradeFilterParams } from "@/hooks/use-trade-filters";
+import { TradesTable } from "@/components/trades-table";
+import { OpenPositionsTable } from "@/components/open-positions-table";
+import { VaultPositionsTable } from "@/components/vault-positions-table";
+import { TradeFiltersBar } from "@/components/trade-filters-bar";
+import { PortfolioDialog } from "@/components/portfolio-dialog";
+import { PortfolioBreakdown } from "@/components/portfolio-breakdown";
+import { AlertsDialog } from "@/components/alerts-dialog";
+import { VolumeChart } from "@/components/volume-chart";
+import { PnlCalendar, type DayFilter } from "@/components/pnl-calendar";
+import { MarketBreakdown } from "@/components/market-breakdown";
+import { EquityChart } from "@/components/equity-chart";
+import { TaxReport } from "@/components/tax-report";
+import { formatWallet } from "@/lib/format";
+import {
+  denominateTotal,
+  denominations,
+  formatDenominated,
+  DENOMINATION_LABELS,
+  type Denomination,
+} from "@shared/denomination";
+
+// Accepts either the 0x or the bech32 form for the selected network's prefix
+function makeAddressSchema(prefix: string) {
+  return z.object({
+    address: z.string().superRefine((value, ctx) => {
+      const parsed = parseAddress(value, prefix);
+      if (!parsed.ok) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.error });
+      }
+    }),
+  });
+}
+
+type AddressForm = z.infer<ReturnType<typeof makeAddressSchema>>;
 
-const addressSchema = z.object({
-  address: z
-    .string()
-    .regex(/^0x[a-fA-F0-9]{40}$/i, "Please enter a valid EVM address")
-    .transform((addr) => addr.toLowerCase()),
-});
+function formatSignedUsd(value: number | null): string {
+  if (value === null) return "-";
+  return `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? "-" : value.toFixed(2);
+}
 
-type AddressForm = z.infer<typeof addressSchema>;
+// Profit factor is undefined without losing trades: show ∞ if there were winners
+function formatProfitFactor(stats: TraderStats): string {
+  if (stats.profitFactor !== null) return stats.profitFactor.toFixed(2);
+  return stats.grossProfit > 0 ? "∞" : "-";
+}
+
+function StatTile({
+  label,
+  hint,
+  mono = true,
+  className,
+  children,
+}: {
+  label: string;
+  hint?: string;
+  mono?: boolean;
+  className?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="p-4 rounded-lg bg-muted/50" title={hint}>
+      <p className="text-sm text-muted-foreground mb-1">{label}</p>
+      <p className={`text-xl font-bold ${mono ? "font-mono" : ""} ${className ?? ""}`}>
+        {children}
+      </p>
+    </div>
+  );
+}
 
 function StatsCard({
   title,
@@ -239,364 +303,29 @@ function StatsCard({
   );
 }
 
-function TradesTable({
-  trades,
-  loading,
-  onShare,
-  hideValues,
-}: {
-  trades: Trade[];
-  loading: boolean;
-  onShare?: (trade: Trade) => void;
-  hideValues?: boolean;
-}) {
-  if (loading) {
-    return (
-      <div className="space-y-3">
-        {[...Array(5)].map((_, i) => (
-          <Skeleton key={i} className="h-14 w-full" />
-        ))}
-      </div>
-    );
-  }
-
-  if (trades.length === 0) {
-    return (
-      <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
-        <Activity className="h-12 w-12 mb-4 opacity-50" />
-        <p className="text-lg">No trades found for this address</p>
-        <p className="text-sm">Try a different address or check back later</p>
-      </div>
-    );
-  }
-
-  return (
-    <div className="overflow-x-auto">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead></TableHead>
-            <TableHead>Pair</TableHead>
-            <TableHead>Direction</TableHead>
-            <TableHead className="text-right">Leverage</TableHead>
-            <TableHead className="text-right">Entry Price</TableHead>
-            <TableHead className="text-right">Exit Price</TableHead>
-            <TableHead className="text-right">Collateral</TableHead>
-            <TableHead className="text-right">PnL</TableHead>
-            <TableHead className="text-right">Returned</TableHead>
-            <TableHead className="text-right text-muted-foreground/50">Fees (Coming Soon)</TableHead>
-            <TableHead>Time Opened</TableHead>
-            <TableHead>Time Closed</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {trades.map((trade) => (
-            <TableRow
-              key={trade.txHash}
-              data-testid={`row-trade-${trade.txHash.slice(0, 8)}`}
-            >
-              <TableCell>
-                {onShare && (
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8"
-                    onClick={() => onShare(trade)}
-                    data-testid={`button-share-trade-${trade.txHash.slice(0, 8)}`}
-                  >
-                    <Share2 className="h-4 w-4" />
-                  </Button>
-                )}
-              </TableCell>
-              <TableCell className="font-medium">{trade.pair || "-"}</TableCell>
-              <TableCell>
-                {trade.direction && (
-                  <Badge
-                    variant="outline"
-                    className={
-                      trade.direction === "long"
-                        ? "border-emerald-500/50 text-emerald-500"
-                        : "border-red-500/50 text-red-500"
-                    }
-                  >
-                    {trade.direction === "long" ? (
-                      <TrendingUp className="h-3 w-3 mr-1" />
-                    ) : (
-                      <TrendingDown className="h-3 w-3 mr-1" />
-                    )}
-                    {trade.direction.toUpperCase()}
-                  </Badge>
-                )}
-              </TableCell>
-              <TableCell className="text-right font-mono text-sm">
-                {trade.leverage ? `${trade.leverage}x` : "-"}
-              </TableCell>
-              <TableCell className="text-right font-mono">
-                {trade.openPrice ? `$${trade.openPrice.toLocaleString()}` : "-"}
-              </TableCell>
-              <TableCell className="text-right font-mono">
-                {trade.closePrice
-                  ? `$${trade.closePrice.toLocaleString()}`
-                  : "-"}
-              </TableCell>
-              <TableCell className="text-right font-mono text-sm">
-                {hideValues
-                  ? "•••••"
-                  : trade.collateral
-                    ? `$${trade.collateral.toFixed(2)}`
-                    : "-"}
-              </TableCell>
-              <TableCell className="text-right">
-                {trade.pnlAmount !== undefined ? (
-                  <span
-                    className={`font-semibold ${
-                      trade.pnlAmount >= 0 ? "text-emerald-500" : "text-red-500"
-                    }`}
-                  >
-                    {hideValues ? (
-                      <span className="text-muted-foreground">•••••</span>
-                    ) : (
-                      <>
-                        {trade.pnlAmount >= 0 ? "+" : "-"}$
-                        {Math.abs(trade.pnlAmount).toFixed(2)}
-                      </>
-                    )}
-                    <span className="text-xs ml-1">
-                      (
-                      {trade.profitPct !== undefined
-                        ? `${trade.profitPct >= 0 ? "+" : ""}${(trade.profitPct * 100).toFixed(2)}%`
-                        : "-"}
-                      )
-                    </span>
-                  </span>
-                ) : (
-                  <span className="text-muted-foreground">-</span>
-                )}
-              </TableCell>
-              <TableCell className="text-right font-mono text-sm">
-                {hideValues
-                  ? "•••••"
-                  : trade.amountReceived !== undefined
-                    ? `$${trade.amountReceived.toFixed(2)}`
-                    : "-"}
-              </TableCell>
-              <TableCell className="text-right text-xs text-muted-foreground/50">
-                -
-              </TableCell>
-              <TableCell className="text-sm text-muted-foreground">
-                {trade.openTimestamp
-                  ? new Date(trade.openTimestamp).toLocaleString(undefined, {
-                      month: "short",
-                      day: "numeric",
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })
-                  : "-"}
-              </TableCell>
-              <TableCell className="text-sm text-muted-foreground">
-                {trade.closeTimestamp
-                  ? new Date(trade.closeTimestamp).toLocaleString(undefined, {
-                      month: "short",
-                      day: "numeric",
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })
-                  : "-"}
-              </TableCell>
-            </TableRow>
-          ))}
-        </TableBody>
-      </Table>
-    </div>
-  );
-}
-
-function OpenPositionsTable({
-  positions,
-  isLoading,
-  onShare,
-  hideValues,
-}: {
-  positions: OpenPosition[];
-  isLoading: boolean;
-  onShare?: (position: OpenPosition) => void;
-  hideValues?: boolean;
-}) {
-  if (isLoading) {
-    return (
-      <div className="space-y-2">
-        {[...Array(3)].map((_, i) => (
-          <Skeleton key={i} className="h-12 w-full" />
-        ))}
-      </div>
-    );
-  }
-
-  if (positions.length === 0) {
-    return (
-      <div className="text-center py-8 text-muted-foreground">
-        No open positions found
-      </div>
-    );
-  }
-
-  const formatPrice = (price: number | null | undefined) => {
-    if (price === null || price === undefined) return "-";
-    if (price >= 1000)
-      return `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
-    return `$${price.toFixed(4)}`;
-  };
-
-  return (
-    <div className="overflow-x-auto">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead></TableHead>
-            <TableHead>Pair</TableHead>
-            <TableHead>Direction</TableHead>
-            <TableHead className="text-right">Collateral</TableHead>
-            <TableHead className="text-right">Entry Price</TableHead>
-            <TableHead className="text-right">Mark Price</TableHead>
-            <TableHead className="text-right">Liq. Price</TableHead>
-            <TableHead className="text-right">
-              <div className="flex items-center justify-end gap-1">
-                <ShieldAlert className="h-3 w-3" />
-                Stop Loss
-              </div>
-            </TableHead>
-            <TableHead className="text-right">
-              <div className="flex items-center justify-end gap-1">
-                <Target className="h-3 w-3" />
-                Take Profit
-              </div>
-            </TableHead>
-            <TableHead className="text-right">Unrealized PnL</TableHead>
-            <TableHead className="text-right">Borrowing Fee</TableHead>
-            <TableHead>Opened</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {positions.map((position) => {
-            const pnlColor =
-              (position.unrealizedPnlPct ?? 0) >= 0
-                ? "text-green-500"
-                : "text-red-500";
-
-            const markPrice =
-              position.unrealizedPnlPct !== undefined && position.leverage > 0
-                ? position.direction === "long"
-                  ? position.entryPrice *
-                    (1 + position.unrealizedPnlPct / position.leverage)
-                  : position.entryPrice *
-                    (1 - position.unrealizedPnlPct / position.leverage)
-                : undefined;
-
-            return (
-              <TableRow
-                key={position.tradeId}
-                data-testid={`row-position-${position.tradeId}`}
-              >
-                <TableCell>
-                  {onShare && (
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => onShare(position)}
-                      data-testid={`button-share-position-${position.tradeId}`}
-                    >
-                      <Share2 className="h-4 w-4" />
-                    </Button>
-                  )}
-                </TableCell>
-                <TableCell className="font-medium">{position.pair}</TableCell>
-                <TableCell>
-                  <Badge
-                    variant={
-                      position.direction === "long" ? "default" : "secondary"
-                    }
-                  >
-                    {position.direction.toUpperCase()} {position.leverage}x
-                  </Badge>
-                </TableCell>
-                <TableCell className="text-right font-mono text-sm">
-                  {hideValues ? "•••••" : `$${position.collateral.toFixed(2)}`}
-                </TableCell>
-                <TableCell className="text-right font-mono text-sm">
-                  {formatPrice(position.entryPrice)}
-                </TableCell>
-                <TableCell className="text-right font-mono text-sm">
-                  {formatPrice(markPrice)}
-                </TableCell>
-                <TableCell className="text-right font-mono text-sm text-muted-foreground">
-                  {formatPrice(position.liquidationPrice)}
-                </TableCell>
-                <TableCell className="text-right font-mono text-sm">
-                  {formatPrice(position.stopLoss)}
-                </TableCell>
-                <TableCell className="text-right font-mono text-sm">
-                  {formatPrice(position.takeProfit)}
-                </TableCell>
-                <TableCell
-                  className={`text-right font-mono text-sm ${pnlColor}`}
-                >
-                  {position.unrealizedPnl !== undefined ? (
-                    <>
-                      {hideValues ? (
-                        <span className="text-muted-foreground">•••••</span>
-                      ) : (
-                        <>
-                          {position.unrealizedPnl >= 0 ? "+" : "-"}$
-                          {Math.abs(position.unrealizedPnl).toFixed(2)}
-                        </>
-                      )}
-                      <span className="text-xs ml-1">
-                        (
-                        {position.unrealizedPnlPct !== undefined
-                          ? `${position.unrealizedPnlPct >= 0 ? "+" : ""}${(position.unrealizedPnlPct * 100).toFixed(2)}%`
-                          : "-"}
-                        )
-                      </span>
-                    </>
-                  ) : (
-                    "-"
-                  )}
-                </TableCell>
-                <TableCell className="text-right font-mono text-sm text-muted-foreground">
-                  {hideValues
-                    ? "•••••"
-                    : position.borrowingFee !== undefined
-                      ? `$${position.borrowingFee.toFixed(4)}`
-                      : "-"}
-                </TableCell>
-                <TableCell className="text-sm text-muted-foreground">
-                  {new Date(position.openedAt).toLocaleString(undefined, {
-                    month: "short",
-                    day: "numeric",
-                    hour: "2-digit",
-                    minute: "2-digit",
-                  })}
-                </TableCell>
-              </TableRow>
-            );
-          })}
-        </TableBody>
-      </Table>
-    </div>
-  );
-}
-
-type Network = "mainnet" | "testnet";
-
-const NETWORK_CONFIG = {
-  mainnet: { label: "Mainnet", explorer: "https://nibiscan.io" },
-  testnet: { label: "Testnet", explorer: "https://testnet.nibiscan.io" },
-};
+// Network ids come from the server's registry (/api/networks)
+type Network = string;
 
 export default function Home() {
+  // A single 0x address, or the comma-separated 0x addresses of the open portfolio
   const [searchAddress, setSearchAddress] = useState<string | null>(null);
-  const [network, setNetwork] = useState<Network>("mainnet");
+  const [activePortfolio, setActivePortfolio] = useState<Portfolio | null>(null);
+  const [walletFilter, setWalletFilter] = useState<string | null>(null);
+  const [dayFilter, setDayFilter] = useState<DayFilter | null>(null);
+  const [portfolioDialogOpen, setPortfolioDialogOpen] = useState(false);
+  const [alertsDialogOpen, setAlertsDialogOpen] = useState(false);
+  const { portfolios, savePortfolio, deletePortfolio } = usePortfolios();
+  const walletParam = walletFilter ? `&wallet=${walletFilter}` : "";
+  const [selectedNetwork, setNetwork] = useState<Network | null>(null);
+
+  const { data: networksData } = useQuery<NetworksResponse>({
+    queryKey: ["/api/networks"],
+    staleTime: Infinity,
+  });
+  const networks = networksData?.networks || [];
+  const network = selectedNetwork ?? networksData?.defaultNetwork ?? "mainnet";
+  const currentNetwork = networks.find((n) => n.id === network);
+  const networkLabel = currentNetwork?.name ?? network;
   
   const [activeTab, setActiveTab] = useState<
     "trades" | "positions" | "vaults" | "stats"
@@ -610,6 +339,14 @@ export default function Home() {
     const [statsModalOpen, setStatsModalOpen] = useState(false);
   const [statsImageUrl, setStatsImageUrl] = useState<string | null>(null);
   const [hideStatsAmount, setHideStatsAmount] = useState(false);
+  const [denomination, setDenomination] = useState<Denomination>("usd");
+  const {
+    filters: tradeFilters,
+    setFilters: setTradeFilters,
+    resetFilters: resetTradeFilters,
+    activeFilterCount,
+  } = useTradeFilters();
+  const tradeFilterQuery = tradeFilterParams(tradeFilters).toString();
   const [addressHidden, setAddressHidden] = useState(false);
   const [selectedSticker, setSelectedSticker] = useState<string | null>(null);
   const [baseShareImageUrl, setBaseShareImageUrl] = useState<string | null>(null);
@@ -651,6 +388,8 @@ export default function Home() {
     });
   };
 
+  const addressPrefix = currentNetwork?.bech32Prefix ?? "nibi";
+  const addressSchema = useMemo(() => makeAddressSchema(addressPrefix), [addressPrefix]);
   const form = useForm<AddressForm>({
     resolver: zodResolver(addressSchema),
     defaultValues: {
@@ -686,6 +425,8 @@ export default function Home() {
   const disconnectWallet = () => {
     setConnectedWallet(null);
     setSearchAddress(null);
+    setActivePortfolio(null);
+    setWalletFilter(null);
     form.reset();
   };
 
@@ -729,7 +470,7 @@ export default function Home() {
         <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 24px;">
           <div>
             <h3 style="margin: 0; font-size: 20px; font-weight: bold; color: white;">Global Protocol Stats</h3>
-            <p style="margin: 4px 0 0 0; font-size: 12px; color: #94a3b8;">${network === "mainnet" ? "Mainnet" : "Testnet"}</p>
+            <p style="margin: 4px 0 0 0; font-size: 12px; color: #94a3b8;">${networkLabel}</p>
           </div>
           <div style="text-align: right;">
             <p style="margin: 0; font-size: 12px; color: #94a3b8;">TVL</p>
@@ -823,7 +564,7 @@ export default function Home() {
         <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 16px;">
           <div>
             <h3 style="margin: 0; font-size: 18px; font-weight: bold; color: white;">Sai Perps Trade</h3>
-            <p style="margin: 4px 0 0 0; font-size: 12px; color: #94a3b8;">${network === "mainnet" ? "Mainnet" : "Testnet"}</p>
+            <p style="margin: 4px 0 0 0; font-size: 12px; color: #94a3b8;">${networkLabel}</p>
           </div>
           <div style="text-align: right;">
             <p style="margin: 0; font-size: 12px; color: #94a3b8;">PnL</p>
@@ -879,7 +620,7 @@ export default function Home() {
         <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 16px;">
           <div>
             <h3 style="margin: 0; font-size: 18px; font-weight: bold; color: white;">Sai Perps Position</h3>
-            <p style="margin: 4px 0 0 0; font-size: 12px; color: #94a3b8;">${network === "mainnet" ? "Mainnet" : "Testnet"} • Open</p>
+            <p style="margin: 4px 0 0 0; font-size: 12px; color: #94a3b8;">${networkLabel} • Open</p>
           </div>
           <div style="text-align: right;">
             <p style="margin: 0; font-size: 12px; color: #94a3b8;">Unrealized PnL</p>
@@ -921,7 +662,7 @@ export default function Home() {
         <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 16px;">
           <div>
             <h3 style="margin: 0; font-size: 18px; font-weight: bold; color: white;">Sai Vault Position</h3>
-            <p style="margin: 4px 0 0 0; font-size: 12px; color: #94a3b8;">${network === "mainnet" ? "Mainnet" : "Testnet"} • SLP-${position.vaultSymbol}</p>
+            <p style="margin: 4px 0 0 0; font-size: 12px; color: #94a3b8;">${networkLabel} • SLP-${position.vaultSymbol}</p>
           </div>
           <div style="text-align: right;">
             <p style="margin: 0; font-size: 12px; color: #94a3b8;">APY</p>
@@ -951,27 +692,45 @@ export default function Home() {
     return `${address.slice(0, 4)}...${address.slice(-4)}`;
   };
 
-  const { data, isLoading, isFetching, error } = useQuery<TradesResponse>({
-    queryKey: ["/api/trades", searchAddress, network],
-    queryFn: async () => {
+  const {
+    data: tradesPages,
+    isLoading,
+    isFetching,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/trades", searchAddress, network, walletFilter, dayFilter?.from ?? null, tradeFilterQuery],
+    queryFn: async ({ pageParam }): Promise<TradesResponse> => {
+      const cursorParam = pageParam ? `&cursor=${pageParam}` : "";
+      const dayParam = dayFilter
+        ? `&closedFrom=${encodeURIComponent(dayFilter.from)}&closedTo=${encodeURIComponent(dayFilter.to)}`
+        : "";
+      const filterParam = tradeFilterQuery ? `&${tradeFilterQuery}` : "";
       const res = await fetch(
-        `/api/trades?address=${searchAddress}&network=${network}&limit=500`,
+        `/api/trades?address=${searchAddress}&network=${network}&limit=100${cursorParam}${walletParam}${dayParam}${filterParam}`,
       );
       if (!res.ok) throw new Error("Failed to fetch trades");
       return res.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.pagination?.nextCursor ?? undefined,
     enabled: !!searchAddress,
+    // Keep showing the current trades while a filter change loads
+    placeholderData: keepPreviousData,
   });
+  const data = tradesPages?.pages[0];
 
   const {
     data: positionsData,
     isLoading: positionsLoading,
     isFetching: positionsFetching,
   } = useQuery<OpenPositionsResponse>({
-    queryKey: ["/api/positions", searchAddress, network],
+    queryKey: ["/api/positions", searchAddress, network, walletFilter],
     queryFn: async () => {
       const res = await fetch(
-        `/api/positions?address=${searchAddress}&network=${network}`,
+        `/api/positions?address=${searchAddress}&network=${network}${walletParam}`,
       );
       if (!res.ok) throw new Error("Failed to fetch positions");
       return res.json();
@@ -979,12 +738,39 @@ export default function Home() {
     enabled: !!searchAddress,
   });
 
+  // The server streams the file, so large histories download without loading every page here
+  const exportTrades = (format: "csv" | "json") => {
+    if (!searchAddress) return;
+    // Same filters and order as the table, plus the selected wallet and the calendar day
+    const params = tradeFilterParams(tradeFilters);
+    params.set("address", searchAddress);
+    params.set("network", network);
+    params.set("format", format);
+    if (walletFilter) params.set("wallet", walletFilter);
+    if (dayFilter) {
+      params.set("closedFrom", dayFilter.from);
+      params.set("closedTo", dayFilter.to);
+    }
+    const link = document.createElement("a");
+    link.href = `/api/trades/export?${params.toString()}`;
+    link.download = "";
+    link.click();
+  };
+
+  // Server-pushed updates keep mark prices and unrealized PnL current without reloading
+  const livePositions = useLivePositions(
+    searchAddress ? { address: searchAddress, network, wallet: walletFilter } : null,
+    (update) => {
+      queryClient.setQueryData<OpenPositionsResponse>(["/api/positions", searchAddress, network, walletFilter], update);
+    },
+  );
+
   const { data: vaultPositionsData, isLoading: vaultPositionsLoading } =
     useQuery<VaultPositionsResponse>({
-      queryKey: ["/api/vault-positions", searchAddress, network],
+      queryKey: ["/api/vault-positions", searchAddress, network, walletFilter],
       queryFn: async () => {
         const res = await fetch(
-          `/api/vault-positions?address=${searchAddress}&network=${network}`,
+          `/api/vault-positions?address=${searchAddress}&network=${network}${walletParam}`,
         );
         if (!res.ok) throw new Error("Failed to fetch vault positions");
         return res.json();
@@ -992,6 +778,21 @@ export default function Home() {
       enabled: !!searchAddress,
     });
 
+  // Full-history statistics, computed server-side with the shared analytics module
+  const { data: traderStatsData, isLoading: traderStatsLoading } =
+    useQuery<TraderStatsResponse>({
+      queryKey: ["/api/trader-stats", searchAddress, network, walletFilter],
+      queryFn: async () => {
+        const res = await fetch(
+          `/api/trader-stats?address=${searchAddress}&network=${network}${walletParam}`,
+        );
+        if (!res.ok) throw new Error("Failed to fetch trader stats");
+        return res.json();
+      },
+      enabled: !!searchAddress,
+    });
+  const stats = traderStatsData?.stats;
+
   const { data: globalStatsData, isLoading: globalStatsLoading } =
     useQuery<GlobalStatsResponse>({
       queryKey: ["/api/stats", network],
@@ -1015,45 +816,91 @@ export default function Home() {
     },
   });
 
-  const isSearching = isFetching || positionsFetching;
+  const isSearching = (isFetching && !isFetchingNextPage) || positionsFetching;
 
-  const trades = data?.trades || [];
+  // Memoized so the trade table only rebuilds its rows when a page arrives
+  const trades = useMemo(() => tradesPages?.pages.flatMap((page) => page.trades) || [], [tradesPages]);
+  const totalTradeCount = data?.totalTrades ?? trades.length;
+  // Trades matching the day filter (all trades without one)
+  const listedTradeCount = data?.pagination?.totalCount ?? trades.length;
   const positions = positionsData?.positions || [];
 
   const addressValue = form.watch("address");
-  const isValidAddress = /^0x[a-fA-F0-9]{40}$/i.test(addressValue);
+  const isValidAddress = parseAddress(addressValue, addressPrefix).ok;
+  const searchBech32 =
+    searchAddress && !activePortfolio ? evmToBech32(searchAddress, addressPrefix) : null;
 
   const onSubmit = (values: AddressForm) => {
+    const parsed = parseAddress(values.address, addressPrefix);
+    if (!parsed.ok) return;
+    // Always query by the 0x form so both spellings share one cache entry
     queryClient.invalidateQueries({
-      queryKey: ["/api/trades", values.address, network],
+      queryKey: ["/api/trades", parsed.evm, network],
     });
     queryClient.invalidateQueries({
-      queryKey: ["/api/positions", values.address, network],
+      queryKey: ["/api/positions", parsed.evm, network],
     });
-    setSearchAddress(values.address);
+    setActivePortfolio(null);
+    setWalletFilter(null);
+    setDayFilter(null);
+    setSearchAddress(parsed.evm);
+  };
+
+  const openPortfolio = (portfolio: Portfolio) => {
+    setActivePortfolio(portfolio);
+    setWalletFilter(null);
+    setDayFilter(null);
+    setSearchAddress(portfolio.addresses.join(","));
+    setPortfolioDialogOpen(false);
+  };
+
+  const handleDeletePortfolio = (id: string) => {
+    deletePortfolio(id);
+    if (activePortfolio?.id === id) {
+      setActivePortfolio(null);
+      setWalletFilter(null);
+      setSearchAddress(null);
+    }
   };
 
   const handleNetworkChange = (newNetwork: Network) => {
     setNetwork(newNetwork);
   };
 
-  // Calculate stats from trades
-  const closeTrades = trades.filter(
-    (t) => t.type === "close" && t.profitPct !== undefined,
-  );
-  const wins = closeTrades.filter((t) => (t.profitPct ?? 0) > 0).length;
-  const winRate = closeTrades.length > 0 ? wins / closeTrades.length : 0;
-  const totalPnl = closeTrades.reduce(
-    (sum, t) => sum + (t.pnlAmount ?? 0),
-    0,
-  );
-  const totalCollateral = closeTrades.reduce(
-    (sum, t) => sum + (t.collateral ?? 0),
-    0,
-  );
+  // Summary stats cover the entire history, not just the pages loaded so far
+  const summary = data?.summary;
+  const winRate = data?.winRate ?? 0;
+  const totalPnl = summary?.totalPnlAmount ?? 0;
+  const totalCollateral = summary?.totalCollateral ?? 0;
   const displayPnl = totalPnl;
   const displayPnlPct = totalCollateral > 0 ? totalPnl / totalCollateral : 0;
   const pnlTrend = displayPnl > 0 ? "up" : displayPnl < 0 ? "down" : "neutral";
+  // The summary cards follow the trade filters
+  const statsTitleSuffix = activeFilterCount > 0 ? " (filtered)" : "";
+
+  // Text columns start A-Z, everything else largest or newest first
+  const toggleTradeSort = (key: TradeSortKey) => {
+    if (key === tradeFilters.sort) {
+      setTradeFilters({ order: tradeFilters.order === "asc" ? "desc" : "asc" });
+    } else {
+      setTradeFilters({ sort: key, order: key === "pair" || key === "direction" ? "asc" : "desc" });
+    }
+  };
+
+  // Native totals are listed per collateral token; the percentage is in the card's unit when there is only one
+  const pnlTotals = denominateTotal(totalPnl, summary?.nativePnlByToken, denomination, data?.nibiPrices);
+  const collateralTotals = denominateTotal(totalCollateral, summary?.nativeCollateralByToken, denomination, data?.nibiPrices);
+  const denominatedPnlPct =
+    pnlTotals.length === 1 && collateralTotals.length === 1 && pnlTotals[0].unit === collateralTotals[0].unit
+      ? collateralTotals[0].value > 0 ? pnlTotals[0].value / collateralTotals[0].value : 0
+      : displayPnlPct;
+  const cycleDenomination = () =>
+    setDenomination((current) => denominations[(denominations.indexOf(current) + 1) % denominations.length]);
+
+  const vaultEarningsByToken = (vaultPositionsData?.positions ?? []).reduce<Record<string, number>>((acc, position) => {
+    acc[position.vaultSymbol] = (acc[position.vaultSymbol] ?? 0) + position.earnings;
+    return acc;
+  }, {});
 
   return (
     <div className="min-h-screen bg-background">
@@ -1079,27 +926,25 @@ export default function Home() {
                   data-testid="dropdown-network"
                 >
                   <span
-                    className={`w-2 h-2 rounded-full ${network === "mainnet" ? "bg-emerald-500" : "bg-amber-500"} animate-pulse`}
+                    className={`w-2 h-2 rounded-full ${currentNetwork?.testnet ? "bg-amber-500" : "bg-emerald-500"} animate-pulse`}
                   />
-                  {NETWORK_CONFIG[network].label}
+                  {networkLabel}
                   <ChevronDown className="h-3 w-3" />
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem
-                  onClick={() => handleNetworkChange("mainnet")}
-                  data-testid="menu-item-mainnet"
-                >
-                  <span className="w-2 h-2 rounded-full bg-emerald-500 mr-2" />
-                  Mainnet
-                </DropdownMenuItem>
-                <DropdownMenuItem
-                  onClick={() => handleNetworkChange("testnet")}
-                  data-testid="menu-item-testnet"
-                >
-                  <span className="w-2 h-2 rounded-full bg-amber-500 mr-2" />
-                  Testnet
-                </DropdownMenuItem>
+                {networks.map((option) => (
+                  <DropdownMenuItem
+                    key={option.id}
+                    onClick={() => handleNetworkChange(option.id)}
+                    data-testid={`menu-item-${option.id}`}
+                  >
+                    <span
+                      className={`w-2 h-2 rounded-full mr-2 ${option.testnet ? "bg-amber-500" : "bg-emerald-500"}`}
+                    />
+                    {option.name}
+                  </DropdownMenuItem>
+                ))}
               </DropdownMenuContent>
             </DropdownMenu>
             {connectedWallet ? (
@@ -1189,7 +1034,7 @@ export default function Home() {
                           <div className="relative">
                             <Wallet className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                             <Input
-                              placeholder="0x0000000000000000000000000000000000000000"
+                              placeholder={`0x… or ${addressPrefix}1…`}
                               className="pl-10 font-mono text-sm"
                               data-testid="input-address"
                               {...field}
@@ -1214,6 +1059,15 @@ export default function Home() {
                     )}
                     <span className="ml-2">Search</span>
                   </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setPortfolioDialogOpen(true)}
+                    data-testid="button-portfolios"
+                  >
+                    <Users className="h-4 w-4" />
+                    <span className="ml-2 hidden sm:inline">Portfolios</span>
+                  </Button>
                 </form>
               </Form>
             </CardContent>
@@ -1231,43 +1085,80 @@ export default function Home() {
           </Card>
         )}
 
+        <PortfolioDialog
+          open={portfolioDialogOpen}
+          onOpenChange={setPortfolioDialogOpen}
+          portfolios={portfolios}
+          addressPrefix={addressPrefix}
+          onSave={savePortfolio}
+          onDelete={handleDeletePortfolio}
+          onOpenPortfolio={openPortfolio}
+        />
+
+        <AlertsDialog
+          open={alertsDialogOpen}
+          onOpenChange={setAlertsDialogOpen}
+          address={activePortfolio ? walletFilter : searchAddress}
+          network={network}
+        />
+
         {/* Results */}
         {(searchAddress || isLoading) && (
           <>
+            {activePortfolio && (
+              <PortfolioBreakdown
+                name={activePortfolio.name}
+                tradeWallets={data?.wallets ?? []}
+                positionWallets={positionsData?.wallets ?? []}
+                vaultWallets={vaultPositionsData?.wallets ?? []}
+                walletFilter={walletFilter}
+                onWalletFilterChange={setWalletFilter}
+                hideValues={addressHidden}
+              />
+            )}
+
             {/* Stats Grid */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
               <StatsCard
-                title="Total PnL"
+                title={`Total PnL${statsTitleSuffix}`}
                 value={
-                  trades.length > 0
+                  totalTradeCount > 0
                     ? addressHidden
-                      ? `••••• (${displayPnlPct >= 0 ? "+" : ""}${(displayPnlPct * 100).toFixed(2)}%)`
-                      : `${displayPnl >= 0 ? "+" : "-"}$${Math.abs(displayPnl).toFixed(2)} (${displayPnlPct >= 0 ? "+" : ""}${(displayPnlPct * 100).toFixed(2)}%)`
+                      ? `••••• (${denominatedPnlPct >= 0 ? "+" : ""}${(denominatedPnlPct * 100).toFixed(2)}%)`
+                      : `${pnlTotals.map((total) => formatDenominated(total, { signed: true })).join(" · ")} (${denominatedPnlPct >= 0 ? "+" : ""}${(denominatedPnlPct * 100).toFixed(2)}%)`
                     : "-"
                 }
                 icon={displayPnl >= 0 ? TrendingUp : TrendingDown}
                 trend={pnlTrend}
                 loading={isLoading}
-                
+                onToggle={cycleDenomination}
+                toggleLabel={DENOMINATION_LABELS[denomination]}
               />
               <StatsCard
-                title="Win Rate"
+                title={`Win Rate${statsTitleSuffix}`}
                 value={
-                  trades.length > 0 ? `${(winRate * 100).toFixed(1)}%` : "-"
+                  totalTradeCount > 0 ? `${(winRate * 100).toFixed(1)}%` : "-"
                 }
                 icon={Activity}
                 trend={winRate >= 0.5 ? "up" : "neutral"}
                 loading={isLoading}
               />
               <StatsCard
-                title="Total Trades"
-                value={trades.length > 0 ? trades.length.toString() : "-"}
+                title={`Total Trades${statsTitleSuffix}`}
+                value={totalTradeCount > 0 ? totalTradeCount.toString() : "-"}
                 icon={Activity}
                 trend="neutral"
                 loading={isLoading}
               />
             </div>
 
+            <EquityChart
+              curve={traderStatsData?.equityCurve ?? []}
+              unrealizedPnl={positionsData?.totalUnrealizedPnl}
+              loading={traderStatsLoading}
+              hideValues={addressHidden}
+            />
+
             {/* Tabs for Trades, Positions, and Stats */}
             <Tabs
               value={activeTab}
@@ -1278,7 +1169,7 @@ export default function Home() {
             >
               <TabsList className="grid w-full max-w-2xl grid-cols-4">
                 <TabsTrigger value="trades" data-testid="tab-trades">
-                  Trade History {trades.length > 0 && `(${trades.length})`}
+                  Trade History {listedTradeCount > 0 && `(${listedTradeCount})`}
                 </TabsTrigger>
                 <TabsTrigger value="positions" data-testid="tab-positions">
                   Open Positions{" "}
@@ -1297,24 +1188,80 @@ export default function Home() {
 
               <TabsContent value="trades" className="mt-4">
                 <Card>
-                  <CardHeader>
-                    <CardTitle>Trade History</CardTitle>
-                    <CardDescription>
-                      {searchAddress && (
-                        <span className="font-mono text-xs">
-                          {addressHidden
-                            ? "••••••••••"
-                            : `${searchAddress.slice(0, 6)}...${searchAddress.slice(-4)}`}
-                        </span>
-                      )}
-                    </CardDescription>
+                  <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+                    <div className="space-y-1.5">
+                      <CardTitle>Trade History</CardTitle>
+                      <CardDescription>
+                        {activePortfolio ? (
+                          <span className="text-xs" data-testid="text-search-address">
+                            {activePortfolio.name}
+                            {walletFilter &&
+                              ` · ${addressHidden ? "••••••" : formatWallet(walletFilter)}`}
+                          </span>
+                        ) : searchAddress && (
+                          <span className="font-mono text-xs" data-testid="text-search-address">
+                            {addressHidden
+                              ? "••••••••••"
+                              : `${searchAddress.slice(0, 6)}...${searchAddress.slice(-4)} · ${searchBech32?.slice(0, 9)}...${searchBech32?.slice(-4)}`}
+                          </span>
+                        )}
+                        {dayFilter && (
+                          <Badge variant="secondary" className="ml-2 gap-1" data-testid="badge-day-filter">
+                            Closed on {dayFilter.day} ({dayFilter.timeZone})
+                            <button
+                              type="button"
+                              onClick={() => setDayFilter(null)}
+                              title="Show all trades"
+                              data-testid="button-clear-day-filter"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" data-testid="button-export-trades">
+                          <Download className="h-4 w-4" />
+                          <span className="ml-2 hidden sm:inline">Export</span>
+                          <ChevronDown className="h-3 w-3 ml-1" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => exportTrades("csv")} data-testid="menu-item-export-csv">
+                          CSV
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => exportTrades("json")} data-testid="menu-item-export-json">
+                          JSON
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </CardHeader>
                   <CardContent>
+                    <TradeFiltersBar
+                      filters={tradeFilters}
+                      options={data?.filterOptions}
+                      activeCount={activeFilterCount}
+                      onChange={setTradeFilters}
+                      onReset={resetTradeFilters}
+                    />
                     <TradesTable
-                      trades={trades.filter((t) => t.type === "close")}
+                      trades={trades}
                       loading={isLoading}
                       onShare={downloadTradeCard}
                       hideValues={addressHidden}
+                      hasMore={hasNextPage}
+                      loadingMore={isFetchingNextPage}
+                      onLoadMore={() => fetchNextPage()}
+                      showWallet={!!activePortfolio}
+                      network={network}
+                      denomination={denomination}
+                      nibiPrices={data?.nibiPrices}
+                      sort={tradeFilters.sort}
+                      order={tradeFilters.order}
+                      onSort={toggleTradeSort}
+                      filtered={activeFilterCount > 0}
                     />
                   </CardContent>
                 </Card>
@@ -1323,7 +1270,43 @@ export default function Home() {
               <TabsContent value="positions" className="mt-4">
                 <Card>
                   <CardHeader>
-                    <CardTitle>Open Positions</CardTitle>
+                    <CardTitle className="flex items-center gap-2">
+                      Open Positions
+                      <Badge
+                        variant="outline"
+                        className={
+                          livePositions.status === "live"
+                            ? "border-emerald-500/50 text-emerald-500"
+                            : "text-muted-foreground"
+                        }
+                        title={
+                          livePositions.error ??
+                          (livePositions.updatedAt
+                            ? `Updated ${new Date(livePositions.updatedAt).toLocaleTimeString()}`
+                            : undefined)
+                        }
+                        data-testid="badge-positions-live"
+                      >
+                        <span
+                          className={`w-1.5 h-1.5 rounded-full mr-1.5 ${livePositions.status === "live" ? "bg-emerald-500 animate-pulse" : "bg-muted-foreground"}`}
+                        />
+                        {livePositions.status === "live"
+                          ? "Live"
+                          : livePositions.status === "connecting"
+                            ? "Connecting"
+                            : "Offline"}
+                      </Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="ml-auto"
+                        onClick={() => setAlertsDialogOpen(true)}
+                        data-testid="button-alerts"
+                      >
+                        <Bell className="h-4 w-4" />
+                        <span className="ml-2 hidden sm:inline">Alerts</span>
+                      </Button>
+                    </CardTitle>
                     <CardDescription>
                       {positions.length > 0
                         ? `${positions.length} active position${positions.length > 1 ? "s" : ""}`
@@ -1348,6 +1331,9 @@ export default function Home() {
                       isLoading={positionsLoading}
                       onShare={downloadPositionCard}
                       hideValues={addressHidden}
+                      showWallet={!!activePortfolio}
+                      denomination={denomination}
+                      nibiPrices={positionsData?.nibiPrices}
                     />
                   </CardContent>
                 </Card>
@@ -1369,12 +1355,19 @@ export default function Home() {
                             className={`ml-2 font-mono ${vaultPositionsData.totalEarnings >= 0 ? "text-green-500" : "text-red-500"}`}
                           >
                             Earnings:{" "}
-                            {vaultPositionsData.totalEarnings >= 0 ? "+" : ""}
-                            {vaultPositionsData.totalEarnings < 1
-                              ? vaultPositionsData.totalEarnings.toFixed(4)
-                              : vaultPositionsData.totalEarnings.toFixed(
-                                  2,
-                                )}{" "}
+                            {denominateTotal(
+                              vaultPositionsData.totalEarnings,
+                              vaultEarningsByToken,
+                              denomination,
+                              vaultPositionsData.nibiPrices,
+                            )
+                              .map((total) =>
+                                formatDenominated(total, {
+                                  signed: true,
+                                  digits: Math.abs(total.value) < 1 ? 4 : 2,
+                                }),
+                              )
+                              .join(" · ")}{" "}
                             (
                             {(
                               (vaultPositionsData.totalEarnings /
@@ -1396,152 +1389,14 @@ export default function Home() {
                     ) : vaultPositionsData?.positions &&
                       vaultPositionsData.positions.length > 0 ? (
                       <div className="overflow-x-auto">
-                        <Table>
-                          <TableHeader>
-                            <TableRow>
-                              <TableHead></TableHead>
-                              <TableHead>Type</TableHead>
-                              <TableHead>Vault</TableHead>
-                              <TableHead>Amount</TableHead>
-                              <TableHead>LP Tokens</TableHead>
-                              <TableHead>Current Value</TableHead>
-                              <TableHead>Earnings</TableHead>
-                              <TableHead>APY</TableHead>
-                              <TableHead>Deposit Date</TableHead>
-                              <TableHead>Tx</TableHead>
-                            </TableRow>
-                          </TableHeader>
-                          <TableBody>
-                            {vaultPositionsData.positions.map(
-                              (position, index) => (
-                                <TableRow
-                                  key={`${position.vaultSymbol}-${index}`}
-                                  data-testid={`vault-row-${index}`}
-                                  className={
-                                    position.action === "withdraw"
-                                      ? "opacity-70"
-                                      : ""
-                                  }
-                                >
-                                  <TableCell>
-                                    <Button
-                                      variant="ghost"
-                                      size="icon"
-                                      className="h-8 w-8"
-                                      onClick={() =>
-                                        downloadVaultCard(position)
-                                      }
-                                      data-testid={`button-share-vault-${index}`}
-                                    >
-                                      <Share2 className="h-4 w-4" />
-                                    </Button>
-                                  </TableCell>
-                                  <TableCell>
-                                    <Badge
-                                      variant={
-                                        position.action === "deposit"
-                                          ? "default"
-                                          : "secondary"
-                                      }
-                                      className={`font-mono text-xs ${position.action === "withdraw" ? "bg-orange-500/20 text-orange-400" : "bg-green-500/20 text-green-400"}`}
-                                    >
-                                      {position.action === "deposit"
-                                        ? "Deposit"
-                                        : "Withdraw"}
-                                    </Badge>
-                                  </TableCell>
-                                  <TableCell>
-                                    <Badge
-                                      variant="outline"
-                                      className="font-mono"
-                                    >
-                                      SLP-{position.vaultSymbol}
-                                    </Badge>
-                                  </TableCell>
-                                  <TableCell className="font-mono">
-                                    {position.action === "withdraw" ? "-" : ""}
-                                    {position.depositAmount < 1
-                                      ? position.depositAmount.toFixed(4)
-                                      : position.depositAmount.toFixed(2)}{" "}
-                                    {position.vaultSymbol}
-                                  </TableCell>
-                                  <TableCell className="font-mono text-muted-foreground">
-                                    {position.action === "withdraw" ? "-" : ""}
-                                    {position.shares < 1
-                                      ? position.shares.toFixed(4)
-                                      : position.shares.toFixed(2)}
-                                  </TableCell>
-                                  <TableCell className="font-mono">
-                                    {position.action === "withdraw" ? (
-                                      <span className="text-muted-foreground">
-                                        -
-                                      </span>
-                                    ) : (
-                                      <>
-                                        {position.currentValue < 1
-                                          ? position.currentValue.toFixed(4)
-                                          : position.currentValue.toFixed(
-                                              2,
-                                            )}{" "}
-                                        {position.vaultSymbol}
-                                      </>
-                                    )}
-                                  </TableCell>
-                                  <TableCell>
-                                    {position.action === "withdraw" ? (
-                                      <span className="text-muted-foreground text-xs">
-                                        Realized
-                                      </span>
-                                    ) : (
-                                      <span
-                                        className={`font-mono ${position.earnings >= 0 ? "text-green-500" : "text-red-500"}`}
-                                      >
-                                        {position.earnings >= 0 ? "+" : ""}
-                                        {position.earnings < 0.01 &&
-                                        position.earnings > -0.01
-                                          ? position.earnings.toFixed(6)
-                                          : position.earnings.toFixed(4)}
-                                        <span className="text-xs text-muted-foreground ml-1">
-                                          (
-                                          {position.earningsPercent >= 0
-                                            ? "+"
-                                            : ""}
-                                          {position.earningsPercent.toFixed(2)}
-                                          %)
-                                        </span>
-                                      </span>
-                                    )}
-                                  </TableCell>
-                                  <TableCell>
-                                    <span className="font-mono text-primary">
-                                      {position.apy.toFixed(2)}%
-                                    </span>
-                                  </TableCell>
-                                  <TableCell className="text-muted-foreground text-sm">
-                                    {position.depositDate
-                                      ? new Date(
-                                          position.depositDate,
-                                        ).toLocaleDateString()
-                                      : "-"}
-                                  </TableCell>
-                                  <TableCell>
-                                    {position.evmTxHash && (
-                                      <a
-                                        href={`https://nibiscan.io/tx/${position.evmTxHash}`}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="text-primary hover:underline font-mono text-xs"
-                                        data-testid={`vault-tx-link-${index}`}
-                                      >
-                                        {position.evmTxHash.slice(0, 8)}...
-                                      </a>
-                                    )}
-                                  </TableCell>
-                                </TableRow>
-                              ),
-                            )}
-                          </TableBody>
-                        </Table>
+                        <VaultPositionsTable
+                          positions={vaultPositionsData.positions}
+                          onShare={downloadVaultCard}
+                          hideValues={addressHidden}
+                          showWallet={!!activePortfolio}
+                          denomination={denomination}
+                          nibiPrices={vaultPositionsData.nibiPrices}
+                        />
 
                         {/* Totals Summary */}
                         <div className="mt-4 pt-4 border-t border-border/50">
@@ -1608,7 +1463,7 @@ export default function Home() {
                         Personal trading performance metrics
                       </CardDescription>
                     </div>
-                    {trades.length > 0 && (
+                    {(stats?.totalTrades ?? 0) > 0 && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -1626,13 +1481,13 @@ export default function Home() {
                     )}
                   </CardHeader>
                   <CardContent>
-                    {isLoading ? (
+                    {isLoading || traderStatsLoading ? (
                       <div className="space-y-3">
                         {[...Array(6)].map((_, i) => (
                           <Skeleton key={i} className="h-12 w-full" />
                         ))}
                       </div>
-                    ) : trades.length === 0 ? (
+                    ) : !stats || stats.totalTrades === 0 ? (
                       <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
                         <Activity className="h-12 w-12 mb-4 opacity-50" />
                         <p className="text-lg">No trading data available</p>
@@ -1641,163 +1496,80 @@ export default function Home() {
                       <>
                         {/* Visible UI - original styling */}
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                          {(() => {
-                            const allTrades = trades;
-                            const closedTrades = trades.filter(
-                              (t) => t.type === "close",
-                            );
-
-                            const totalVolume = allTrades.reduce(
-                              (sum, t) =>
-                                sum + (t.collateral ?? 0) * (t.leverage ?? 1),
-                              0,
-                            );
-                            const avgTradeSize =
-                              allTrades.length > 0
-                                ? allTrades.reduce(
-                                    (sum, t) => sum + (t.collateral ?? 0),
-                                    0,
-                                  ) / allTrades.length
-                                : 0;
-                            const avgLeverage =
-                              allTrades.length > 0
-                                ? allTrades.reduce(
-                                    (sum, t) => sum + (t.leverage ?? 1),
-                                    0,
-                                  ) / allTrades.length
-                                : 0;
-
-                            const profitTrades = closedTrades.filter(
-                              (t) => (t.pnlAmount ?? 0) > 0,
-                            );
-                            const lossTrades = closedTrades.filter(
-                              (t) => (t.pnlAmount ?? 0) < 0,
-                            );
-                            const biggestWin =
-                              profitTrades.length > 0
-                                ? Math.max(
-                                    ...profitTrades.map(
-                                      (t) => t.pnlAmount ?? 0,
-                                    ),
-                                  )
-                                : 0;
-                            const biggestLoss =
-                              lossTrades.length > 0
-                                ? Math.min(
-                                    ...lossTrades.map((t) => t.pnlAmount ?? 0),
-                                  )
-                                : 0;
-
-                            const pairCounts: Record<string, number> = {};
-                            allTrades.forEach((t) => {
-                              const pair = t.pair ?? "Unknown";
-                              pairCounts[pair] = (pairCounts[pair] || 0) + 1;
-                            });
-                            const mostTradedPair = Object.entries(
-                              pairCounts,
-                            ).sort((a, b) => b[1] - a[1])[0];
-
-                            const longTrades = allTrades.filter(
-                              (t) => t.direction === "long",
-                            ).length;
-                            const shortTrades = allTrades.filter(
-                              (t) => t.direction === "short",
-                            ).length;
-
-                            return (
-                              <>
-                                <div className="p-4 rounded-lg bg-muted/50">
-                                  <p className="text-sm text-muted-foreground mb-1">
-                                    Total Trading Volume
-                                  </p>
-                                  <p className="text-xl font-bold font-mono">
-                                    $
-                                    {totalVolume.toLocaleString(undefined, {
-                                      maximumFractionDigits: 2,
-                                    })}
-                                  </p>
-                                </div>
-                                <div className="p-4 rounded-lg bg-muted/50">
-                                  <p className="text-sm text-muted-foreground mb-1">
-                                    Average Trade Size
-                                  </p>
-                                  <p className="text-xl font-bold font-mono">
-                                    ${avgTradeSize.toFixed(2)}
-                                  </p>
-                                </div>
-                                <div className="p-4 rounded-lg bg-muted/50">
-                                  <p className="text-sm text-muted-foreground mb-1">
-                                    Average Leverage
-                                  </p>
-                                  <p className="text-xl font-bold font-mono">
-                                    {avgLeverage.toFixed(1)}x
-                                  </p>
-                                </div>
-                                <div className="p-4 rounded-lg bg-muted/50">
-                                  <p className="text-sm text-muted-foreground mb-1">
-                                    Biggest Win
-                                  </p>
-                                  <p className="text-xl font-bold font-mono text-green-500">
-                                    {biggestWin > 0
-                                      ? `+$${biggestWin.toFixed(2)}`
-                                      : "-"}
-                                  </p>
-                                </div>
-                                <div className="p-4 rounded-lg bg-muted/50">
-                                  <p className="text-sm text-muted-foreground mb-1">
-                                    Biggest Loss
-                                  </p>
-                                  <p className="text-xl font-bold font-mono text-red-500">
-                                    {biggestLoss < 0
-                                      ? `-$${Math.abs(biggestLoss).toFixed(2)}`
-                                      : "-"}
-                                  </p>
-                                </div>
-                                <div className="p-4 rounded-lg bg-muted/50">
-                                  <p className="text-sm text-muted-foreground mb-1">
-                                    Most Traded Pair
-                                  </p>
-                                  <p className="text-xl font-bold">
-                                    {mostTradedPair
-                                      ? `${mostTradedPair[0]} (${mostTradedPair[1]})`
-                                      : "-"}
-                                  </p>
-                                </div>
-                                <div className="p-4 rounded-lg bg-muted/50">
-                                  <p className="text-sm text-muted-foreground mb-1">
-                                    Long vs Short
-                                  </p>
-                                  <p className="text-xl font-bold">
-                                    {longTrades} / {shortTrades}
-                                  </p>
-                                </div>
-                                <div className="p-4 rounded-lg bg-muted/50">
-                                  <p className="text-sm text-muted-foreground mb-1">
-                                    Profit Factor
-                                  </p>
-                                  <p className="text-xl font-bold font-mono">
-                                    {(() => {
-                                      const totalProfit = profitTrades.reduce(
-                                        (sum, t) => sum + (t.pnlAmount ?? 0),
-                                        0,
-                                      );
-                                      const totalLoss = Math.abs(
-                                        lossTrades.reduce(
-                                          (sum, t) => sum + (t.pnlAmount ?? 0),
-                                          0,
-                                        ),
-                                      );
-                                      return totalLoss > 0
-                                        ? (totalProfit / totalLoss).toFixed(2)
-                                        : totalProfit > 0
-                                          ? "∞"
-                                          : "-";
-                                    })()}
-                                  </p>
-                                </div>
-                              </>
-                            );
-                          })()}
+                          {stats && (
+                            <>
+                              <StatTile label="Total Trading Volume">
+                                $
+                                {stats.totalVolume.toLocaleString(undefined, {
+                                  maximumFractionDigits: 2,
+                                })}
+                              </StatTile>
+                              <StatTile label="Average Trade Size">
+                                ${stats.avgTradeSize.toFixed(2)}
+                              </StatTile>
+                              <StatTile label="Average Leverage">
+                                {stats.avgLeverage.toFixed(1)}x
+                              </StatTile>
+                              <StatTile label="Biggest Win" className="text-green-500">
+                                {stats.biggestWin !== null
+                                  ? `+$${stats.biggestWin.toFixed(2)}`
+                                  : "-"}
+                              </StatTile>
+                              <StatTile label="Biggest Loss" className="text-red-500">
+                                {stats.biggestLoss !== null
+                                  ? `-$${Math.abs(stats.biggestLoss).toFixed(2)}`
+                                  : "-"}
+                              </StatTile>
+                              <StatTile label="Most Traded Pair" mono={false}>
+                                {stats.mostTradedPair
+                                  ? `${stats.mostTradedPair.pair} (${stats.mostTradedPair.count})`
+                                  : "-"}
+                              </StatTile>
+                              <StatTile label="Long vs Short" mono={false}>
+                                {stats.longTrades} / {stats.shortTrades}
+                              </StatTile>
+                              <StatTile label="Profit Factor">
+                                {formatProfitFactor(stats)}
+                              </StatTile>
+                              <StatTile
+                                label="Expectancy"
+                                hint="Average realized PnL per closed trade"
+                              >
+                                {formatSignedUsd(stats.expectancy)}
+                              </StatTile>
+                              <StatTile label="Average Win / Loss">
+                                {formatSignedUsd(stats.avgWin)} /{" "}
+                                {formatSignedUsd(stats.avgLoss)}
+                              </StatTile>
+                              <StatTile
+                                label="Average R-Multiple"
+                                hint="Expectancy in units of the average losing trade (1R)"
+                              >
+                                {stats.avgRMultiple !== null
+                                  ? `${stats.avgRMultiple >= 0 ? "+" : ""}${stats.avgRMultiple.toFixed(2)}R`
+                                  : "-"}
+                              </StatTile>
+                              <StatTile
+                                label="Max Drawdown"
+                                hint="Largest peak-to-trough fall of cumulative realized PnL"
+                                className={stats.maxDrawdown > 0 ? "text-red-500" : undefined}
+                              >
+                                {stats.maxDrawdown > 0
+                                  ? `-$${stats.maxDrawdown.toFixed(2)}`
+                                  : "-"}
+                              </StatTile>
+                              <StatTile
+                                label="Sharpe / Sortino"
+                                hint="Per-trade ratios of return on collateral, not annualized"
+                              >
+                                {formatRatio(stats.sharpeRatio)} /{" "}
+                                {formatRatio(stats.sortinoRatio)}
+                              </StatTile>
+                              <StatTile label="Longest Win / Loss Streak" mono={false}>
+                                {stats.longestWinStreak} / {stats.longestLossStreak}
+                              </StatTile>
+                            </>
+                          )}
                         </div>
 
                         {/* Hidden shareable card for download */}
@@ -1812,7 +1584,7 @@ export default function Home() {
                                 My Trading Stats
                               </h3>
                               <p className="text-sm text-slate-400">
-                                {network === "mainnet" ? "Mainnet" : "Testnet"}
+                                {networkLabel}
                               </p>
                             </div>
                             <div className="text-right">
@@ -1823,99 +1595,25 @@ export default function Home() {
                                 className={`text-2xl font-bold font-mono ${(data?.totalPnl ?? 0) >= 0 ? "text-green-400" : "text-red-400"}`}
                               >
                                 {hideStatsAmount
-                                  ? (() => {
-                                      const closedTrades = trades.filter(t => t.type === "close");
-                                      const totalCollateral = closedTrades.reduce((sum, t) => sum + (t.collateral ?? 0), 0);
-                                      const totalPnlPct = totalCollateral > 0 
-                                        ? ((data?.totalPnl ?? 0) / totalCollateral) * 100 
-                                        : 0;
-                                      return `${totalPnlPct >= 0 ? "+" : ""}${totalPnlPct.toFixed(2)}%`;
-                                    })()
+                                  ? `${displayPnlPct >= 0 ? "+" : ""}${(displayPnlPct * 100).toFixed(2)}%`
                                   : `${(data?.totalPnl ?? 0) >= 0 ? "+" : "-"}$${Math.abs(data?.totalPnl ?? 0).toFixed(2)}`}
                               </p>
                             </div>
                           </div>
                           <div className="grid grid-cols-3 gap-3">
-                            {(() => {
-                              const allTrades = trades;
-                              const closedTrades = trades.filter(
-                                (t) => t.type === "close",
-                              );
-
-                              const totalVolume = allTrades.reduce(
-                                (sum, t) =>
-                                  sum + (t.collateral ?? 0) * (t.leverage ?? 1),
-                                0,
-                              );
-                              const avgTradeSize =
-                                allTrades.length > 0
-                                  ? allTrades.reduce(
-                                      (sum, t) => sum + (t.collateral ?? 0),
-                                      0,
-                                    ) / allTrades.length
-                                  : 0;
-                              const avgLeverage =
-                                allTrades.length > 0
-                                  ? allTrades.reduce(
-                                      (sum, t) => sum + (t.leverage ?? 1),
-                                      0,
-                                    ) / allTrades.length
-                                  : 0;
-
-                              const profitTrades = closedTrades.filter(
-                                (t) => (t.pnlAmount ?? 0) > 0,
-                              );
-                              const lossTrades = closedTrades.filter(
-                                (t) => (t.pnlAmount ?? 0) < 0,
-                              );
-                              const biggestWin =
-                                profitTrades.length > 0
-                                  ? Math.max(
-                                      ...profitTrades.map(
-                                        (t) => t.pnlAmount ?? 0,
-                                      ),
-                                    )
-                                  : 0;
-                              const biggestLoss =
-                                lossTrades.length > 0
-                                  ? Math.min(
-                                      ...lossTrades.map(
-                                        (t) => t.pnlAmount ?? 0,
-                                      ),
-                                    )
-                                  : 0;
-                              const biggestWinPct =
-                                profitTrades.length > 0
-                                  ? Math.max(
-                                      ...profitTrades.map(
-                                        (t) => t.profitPct ?? 0,
-                                      ),
-                                    )
-                                  : 0;
-                              const biggestLossPct =
-                                lossTrades.length > 0
-                                  ? Math.min(
-                                      ...lossTrades.map(
-                                        (t) => t.profitPct ?? 0,
-                                      ),
-                                    )
-                                  : 0;
-
-                              const pairCounts: Record<string, number> = {};
-                              allTrades.forEach((t) => {
-                                const pair = t.pair ?? "Unknown";
-                                pairCounts[pair] = (pairCounts[pair] || 0) + 1;
-                              });
-                              const mostTradedPair = Object.entries(
-                                pairCounts,
-                              ).sort((a, b) => b[1] - a[1])[0];
-
-                              const longTrades = allTrades.filter(
-                                (t) => t.direction === "long",
-                              ).length;
-                              const shortTrades = allTrades.filter(
-                                (t) => t.direction === "short",
-                              ).length;
+                            {stats && (() => {
+                              const {
+                                totalVolume,
+                                avgTradeSize,
+                                avgLeverage,
+                                mostTradedPair,
+                                longTrades,
+                                shortTrades,
+                              } = stats;
+                              const biggestWin = stats.biggestWin ?? 0;
+                              const biggestLoss = stats.biggestLoss ?? 0;
+                              const biggestWinPct = (stats.biggestWinPct ?? 0) * 100;
+                              const biggestLossPct = (stats.biggestLossPct ?? 0) * 100;
 
                               return (
                                 <>
@@ -1983,7 +1681,7 @@ export default function Home() {
                                       Most Traded
                                     </p>
                                     <p className="text-lg font-bold text-white">
-                                      {mostTradedPair ? mostTradedPair[0] : "-"}
+                                      {mostTradedPair ? mostTradedPair.pair : "-"}
                                     </p>
                                   </div>
                                   <div className="p-3 rounded-lg bg-slate-800/80">
@@ -1999,24 +1697,7 @@ export default function Home() {
                                       Profit Factor
                                     </p>
                                     <p className="text-lg font-bold font-mono text-white">
-                                      {(() => {
-                                        const totalProfit = profitTrades.reduce(
-                                          (sum, t) => sum + (t.pnlAmount ?? 0),
-                                          0,
-                                        );
-                                        const totalLoss = Math.abs(
-                                          lossTrades.reduce(
-                                            (sum, t) =>
-                                              sum + (t.pnlAmount ?? 0),
-                                            0,
-                                          ),
-                                        );
-                                        return totalLoss > 0
-                                          ? (totalProfit / totalLoss).toFixed(2)
-                                          : totalProfit > 0
-                                            ? "∞"
-                                            : "-";
-                                      })()}
+                                      {formatProfitFactor(stats)}
                                     </p>
                                   </div>
                                 </>
@@ -2029,6 +1710,31 @@ export default function Home() {
                   </CardContent>
                 </Card>
 
+                {stats && stats.closedTrades > 0 && (
+                  <PnlCalendar
+                    curve={traderStatsData?.equityCurve ?? []}
+                    selectedDay={dayFilter?.day ?? null}
+                    onSelectDay={(filter) => {
+                      setDayFilter(filter);
+                      setActiveTab("trades");
+                    }}
+                    hideValues={addressHidden}
+                  />
+                )}
+
+                {traderStatsData && traderStatsData.markets.length > 0 && (
+                  <MarketBreakdown markets={traderStatsData.markets} hideValues={addressHidden} />
+                )}
+
+                {searchAddress && (
+                  <TaxReport
+                    address={searchAddress}
+                    network={network}
+                    wallet={walletFilter}
+                    hideValues={addressHidden}
+                  />
+                )}
+
                 {/* Global Protocol Stats */}
                 <Card className="mt-4">
                   <CardHeader>
@@ -2321,6 +2027,8 @@ export default function Home() {
                     )}
                   </CardContent>
                 </Card>
+
+                <VolumeChart network={network} />
               </TabsContent>
             </Tabs>
           </>
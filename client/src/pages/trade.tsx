@@ -0,0 +1,337 @@
+import type { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import {
+  Activity,
+  AlertTriangle,
+  ArrowLeft,
+  ExternalLink,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { TradeDetailResponse, TradeEvent } from "@shared/schema";
+
+// Labels for the history event types the server knows about; anything else is shown as reported
+const EVENT_LABELS: Record<string, string> = {
+  position_opened: "Opened",
+  order_triggered: "Order triggered",
+  position_closed_user: "Closed by user",
+  position_closed_sl: "Stop loss hit",
+  position_closed_tp: "Take profit hit",
+  position_liquidated: "Liquidated",
+};
+
+function eventLabel(event: TradeEvent): string {
+  if (EVENT_LABELS[event.tradeChangeType]) return EVENT_LABELS[event.tradeChangeType];
+  const words = event.tradeChangeType.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatPrice(value: number | null | undefined): string {
+  return value ? `$${value.toLocaleString()}` : "-";
+}
+
+function formatUsd(value: number | null | undefined): string {
+  return value !== null && value !== undefined ? `$${value.toFixed(2)}` : "-";
+}
+
+function formatSignedUsd(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "-";
+  return `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+}
+
+function pnlClass(value: number | null | undefined): string {
+  if (!value) return "";
+  return value > 0 ? "text-emerald-500" : "text-red-500";
+}
+
+// SL/TP and leverage moves compared with the previous event of the trade
+function describeChanges(event: TradeEvent, previous: TradeEvent | undefined): string[] {
+  if (!previous) return [];
+  const changes: string[] = [];
+  const level = (value: number | null) => (value ? value.toLocaleString() : "none");
+  if (event.sl !== previous.sl) changes.push(`SL ${level(previous.sl)} → ${level(event.sl)}`);
+  if (event.tp !== previous.tp) changes.push(`TP ${level(previous.tp)} → ${level(event.tp)}`);
+  if (event.leverage !== previous.leverage) changes.push(`Leverage ${previous.leverage}x → ${event.leverage}x`);
+  return changes;
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      <p className="font-mono text-sm">{children}</p>
+    </div>
+  );
+}
+
+export default function TradeDetail() {
+  const { network, id } = useParams<{ network: string; id: string }>();
+
+  const { data, isLoading, error } = useQuery<TradeDetailResponse>({
+    queryKey: ["/api/trade", network, id],
+    queryFn: async () => {
+      const res = await fetch(`/api/trade/${id}?network=${network}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to fetch trade");
+      return body;
+    },
+  });
+
+  const trade = data?.trade;
+  const token = trade?.collateralToken ?? "collateral";
+  const txLink = (hash: string | null) =>
+    hash && data ? (
+      <a
+        href={`${data.explorer}/tx/${hash}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-primary hover:underline"
+        data-testid={`link-tx-${hash.slice(0, 10)}`}
+      >
+        {hash.slice(0, 10)}…
+        <ExternalLink className="h-3 w-3" />
+      </a>
+    ) : (
+      <span className="text-muted-foreground">-</span>
+    );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="h-9 w-9 rounded-md bg-primary/20 flex items-center justify-center">
+              <Activity className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold">Trade #{id}</h1>
+              <p className="text-xs text-muted-foreground">{network}</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/" data-testid="link-home">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-4">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-40 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </>
+        ) : error || !data || !trade ? (
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-2 text-muted-foreground">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              {error instanceof Error ? error.message : "Trade not found"}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 flex-wrap">
+                  {trade.pair}
+                  {trade.direction && (
+                    <Badge
+                      variant="outline"
+                      className={
+                        trade.direction === "long"
+                          ? "border-emerald-500/50 text-emerald-500"
+                          : "border-red-500/50 text-red-500"
+                      }
+                    >
+                      {trade.direction === "long" ? (
+                        <TrendingUp className="h-3 w-3 mr-1" />
+                      ) : (
+                        <TrendingDown className="h-3 w-3 mr-1" />
+                      )}
+                      {trade.direction.toUpperCase()}
+                    </Badge>
+                  )}
+                  <Badge variant="secondary">{trade.type === "open" ? "Open" : "Closed"}</Badge>
+                </CardTitle>
+                <CardDescription className="font-mono break-all">
+                  {data.trader.wallet} · {data.trader.bech32}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Field label="Leverage">{trade.leverage ? `${trade.leverage}x` : "-"}</Field>
+                <Field label="Collateral">
+                  {formatUsd(trade.collateral)} ({token})
+                </Field>
+                <Field label="Entry Price">{formatPrice(trade.openPrice)}</Field>
+                <Field label="Exit Price">{formatPrice(trade.closePrice)}</Field>
+                <Field label="Realized PnL">
+                  <span className={pnlClass(trade.pnlAmount)}>
+                    {formatSignedUsd(trade.pnlAmount)}
+                    {trade.profitPct !== undefined && ` (${(trade.profitPct * 100).toFixed(2)}%)`}
+                  </span>
+                </Field>
+                <Field label="Returned">{formatUsd(trade.amountReceived)}</Field>
+                <Field label="Opened">
+                  {trade.openTimestamp ? new Date(trade.openTimestamp).toLocaleString() : "-"}
+                </Field>
+                <Field label="Closed">
+                  {trade.closeTimestamp ? new Date(trade.closeTimestamp).toLocaleString() : "-"}
+                </Field>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Timeline</CardTitle>
+                <CardDescription>
+                  Every indexed history event for this trade, oldest first. Realized PnL is in {token} and USD
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Time</TableHead>
+                        <TableHead className="text-right">Block</TableHead>
+                        <TableHead>Transaction</TableHead>
+                        <TableHead className="text-right">Collateral Price</TableHead>
+                        <TableHead className="text-right">Realized PnL</TableHead>
+                        <TableHead>Changes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.events.map((event, index) => {
+                        const changes = describeChanges(event, data.events[index - 1]);
+                        return (
+                          <TableRow key={event.id} data-testid={`row-event-${event.id}`}>
+                            <TableCell>
+                              <div className="font-medium flex items-center gap-2">
+                                {eventLabel(event)}
+                                {event.partialClose && <Badge variant="outline">Partial close</Badge>}
+                              </div>
+                              <div className="font-mono text-xs text-muted-foreground">{event.tradeChangeType}</div>
+                            </TableCell>
+                            <TableCell className="text-sm whitespace-nowrap">
+                              {new Date(event.timestamp).toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right font-mono text-sm">{event.block}</TableCell>
+                            <TableCell className="font-mono text-xs">{txLink(event.evmTxHash)}</TableCell>
+                            <TableCell className="text-right font-mono text-sm">
+                              {event.collateralPrice !== null ? `$${event.collateralPrice}` : "-"}
+                            </TableCell>
+                            <TableCell className={`text-right font-mono text-sm ${pnlClass(event.realizedPnl)}`}>
+                              {event.realizedPnl !== null ? (
+                                <>
+                                  <div>
+                                    {event.realizedPnl >= 0 ? "+" : ""}
+                                    {event.realizedPnl.toFixed(4)} {token}
+                                  </div>
+                                  <div className="text-xs">
+                                    {formatSignedUsd(event.realizedPnlUsd)}
+                                    {event.realizedPnlPct !== null && ` (${(event.realizedPnlPct * 100).toFixed(2)}%)`}
+                                  </div>
+                                </>
+                              ) : (
+                                "-"
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {changes.length > 0 ? changes.join(", ") : "-"}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  Fees
+                  {trade.feeSource && <Badge variant="outline">{trade.feeSource}</Badge>}
+                  {trade.feeMismatch && (
+                    <Badge variant="outline" className="border-amber-500/50 text-amber-500">
+                      Receipt and Keeper disagree
+                    </Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  USD totals as used for PnL, then the raw Sai Keeper fee transactions in {token}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <Field label="Opening">{formatUsd(trade.openingFee)}</Field>
+                  <Field label="Closing">{formatUsd(trade.closingFee)}</Field>
+                  <Field label="Trigger">{formatUsd(trade.triggerFee)}</Field>
+                  <Field label="Borrowing">{formatUsd(trade.borrowingFee)}</Field>
+                  <Field label="Total">{formatUsd(trade.totalFees)}</Field>
+                </div>
+                {data.feeTransactions.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Time</TableHead>
+                          <TableHead className="text-right">Total Charged</TableHead>
+                          <TableHead className="text-right">Gov</TableHead>
+                          <TableHead className="text-right">Vault</TableHead>
+                          <TableHead className="text-right">Referrer</TableHead>
+                          <TableHead className="text-right">Trigger</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {data.feeTransactions.map((tx) => (
+                          <TableRow key={tx.id} data-testid={`row-fee-${tx.id}`}>
+                            <TableCell>{tx.feeType}</TableCell>
+                            <TableCell className="text-sm whitespace-nowrap">
+                              {new Date(tx.blockTime).toLocaleString()}
+                            </TableCell>
+                            {[tx.totalFeeCharged, tx.govFee, tx.vaultFee, tx.referrerAllocation, tx.triggerFee].map(
+                              (amount, i) => (
+                                <TableCell key={i} className="text-right font-mono text-sm">
+                                  {(Number(amount || 0) / 1e6).toFixed(4)}
+                                </TableCell>
+                              ),
+                            )}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import type { AlertRule, AlertSubscription, OpenPosition, TradeHistoryItem } from "@shared/schema";
+import historyFixture from "./mock/fixtures/tradeHistory.json";
+import { checkWebhookTarget, createDelivery, deliverAlert, evaluateCloseRules, evaluatePositionRules, signWebhook } from "./alerts";
+import { storage } from "./storage";
+
+const history = historyFixture as TradeHistoryItem[];
+
+const position: OpenPosition = {
+  tradeId: 104,
+  pair: "BTC",
+  direction: "long",
+  leverage: 5,
+  collateral: 150,
+  entryPrice: 62000,
+  currentPrice: 63250,
+  liquidationPrice: 50200,
+  liquidationDistancePct: 0.2063,
+  unrealizedPnl: 15.12,
+  unrealizedPnlPct: 0.1008,
+  openedAt: "2026-10-15T08:30:00Z",
+  wallet: "0xabc",
+};
+
+const subscription: AlertSubscription = {
+  id: "sub-1",
+  network: "mock",
+  address: "0x5dba7aa28074201a2c3abe4e743adaf8e74bd183",
+  trader: "nibi1tka84g5qwssp5tp6he88gwk6lrn5h5vrumrhqx",
+  webhookUrl: "http://203.0.113.10/sai",
+  secret: "0123456789abcdef",
+  rules: [{ type: "liquidation_proximity", withinPct: 0.25 }],
+  firing: [],
+  lastHistoryId: 0,
+  client: "",
+  createdAt: "2026-10-18T00:00:00.000Z",
+};
+
+describe("evaluatePositionRules", () => {
+  const rules: AlertRule[] = [
+    { type: "liquidation_proximity", withinPct: 0.25 },
+    { type: "unrealized_pnl_below", thresholdUsd: -10 },
+  ];
+
+  test("fires once per rule and trade until the condition clears", () => {
+    const first = evaluatePositionRules(rules, [position], []);
+    assert.deepEqual(first.alerts.map((a) => a.event), ["liquidation_proximity"]);
+    assert.deepEqual(first.firing, ["0:104"]);
+
+    const repeat = evaluatePositionRules(rules, [position], first.firing);
+    assert.equal(repeat.alerts.length, 0);
+
+    const cleared = evaluatePositionRules(rules, [{ ...position, liquidationDistancePct: 0.3 }], repeat.firing);
+    assert.deepEqual(cleared.firing, []);
+    assert.equal(evaluatePositionRules(rules, [position], cleared.firing).alerts.length, 1);
+  });
+
+  test("fires when unrealized PnL drops below the threshold", () => {
+    const { alerts } = evaluatePositionRules(rules, [{ ...position, unrealizedPnl: -12.5 }], ["0:104"]);
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0].event, "unrealized_pnl_below");
+    assert.match(alerts[0].message, /-\$12\.50/);
+  });
+
+  test("keeps the previous state when the Keeper has no data to decide", () => {
+    const { alerts, firing } = evaluatePositionRules(rules, [{ ...position, liquidationDistancePct: undefined }], ["0:104"]);
+    assert.equal(alerts.length, 0);
+    assert.deepEqual(firing, ["0:104"]);
+  });
+});
+
+describe("evaluateCloseRules", () => {
+  test("alerts matching closes newer than the last checked history id", () => {
+    const rules: AlertRule[] = [{ type: "position_closed", reasons: ["tp", "liquidation"] }];
+    const { alerts, lastHistoryId } = evaluateCloseRules(rules, history, 0);
+    assert.equal(lastHistoryId, Math.max(...history.map((h) => h.id)));
+    assert.ok(alerts.length > 0);
+    for (const alert of alerts) {
+      assert.ok(["tp", "liquidation"].includes(alert.data.reason as string));
+    }
+    const tpClose = alerts.find((a) => a.tradeId === 103)!;
+    // 2950 stNIBI at $0.025
+    assert.equal(tpClose.data.realizedPnlUsd, 73.75);
+
+    assert.equal(evaluateCloseRules(rules, history, lastHistoryId).alerts.length, 0);
+  });
+});
+
+describe("signWebhook", () => {
+  test("is an HMAC-SHA256 of the timestamp and body", () => {
+    const expected = createHmac("sha256", "secret").update("1700000000.{}").digest("hex");
+    assert.equal(signWebhook("secret", "1700000000", "{}"), `sha256=${expected}`);
+  });
+});
+
+describe("checkWebhookTarget", () => {
+  const resolveTo = (...addresses: string[]) => async () => addresses;
+
+  test("accepts hosts resolving to public addresses", async () => {
+    assert.deepEqual(await checkWebhookTarget("https://hooks.example/sai", resolveTo("93.184.216.34")), { ok: true });
+    assert.deepEqual(await checkWebhookTarget("http://203.0.113.10/sai"), { ok: true });
+  });
+
+  test("rejects loopback, private, link-local and mapped addresses", async () => {
+    for (const url of [
+      "http://127.0.0.1:5000/",
+      "http://0x7f000001/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://10.1.2.3/",
+      "http://192.168.1.1/",
+      "http://[::1]/",
+      "http://[::ffff:10.0.0.1]/",
+      "http://[fd00::1]/",
+    ]) {
+      assert.equal((await checkWebhookTarget(url)).ok, false, url);
+    }
+  });
+
+  test("rejects a host when any of its addresses is blocked", async () => {
+    const result = await checkWebhookTarget("https://hooks.example/sai", resolveTo("93.184.216.34", "172.16.0.5"));
+    assert.equal(result.ok, false);
+    const unresolved = await checkWebhookTarget("https://hooks.example/sai", async () => {
+      throw new Error("ENOTFOUND");
+    });
+    assert.deepEqual(unresolved, { ok: false, error: "Webhook host hooks.example could not be resolved" });
+  });
+});
+
+describe("deliverAlert", () => {
+  const originalFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const alert = { event: "test" as const, message: "Test", data: {} };
+
+  test("retries failed attempts and logs the delivery", async () => {
+    const requests: RequestInit[] = [];
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      requests.push(init);
+      return new Response(null, { status: requests.length < 3 ? 503 : 200 });
+    }) as typeof fetch;
+
+    const delivery = createDelivery(subscription, alert);
+    const result = await deliverAlert(subscription, delivery, [0, 0, 0]);
+    assert.equal(result.status, "delivered");
+    assert.equal(result.attempts, 3);
+    assert.equal(result.responseStatus, 200);
+
+    const headers = requests[2].headers as Record<string, string>;
+    const body = requests[2].body as string;
+    assert.equal(headers["X-Sai-Signature"], signWebhook(subscription.secret, headers["X-Sai-Timestamp"], body));
+    assert.equal(JSON.parse(body).deliveryId, delivery.id);
+
+    const [logged] = await storage.getAlertDeliveries(subscription.id, 10);
+    assert.equal(logged.status, "delivered");
+  });
+
+  test("fails after the last retry", async () => {
+    globalThis.fetch = (async () => {
+      throw new Error("connect ECONNREFUSED");
+    }) as typeof fetch;
+
+    const result = await deliverAlert(subscription, createDelivery(subscription, alert), [0]);
+    assert.equal(result.status, "failed");
+    assert.equal(result.attempts, 2);
+    assert.equal(result.responseStatus, null);
+    assert.equal(result.error, "connect ECONNREFUSED");
+  });
+
+  test("does not follow redirects", async () => {
+    const requests: RequestInit[] = [];
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      requests.push(init);
+      return new Response(null, { status: 302, headers: { Location: "http://169.254.169.254/" } });
+    }) as typeof fetch;
+
+    const result = await deliverAlert(subscription, createDelivery(subscription, alert), []);
+    assert.equal(requests[0].redirect, "manual");
+    assert.equal(result.status, "failed");
+    assert.equal(result.error, "HTTP 302");
+  });
+
+  test("fails without sending when the target is blocked", async () => {
+    let sent = false;
+    globalThis.fetch = (async () => {
+      sent = true;
+      return new Response(null, { status: 200 });
+    }) as typeof fetch;
+
+    const internal = { ...subscription, webhookUrl: "http://169.254.169.254/latest/meta-data/" };
+    const result = await deliverAlert(internal, createDelivery(internal, alert), [0, 0]);
+    assert.equal(sent, false);
+    assert.equal(result.status, "failed");
+    assert.equal(result.attempts, 1);
+    assert.equal(result.responseStatus, null);
+  });
+
+  test("connects only to the checked addresses when the host re-resolves to a blocked one", async () => {
+    let received = 0;
+    const server = createServer((_req, res) => {
+      received++;
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    // Public for the target check, loopback once the connection resolves it again
+    let lookups = 0;
+    const rebinding = async () => (lookups++ === 0 ? ["93.184.216.34"] : ["127.0.0.1"]);
+    try {
+      const rebound = { ...subscription, webhookUrl: `http://rebind.example:${port}/sai` };
+      const result = await deliverAlert(rebound, createDelivery(rebound, alert), [], rebinding);
+      assert.equal(lookups, 2);
+      assert.equal(received, 0);
+      assert.equal(result.status, "failed");
+      assert.equal(result.responseStatus, null);
+      assert.equal(result.error, "Webhook URL must not point to a loopback, private or link-local address");
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,456 @@
+// Liquidation-risk alerts
+// Each subscription watches one address on one network; the engine checks every subscription on a fixed cadence
+// and POSTs each triggered alert to the subscription's webhook, signed with the subscription's secret
+
+import type { Server } from "http";
+import { createHash, createHmac, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { Agent } from "undici";
+import type {
+  AlertCloseReason,
+  AlertDelivery,
+  AlertEvent,
+  AlertRule,
+  AlertSubscription,
+  AlertSubscriptionView,
+  OpenPosition,
+  TradeHistoryItem,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { syncTrader } from "./indexer";
+import { resolveNetwork } from "./networks";
+import { loadOpenPositions } from "./positions";
+
+// Open positions are re-valued at the Keeper's mark price on each check
+export const ALERT_CHECK_INTERVAL_MS = Number(process.env.ALERT_CHECK_INTERVAL_MS) || 60_000;
+
+// Subscriptions are anonymous, so these caps are what keeps one caller from filling the engine's check cycle
+export const MAX_ALERT_SUBSCRIPTIONS_PER_ADDRESS = 5;
+export const MAX_ALERT_SUBSCRIPTIONS_PER_CLIENT = 20;
+
+// Subscriptions checked at once on each tick
+export const ALERT_CHECK_CONCURRENCY = 4;
+
+// Waits before each retry of a failed delivery; a delivery gets one attempt more than there are delays
+export const WEBHOOK_RETRY_DELAYS_MS = [5_000, 30_000, 120_000];
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Local development only: lets webhooks reach a relay on this machine or the local network
+const ALLOW_PRIVATE_WEBHOOKS = process.env.ALERT_ALLOW_PRIVATE_WEBHOOKS === "1";
+
+// Webhooks are sent from the server, so they may not reach loopback, private, link-local (cloud metadata),
+// shared, multicast or reserved addresses. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const BLOCKED_WEBHOOK_ADDRESSES = new BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 96],
+  ["::1", 128],
+  ["64:ff9b:1::", 48],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(prefix, bits, "ipv6");
+}
+
+const CLOSE_REASONS: Record<string, AlertCloseReason> = {
+  position_closed_user: "user",
+  position_closed_sl: "sl",
+  position_closed_tp: "tp",
+  position_liquidated: "liquidation",
+};
+
+export interface TriggeredAlert {
+  event: AlertEvent;
+  message: string;
+  tradeId?: number;
+  pair?: string;
+  data: Record<string, unknown>;
+}
+
+export function isBlockedWebhookAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_WEBHOOK_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export type WebhookTargetResult = { ok: true } | { ok: false; error: string };
+
+export type HostResolver = (host: string) => Promise<string[]>;
+
+// Resolves the webhook host and rejects it when any of its addresses is blocked. Checked when a subscription is
+// created and before every delivery attempt, for a readable error; the connection itself is pinned by webhookAgent
+export async function checkWebhookTarget(
+  webhookUrl: string,
+  resolve: HostResolver = resolveHost
+): Promise<WebhookTargetResult> {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    return { ok: false, error: "Webhook URL must be a valid URL" };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { ok: false, error: "Webhook URL must use http or https" };
+  }
+  if (ALLOW_PRIVATE_WEBHOOKS) return { ok: true };
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : await resolve(host);
+  } catch {
+    return { ok: false, error: `Webhook host ${host} could not be resolved` };
+  }
+  if (addresses.length === 0) {
+    return { ok: false, error: `Webhook host ${host} could not be resolved` };
+  }
+  if (addresses.some(isBlockedWebhookAddress)) {
+    return { ok: false, error: "Webhook URL must not point to a loopback, private or link-local address" };
+  }
+  return { ok: true };
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  const results = await lookup(host, { all: true, verbatim: true });
+  return results.map(result => result.address);
+}
+
+// Resolves the host again as the socket connects and refuses blocked addresses there, so a host that re-resolves
+// after checkWebhookTarget (DNS rebinding) still cannot reach them. IP literals are not looked up; the check covers them
+function blockedAddressLookup(resolve: HostResolver): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname).then(
+      (resolved) => {
+        const addresses = resolved
+          .map(address => ({ address, family: isIP(address) }))
+          .filter(({ family }) => !options.family || family === options.family);
+        if (addresses.length === 0) {
+          callback(Object.assign(new Error(`Webhook host ${hostname} could not be resolved`), { code: "ENOTFOUND" }), "", 0);
+        } else if (addresses.some(({ address }) => isBlockedWebhookAddress(address))) {
+          callback(new Error("Webhook URL must not point to a loopback, private or link-local address"), "", 0);
+        } else if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+      (error) => callback(error, "", 0)
+    );
+  };
+}
+
+// One connection pool per resolver (tests pass their own)
+const webhookAgents = new Map<HostResolver, Agent>();
+
+export function webhookAgent(resolve: HostResolver = resolveHost): Agent {
+  let agent = webhookAgents.get(resolve);
+  if (!agent) {
+    agent = new Agent({ connect: { lookup: blockedAddressLookup(resolve) } });
+    webhookAgents.set(resolve, agent);
+  }
+  return agent;
+}
+
+// Stored in place of the client's IP address
+export function alertClientKey(ip: string | undefined): string {
+  return createHash("sha256").update(ip ?? "").digest("hex").slice(0, 32);
+}
+
+export function toSubscriptionView(subscription: AlertSubscription): AlertSubscriptionView {
+  const { secret: _secret, firing: _firing, client: _client, ...view } = subscription;
+  return view;
+}
+
+function formatUsd(value: number): string {
+  return `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+}
+
+// Whether a position currently meets a rule's condition; undefined when the Keeper data to decide is missing
+function positionCondition(rule: AlertRule, position: OpenPosition): boolean | undefined {
+  switch (rule.type) {
+    case "liquidation_proximity":
+      return position.liquidationDistancePct === undefined ? undefined : position.liquidationDistancePct <= rule.withinPct;
+    case "unrealized_pnl_below":
+      return position.unrealizedPnl === undefined ? undefined : position.unrealizedPnl < rule.thresholdUsd;
+    default:
+      return undefined;
+  }
+}
+
+function positionAlert(rule: AlertRule, position: OpenPosition): TriggeredAlert {
+  const label = `${position.pair} ${position.direction} #${position.tradeId}`;
+  const data = {
+    direction: position.direction,
+    leverage: position.leverage,
+    entryPrice: position.entryPrice,
+    markPrice: position.currentPrice,
+    liquidationPrice: position.liquidationPrice,
+    liquidationDistancePct: position.liquidationDistancePct,
+    unrealizedPnl: position.unrealizedPnl,
+    unrealizedPnlPct: position.unrealizedPnlPct,
+  };
+  const message = rule.type === "liquidation_proximity"
+    ? `${label} is ${((position.liquidationDistancePct ?? 0) * 100).toFixed(2)}% from its liquidation price ${position.liquidationPrice}`
+    : `${label} unrealized PnL is ${formatUsd(position.unrealizedPnl ?? 0)}`;
+  return { event: rule.type, message, tradeId: position.tradeId, pair: position.pair, data };
+}
+
+// Position rules fire once per rule and trade ("<rule index>:<trade id>" in `firing`) and re-arm once the
+// condition clears; positions without the data to decide keep their previous state
+export function evaluatePositionRules(
+  rules: AlertRule[],
+  positions: OpenPosition[],
+  firing: string[]
+): { alerts: TriggeredAlert[]; firing: string[] } {
+  const previous = new Set(firing);
+  const next: string[] = [];
+  const alerts: TriggeredAlert[] = [];
+
+  rules.forEach((rule, index) => {
+    if (rule.type === "position_closed") return;
+    for (const position of positions) {
+      const key = `${index}:${position.tradeId}`;
+      const condition = positionCondition(rule, position);
+      if (condition === undefined) {
+        if (previous.has(key)) next.push(key);
+        continue;
+      }
+      if (!condition) continue;
+      next.push(key);
+      if (!previous.has(key)) alerts.push(positionAlert(rule, position));
+    }
+  });
+  return { alerts, firing: next };
+}
+
+// Close events newer than `lastHistoryId` matching any position_closed rule (one alert per event)
+export function evaluateCloseRules(
+  rules: AlertRule[],
+  history: TradeHistoryItem[],
+  lastHistoryId: number
+): { alerts: TriggeredAlert[]; lastHistoryId: number } {
+  const reasons = new Set(rules.flatMap(rule => rule.type === "position_closed" ? rule.reasons : []));
+  const alerts: TriggeredAlert[] = [];
+  let maxId = lastHistoryId;
+
+  const newItems = history.filter(item => item.id > lastHistoryId).sort((a, b) => a.id - b.id);
+  for (const item of newItems) {
+    maxId = Math.max(maxId, item.id);
+    const reason = CLOSE_REASONS[item.tradeChangeType];
+    if (!reason || !reasons.has(reason)) continue;
+
+    const realizedPnlUsd = item.realizedPnlCollateral !== null
+      ? (item.realizedPnlCollateral / 1e6) * (item.collateralPrice || 1)
+      : undefined;
+    const how = reason === "liquidation" ? "liquidated" : reason === "user" ? "closed" : `closed by ${reason.toUpperCase()}`;
+    alerts.push({
+      event: "position_closed",
+      message: `Trade #${item.trade.id} was ${how}` + (realizedPnlUsd !== undefined ? ` (realized ${formatUsd(realizedPnlUsd)})` : ""),
+      tradeId: item.trade.id,
+      data: {
+        reason,
+        direction: item.trade.isLong ? "long" : "short",
+        leverage: item.trade.leverage,
+        openPrice: item.trade.openPrice,
+        closePrice: item.trade.closePrice,
+        realizedPnlUsd,
+        realizedPnlPct: item.realizedPnlPct,
+        evmTxHash: item.evmTxHash,
+        timestamp: item.block.block_ts,
+      },
+    });
+  }
+  return { alerts, lastHistoryId: maxId };
+}
+
+// Receivers recompute HMAC-SHA256 of "<timestamp>.<body>" with the shared secret and compare it to X-Sai-Signature
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function createDelivery(subscription: AlertSubscription, alert: TriggeredAlert): AlertDelivery {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  return {
+    id,
+    subscriptionId: subscription.id,
+    event: alert.event,
+    payload: {
+      deliveryId: id,
+      subscriptionId: subscription.id,
+      event: alert.event,
+      network: subscription.network,
+      address: subscription.address,
+      message: alert.message,
+      ...(alert.tradeId !== undefined ? { tradeId: alert.tradeId } : {}),
+      ...(alert.pair !== undefined ? { pair: alert.pair } : {}),
+      data: alert.data,
+      triggeredAt: now,
+    },
+    status: "pending",
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// POST a delivery until the webhook answers 2xx or the retries run out, logging every attempt
+export async function deliverAlert(
+  subscription: AlertSubscription,
+  delivery: AlertDelivery,
+  retryDelaysMs: number[] = WEBHOOK_RETRY_DELAYS_MS,
+  resolve: HostResolver = resolveHost
+): Promise<AlertDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  let current = delivery;
+
+  for (let attempt = 0; attempt <= retryDelaysMs.length; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, retryDelaysMs[attempt - 1]));
+    }
+    // Signed per attempt, so receivers can reject stale replays by timestamp
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    // A target that now resolves to a blocked address is not retried
+    const target = await checkWebhookTarget(subscription.webhookUrl, resolve);
+    if (!target.ok) {
+      current = {
+        ...current,
+        attempts: current.attempts + 1,
+        responseStatus,
+        error: target.error,
+        status: "failed",
+        updatedAt: new Date().toISOString(),
+      };
+      await storage.saveAlertDelivery(current);
+      break;
+    }
+    try {
+      const response = await fetch(subscription.webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Sai-PnL-Alerts",
+          "X-Sai-Event": delivery.event,
+          "X-Sai-Delivery": delivery.id,
+          "X-Sai-Timestamp": timestamp,
+          "X-Sai-Signature": signWebhook(subscription.secret, timestamp, body),
+        },
+        body,
+        // A redirect could point anywhere, including addresses the target check rejects; it counts as a failure
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        ...(ALLOW_PRIVATE_WEBHOOKS ? {} : { dispatcher: webhookAgent(resolve) }),
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (e) {
+      // fetch wraps connection errors (including a refused address) in a generic "fetch failed"
+      const cause = e instanceof Error && e.cause instanceof Error ? e.cause : e;
+      error = cause instanceof Error ? cause.message : String(cause);
+    }
+
+    const delivered = error === null;
+    const lastAttempt = attempt === retryDelaysMs.length;
+    current = {
+      ...current,
+      attempts: current.attempts + 1,
+      responseStatus,
+      error,
+      status: delivered ? "delivered" : lastAttempt ? "failed" : "pending",
+      updatedAt: new Date().toISOString(),
+    };
+    await storage.saveAlertDelivery(current);
+    if (delivered) break;
+  }
+  return current;
+}
+
+// Evaluate one subscription, persist its rule state and send any triggered alerts
+export async function checkSubscription(subscription: AlertSubscription): Promise<void> {
+  const networkConfig = resolveNetwork(subscription.network);
+  if (!networkConfig) return;
+  const wallet = { evm: subscription.address, bech32: subscription.trader };
+
+  const alerts: TriggeredAlert[] = [];
+  let { firing, lastHistoryId } = subscription;
+
+  if (subscription.rules.some(rule => rule.type !== "position_closed")) {
+    const { positions } = await loadOpenPositions(networkConfig, subscription.address, [wallet], [wallet]);
+    const result = evaluatePositionRules(subscription.rules, positions, firing);
+    alerts.push(...result.alerts);
+    firing = result.firing;
+  }
+
+  if (subscription.rules.some(rule => rule.type === "position_closed")) {
+    await syncTrader(networkConfig.id, networkConfig, subscription.trader);
+    const history = await storage.getTradeHistory(networkConfig.id, subscription.trader);
+    const result = evaluateCloseRules(subscription.rules, history, lastHistoryId);
+    alerts.push(...result.alerts);
+    lastHistoryId = result.lastHistoryId;
+  }
+
+  // The subscription may have been deleted while the Keeper was queried
+  if (!(await storage.getAlertSubscription(subscription.id))) return;
+  await storage.saveAlertSubscription({ ...subscription, firing, lastHistoryId });
+
+  for (const alert of alerts) {
+    const delivery = createDelivery(subscription, alert);
+    await storage.saveAlertDelivery(delivery);
+    // Retries can take minutes, so they don't hold up the next check
+    deliverAlert(subscription, delivery).catch((error) => {
+      console.error(`[Alerts] Failed to deliver ${delivery.id}:`, error);
+    });
+  }
+}
+
+// The first run waits for the server to listen, since the mock network is served by this same server
+export function startAlertEngine(httpServer: Server): void {
+  let running = false;
+  const runAll = async () => {
+    // Skip a tick rather than overlap checks when the Keeper is slow
+    if (running) return;
+    running = true;
+    try {
+      const subscriptions = await storage.getAlertSubscriptions();
+      // A few workers share the queue, so one slow subscription doesn't hold up the rest
+      let next = 0;
+      const worker = async () => {
+        while (next < subscriptions.length) {
+          const subscription = subscriptions[next++];
+          await checkSubscription(subscription).catch((error) => {
+            console.error(`[Alerts] Failed to check subscription ${subscription.id}:`, error);
+          });
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(ALERT_CHECK_CONCURRENCY, subscriptions.length) }, worker));
+    } catch (error) {
+      console.error("[Alerts] Failed to load subscriptions:", error);
+    } finally {
+      running = false;
+    }
+  };
+  httpServer.once("listening", runAll);
+  setInterval(runAll, ALERT_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,237 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Market, PerpTrade, TradeHistoryItem } from "@shared/schema";
+import tradesFixture from "./mock/fixtures/trades.json";
+import historyFixture from "./mock/fixtures/tradeHistory.json";
+import marketsFixture from "./mock/fixtures/markets.json";
+import {
+  buildRealizedPnlMap,
+  buildTradeEventPriceMap,
+  convertTrade,
+  convertTradeEvent,
+  convertTradeHistoryItem,
+  type TradePricing,
+} from "./conversions";
+import { buildMarketIdToSymbolMap } from "./markets";
+import { buildOraclePriceMap } from "./prices";
+import type { TradeFees } from "./fees";
+
+const trades = tradesFixture as PerpTrade[];
+const history = historyFixture as TradeHistoryItem[];
+const symbolMap = buildMarketIdToSymbolMap(marketsFixture.borrowings as Market[]);
+const oraclePriceMap = buildOraclePriceMap(marketsFixture.tokenPricesUsd);
+const pnlMap = buildRealizedPnlMap(history);
+const pricing: TradePricing = { policy: "event", oraclePriceMap, eventPrices: buildTradeEventPriceMap(history) };
+const markedToToday: TradePricing = { ...pricing, policy: "current" };
+const noOracle: TradePricing = { ...markedToToday, oraclePriceMap: new Map() };
+const noFees = new Map<number, TradeFees>();
+
+function tradeById(id: number): PerpTrade {
+  const trade = trades.find((t) => t.id === id);
+  if (!trade) throw new Error(`No fixture trade ${id}`);
+  return structuredClone(trade);
+}
+
+describe("buildRealizedPnlMap", () => {
+  test("keeps only closing events, in collateral token units", () => {
+    assert.deepEqual(Array.from(pnlMap.keys()).sort(), [101, 102, 103]);
+    assert.deepEqual(pnlMap.get(102), { pnlPct: -0.2045, pnlAmount: -40.9 });
+  });
+});
+
+describe("buildTradeEventPriceMap", () => {
+  test("records the opening and closing events' collateral prices", () => {
+    const prices = buildTradeEventPriceMap(history);
+    assert.deepEqual(prices.get(103), { open: 0.024, close: 0.025 });
+    assert.deepEqual(prices.get(104), { open: 1, close: null });
+  });
+});
+
+describe("convertTrade", () => {
+  test("USDC trade closed without state uses realized PnL from history", () => {
+    const trade = convertTrade(tradeById(101), pnlMap, noFees, symbolMap, pricing);
+    assert.equal(trade.type, "close");
+    assert.equal(trade.pair, "BTC");
+    assert.equal(trade.direction, "long");
+    assert.equal(trade.collateral, 100);
+    assert.equal(trade.closePrice, 63000);
+    assert.equal(trade.profitPct, 0.4836);
+    assert.equal(trade.pnlAmount, 48.36);
+    assert.equal(trade.amountReceived, 148.36);
+    assert.equal(trade.timestamp, "2026-09-03T12:00:00Z");
+    assert.equal(trade.borrowingFee, undefined);
+    assert.equal(trade.totalFees, undefined);
+  });
+
+  test("stNIBI collateral is valued at the open price and realized amounts at the close price", () => {
+    const trade = convertTrade(tradeById(103), pnlMap, noFees, symbolMap, pricing);
+    assert.equal(trade.collateralToken, "stNIBI");
+    assert.ok(Math.abs(trade.collateral! - 10000 * 0.024) < 1e-9);
+    assert.ok(Math.abs(trade.pnlAmount! - 2950 * 0.025) < 1e-9);
+    assert.ok(Math.abs(trade.amountReceived! - 12950 * 0.025) < 1e-9);
+    assert.deepEqual(trade.native, { collateral: 10000, pnlAmount: 2950, amountReceived: 12950 });
+  });
+
+  test("stNIBI amounts are marked to the oracle price under the current policy", () => {
+    const trade = convertTrade(tradeById(103), pnlMap, noFees, symbolMap, markedToToday);
+    assert.ok(Math.abs(trade.collateral! - 10000 * 0.026) < 1e-9);
+    assert.ok(Math.abs(trade.pnlAmount! - 2950 * 0.026) < 1e-9);
+    assert.ok(Math.abs(trade.amountReceived! - 12950 * 0.026) < 1e-9);
+  });
+
+  test("stNIBI falls back to the historical collateral prices without an oracle price", () => {
+    const trade = convertTrade(tradeById(103), pnlMap, noFees, symbolMap, noOracle);
+    assert.ok(Math.abs(trade.collateral! - 10000 * 0.024) < 1e-9);
+    assert.ok(Math.abs(trade.pnlAmount! - 2950 * 0.025) < 1e-9);
+  });
+
+  test("closed trade with state prefers state PnL after fees", () => {
+    const perpTrade = tradeById(101);
+    perpTrade.state = {
+      ...tradeById(104).state!,
+      pnlPct: 0.45,
+      pnlCollateralAfterFees: 45000000,
+      borrowingFeeCollateral: 1000000,
+    };
+    const trade = convertTrade(perpTrade, pnlMap, noFees, symbolMap, pricing);
+    assert.equal(trade.profitPct, 0.45);
+    assert.equal(trade.pnlAmount, 45);
+    assert.equal(trade.borrowingFee, 1);
+    assert.equal(trade.totalFees, 1);
+  });
+
+  test("open trade reports borrowing fee plus receipt fees and no realized PnL", () => {
+    const fees = new Map<number, TradeFees>([
+      [104, { openingFee: 0.6, closingFee: 0, triggerFee: 0, source: "receipt", mismatch: false }],
+    ]);
+    const trade = convertTrade(tradeById(104), pnlMap, fees, symbolMap, pricing);
+    assert.equal(trade.type, "open");
+    assert.equal(trade.profitPct, undefined);
+    assert.equal(trade.pnlAmount, undefined);
+    assert.equal(trade.openingFee, 0.6);
+    assert.equal(trade.borrowingFee, 0.5);
+    assert.ok(Math.abs(trade.totalFees! - 1.1) < 1e-9);
+    assert.equal(trade.native?.openingFee, 0.6);
+    assert.ok(Math.abs(trade.native!.totalFees! - 1.1) < 1e-9);
+    assert.equal(trade.feeSource, "receipt");
+    assert.equal(trade.feeMismatch, false);
+  });
+
+  test("open trade with missing state has no fees or PnL", () => {
+    const perpTrade = tradeById(104);
+    perpTrade.state = null;
+    const trade = convertTrade(perpTrade, pnlMap, noFees, symbolMap, pricing);
+    assert.equal(trade.borrowingFee, undefined);
+    assert.equal(trade.totalFees, undefined);
+    assert.equal(trade.pnlAmount, undefined);
+  });
+
+  test("unknown market and collateral fall back to Unknown and USD parity", () => {
+    const perpTrade = tradeById(101);
+    perpTrade.perpBorrowing = { marketId: 99 };
+    const trade = convertTrade(perpTrade, new Map(), noFees, symbolMap, pricing);
+    assert.equal(trade.pair, "Unknown");
+    assert.equal(trade.collateral, 100);
+    assert.equal(trade.pnlAmount, undefined);
+    assert.equal(trade.amountReceived, undefined);
+  });
+});
+
+describe("convertTradeHistoryItem", () => {
+  const tradesMap = new Map(trades.map((t) => [t.id, t]));
+
+  function liquidation(tradeId: number, collateralPrice: number | null): TradeHistoryItem {
+    const opened = history.find((h) => h.trade.id === tradeId)!;
+    return {
+      ...structuredClone(opened),
+      id: 2000 + tradeId,
+      tradeChangeType: "position_liquidated",
+      collateralPrice,
+      block: { block: 9000, block_ts: "2026-10-01T00:00:00Z" },
+      realizedPnlCollateral: -tradeById(tradeId).openCollateralAmount,
+      realizedPnlPct: -1,
+    };
+  }
+
+  test("ignores events that do not close a trade", () => {
+    const opened = history.find((h) => h.tradeChangeType === "position_opened")!;
+    assert.equal(convertTradeHistoryItem(opened, tradesMap, symbolMap, pricing), null);
+  });
+
+  test("liquidated USDC trade loses its whole collateral", () => {
+    const trade = convertTradeHistoryItem(liquidation(101, 1), tradesMap, symbolMap, pricing)!;
+    assert.equal(trade.type, "close");
+    assert.equal(trade.txHash, "history-2101");
+    assert.equal(trade.pair, "BTC");
+    assert.equal(trade.profitPct, -1);
+    assert.equal(trade.pnlAmount, -100);
+    assert.equal(trade.amountReceived, 0);
+  });
+
+  test("liquidated stNIBI trade realizes at the event's collateral price", () => {
+    const trade = convertTradeHistoryItem(liquidation(103, 0.02), tradesMap, symbolMap, pricing)!;
+    assert.ok(Math.abs(trade.collateral! - 10000 * 0.024) < 1e-9);
+    assert.ok(Math.abs(trade.pnlAmount! + 10000 * 0.02) < 1e-9);
+    assert.equal(trade.amountReceived, 0);
+  });
+
+  test("liquidated stNIBI trade marked to today uses the oracle price, then the event's collateral price", () => {
+    const withOracle = convertTradeHistoryItem(liquidation(103, 0.02), tradesMap, symbolMap, markedToToday)!;
+    assert.ok(Math.abs(withOracle.pnlAmount! + 10000 * 0.026) < 1e-9);
+    const withoutOracle = convertTradeHistoryItem(liquidation(103, 0.02), tradesMap, symbolMap, noOracle)!;
+    assert.ok(Math.abs(withoutOracle.pnlAmount! + 10000 * 0.02) < 1e-9);
+    assert.equal(withoutOracle.amountReceived, 0);
+  });
+
+  test("event for a trade missing from the trades list has no collateral", () => {
+    const trade = convertTradeHistoryItem(liquidation(101, 1), new Map(), symbolMap, pricing)!;
+    assert.equal(trade.pair, "Unknown");
+    assert.equal(trade.collateral, undefined);
+    assert.equal(trade.pnlAmount, -100);
+    assert.equal(trade.amountReceived, undefined);
+  });
+});
+
+describe("convertTradeEvent", () => {
+  const event = (id: number) => history.find((h) => h.id === id)!;
+
+  test("closing event carries realized PnL in collateral units and USD", () => {
+    const closed = convertTradeEvent(event(1006), "stNIBI", pricing);
+    assert.equal(closed.tradeChangeType, "position_closed_tp");
+    assert.equal(closed.block, 3600);
+    assert.equal(closed.timestamp, "2026-09-25T07:45:00Z");
+    assert.equal(closed.realizedPnl, 2950);
+    assert.ok(Math.abs(closed.realizedPnlUsd! - 2950 * 0.025) < 1e-9);
+    const marked = convertTradeEvent(event(1006), "stNIBI", markedToToday);
+    assert.ok(Math.abs(marked.realizedPnlUsd! - 2950 * 0.026) < 1e-9);
+    assert.equal(closed.realizedPnlPct, 0.295);
+    assert.equal(closed.tp, 2640);
+    assert.equal(closed.sl, null);
+    assert.equal(closed.partialClose, false);
+  });
+
+  test("opening event has no realized PnL", () => {
+    const opened = convertTradeEvent(event(1007), "USDC", pricing);
+    assert.equal(opened.realizedPnl, null);
+    assert.equal(opened.realizedPnlUsd, null);
+    assert.equal(opened.sl, 55000);
+  });
+
+  test("realized PnL on an event that does not close the trade is a partial close", () => {
+    const partial = convertTradeEvent(
+      { ...event(1007), tradeChangeType: "position_size_decreased", realizedPnlCollateral: 5000000, realizedPnlPct: 0.1 },
+      "USDC",
+      pricing,
+    );
+    assert.equal(partial.partialClose, true);
+    assert.equal(partial.realizedPnlUsd, 5);
+  });
+
+  test("history indexed without SL/TP reports them as null", () => {
+    const { sl: _sl, tp: _tp, ...trade } = event(1002).trade;
+    const converted = convertTradeEvent({ ...event(1002), trade }, "USDC", pricing);
+    assert.equal(converted.sl, null);
+    assert.equal(converted.tp, null);
+    assert.equal(converted.realizedPnlUsd, 48.36);
+  });
+});
@@ -0,0 +1,263 @@
+// Conversions from raw Sai Keeper data to the API's Trade type
+
+import type { Trade, TradeEvent, PerpTrade, TradeHistoryItem } from "@shared/schema";
+import { getCollateralPriceMultiplier, type CollateralPricing } from "./prices";
+import type { TradeFees } from "./fees";
+
+// History events that close a trade (and carry its realized PnL)
+export const CLOSE_TYPES = ["position_closed_user", "position_closed_sl", "position_closed_tp", "position_liquidated"];
+
+// Realized PnL from a trade's closing history event (pnlAmount in collateral token units)
+export interface RealizedPnl {
+  pnlPct: number;
+  pnlAmount: number;
+}
+
+// Realized PnL per trade ID from its closing history event
+export function buildRealizedPnlMap(history: TradeHistoryItem[]): Map<number, RealizedPnl> {
+  const pnlMap = new Map<number, RealizedPnl>();
+  for (const historyItem of history) {
+    if (CLOSE_TYPES.includes(historyItem.tradeChangeType) && historyItem.realizedPnlPct !== null) {
+      pnlMap.set(historyItem.trade.id, {
+        pnlPct: historyItem.realizedPnlPct,
+        pnlAmount: (historyItem.realizedPnlCollateral || 0) / 1e6,
+      });
+    }
+  }
+  return pnlMap;
+}
+
+// Collateral USD prices recorded by a trade's opening and closing history events (null when not indexed or unpriced)
+export interface TradeEventPrices {
+  open: number | null;
+  close: number | null;
+}
+
+export function buildTradeEventPriceMap(history: TradeHistoryItem[]): Map<number, TradeEventPrices> {
+  const priceMap = new Map<number, TradeEventPrices>();
+  for (const item of history) {
+    const isOpen = item.tradeChangeType === "position_opened";
+    if (!isOpen && !CLOSE_TYPES.includes(item.tradeChangeType)) continue;
+    const prices = priceMap.get(item.trade.id) ?? { open: null, close: null };
+    prices[isOpen ? "open" : "close"] = item.collateralPrice || null;
+    priceMap.set(item.trade.id, prices);
+  }
+  return priceMap;
+}
+
+// A trade's opening and closing EVM transactions from its history events (null when not indexed or without a hash)
+export interface TradeTxHashes {
+  open: string | null;
+  close: string | null;
+}
+
+export function buildTradeTxHashMap(history: TradeHistoryItem[]): Map<number, TradeTxHashes> {
+  const hashMap = new Map<number, TradeTxHashes>();
+  for (const item of history) {
+    const isOpen = item.tradeChangeType === "position_opened";
+    if (!isOpen && !CLOSE_TYPES.includes(item.tradeChangeType)) continue;
+    const hashes = hashMap.get(item.trade.id) ?? { open: null, close: null };
+    hashes[isOpen ? "open" : "close"] = item.evmTxHash || null;
+    hashMap.set(item.trade.id, hashes);
+  }
+  return hashMap;
+}
+
+// Collateral pricing for trade conversion, with each trade's recorded event prices
+export interface TradePricing extends CollateralPricing {
+  eventPrices: Map<number, TradeEventPrices>;
+}
+
+// USD multipliers for a trade's collateral: `open` for its collateral and opening fee, `close` for what closing
+// realized (PnL, amount received, closing and borrowing fees). An open trade values everything at `open`
+export function getTradeUsdPrices(
+  tradeId: number,
+  collateralTokenSymbol: string | undefined,
+  isOpen: boolean,
+  pricing: TradePricing
+): { open: number; close: number } {
+  const recorded = pricing.eventPrices.get(tradeId);
+  const usdPrice = (eventPrice: number | null | undefined) =>
+    getCollateralPriceMultiplier(collateralTokenSymbol, pricing.oraclePriceMap, eventPrice, pricing.policy);
+  const open = usdPrice(recorded?.open ?? recorded?.close);
+  return { open, close: isOpen ? open : usdPrice(recorded?.close ?? recorded?.open) };
+}
+
+// Convert GraphQL trade data to our Trade type
+export function convertTrade(
+  perpTrade: PerpTrade, 
+  pnlMap: Map<number, RealizedPnl>, 
+  feeMap: Map<number, TradeFees>, 
+  symbolMap: Map<number, string>,
+  pricing: TradePricing
+): Trade {
+  const isOpen = perpTrade.isOpen;
+  const timestamp = isOpen 
+    ? (perpTrade.openBlock?.block_ts || new Date().toISOString())
+    : (perpTrade.closeBlock?.block_ts || perpTrade.openBlock?.block_ts || new Date().toISOString());
+  
+  // Get market symbol directly from perpBorrowing
+  const marketId = perpTrade.perpBorrowing?.marketId;
+  const pair = marketId !== undefined ? (symbolMap.get(marketId) || "Unknown") : "Unknown";
+  
+  // Determine collateral token and USD price multipliers
+  const collateralTokenSymbol = perpTrade.perpBorrowing?.collateralToken?.symbol;
+  const pnlData = pnlMap.get(perpTrade.id);
+  const usdPrices = getTradeUsdPrices(perpTrade.id, collateralTokenSymbol, isOpen, pricing);
+  const rawCollateral = perpTrade.openCollateralAmount / 1e6;
+  
+  const trade: Trade = {
+    txHash: `trade-${perpTrade.id}`,
+    timestamp,
+    type: isOpen ? "open" : "close",
+    pair,
+    direction: perpTrade.isLong ? "long" : "short",
+    leverage: perpTrade.leverage,
+    collateral: rawCollateral * usdPrices.open,
+    openPrice: perpTrade.openPrice,
+    tradeIndex: String(perpTrade.id),
+    openTimestamp: perpTrade.openBlock?.block_ts,
+    closeTimestamp: perpTrade.closeBlock?.block_ts,
+    collateralToken: collateralTokenSymbol,
+    native: { collateral: rawCollateral },
+  };
+  const native = trade.native!;
+  
+  // Get fees from feeMap (receipts reconciled with Keeper feeTransactions) - convert to USD
+  const fees = feeMap.get(perpTrade.id);
+  if (fees) {
+    native.openingFee = fees.openingFee;
+    native.closingFee = fees.closingFee;
+    native.triggerFee = fees.triggerFee;
+    native.totalFees = fees.openingFee + fees.closingFee + fees.triggerFee;
+    trade.openingFee = fees.openingFee * usdPrices.open;
+    trade.closingFee = fees.closingFee * usdPrices.close;
+    trade.triggerFee = fees.triggerFee * usdPrices.close;
+    trade.totalFees = trade.openingFee + trade.closingFee + trade.triggerFee;
+    trade.feeSource = fees.source;
+    trade.feeMismatch = fees.mismatch;
+  }
+  
+  // Get borrowing fee from GraphQL state - convert to USD
+  if (perpTrade.state) {
+    native.borrowingFee = perpTrade.state.borrowingFeeCollateral / 1e6;
+    native.totalFees = (native.totalFees ?? 0) + native.borrowingFee;
+    trade.borrowingFee = native.borrowingFee * usdPrices.close;
+    if (trade.totalFees !== undefined) {
+      trade.totalFees += trade.borrowingFee;
+    } else {
+      trade.totalFees = trade.borrowingFee;
+    }
+  }
+  
+  if (!isOpen) {
+    trade.closePrice = perpTrade.closePrice || undefined;
+    let rawPnl: number | undefined;
+    if (perpTrade.state) {
+      trade.profitPct = perpTrade.state.pnlPct;
+      rawPnl = perpTrade.state.pnlCollateralAfterFees / 1e6;
+    } else {
+      if (pnlData) {
+        trade.profitPct = pnlData.pnlPct;
+        rawPnl = pnlData.pnlAmount;
+      }
+    }
+    if (rawPnl !== undefined) {
+      native.pnlAmount = rawPnl;
+      native.amountReceived = rawCollateral + rawPnl;
+      trade.pnlAmount = rawPnl * usdPrices.close;
+      // Received at close, so valued at the close price even when the collateral was worth something else at open
+      trade.amountReceived = native.amountReceived * usdPrices.close;
+    }
+  }
+  
+  return trade;
+}
+
+// Convert trade history item to our Trade type (for closed trades with realized P&L)
+export function convertTradeHistoryItem(
+  item: TradeHistoryItem, 
+  tradesMap: Map<number, PerpTrade>,
+  symbolMap: Map<number, string>,
+  pricing: TradePricing
+): Trade | null {
+  if (!CLOSE_TYPES.includes(item.tradeChangeType)) {
+    return null;
+  }
+  
+  const perpTrade = tradesMap.get(item.trade.id);
+  const marketId = perpTrade?.perpBorrowing?.marketId;
+  const pair = marketId !== undefined ? (symbolMap.get(marketId) || "Unknown") : "Unknown";
+  
+  // Determine collateral token and USD multipliers; this closing event's own price values what it realized
+  const collateralTokenSymbol = perpTrade?.perpBorrowing?.collateralToken?.symbol;
+  const openUsdPrice = getTradeUsdPrices(item.trade.id, collateralTokenSymbol, false, pricing).open;
+  const closeUsdPrice = getCollateralPriceMultiplier(
+    collateralTokenSymbol, pricing.oraclePriceMap, item.collateralPrice, pricing.policy
+  );
+  
+  // Get collateral from the perpTrade if available
+  const rawCollateral = perpTrade 
+    ? (perpTrade.openCollateralAmount || perpTrade.collateralAmount) / 1e6 
+    : undefined;
+  
+  const result: Trade = {
+    txHash: `history-${item.id}`,
+    timestamp: item.block.block_ts,
+    type: "close",
+    pair,
+    direction: item.trade.isLong ? "long" : "short",
+    leverage: item.trade.leverage,
+    collateral: rawCollateral !== undefined ? rawCollateral * openUsdPrice : undefined,
+    openPrice: item.trade.openPrice,
+    closePrice: item.trade.closePrice || undefined,
+    tradeIndex: String(item.trade.id),
+    collateralToken: collateralTokenSymbol,
+    native: { collateral: rawCollateral },
+  };
+  const native = result.native!;
+  
+  if (item.realizedPnlPct !== null) {
+    result.profitPct = item.realizedPnlPct;
+  }
+  if (item.realizedPnlCollateral !== null) {
+    native.pnlAmount = item.realizedPnlCollateral / 1e6;
+    result.pnlAmount = native.pnlAmount * closeUsdPrice;
+    if (rawCollateral !== undefined) {
+      native.amountReceived = rawCollateral + native.pnlAmount;
+      result.amountReceived = native.amountReceived * closeUsdPrice;
+    }
+  }
+  
+  return result;
+}
+
+// Convert a history event for the trade detail timeline
+export function convertTradeEvent(
+  item: TradeHistoryItem,
+  collateralTokenSymbol: string | undefined,
+  pricing: CollateralPricing
+): TradeEvent {
+  const collateralPriceMultiplier = getCollateralPriceMultiplier(
+    collateralTokenSymbol, pricing.oraclePriceMap, item.collateralPrice, pricing.policy
+  );
+  const realizedPnl = item.realizedPnlCollateral !== null ? item.realizedPnlCollateral / 1e6 : null;
+  
+  return {
+    id: item.id,
+    tradeChangeType: item.tradeChangeType,
+    block: item.block.block,
+    timestamp: item.block.block_ts,
+    evmTxHash: item.evmTxHash,
+    collateralPrice: item.collateralPrice,
+    leverage: item.trade.leverage,
+    openPrice: item.trade.openPrice,
+    closePrice: item.trade.closePrice,
+    sl: item.trade.sl ?? null,
+    tp: item.trade.tp ?? null,
+    realizedPnl,
+    realizedPnlUsd: realizedPnl !== null ? realizedPnl * collateralPriceMultiplier : null,
+    realizedPnlPct: item.realizedPnlPct,
+    partialClose: realizedPnl !== null && !CLOSE_TYPES.includes(item.tradeChangeType),
+  };
+}
@@ -0,0 +1,14 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+const { Pool } = pg;
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Postgres is optional: without DATABASE_URL the server falls back to in-memory storage
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : undefined;
+
+export const db: Database | undefined = pool ? drizzle(pool, { schema }) : undefined;
@@ -0,0 +1,74 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Market, PerpTrade, Trade, TradeHistoryItem } from "@shared/schema";
+import tradesFixture from "./mock/fixtures/trades.json";
+import historyFixture from "./mock/fixtures/tradeHistory.json";
+import marketsFixture from "./mock/fixtures/markets.json";
+import { buildRealizedPnlMap, buildTradeEventPriceMap, buildTradeTxHashMap, convertTrade, type TradePricing } from "./conversions";
+import { buildMarketIdToSymbolMap } from "./markets";
+import type { TradeFees } from "./fees";
+import { csvField, toExportedTrade, tradeCsvHeader, tradeToCsvRow, tradeTxLinks, TRADE_EXPORT_COLUMNS } from "./export";
+
+const history = historyFixture as TradeHistoryItem[];
+const perpTrades = tradesFixture as PerpTrade[];
+const symbolMap = buildMarketIdToSymbolMap(marketsFixture.borrowings as Market[]);
+const pricing: TradePricing = { policy: "event", oraclePriceMap: new Map(), eventPrices: buildTradeEventPriceMap(history) };
+const fees = new Map<number, TradeFees>([[103, { openingFee: 20, closingFee: 22, triggerFee: 0, source: "both", mismatch: false }]]);
+const txHashes = buildTradeTxHashMap(history);
+const explorer = "https://nibiscan.io";
+
+// Converted like /api/trades/export: closed stNIBI trade 103 and still-open trade 104
+function convertedTrade(id: number): Trade {
+  const perpTrade = perpTrades.find((t) => t.id === id)!;
+  return convertTrade(perpTrade, buildRealizedPnlMap(history), fees, symbolMap, pricing);
+}
+
+describe("csvField", () => {
+  test("quotes separators and doubles quotes", () => {
+    assert.equal(csvField("a,b"), '"a,b"');
+    assert.equal(csvField('say "hi"'), '"say ""hi"""');
+    assert.equal(csvField(undefined), "");
+  });
+
+  test("defuses formulas in text but keeps negative numbers", () => {
+    assert.equal(csvField("=HYPERLINK(\"x\")"), "\"'=HYPERLINK(\"\"x\"\")\"");
+    assert.equal(csvField(-12.5), "-12.5");
+  });
+});
+
+describe("trade rows", () => {
+  test("have one field per header, with fees broken out and explorer links to the real transactions", () => {
+    const trade = convertedTrade(103);
+    const header = tradeCsvHeader().split(",");
+    const row = tradeToCsvRow(trade, tradeTxLinks(explorer, txHashes.get(103))).split(",");
+    assert.equal(header.length, TRADE_EXPORT_COLUMNS.length);
+    assert.equal(row.length, header.length);
+
+    const field = (name: string) => row[header.indexOf(name)];
+    assert.equal(field("opening_fee_native"), "20");
+    assert.equal(field("closing_fee_native"), "22");
+    assert.equal(field("borrowing_fee_usd"), "");
+    assert.equal(field("collateral_token"), "stNIBI");
+    assert.equal(field("pnl_native"), "2950");
+    assert.equal(field("open_tx_url"), `${explorer}/tx/${history.find((item) => item.id === 1005)!.evmTxHash}`);
+    assert.equal(field("close_tx_url"), `${explorer}/tx/${history.find((item) => item.id === 1006)!.evmTxHash}`);
+    assert.ok(!row.some((value) => value.includes("trade-103")));
+  });
+
+  test("leave a link empty when its transaction is not indexed", () => {
+    const header = tradeCsvHeader().split(",");
+    const row = tradeToCsvRow(convertedTrade(104), tradeTxLinks(explorer, txHashes.get(104))).split(",");
+    assert.equal(row[header.indexOf("open_tx_url")], `${explorer}/tx/${history.find((item) => item.id === 1007)!.evmTxHash}`);
+    assert.equal(row[header.indexOf("close_tx_url")], "");
+
+    assert.deepEqual(tradeTxLinks(explorer, { open: null, close: null }), { openTxUrl: null, closeTxUrl: null });
+  });
+
+  test("JSON exports keep every Trade field", () => {
+    const trade = convertedTrade(103);
+    const { openTxUrl, closeTxUrl, ...rest } = toExportedTrade(trade, tradeTxLinks(explorer, txHashes.get(103)));
+    assert.deepEqual(rest, trade);
+    assert.equal(openTxUrl, `${explorer}/tx/${txHashes.get(103)!.open}`);
+    assert.equal(closeTxUrl, `${explorer}/tx/${txHashes.get(103)!.close}`);
+  });
+});
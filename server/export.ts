@@ -0,0 +1,134 @@
+// Trade history export (CSV or JSON) for /api/trades/export
+// Trades are written chunk by chunk as their fees are resolved, so a large history is never held as one document
+
+import type { Response } from "express";
+import type { Trade } from "@shared/schema";
+import type { TradeTxHashes } from "./conversions";
+
+// Trades per fee lookup and write; matches the RPC fee batching of one /api/trades page
+export const EXPORT_CHUNK_SIZE = 100;
+
+export type ExportFormat = "csv" | "json";
+
+// Explorer links to a trade's opening and closing transactions (null when the hash is not indexed)
+export interface TradeTxLinks {
+  openTxUrl: string | null;
+  closeTxUrl: string | null;
+}
+
+// A `Trade` with its explorer links, as written to JSON exports
+export type ExportedTrade = Trade & TradeTxLinks;
+
+type ExportValue = string | number | boolean | undefined;
+
+// CSV columns, one per `Trade` field plus the explorer links; USD amounts as converted by the API,
+// `_native` amounts in collateral token units
+export const TRADE_EXPORT_COLUMNS: { header: string; value: (trade: Trade, links: TradeTxLinks) => ExportValue }[] = [
+  { header: "trade_id", value: (t) => t.tradeIndex },
+  { header: "wallet", value: (t) => t.wallet },
+  { header: "type", value: (t) => t.type },
+  { header: "pair", value: (t) => t.pair },
+  { header: "collateral_token", value: (t) => t.collateralToken },
+  { header: "direction", value: (t) => t.direction },
+  { header: "leverage", value: (t) => t.leverage },
+  { header: "collateral_usd", value: (t) => t.collateral },
+  { header: "open_price", value: (t) => t.openPrice },
+  { header: "close_price", value: (t) => t.closePrice },
+  { header: "timestamp", value: (t) => t.timestamp },
+  { header: "open_timestamp", value: (t) => t.openTimestamp },
+  { header: "close_timestamp", value: (t) => t.closeTimestamp },
+  { header: "profit_pct", value: (t) => t.profitPct },
+  { header: "pnl_usd", value: (t) => t.pnlAmount },
+  { header: "opening_fee_usd", value: (t) => t.openingFee },
+  { header: "closing_fee_usd", value: (t) => t.closingFee },
+  { header: "borrowing_fee_usd", value: (t) => t.borrowingFee },
+  { header: "trigger_fee_usd", value: (t) => t.triggerFee },
+  { header: "total_fees_usd", value: (t) => t.totalFees },
+  { header: "amount_received_usd", value: (t) => t.amountReceived },
+  { header: "collateral_native", value: (t) => t.native?.collateral },
+  { header: "pnl_native", value: (t) => t.native?.pnlAmount },
+  { header: "opening_fee_native", value: (t) => t.native?.openingFee },
+  { header: "closing_fee_native", value: (t) => t.native?.closingFee },
+  { header: "borrowing_fee_native", value: (t) => t.native?.borrowingFee },
+  { header: "trigger_fee_native", value: (t) => t.native?.triggerFee },
+  { header: "total_fees_native", value: (t) => t.native?.totalFees },
+  { header: "amount_received_native", value: (t) => t.native?.amountReceived },
+  { header: "fee_source", value: (t) => t.feeSource },
+  { header: "fee_mismatch", value: (t) => t.feeMismatch },
+  { header: "open_tx_url", value: (_t, links) => links.openTxUrl ?? undefined },
+  { header: "close_tx_url", value: (_t, links) => links.closeTxUrl ?? undefined },
+];
+
+// `Trade.txHash` is a synthetic id, so links come from the trade's indexed history events instead
+export function tradeTxLinks(explorer: string, hashes: TradeTxHashes | undefined): TradeTxLinks {
+  const txUrl = (txHash: string | null | undefined) => (txHash ? `${explorer}/tx/${txHash}` : null);
+  return { openTxUrl: txUrl(hashes?.open), closeTxUrl: txUrl(hashes?.close) };
+}
+
+// Quote fields with separators or quotes, and defuse text a spreadsheet would evaluate as a formula
+export function csvField(value: ExportValue): string {
+  if (value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function tradeCsvHeader(): string {
+  return TRADE_EXPORT_COLUMNS.map(c => c.header).join(",");
+}
+
+export function tradeToCsvRow(trade: Trade, links: TradeTxLinks): string {
+  return TRADE_EXPORT_COLUMNS.map(c => csvField(c.value(trade, links))).join(",");
+}
+
+export function toExportedTrade(trade: Trade, links: TradeTxLinks): ExportedTrade {
+  return { ...trade, ...links };
+}
+
+// Resolves false once the client has gone away
+function write(res: Response, data: string): Promise<boolean> {
+  if (res.destroyed) return Promise.resolve(false);
+  if (res.write(data)) return Promise.resolve(true);
+  return new Promise((resolve) => {
+    const onDrain = () => { res.off("close", onClose); resolve(true); };
+    const onClose = () => { res.off("drain", onDrain); resolve(false); };
+    res.once("drain", onDrain);
+    res.once("close", onClose);
+  });
+}
+
+// Write the chunks as a CSV table or a JSON array, waiting for the client to drain each one
+// A failure after the first byte destroys the response, so a download is never silently truncated
+export async function streamTradeExport(
+  res: Response,
+  format: ExportFormat,
+  filename: string,
+  explorer: string,
+  txHashes: Map<number, TradeTxHashes>,
+  chunks: AsyncIterable<Trade[]>
+): Promise<void> {
+  const links = (trade: Trade) => tradeTxLinks(explorer, txHashes.get(Number(trade.tradeIndex)));
+  res.status(200);
+  res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+  res.setHeader("Cache-Control", "no-store");
+
+  try {
+    let first = true;
+    if (!(await write(res, format === "csv" ? `${tradeCsvHeader()}\n` : "["))) return;
+    for await (const trades of chunks) {
+      if (trades.length === 0) continue;
+      const body = format === "csv"
+        ? trades.map(t => `${tradeToCsvRow(t, links(t))}\n`).join("")
+        : `${first ? "" : ","}\n${trades.map(t => JSON.stringify(toExportedTrade(t, links(t)))).join(",\n")}`;
+      first = false;
+      if (!(await write(res, body))) return;
+    }
+    res.end(format === "csv" ? "" : "\n]\n");
+  } catch (error) {
+    console.error("Error streaming trade export:", error);
+    res.destroy(error instanceof Error ? error : new Error(String(error)));
+  }
+}
@@ -0,0 +1,157 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { FeeTransaction, TradeHistoryItem } from "@shared/schema";
+import receiptsFixture from "./mock/fixtures/receipts.json";
+import feeTransactionsFixture from "./mock/fixtures/feeTransactions.json";
+import tradeHistoryFixture from "./mock/fixtures/tradeHistory.json";
+import { encodeWasmEventLog } from "./mock/keeper";
+import {
+  buildFeeTxRefs,
+  buildKeeperFeeMap,
+  extractFeesFromReceipt,
+  fetchFeesFromRpc,
+  getCachedTradeFees,
+  getReceiptFees,
+  reconcileFees,
+  type FeeTxRef,
+} from "./fees";
+
+const receipts = receiptsFixture as Record<string, Record<string, string>[]>;
+const feeTransactions = feeTransactionsFixture as FeeTransaction[];
+const originalFetch = globalThis.fetch;
+
+function receiptFor(hash: string) {
+  const events = receipts[hash];
+  return events ? { logs: events.map(encodeWasmEventLog) } : null;
+}
+
+// RPC stub answering from the receipt fixtures (null for pruned receipts), counting requests
+function stubRpc(): { requests: string[] } {
+  const calls = { requests: [] as string[] };
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    const hash = JSON.parse(String(init.body)).params[0];
+    calls.requests.push(hash);
+    return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result: receiptFor(hash) }));
+  }) as typeof fetch;
+  return calls;
+}
+
+function feeRefs(): FeeTxRef[] {
+  return tradeHistoryFixture
+    .filter((h) => h.tradeChangeType !== "order_triggered")
+    .map((h) => ({ tradeId: h.trade.id, evmTxHash: h.evmTxHash, isOpening: h.tradeChangeType === "position_opened" }));
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe("extractFeesFromReceipt", () => {
+  test("decodes opening fees", () => {
+    const hash = tradeHistoryFixture.find((h) => h.trade.id === 101 && h.tradeChangeType === "position_opened")!.evmTxHash;
+    assert.deepEqual(extractFeesFromReceipt(receiptFor(hash)!), {
+      openingFee: 0.8,
+      closingFee: 0,
+      openingTriggerFee: 0,
+      closingTriggerFee: 0,
+    });
+  });
+
+  test("decodes closing and trigger fees", () => {
+    const hash = tradeHistoryFixture.find((h) => h.tradeChangeType === "position_closed_tp")!.evmTxHash;
+    const fees = extractFeesFromReceipt(receiptFor(hash)!);
+    assert.equal(fees.closingFee, 26);
+    assert.equal(fees.closingTriggerFee, 1);
+    assert.equal(fees.openingFee, 0);
+  });
+
+  test("skips short and undecodable logs", () => {
+    const fees = extractFeesFromReceipt({
+      logs: [
+        { data: "0x1234", topics: [] },
+        { data: `0x${"00".repeat(64)}${Buffer.from("not json").toString("hex")}`, topics: [] },
+      ],
+    });
+    assert.deepEqual(fees, { openingFee: 0, closingFee: 0, openingTriggerFee: 0, closingTriggerFee: 0 });
+  });
+});
+
+describe("getReceiptFees", () => {
+  test("leaves pruned receipts out and serves cached receipts without refetching", async () => {
+    const rpc = stubRpc();
+    const hashes = feeRefs().map((ref) => ref.evmTxHash);
+    const first = await getReceiptFees("test-cache", "http://rpc", hashes);
+    assert.equal(first.size, Object.keys(receipts).length);
+    const pruned = hashes.filter((hash) => !receipts[hash]);
+    assert.equal(pruned.length, 1);
+    assert.equal(first.has(pruned[0]), false);
+
+    rpc.requests.length = 0;
+    const second = await getReceiptFees("test-cache", "http://rpc", hashes);
+    assert.equal(second.size, first.size);
+    assert.deepEqual(rpc.requests, pruned);
+  });
+});
+
+describe("fee reconciliation", () => {
+  test("Keeper fee transactions fill pruned receipts and flag disagreements", async () => {
+    stubRpc();
+    const receiptFees = await fetchFeesFromRpc("test-reconcile", "http://rpc", feeRefs());
+    const keeperFees = buildKeeperFeeMap(feeTransactions);
+
+    const agreed = reconcileFees(receiptFees.get(101), keeperFees.get(101))!;
+    assert.equal(agreed.source, "both");
+    assert.equal(agreed.mismatch, false);
+    assert.equal(agreed.openingFee + agreed.closingFee, 0.8 + 0.84);
+
+    // Trade 102's closing receipt is pruned, so its closing fee comes from Keeper
+    assert.equal(receiptFees.get(102)?.closing, undefined);
+    const filled = reconcileFees(receiptFees.get(102), keeperFees.get(102))!;
+    assert.equal(filled.closingFee, 0.78);
+    assert.equal(filled.source, "both");
+
+    // Trade 103's closing fee differs between the receipt (26) and Keeper (26.5); the receipt wins
+    const mismatched = reconcileFees(receiptFees.get(103), keeperFees.get(103))!;
+    assert.equal(mismatched.mismatch, true);
+    assert.equal(mismatched.closingFee, 26);
+    assert.equal(mismatched.triggerFee, 1);
+
+    // The open trade has no Keeper fee transactions yet
+    const receiptOnly = reconcileFees(receiptFees.get(104), keeperFees.get(104))!;
+    assert.equal(receiptOnly.source, "receipt");
+    assert.equal(receiptOnly.openingFee, 0.6);
+  });
+
+  test("Keeper alone is a valid source and no source yields no fees", () => {
+    const keeperFees = buildKeeperFeeMap(feeTransactions);
+    const keeperOnly = reconcileFees(undefined, keeperFees.get(101))!;
+    assert.equal(keeperOnly.source, "keeper");
+    assert.equal(keeperOnly.closingFee, 0.84);
+    assert.equal(reconcileFees(undefined, undefined), undefined);
+  });
+});
+
+describe("getCachedTradeFees", () => {
+  test("uses only cached receipts, filled from Keeper fee transactions", async () => {
+    const rpc = stubRpc();
+    const refs = buildFeeTxRefs(tradeHistoryFixture as unknown as TradeHistoryItem[]);
+    assert.deepEqual(refs, feeRefs());
+
+    const beforeCaching = await getCachedTradeFees("test-cached", refs, feeTransactions);
+    assert.equal(rpc.requests.length, 0);
+    assert.equal(beforeCaching.get(101)?.source, "keeper");
+    assert.equal(beforeCaching.has(104), false);
+
+    await getReceiptFees("test-cached", "http://rpc", refs.map((ref) => ref.evmTxHash));
+    rpc.requests.length = 0;
+    const afterCaching = await getCachedTradeFees("test-cached", refs, feeTransactions);
+    assert.equal(rpc.requests.length, 0);
+    assert.equal(afterCaching.get(101)?.source, "both");
+    assert.equal(afterCaching.get(104)?.source, "receipt");
+  });
+
+  test("only the requested trades' legs are collected", () => {
+    const refs = buildFeeTxRefs(tradeHistoryFixture as unknown as TradeHistoryItem[], new Set([102]));
+    assert.deepEqual(refs.map((ref) => [ref.tradeId, ref.isOpening]), [[102, false], [102, true]]);
+  });
+});
@@ -0,0 +1,259 @@
+// Trade fee extraction from EVM transaction receipts, reconciled against Sai Keeper feeTransactions
+// Mainnet RPC prunes old receipts, so every decoded receipt is persisted per tx hash the first time it is seen
+
+import type { ExtractedFees, FeeSource, FeeTransaction, TradeHistoryItem } from "@shared/schema";
+import { storage } from "./storage";
+import { CLOSE_TYPES } from "./conversions";
+
+// Interface for RPC transaction receipt
+export interface TransactionReceipt {
+  logs: Array<{
+    data: string;
+    topics: string[];
+  }>;
+}
+
+// Fee data structure for a trade
+export interface TradeFees {
+  openingFee: number;
+  closingFee: number;
+  triggerFee: number;
+  source: FeeSource;
+  mismatch: boolean;
+}
+
+// Fees charged in one transaction (opening or closing), in collateral token units
+export interface FeeLeg {
+  fee: number;
+  triggerFee: number;
+}
+
+// The fee legs a single source knows about for a trade
+export interface TradeFeeLegs {
+  opening?: FeeLeg;
+  closing?: FeeLeg;
+}
+
+// Sources may round differently; anything within this (collateral units or relative) counts as agreeing
+const FEE_TOLERANCE = 1e-4;
+
+// A trade's opening or closing transaction
+export interface FeeTxRef {
+  tradeId: number;
+  evmTxHash: string;
+  isOpening: boolean;
+}
+
+// Extract fee data from transaction receipt logs
+export function extractFeesFromReceipt(receipt: TransactionReceipt): ExtractedFees {
+  let openingFee = 0;
+  let closingFee = 0;
+  let openingTriggerFee = 0;
+  let closingTriggerFee = 0;
+  
+  for (const log of receipt.logs) {
+    try {
+      const dataHex = log.data.slice(2);
+      if (dataHex.length <= 128) continue;
+      
+      const contentHex = dataHex.slice(128);
+      const decoded = Buffer.from(contentHex, 'hex').toString('utf8').replace(/\x00/g, '');
+      const json = JSON.parse(decoded);
+      
+      if (json.eventType === 'wasm-sai/perp/process_opening_fees') {
+        openingFee = Number(json.total_fee_charged || 0) / 1e6;
+        openingTriggerFee = Number(json.trigger_fee_component || 0) / 1e6;
+      } else if (json.eventType === 'wasm-sai/perp/process_closing_fees') {
+        closingFee = Number(json.final_closing_fee || 0) / 1e6;
+        closingTriggerFee = Number(json.final_trigger_fee || 0) / 1e6;
+      }
+    } catch (e) {
+      // Skip invalid logs
+    }
+  }
+  
+  return { openingFee, closingFee, openingTriggerFee, closingTriggerFee };
+}
+
+// Fetch a single receipt and decode its fees; null when the RPC has no receipt (e.g. pruned)
+async function fetchReceiptFees(rpcUrl: string, evmTxHash: string): Promise<ExtractedFees | null> {
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'eth_getTransactionReceipt',
+        params: [evmTxHash],
+        id: 1
+      }),
+      signal: controller.signal
+    });
+    clearTimeout(timeoutId);
+    const result = await response.json() as { result?: TransactionReceipt };
+    if (result.result) {
+      return extractFeesFromReceipt(result.result);
+    }
+  } catch (e) {
+    console.log(`Failed to fetch receipt for ${evmTxHash}:`, e);
+  }
+  return null;
+}
+
+// Return fees for the given tx hashes, serving from the cache and fetching (then caching) only unseen receipts
+export async function getReceiptFees(
+  network: string,
+  rpcUrl: string,
+  txHashes: string[]
+): Promise<Map<string, ExtractedFees>> {
+  const uniqueHashes = Array.from(new Set(txHashes.filter(Boolean)));
+  const feesByHash = await storage.getTxFees(network, uniqueHashes);
+  const missing = uniqueHashes.filter(hash => !feesByHash.has(hash));
+  
+  // Fetch receipts in parallel (batch of 10 at a time to avoid overwhelming the RPC)
+  const batchSize = 10;
+  for (let i = 0; i < missing.length; i += batchSize) {
+    const batch = missing.slice(i, i + batchSize);
+    const results = await Promise.all(batch.map(hash => fetchReceiptFees(rpcUrl, hash)));
+    
+    const fetched = new Map<string, ExtractedFees>();
+    batch.forEach((hash, index) => {
+      const fees = results[index];
+      if (fees) fetched.set(hash, fees);
+    });
+    
+    // Persist each batch right away so a later failure doesn't lose receipts we already have
+    await storage.saveTxFees(network, fetched);
+    fetched.forEach((fees, hash) => feesByHash.set(hash, fees));
+  }
+  
+  return feesByHash;
+}
+
+// Opening and closing transactions of the given trades (every trade when no ids are given)
+export function buildFeeTxRefs(history: TradeHistoryItem[], tradeIds?: Set<number>): FeeTxRef[] {
+  const refs: FeeTxRef[] = [];
+  for (const item of history) {
+    if (!item.evmTxHash || (tradeIds && !tradeIds.has(item.trade.id))) continue;
+    if (item.tradeChangeType === "position_opened") {
+      refs.push({ tradeId: item.trade.id, evmTxHash: item.evmTxHash, isOpening: true });
+    } else if (CLOSE_TYPES.includes(item.tradeChangeType)) {
+      refs.push({ tradeId: item.trade.id, evmTxHash: item.evmTxHash, isOpening: false });
+    }
+  }
+  return refs;
+}
+
+// Group decoded receipt fees by trade ID
+function groupReceiptFees(txHashes: FeeTxRef[], feesByHash: Map<string, ExtractedFees>): Map<number, TradeFeeLegs> {
+  const feeMap = new Map<number, TradeFeeLegs>();
+  for (const tx of txHashes) {
+    const receipt = feesByHash.get(tx.evmTxHash);
+    if (!receipt) continue;
+    
+    const existing = feeMap.get(tx.tradeId) || {};
+    if (tx.isOpening) {
+      existing.opening = { fee: receipt.openingFee, triggerFee: receipt.openingTriggerFee };
+    } else {
+      existing.closing = { fee: receipt.closingFee, triggerFee: receipt.closingTriggerFee };
+    }
+    feeMap.set(tx.tradeId, existing);
+  }
+  return feeMap;
+}
+
+// Fetch receipt fees for a list of trade transactions and group them by trade ID
+export async function fetchFeesFromRpc(
+  network: string,
+  rpcUrl: string, 
+  txHashes: FeeTxRef[]
+): Promise<Map<number, TradeFeeLegs>> {
+  // Filter out null hashes
+  const validTxs = txHashes.filter(tx => tx.evmTxHash);
+  const feesByHash = await getReceiptFees(network, rpcUrl, validTxs.map(tx => tx.evmTxHash));
+  return groupReceiptFees(validTxs, feesByHash);
+}
+
+// Fees for a whole history without touching the RPC: receipts already in the cache, filled from feeTransactions
+export async function getCachedTradeFees(
+  network: string,
+  txHashes: FeeTxRef[],
+  feeTransactions: FeeTransaction[]
+): Promise<Map<number, TradeFees>> {
+  const feesByHash = await storage.getTxFees(network, Array.from(new Set(txHashes.map(tx => tx.evmTxHash))));
+  return reconcileFeeMaps(groupReceiptFees(txHashes, feesByHash), buildKeeperFeeMap(feeTransactions));
+}
+
+// Group Sai Keeper fee transactions by trade ID (amounts are micro-units like the receipt events)
+export function buildKeeperFeeMap(transactions: FeeTransaction[]): Map<number, TradeFeeLegs> {
+  const feeMap = new Map<number, TradeFeeLegs>();
+  for (const tx of transactions) {
+    const leg: FeeLeg = {
+      fee: Number(tx.totalFeeCharged || 0) / 1e6,
+      triggerFee: Number(tx.triggerFee || 0) / 1e6,
+    };
+    const existing = feeMap.get(tx.tradeId) || {};
+    if (tx.feeType === "OPENING") {
+      existing.opening = leg;
+    } else if (tx.feeType === "CLOSING") {
+      existing.closing = leg;
+    }
+    feeMap.set(tx.tradeId, existing);
+  }
+  return feeMap;
+}
+
+function feesAgree(a: number, b: number): boolean {
+  const diff = Math.abs(a - b);
+  return diff <= FEE_TOLERANCE || diff <= FEE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+}
+
+// Merge both fee sources leg by leg: receipts win when both exist (and disagreements are flagged),
+// feeTransactions fill the legs whose receipts were pruned
+export function reconcileFees(receipt: TradeFeeLegs | undefined, keeper: TradeFeeLegs | undefined): TradeFees | undefined {
+  let usedReceipt = false;
+  let usedKeeper = false;
+  let mismatch = false;
+  
+  const pickLeg = (fromReceipt?: FeeLeg, fromKeeper?: FeeLeg): FeeLeg | undefined => {
+    if (fromReceipt && fromKeeper) {
+      usedReceipt = true;
+      usedKeeper = true;
+      if (!feesAgree(fromReceipt.fee, fromKeeper.fee) || !feesAgree(fromReceipt.triggerFee, fromKeeper.triggerFee)) {
+        mismatch = true;
+      }
+      return fromReceipt;
+    }
+    if (fromReceipt) usedReceipt = true;
+    if (fromKeeper) usedKeeper = true;
+    return fromReceipt || fromKeeper;
+  };
+  
+  const opening = pickLeg(receipt?.opening, keeper?.opening);
+  const closing = pickLeg(receipt?.closing, keeper?.closing);
+  if (!opening && !closing) return undefined;
+  
+  return {
+    openingFee: opening?.fee ?? 0,
+    closingFee: closing?.fee ?? 0,
+    triggerFee: (opening?.triggerFee ?? 0) + (closing?.triggerFee ?? 0),
+    source: usedReceipt && usedKeeper ? "both" : usedReceipt ? "receipt" : "keeper",
+    mismatch,
+  };
+}
+
+// Reconcile every trade either source knows about
+export function reconcileFeeMaps(
+  receiptFeeMap: Map<number, TradeFeeLegs>,
+  keeperFeeMap: Map<number, TradeFeeLegs>,
+  tradeIds: Iterable<number> = new Set([...Array.from(receiptFeeMap.keys()), ...Array.from(keeperFeeMap.keys())])
+): Map<number, TradeFees> {
+  const feeMap = new Map<number, TradeFees>();
+  for (const tradeId of Array.from(tradeIds)) {
+    const fees = reconcileFees(receiptFeeMap.get(tradeId), keeperFeeMap.get(tradeId));
+    if (fees) feeMap.set(tradeId, fees);
+  }
+  return feeMap;
+}
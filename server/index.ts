@@ -6,6 +6,12 @@ import { createServer } from "http";
 const app = express();
 const httpServer = createServer(app);
 
+// Behind a reverse proxy, set TRUST_PROXY (e.g. 1 for one hop) so req.ip is the client's address
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
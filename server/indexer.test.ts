@@ -0,0 +1,194 @@
+import { after, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { FeeTransaction, PerpTrade, TradeHistoryItem, VaultDepositEvent } from "@shared/schema";
+import historyFixture from "./mock/fixtures/tradeHistory.json";
+import tradesFixture from "./mock/fixtures/trades.json";
+import feeTransactionsFixture from "./mock/fixtures/feeTransactions.json";
+import vaultsFixture from "./mock/fixtures/vaults.json";
+import { syncTrader, syncVaultDeposits } from "./indexer";
+import { storage } from "./storage";
+
+const TRADER = "nibi1tka84g5qwssp5tp6he88gwk6lrn5h5vrumrhqx";
+const endpoints = { graphql: "http://keeper.test/query", rpc: "http://rpc.test" };
+
+const historyTemplate = (historyFixture as TradeHistoryItem[])[0];
+const tradeTemplate = (tradesFixture as PerpTrade[])[0];
+
+// Seeded events have no EVM hash, so only the events a test adds have receipts to cache
+function historyItem(id: number, tradeId: number, tradeChangeType = "position_opened", withTxHash = false): TradeHistoryItem {
+  return {
+    ...historyTemplate,
+    id,
+    tradeChangeType,
+    evmTxHash: withTxHash ? `0x${id.toString(16).padStart(64, "0")}` : "",
+    block: { block: id * 10, block_ts: new Date(Date.UTC(2026, 0, 1) + id * 60_000).toISOString() },
+    trade: { ...historyTemplate.trade, id: tradeId },
+  };
+}
+
+function trade(id: number, isOpen: boolean): PerpTrade {
+  return { ...tradeTemplate, id, isOpen, openBlock: { block: id * 10, block_ts: "2026-01-01T00:00:00Z" } };
+}
+
+const depositTemplate = (vaultsFixture.depositHistory as VaultDepositEvent[])[0];
+
+function deposit(id: number): VaultDepositEvent {
+  return { ...depositTemplate, id, block: { block: id * 10, block_ts: new Date(Date.UTC(2026, 0, 1) + id * 60_000).toISOString() } };
+}
+
+// Keeper state served by the stub: lists are paged newest first like the Keeper's
+const keeper = {
+  history: [] as TradeHistoryItem[],
+  trades: [] as PerpTrade[],
+  feeTransactions: feeTransactionsFixture as FeeTransaction[],
+  deposits: [] as VaultDepositEvent[],
+};
+let requests: string[] = [];
+let receiptRequests: string[] = [];
+
+const originalFetch = globalThis.fetch;
+globalThis.fetch = (async (url: string, init: RequestInit) => {
+  // Receipts for new fee events are cached in the background; none are available here
+  if (url === endpoints.rpc) {
+    receiptRequests.push(JSON.parse(init.body as string).params[0]);
+    return Response.json({ jsonrpc: "2.0", id: 1, result: null });
+  }
+
+  const { query, variables } = JSON.parse(init.body as string);
+  const operation = /query (\w+)/.exec(query)![1];
+  requests.push(`${operation}@${variables.offset}`);
+  const page = <T>(items: T[]) => items.slice(variables.offset, variables.offset + variables.limit);
+  switch (operation) {
+    case "GetTradeHistory":
+      return Response.json({ data: { perp: { tradeHistory: page([...keeper.history].sort((a, b) => b.id - a.id)) } } });
+    case "GetTrades":
+      return Response.json({ data: { perp: { trades: page([...keeper.trades].sort((a, b) => b.id - a.id)) } } });
+    case "GetFeeTransactions":
+      return Response.json({ data: { fee: { feeTransactions: page(keeper.feeTransactions) } } });
+    case "GetVaultPositions":
+      return Response.json({
+        data: { lp: { depositHistory: page([...keeper.deposits].sort((a, b) => b.id - a.id)), vaults: vaultsFixture.vaults } },
+      });
+    default:
+      throw new Error(`Unexpected query ${operation}`);
+  }
+}) as typeof fetch;
+
+after(() => {
+  globalThis.fetch = originalFetch;
+});
+
+// 150 trades, each with an opening event; the newest trade is still open
+function seedKeeper(): void {
+  keeper.history = Array.from({ length: 150 }, (_, i) => historyItem(i + 1, i + 1));
+  keeper.trades = Array.from({ length: 150 }, (_, i) => trade(i + 1, i + 1 === 150));
+}
+
+describe("syncTrader", () => {
+  beforeEach(() => {
+    requests = [];
+    receiptRequests = [];
+  });
+
+  test("backfills the full history, trades and fee transactions on the first sync", async () => {
+    seedKeeper();
+    await syncTrader("indexer-first", endpoints, TRADER);
+
+    assert.deepEqual(requests, [
+      "GetTradeHistory@0", "GetTradeHistory@100",
+      "GetTrades@0", "GetTrades@100",
+      "GetFeeTransactions@0",
+    ]);
+    assert.equal((await storage.getTradeHistory("indexer-first", TRADER)).length, 150);
+    assert.equal((await storage.getTrades("indexer-first", TRADER)).length, 150);
+    assert.equal((await storage.getFeeTransactions("indexer-first", TRADER)).length, keeper.feeTransactions.length);
+    assert.deepEqual(await storage.getIndexerState("indexer-first", TRADER), {
+      network: "indexer-first",
+      trader: TRADER,
+      lastBlock: 1500,
+      lastHistoryId: 150,
+      backfilled: true,
+    });
+  });
+
+  test("stops at the stored cursor and refreshes touched and open trades on an incremental sync", async () => {
+    seedKeeper();
+    await syncTrader("indexer-incremental", endpoints, TRADER);
+    requests = [];
+
+    // Trade 150 closes and trade 151 opens
+    keeper.history.push(historyItem(151, 150, "position_closed_user", true), historyItem(152, 151, "position_opened", true));
+    keeper.trades = keeper.trades.map((t) => (t.id === 150 ? { ...t, isOpen: false } : t));
+    keeper.trades.push(trade(151, true));
+    await syncTrader("indexer-incremental", endpoints, TRADER);
+
+    // One history page reaches the cursor, one trades page covers every pending trade, and fees are re-paged
+    assert.deepEqual(requests, ["GetTradeHistory@0", "GetTrades@0", "GetFeeTransactions@0"]);
+    const history = await storage.getTradeHistory("indexer-incremental", TRADER);
+    assert.equal(history.length, 152);
+    assert.deepEqual(history.slice(0, 2).map((item) => item.id), [152, 151]);
+    const trades = await storage.getTrades("indexer-incremental", TRADER);
+    assert.equal(trades.find((t) => t.id === 150)?.isOpen, false);
+    assert.equal(trades.find((t) => t.id === 151)?.isOpen, true);
+    const state = await storage.getIndexerState("indexer-incremental", TRADER);
+    assert.equal(state?.lastBlock, 1520);
+    assert.equal(state?.lastHistoryId, 152);
+
+    // Receipts for the new fee events are cached in the background
+    while (receiptRequests.length < 2) await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(receiptRequests.sort(), [history[1].evmTxHash, history[0].evmTxHash].sort());
+  });
+
+  test("only refreshes open trades and skips fee transactions when nothing is new", async () => {
+    seedKeeper();
+    await syncTrader("indexer-idle", endpoints, TRADER);
+    const before = await storage.getIndexerState("indexer-idle", TRADER);
+    requests = [];
+
+    keeper.trades = keeper.trades.map((t) => (t.id === 150 ? { ...t, sl: 60000 } : t));
+    await syncTrader("indexer-idle", endpoints, TRADER);
+
+    assert.deepEqual(requests, ["GetTradeHistory@0", "GetTrades@0"]);
+    assert.equal((await storage.getTradeHistory("indexer-idle", TRADER)).length, 150);
+    assert.equal((await storage.getTrades("indexer-idle", TRADER)).find((t) => t.id === 150)?.sl, 60000);
+    assert.deepEqual(await storage.getIndexerState("indexer-idle", TRADER), before);
+  });
+
+  test("shares one pass between concurrent syncs of the same trader", async () => {
+    seedKeeper();
+    await Promise.all([syncTrader("indexer-shared", endpoints, TRADER), syncTrader("indexer-shared", endpoints, TRADER)]);
+    assert.equal(requests.filter((request) => request === "GetTradeHistory@0").length, 1);
+  });
+});
+
+describe("syncVaultDeposits", () => {
+  beforeEach(() => {
+    requests = [];
+  });
+
+  test("backfills every page of deposit history, then only pages down to the stored cursor", async () => {
+    keeper.deposits = Array.from({ length: 250 }, (_, i) => deposit(i + 1));
+    const vaults = await syncVaultDeposits("vault-deposits", endpoints.graphql, TRADER);
+
+    assert.deepEqual(requests, ["GetVaultPositions@0", "GetVaultPositions@100", "GetVaultPositions@200"]);
+    assert.deepEqual(vaults, vaultsFixture.vaults);
+    assert.equal((await storage.getVaultDeposits("vault-deposits", TRADER)).length, 250);
+    assert.deepEqual(await storage.getVaultDepositState("vault-deposits", TRADER), {
+      network: "vault-deposits",
+      depositor: TRADER,
+      lastBlock: 2500,
+      lastDepositId: 250,
+      backfilled: true,
+    });
+
+    requests = [];
+    keeper.deposits.push(deposit(251), deposit(252));
+    await syncVaultDeposits("vault-deposits", endpoints.graphql, TRADER);
+
+    assert.deepEqual(requests, ["GetVaultPositions@0"]);
+    const stored = await storage.getVaultDeposits("vault-deposits", TRADER);
+    assert.equal(stored.length, 252);
+    assert.deepEqual(stored.slice(0, 2).map((event) => event.id), [252, 251]);
+    assert.equal((await storage.getVaultDepositState("vault-deposits", TRADER))?.lastDepositId, 252);
+  });
+});
@@ -0,0 +1,204 @@
+// Incremental per-trader indexer for Sai Keeper trades, trade history and vault deposits
+// The first sync backfills the full history; later syncs only page through events newer than the stored cursor
+
+import type { IndexerState, VaultDepositState } from "@shared/schema";
+import { storage } from "./storage";
+import { getReceiptFees } from "./fees";
+import {
+  TRADES_QUERY,
+  TRADE_HISTORY_QUERY,
+  FEE_TRANSACTIONS_QUERY,
+  VAULT_POSITIONS_QUERY,
+  graphqlQuery,
+  type TradesQueryResult,
+  type TradeHistoryQueryResult,
+  type FeeTransactionsQueryResult,
+  type VaultPositionsQueryResult,
+} from "./keeper";
+
+// Sai Keeper caps every list query at 100 rows
+const PAGE_SIZE = 100;
+
+// History events whose transaction receipt carries opening/closing fees
+const FEE_EVENT_TYPES = ["position_opened", "position_closed_user", "position_closed_sl", "position_closed_tp", "position_liquidated"];
+
+export interface IndexerEndpoints {
+  graphql: string;
+  rpc: string;
+}
+
+// Syncs already running, keyed by network and trader, so concurrent requests share one pass
+const inFlight = new Map<string, Promise<void>>();
+
+// Trade history events and vault deposit events both order by block, then id
+function isNewerThan(item: { id: number; block: { block: number } | null }, cursor: { block: number; id: number }): boolean {
+  const block = item.block?.block ?? 0;
+  return block > cursor.block || (block === cursor.block && item.id > cursor.id);
+}
+
+async function runSync(network: string, endpoints: IndexerEndpoints, trader: string): Promise<void> {
+  const graphqlUrl = endpoints.graphql;
+  const state: IndexerState = (await storage.getIndexerState(network, trader)) ?? {
+    network,
+    trader,
+    lastBlock: 0,
+    lastHistoryId: 0,
+    backfilled: false,
+  };
+  const cursor = { block: state.lastBlock, id: state.lastHistoryId };
+  let newest = { ...cursor };
+  const touchedTradeIds = new Set<number>();
+  const feeTxHashes: string[] = [];
+
+  // History is ordered newest first: page until we reach the cursor, or the very end while backfilling
+  let historyCount = 0;
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const result = await graphqlQuery<TradeHistoryQueryResult>(graphqlUrl, TRADE_HISTORY_QUERY, {
+      trader,
+      limit: PAGE_SIZE,
+      offset,
+    });
+    const page = result.perp.tradeHistory;
+    const fresh = state.backfilled ? page.filter((item) => isNewerThan(item, cursor)) : page;
+
+    await storage.upsertTradeHistory(network, trader, fresh);
+    historyCount += fresh.length;
+    for (const item of fresh) {
+      touchedTradeIds.add(item.trade.id);
+      if (item.evmTxHash && FEE_EVENT_TYPES.includes(item.tradeChangeType)) {
+        feeTxHashes.push(item.evmTxHash);
+      }
+      if (isNewerThan(item, newest)) {
+        newest = { block: item.block.block, id: item.id };
+      }
+    }
+
+    if (page.length < PAGE_SIZE || fresh.length < page.length) break;
+  }
+
+  // Trades carry mutable state, so refresh the ones with new events plus any still open
+  const storedTrades = await storage.getTrades(network, trader);
+  const pendingTradeIds = new Set(touchedTradeIds);
+  for (const trade of storedTrades) {
+    if (trade.isOpen) pendingTradeIds.add(trade.id);
+  }
+
+  let tradeCount = 0;
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const result = await graphqlQuery<TradesQueryResult>(graphqlUrl, TRADES_QUERY, {
+      trader,
+      limit: PAGE_SIZE,
+      offset,
+    });
+    const page = result.perp.trades;
+
+    await storage.upsertTrades(network, trader, page);
+    tradeCount += page.length;
+    for (const trade of page) {
+      pendingTradeIds.delete(trade.id);
+    }
+
+    if (page.length < PAGE_SIZE) break;
+    if (state.backfilled && pendingTradeIds.size === 0) break;
+  }
+
+  // Fee transactions have no usable cursor, so re-page them whenever there are new fee-bearing events.
+  // This is a secondary fee source: a failure here is logged and must not block the history sync.
+  if (!state.backfilled || feeTxHashes.length > 0) {
+    try {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const result = await graphqlQuery<FeeTransactionsQueryResult>(graphqlUrl, FEE_TRANSACTIONS_QUERY, {
+          trader,
+          limit: PAGE_SIZE,
+          offset,
+        });
+        const page = result.fee.feeTransactions;
+        await storage.upsertFeeTransactions(network, trader, page);
+        if (page.length < PAGE_SIZE) break;
+      }
+    } catch (error) {
+      console.error(`[Indexer] Failed to sync fee transactions for ${trader}:`, error);
+    }
+  }
+
+  // Only advance the cursor once both passes succeeded; a failed sync is simply retried from the old cursor
+  await storage.saveIndexerState({
+    network,
+    trader,
+    lastBlock: newest.block,
+    lastHistoryId: newest.id,
+    backfilled: true,
+  });
+
+  console.log(
+    `[Indexer] ${network} ${trader}: ${state.backfilled ? "synced" : "backfilled"} ${historyCount} history events, ${tradeCount} trades`,
+  );
+
+  // Cache receipt fees for new events in the background, before the RPC prunes them
+  if (feeTxHashes.length > 0) {
+    getReceiptFees(network, endpoints.rpc, feeTxHashes).catch((error) => {
+      console.error(`[Indexer] Failed to cache receipt fees for ${trader}:`, error);
+    });
+  }
+}
+
+// Bring the stored trades and trade history for a trader up to date
+export function syncTrader(network: string, endpoints: IndexerEndpoints, trader: string): Promise<void> {
+  const key = `${network}:${trader}`;
+  const existing = inFlight.get(key);
+  if (existing) return existing;
+
+  const sync = runSync(network, endpoints, trader).finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, sync);
+  return sync;
+}
+
+// Bring the stored vault deposit history for a depositor up to date, so withdrawals can be matched against every
+// deposit (the Keeper returns at most one page per query). Returns the vaults, which come with every page
+export async function syncVaultDeposits(
+  network: string,
+  graphqlUrl: string,
+  depositor: string
+): Promise<VaultPositionsQueryResult["lp"]["vaults"]> {
+  const state: VaultDepositState = (await storage.getVaultDepositState(network, depositor)) ?? {
+    network,
+    depositor,
+    lastBlock: 0,
+    lastDepositId: 0,
+    backfilled: false,
+  };
+  const cursor = { block: state.lastBlock, id: state.lastDepositId };
+  let newest = { ...cursor };
+  let vaults: VaultPositionsQueryResult["lp"]["vaults"] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const result = await graphqlQuery<VaultPositionsQueryResult>(graphqlUrl, VAULT_POSITIONS_QUERY, {
+      depositor,
+      limit: PAGE_SIZE,
+      offset,
+    });
+    if (offset === 0) vaults = result.lp.vaults;
+    const page = result.lp.depositHistory;
+    const fresh = state.backfilled ? page.filter((event) => isNewerThan(event, cursor)) : page;
+
+    await storage.upsertVaultDeposits(network, depositor, fresh);
+    for (const event of fresh) {
+      if (isNewerThan(event, newest)) {
+        newest = { block: event.block?.block ?? 0, id: event.id };
+      }
+    }
+
+    if (page.length < PAGE_SIZE || fresh.length < page.length) break;
+  }
+
+  await storage.saveVaultDepositState({
+    network,
+    depositor,
+    lastBlock: newest.block,
+    lastDepositId: newest.id,
+    backfilled: true,
+  });
+  return vaults;
+}
@@ -0,0 +1,338 @@
+// Sai Keeper GraphQL queries, response types and client
+
+import type { PerpTrade, TradeHistoryItem, Market, FeeTransaction, VaultDepositEvent } from "@shared/schema";
+
+// GraphQL query for trades - includes perpBorrowing with collateralToken for USD conversion
+export const TRADES_QUERY = `
+  query GetTrades($trader: String!, $limit: Int, $offset: Int) {
+    perp {
+      trades(
+        where: { trader: $trader }
+        limit: $limit
+        offset: $offset
+        order_by: sequence
+        order_desc: true
+      ) {
+        id
+        trader
+        isOpen
+        isLong
+        tradeType
+        leverage
+        collateralAmount
+        openCollateralAmount
+        openPrice
+        closePrice
+        sl
+        tp
+        perpBorrowing {
+          marketId
+          collateralToken {
+            symbol
+          }
+        }
+        openBlock {
+          block
+          block_ts
+        }
+        closeBlock {
+          block
+          block_ts
+        }
+        state {
+          pnlCollateral
+          pnlPct
+          pnlCollateralAfterFees
+          positionValue
+          liquidationPrice
+          borrowingFeeCollateral
+          borrowingFeePct
+          closingFeeCollateral
+          closingFeePct
+          remainingCollateralAfterFees
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL query for all markets (borrowings) - fetched separately to build marketId → symbol mapping
+export const MARKETS_QUERY = `
+  query GetMarkets {
+    perp {
+      borrowings(limit: 100) {
+        marketId
+        baseToken {
+          symbol
+          name
+        }
+        collateralToken {
+          symbol
+        }
+        price
+      }
+    }
+    oracle {
+      tokenPricesUsd {
+        token {
+          symbol
+        }
+        priceUsd
+      }
+    }
+  }
+`;
+
+export interface MarketsQueryResult {
+  perp: {
+    borrowings: Market[];
+  };
+  oracle?: {
+    tokenPricesUsd: Array<{ token: { symbol: string }; priceUsd: number }>;
+  };
+}
+
+// GraphQL query for global protocol stats - using borrowings for open interest
+export const GLOBAL_STATS_QUERY = `
+  query GetGlobalStats {
+    perp {
+      borrowings {
+        marketId
+        baseToken {
+          symbol
+        }
+        collateralToken {
+          symbol
+        }
+        oiLong
+        oiShort
+        oiMax
+        price
+      }
+    }
+    lp {
+      vaults {
+        tvl
+        availableAssets
+        apy
+        collateralToken {
+          symbol
+        }
+      }
+    }
+    oracle {
+      tokenPricesUsd {
+        token {
+          symbol
+        }
+        priceUsd
+      }
+    }
+  }
+`;
+
+// GraphQL query for user vault deposit history (paged newest first) and the vaults
+export const VAULT_POSITIONS_QUERY = `
+  query GetVaultPositions($depositor: String!, $limit: Int, $offset: Int) {
+    lp {
+      depositHistory(
+        where: { depositor: $depositor }
+        limit: $limit
+        offset: $offset
+        order_by: sequence
+        order_desc: true
+      ) {
+        id
+        action
+        depositor
+        amount
+        shares
+        collateralPrice
+        block {
+          block
+          block_ts
+        }
+        txHash
+        evmTxHash
+        vault {
+          availableAssets
+          apy
+          collateralToken {
+            symbol
+          }
+        }
+      }
+      vaults {
+        availableAssets
+        apy
+        collateralToken {
+          symbol
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL query for trade history (for realized P&L on closed trades)
+export const TRADE_HISTORY_QUERY = `
+  query GetTradeHistory($trader: String!, $limit: Int, $offset: Int) {
+    perp {
+      tradeHistory(
+        where: { trader: $trader }
+        limit: $limit
+        offset: $offset
+        order_by: sequence
+        order_desc: true
+      ) {
+        id
+        tradeChangeType
+        evmTxHash
+        collateralPrice
+        block {
+          block
+          block_ts
+        }
+        trade {
+          id
+          isLong
+          leverage
+          openPrice
+          closePrice
+          sl
+          tp
+        }
+        realizedPnlCollateral
+        realizedPnlPct
+      }
+    }
+  }
+`;
+
+// GraphQL query for fee transactions
+export const FEE_TRANSACTIONS_QUERY = `
+  query GetFeeTransactions($trader: String!, $limit: Int, $offset: Int) {
+    fee {
+      feeTransactions(
+        filter: { traderAddress: $trader }
+        limit: $limit
+        offset: $offset
+      ) {
+        id
+        tradeId
+        feeType
+        totalFeeCharged
+        govFee
+        vaultFee
+        referrerAllocation
+        triggerFee
+        blockTime
+      }
+    }
+  }
+`;
+
+// GraphQL query for all trade history (global volume calculation)
+export const ALL_TRADE_HISTORY_QUERY = `
+  query GetAllTradeHistory($limit: Int, $offset: Int) {
+    perp {
+      tradeHistory(
+        limit: $limit
+        offset: $offset
+        order_by: sequence
+        order_desc: true
+      ) {
+        id
+        tradeChangeType
+        collateralPrice
+        block {
+          block_ts
+        }
+        trade {
+          id
+          collateralAmount
+          openCollateralAmount
+          leverage
+          perpBorrowing {
+            marketId
+            collateralToken {
+              symbol
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export interface GraphQLResponse<T> {
+  data?: T;
+  errors?: Array<{ message: string }>;
+}
+
+// Slim history rows used for global volume accumulation
+export interface VolumeHistoryItem {
+  id: number;
+  tradeChangeType: string;
+  collateralPrice: number | null;
+  block?: { block_ts: string } | null;
+  trade: {
+    id: number;
+    collateralAmount: number;
+    openCollateralAmount: number;
+    leverage: number;
+    perpBorrowing?: { marketId?: number; collateralToken?: { symbol: string } } | null;
+  } | null;
+}
+
+export interface VolumeHistoryQueryResult {
+  perp: {
+    tradeHistory: VolumeHistoryItem[];
+  };
+}
+
+export interface TradesQueryResult {
+  perp: {
+    trades: PerpTrade[];
+  };
+}
+
+export interface TradeHistoryQueryResult {
+  perp: {
+    tradeHistory: TradeHistoryItem[];
+  };
+}
+
+export interface FeeTransactionsQueryResult {
+  fee: {
+    feeTransactions: FeeTransaction[];
+  };
+}
+
+export interface VaultPositionsQueryResult {
+  lp: {
+    depositHistory: VaultDepositEvent[];
+    vaults: VaultDepositEvent["vault"][];
+  };
+}
+
+export async function graphqlQuery<T>(endpoint: string, query: string, variables: Record<string, any>): Promise<T> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+  
+  const result: GraphQLResponse<T> = await response.json();
+  
+  if (result.errors && result.errors.length > 0) {
+    throw new Error(result.errors.map(e => e.message).join(", "));
+  }
+  
+  if (!result.data) {
+    throw new Error("No data returned from GraphQL query");
+  }
+  
+  return result.data;
+}
@@ -0,0 +1,96 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import type { LivePositionsMessage } from "@shared/schema";
+import { registerLivePositions, LIVE_POSITIONS_PATH, MAX_LIVE_SOCKETS_PER_CLIENT, MAX_LIVE_SUBSCRIPTIONS_PER_CLIENT } from "./live";
+
+const wallet = (n: number) => `0x${n.toString(16).padStart(40, "0")}`;
+
+// Every connection comes from the client named in its `client` query parameter
+let server: Server;
+let baseUrl: string;
+const originalFetch = globalThis.fetch;
+
+before(async () => {
+  // Polls fail fast; these tests only look at who may subscribe
+  globalThis.fetch = (async () => Response.json({ errors: [{ message: "Keeper unavailable" }] })) as typeof fetch;
+  server = createServer();
+  registerLivePositions(server, (req) => new URL(req.url ?? "/", "http://localhost").searchParams.get("client") ?? "");
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${LIVE_POSITIONS_PATH}`;
+});
+
+after(async () => {
+  globalThis.fetch = originalFetch;
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const open: WebSocket[] = [];
+
+interface Connection {
+  socket: WebSocket;
+  message: LivePositionsMessage;
+  closeCode: Promise<number>;
+}
+
+// Resolves with the first message once the server has answered
+function connect(client: string, address: string): Promise<Connection> {
+  const socket = new WebSocket(`${baseUrl}?client=${client}&address=${address}`);
+  open.push(socket);
+  const closeCode = new Promise<number>((resolve) => socket.once("close", (code) => resolve(code)));
+  return new Promise((resolve, reject) => {
+    socket.once("message", (data) => resolve({ socket, message: JSON.parse(String(data)), closeCode }));
+    socket.once("error", reject);
+  });
+}
+
+async function closeAll(): Promise<void> {
+  await Promise.all(open.splice(0).map((socket) => {
+    if (socket.readyState === WebSocket.CLOSED) return;
+    const closed = new Promise((resolve) => socket.once("close", resolve));
+    socket.close();
+    return closed;
+  }));
+}
+
+describe("registerLivePositions", () => {
+  test("caps distinct subscriptions per client address", async () => {
+    for (let i = 1; i <= MAX_LIVE_SUBSCRIPTIONS_PER_CLIENT; i++) {
+      const { socket } = await connect("a", wallet(i));
+      assert.equal(socket.readyState, WebSocket.OPEN);
+    }
+
+    // Joining a subscription the client already has is fine; a new one is refused
+    const again = await connect("a", wallet(1));
+    assert.equal(again.socket.readyState, WebSocket.OPEN);
+    const over = await connect("a", wallet(99));
+    assert.deepEqual(over.message, { type: "error", error: `At most ${MAX_LIVE_SUBSCRIPTIONS_PER_CLIENT} live subscriptions per client` });
+    assert.equal(await over.closeCode, 1008);
+
+    // Other clients are unaffected
+    const other = await connect("b", wallet(99));
+    assert.equal(other.socket.readyState, WebSocket.OPEN);
+    await closeAll();
+  });
+
+  test("caps sockets per client address and frees them on close", async () => {
+    const sockets: WebSocket[] = [];
+    for (let i = 0; i < MAX_LIVE_SOCKETS_PER_CLIENT; i++) {
+      sockets.push((await connect("c", wallet(1))).socket);
+    }
+    const over = await connect("c", wallet(1));
+    assert.deepEqual(over.message, { type: "error", error: `At most ${MAX_LIVE_SOCKETS_PER_CLIENT} live connections per client` });
+    assert.equal(await over.closeCode, 1008);
+
+    const closed = new Promise((resolve) => sockets[0].once("close", resolve));
+    sockets[0].close();
+    await closed;
+    // The server sees the close after the client does
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const { socket } = await connect("c", wallet(1));
+    assert.equal(socket.readyState, WebSocket.OPEN);
+    await closeAll();
+  });
+});
@@ -0,0 +1,129 @@
+// Live open positions over WebSocket
+// Clients connect to LIVE_POSITIONS_PATH with the same query string as /api/positions (address, network, wallet);
+// the server polls the Keeper on its own cadence and pushes a fresh OpenPositionsResponse to every subscriber
+
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import type { LivePositionsMessage, OpenPositionsResponse } from "@shared/schema";
+import { resolveNetwork, unknownNetworkError } from "./networks";
+import { resolveWalletQuery } from "./portfolio";
+import { loadOpenPositions } from "./positions";
+
+export const LIVE_POSITIONS_PATH = "/ws/positions";
+
+// Keeper market prices and borrowing fees change every few blocks; polling faster only repeats them
+export const LIVE_POSITIONS_INTERVAL_MS = Number(process.env.LIVE_POSITIONS_INTERVAL_MS) || 10_000;
+
+// Each subscription polls the Keeper for every wallet on each tick, and connections are anonymous, so each client
+// address gets a few sockets and distinct subscriptions (several tabs on one portfolio share a subscription)
+export const MAX_LIVE_SOCKETS_PER_CLIENT = 10;
+export const MAX_LIVE_SUBSCRIPTIONS_PER_CLIENT = 3;
+
+// Policy violation: the subscription query was invalid, or the client is over its caps
+const CLOSE_POLICY_VIOLATION = 1008;
+
+// Clients watching the same wallets on the same network share one polling loop
+interface Subscription {
+  clients: Set<WebSocket>;
+  load: () => Promise<OpenPositionsResponse>;
+  timer?: NodeJS.Timeout;
+  polling: boolean;
+  lastMessage?: LivePositionsMessage;
+}
+
+function send(client: WebSocket, message: LivePositionsMessage): void {
+  if (client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(message));
+  }
+}
+
+// `clientAddress` resolves the upgrade request's client address (honouring the app's trusted proxies)
+export function registerLivePositions(httpServer: Server, clientAddress: (req: IncomingMessage) => string): void {
+  const wss = new WebSocketServer({ noServer: true });
+  const subscriptions = new Map<string, Subscription>();
+  // Open sockets per client address, with the subscription key each one joined
+  const clientSockets = new Map<string, Map<WebSocket, string>>();
+
+  const poll = async (subscription: Subscription) => {
+    // Skip a tick rather than stack requests when the Keeper is slow
+    if (subscription.polling) return;
+    subscription.polling = true;
+    let message: LivePositionsMessage;
+    try {
+      const data = await subscription.load();
+      message = { type: "positions", data, updatedAt: new Date().toISOString(), intervalMs: LIVE_POSITIONS_INTERVAL_MS };
+    } catch (error) {
+      console.error("Error polling live positions:", error);
+      message = { type: "error", error: "Failed to fetch positions" };
+    } finally {
+      subscription.polling = false;
+    }
+    subscription.lastMessage = message;
+    subscription.clients.forEach(client => send(client, message));
+  };
+
+  const reject = (client: WebSocket, error: string) => {
+    send(client, { type: "error", error });
+    client.close(CLOSE_POLICY_VIOLATION);
+  };
+
+  const subscribe = (client: WebSocket, params: URLSearchParams, clientKey: string) => {
+    const networkConfig = resolveNetwork(params.get("network") ?? undefined);
+    if (!networkConfig) {
+      return reject(client, unknownNetworkError());
+    }
+    const address = params.get("address") ?? "";
+    const walletQuery = resolveWalletQuery(address, params.get("wallet") ?? undefined, networkConfig.bech32Prefix);
+    if (!walletQuery.ok) {
+      return reject(client, walletQuery.error);
+    }
+    const { wallets, selected } = walletQuery;
+
+    const key = [networkConfig.id, wallets.map(w => w.evm).join(","), selected.map(w => w.evm).join(",")].join("|");
+    const sockets = clientSockets.get(clientKey) ?? new Map<WebSocket, string>();
+    if (sockets.size >= MAX_LIVE_SOCKETS_PER_CLIENT) {
+      return reject(client, `At most ${MAX_LIVE_SOCKETS_PER_CLIENT} live connections per client`);
+    }
+    const joinedKeys = new Set(sockets.values());
+    if (!joinedKeys.has(key) && joinedKeys.size >= MAX_LIVE_SUBSCRIPTIONS_PER_CLIENT) {
+      return reject(client, `At most ${MAX_LIVE_SUBSCRIPTIONS_PER_CLIENT} live subscriptions per client`);
+    }
+    sockets.set(client, key);
+    clientSockets.set(clientKey, sockets);
+    let subscription = subscriptions.get(key);
+    if (!subscription) {
+      const newSubscription: Subscription = {
+        clients: new Set(),
+        load: () => loadOpenPositions(networkConfig, address, wallets, selected),
+        polling: false,
+      };
+      newSubscription.timer = setInterval(() => poll(newSubscription), LIVE_POSITIONS_INTERVAL_MS);
+      subscriptions.set(key, newSubscription);
+      subscription = newSubscription;
+      poll(newSubscription);
+    } else if (subscription.lastMessage) {
+      send(client, subscription.lastMessage);
+    }
+    subscription.clients.add(client);
+
+    const joined = subscription;
+    client.on("close", () => {
+      sockets.delete(client);
+      if (sockets.size === 0 && clientSockets.get(clientKey) === sockets) clientSockets.delete(clientKey);
+      joined.clients.delete(client);
+      if (joined.clients.size === 0) {
+        clearInterval(joined.timer);
+        subscriptions.delete(key);
+      }
+    });
+  };
+
+  // Other upgrade requests (e.g. Vite's HMR socket in development) are left to their own handlers
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== LIVE_POSITIONS_PATH) return;
+    const clientKey = clientAddress(req);
+    wss.handleUpgrade(req, socket, head, (client) => subscribe(client, url.searchParams, clientKey));
+  });
+}
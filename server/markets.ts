@@ -0,0 +1,39 @@
+// Market lookups built from the Sai Keeper borrowings list
+
+import type { Market } from "@shared/schema";
+
+// Build a mapping from marketId to symbol using the borrowings data
+export function buildMarketIdToSymbolMap(markets: Market[]): Map<number, string> {
+  const symbolMap = new Map<number, string>();
+  for (const market of markets) {
+    const marketId = parseInt(market.marketId);
+    if (!isNaN(marketId) && market.baseToken?.symbol) {
+      symbolMap.set(marketId, market.baseToken.symbol);
+    }
+  }
+  return symbolMap;
+}
+
+// Build a mapping from marketId to collateral token symbol
+export function buildMarketIdToCollateralMap(markets: Market[]): Map<number, string> {
+  const collateralMap = new Map<number, string>();
+  for (const market of markets) {
+    const marketId = parseInt(market.marketId);
+    if (!isNaN(marketId) && market.collateralToken?.symbol) {
+      collateralMap.set(marketId, market.collateralToken.symbol);
+    }
+  }
+  return collateralMap;
+}
+
+// Build a mapping from marketId to the market's current price (the mark price open positions are valued at)
+export function buildMarkPriceMap(markets: Market[]): Map<number, number> {
+  const priceMap = new Map<number, number>();
+  for (const market of markets) {
+    const marketId = parseInt(market.marketId);
+    if (!isNaN(marketId) && market.price > 0) {
+      priceMap.set(marketId, market.price);
+    }
+  }
+  return priceMap;
+}
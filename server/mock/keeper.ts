@@ -0,0 +1,91 @@
+// Mock Sai Keeper GraphQL and EVM JSON-RPC endpoints backed by the fixtures in ./fixtures
+// Enabled with MOCK_KEEPER=1, which also registers the "mock" network (see server/networks.ts)
+
+import type { Express, Request, Response } from "express";
+import markets from "./fixtures/markets.json";
+import vaults from "./fixtures/vaults.json";
+import trades from "./fixtures/trades.json";
+import tradeHistory from "./fixtures/tradeHistory.json";
+import feeTransactions from "./fixtures/feeTransactions.json";
+import receipts from "./fixtures/receipts.json";
+
+export const MOCK_KEEPER_PATH = "/mock/keeper/query";
+export const MOCK_RPC_PATH = "/mock/rpc";
+
+// Mirrors the Keeper's limit/offset paging (it caps every list at 100 rows)
+function page<T>(rows: T[], variables: Record<string, any>): T[] {
+  const offset = Number(variables.offset) || 0;
+  const limit = Math.min(Number(variables.limit) || 100, 100);
+  return rows.slice(offset, offset + limit);
+}
+
+// Answer a query by its operation name; fixtures carry a superset of the fields each query selects
+function resolveQuery(operation: string, variables: Record<string, any>): unknown {
+  switch (operation) {
+    case "GetTrades":
+      return { perp: { trades: page(trades.filter((t) => t.trader === variables.trader), variables) } };
+    case "GetTradeHistory":
+      return { perp: { tradeHistory: page(tradeHistory.filter((h) => h.trader === variables.trader), variables) } };
+    case "GetAllTradeHistory":
+      return { perp: { tradeHistory: page(tradeHistory, variables) } };
+    case "GetFeeTransactions":
+      return {
+        fee: { feeTransactions: page(feeTransactions.filter((f) => f.traderAddress === variables.trader), variables) },
+      };
+    case "GetMarkets":
+    case "GetGlobalStats":
+      return {
+        perp: { borrowings: markets.borrowings },
+        lp: { vaults: vaults.vaults },
+        oracle: { tokenPricesUsd: markets.tokenPricesUsd },
+      };
+    case "GetVaultPositions":
+      return {
+        lp: {
+          depositHistory: page(vaults.depositHistory.filter((d) => d.depositor === variables.depositor), variables),
+          vaults: vaults.vaults,
+        },
+      };
+    default:
+      return undefined;
+  }
+}
+
+// Encode a wasm event the way the EVM precompile logs it: offset and length words, then the JSON bytes
+export function encodeWasmEventLog(event: Record<string, string>): { data: string; topics: string[] } {
+  const json = Buffer.from(JSON.stringify(event), "utf8");
+  const padded = Buffer.alloc(Math.ceil(json.length / 32) * 32);
+  json.copy(padded);
+  const word = (n: number) => n.toString(16).padStart(64, "0");
+  return { data: `0x${word(32)}${word(json.length)}${padded.toString("hex")}`, topics: [] };
+}
+
+function handleGraphql(req: Request, res: Response) {
+  const { query, variables } = req.body ?? {};
+  const operation = typeof query === "string" ? query.match(/query\s+(\w+)/)?.[1] : undefined;
+  const data = operation ? resolveQuery(operation, variables ?? {}) : undefined;
+  if (!data) {
+    return res.json({ errors: [{ message: `Mock Keeper has no fixture for ${operation ?? "this query"}` }] });
+  }
+  res.json({ data });
+}
+
+function handleRpc(req: Request, res: Response) {
+  const { id, method, params } = req.body ?? {};
+  if (method !== "eth_getTransactionReceipt") {
+    return res.json({ jsonrpc: "2.0", id, error: { code: -32601, message: `Mock RPC does not support ${method}` } });
+  }
+  // Unknown hashes answer null, like a pruned receipt on mainnet
+  const events = (receipts as Record<string, Record<string, string>[]>)[String(params?.[0]).toLowerCase()];
+  res.json({
+    jsonrpc: "2.0",
+    id,
+    result: events ? { transactionHash: params[0], status: "0x1", logs: events.map(encodeWasmEventLog) } : null,
+  });
+}
+
+export function registerMockKeeper(app: Express): void {
+  app.post(MOCK_KEEPER_PATH, handleGraphql);
+  app.post(MOCK_RPC_PATH, handleRpc);
+  console.log(`[Mock] Serving fixture Keeper at ${MOCK_KEEPER_PATH} and RPC at ${MOCK_RPC_PATH}`);
+}
@@ -0,0 +1,120 @@
+// Network registry: built-in mainnet/testnet, extended or overridden from NETWORKS_FILE (path to a JSON file)
+// or NETWORKS_JSON (inline JSON). Both hold an array of network entries; entries with a built-in id replace it.
+// MOCK_KEEPER=1 adds a "mock" network served by this server from fixtures (server/mock).
+
+import fs from "fs";
+import { z } from "zod";
+import type { NetworkInfo, NetworksResponse } from "@shared/schema";
+import { MOCK_KEEPER_PATH, MOCK_RPC_PATH } from "./mock/keeper";
+
+const networkConfigSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Network id must be lowercase letters, digits or dashes"),
+  name: z.string().min(1),
+  graphql: z.string().url(),
+  rpc: z.string().url(),
+  explorer: z.string().url(),
+  bech32Prefix: z.string().min(1).default("nibi"),
+  testnet: z.boolean().default(false),
+});
+
+export type NetworkConfig = z.infer<typeof networkConfigSchema>;
+
+const BUILT_IN_NETWORKS: NetworkConfig[] = [
+  {
+    id: "mainnet",
+    name: "Mainnet",
+    graphql: "https://sai-keeper.nibiru.fi/query",
+    rpc: "https://evm-rpc.nibiru.fi",
+    explorer: "https://nibiscan.io",
+    bech32Prefix: "nibi",
+    testnet: false,
+  },
+  {
+    id: "testnet",
+    name: "Testnet",
+    graphql: "https://sai-keeper.testnet-2.nibiru.fi/query",
+    rpc: "https://evm-rpc.testnet-2.nibiru.fi",
+    explorer: "https://testnet.nibiscan.io",
+    bech32Prefix: "nibi",
+    testnet: true,
+  },
+];
+
+export const mockKeeperEnabled = Boolean(process.env.MOCK_KEEPER);
+
+// The mock endpoints are mounted on this server, so point at its own port
+function mockNetwork(): NetworkConfig {
+  const origin = `http://127.0.0.1:${process.env.PORT || "5000"}`;
+  return {
+    id: "mock",
+    name: "Mock (fixtures)",
+    graphql: `${origin}${MOCK_KEEPER_PATH}`,
+    rpc: `${origin}${MOCK_RPC_PATH}`,
+    explorer: "https://testnet.nibiscan.io",
+    bech32Prefix: "nibi",
+    testnet: true,
+  };
+}
+
+function parseNetworkList(raw: string, source: string): NetworkConfig[] {
+  const parsed = z.array(networkConfigSchema).safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    throw new Error(`Invalid network config in ${source}: ${issue.path.join(".")} ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+function loadNetworks(): Map<string, NetworkConfig> {
+  const registry = new Map(BUILT_IN_NETWORKS.map((network) => [network.id, network]));
+  if (mockKeeperEnabled) {
+    registry.set("mock", mockNetwork());
+  }
+  const overrides: NetworkConfig[] = [];
+  if (process.env.NETWORKS_FILE) {
+    overrides.push(...parseNetworkList(fs.readFileSync(process.env.NETWORKS_FILE, "utf8"), process.env.NETWORKS_FILE));
+  }
+  if (process.env.NETWORKS_JSON) {
+    overrides.push(...parseNetworkList(process.env.NETWORKS_JSON, "NETWORKS_JSON"));
+  }
+  for (const network of overrides) {
+    registry.set(network.id, network);
+  }
+  return registry;
+}
+
+const networks = loadNetworks();
+
+export const DEFAULT_NETWORK = process.env.DEFAULT_NETWORK || (mockKeeperEnabled ? "mock" : "mainnet");
+if (!networks.has(DEFAULT_NETWORK)) {
+  throw new Error(`DEFAULT_NETWORK "${DEFAULT_NETWORK}" is not in the network registry`);
+}
+
+export function getNetwork(id: string): NetworkConfig | undefined {
+  return networks.get(id);
+}
+
+export function listNetworks(): NetworkConfig[] {
+  return Array.from(networks.values());
+}
+
+// Resolve the `network` query parameter, falling back to the default network when it is omitted
+export function resolveNetwork(param: unknown): NetworkConfig | undefined {
+  return typeof param === "string" && param ? networks.get(param) : networks.get(DEFAULT_NETWORK);
+}
+
+export function unknownNetworkError(): string {
+  return `Invalid network. Use one of: ${Array.from(networks.keys()).join(", ")}`;
+}
+
+// Client-facing view of the registry (endpoints stay server-side)
+export function getNetworksResponse(): NetworksResponse {
+  const list: NetworkInfo[] = listNetworks().map(({ id, name, explorer, bech32Prefix, testnet }) => ({
+    id,
+    name,
+    explorer,
+    bech32Prefix,
+    testnet,
+  }));
+  return { networks: list, defaultNetwork: DEFAULT_NETWORK };
+}
@@ -0,0 +1,79 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Trade } from "@shared/schema";
+import { resolveWalletQuery, summarizeTrades, summarizeTradesByWallet } from "./portfolio";
+
+const A = "0x5dba7aa28074201a2c3abe4e743adaf8e74bd183";
+const A_BECH32 = "nibi1tka84g5qwssp5tp6he88gwk6lrn5h5vrumrhqx";
+const B = "0x" + "ab".repeat(20);
+
+function closedTrade(wallet: string, profitPct: number, pnlAmount: number): Trade {
+  return {
+    txHash: `0x${wallet.slice(2, 6)}${pnlAmount}`,
+    timestamp: "2026-01-01T00:00:00Z",
+    type: "close",
+    profitPct,
+    pnlAmount,
+    collateral: 100,
+    wallet,
+  };
+}
+
+describe("resolveWalletQuery", () => {
+  test("selects every wallet when no filter is given", () => {
+    const query = resolveWalletQuery(`${A},${B}`, undefined, "nibi");
+    assert.equal(query.ok, true);
+    if (!query.ok) return;
+    assert.deepEqual(query.wallets.map((w) => w.evm), [A, B]);
+    assert.deepEqual(query.selected, query.wallets);
+  });
+
+  test("narrows to the filtered wallet in either address form", () => {
+    const query = resolveWalletQuery(`${A},${B}`, A_BECH32, "nibi");
+    assert.deepEqual(query.ok ? query.selected.map((w) => w.evm) : [], [A]);
+  });
+
+  test("rejects a filter outside the portfolio and a missing address", () => {
+    assert.equal(resolveWalletQuery(A, B, "nibi").ok, false);
+    assert.equal(resolveWalletQuery(undefined, undefined, "nibi").ok, false);
+  });
+});
+
+describe("summarizeTradesByWallet", () => {
+  test("attributes closed-trade totals to each wallet", () => {
+    const trades = [
+      closedTrade(A, 0.1, 10),
+      closedTrade(A, -0.05, -5),
+      closedTrade(B, 0.2, 20),
+      { ...closedTrade(B, 0, 0), type: "open" as const, profitPct: undefined },
+    ];
+    const query = resolveWalletQuery(`${A},${B}`, undefined, "nibi");
+    assert.ok(query.ok);
+    const [walletA, walletB] = summarizeTradesByWallet(query.wallets, trades);
+
+    assert.deepEqual(
+      { closed: walletA.closedTrades, wins: walletA.wins, pnl: walletA.totalPnlAmount, total: walletA.totalTrades },
+      { closed: 2, wins: 1, pnl: 5, total: 2 },
+    );
+    assert.deepEqual(
+      { closed: walletB.closedTrades, wins: walletB.wins, pnl: walletB.totalPnlAmount, total: walletB.totalTrades },
+      { closed: 1, wins: 1, pnl: 20, total: 2 },
+    );
+    assert.equal(walletA.bech32, A_BECH32);
+    assert.equal(summarizeTrades(trades).totalPnlAmount, 25);
+  });
+});
+
+describe("summarizeTrades", () => {
+  test("totals native amounts per collateral token", () => {
+    const stNibi: Trade = {
+      ...closedTrade(A, 0.3, 7.8),
+      collateralToken: "stNIBI",
+      native: { collateral: 1000, pnlAmount: 300 },
+    };
+    const usdc: Trade = { ...closedTrade(A, 0.1, 10), native: { collateral: 100, pnlAmount: 10 } };
+    const summary = summarizeTrades([stNibi, usdc, closedTrade(B, 0.2, 20)]);
+    assert.deepEqual(summary.nativePnlByToken, { stNIBI: 300, USDC: 10 });
+    assert.deepEqual(summary.nativeCollateralByToken, { stNIBI: 1000, USDC: 100 });
+  });
+});
@@ -0,0 +1,68 @@
+// Multi-address (portfolio) support for the per-trader endpoints
+// `address` may be a comma-separated list; `wallet` optionally narrows the results to one of those addresses
+
+import type { PortfolioWallet, Trade, TradesSummary, WalletTradesSummary } from "@shared/schema";
+import { parseAddress, parseAddressList, type TraderAddress } from "@shared/address";
+import { getClosedTrades, isWinningTrade } from "@shared/analytics";
+
+export type WalletQuery =
+  | { ok: true; wallets: TraderAddress[]; selected: TraderAddress[] }
+  | { ok: false; error: string };
+
+export function resolveWalletQuery(address: unknown, wallet: unknown, prefix: string): WalletQuery {
+  if (!address || typeof address !== "string") {
+    return { ok: false, error: "Address is required" };
+  }
+  const list = parseAddressList(address, prefix);
+  if (!list.ok) return list;
+
+  if (wallet === undefined || wallet === "") {
+    return { ok: true, wallets: list.wallets, selected: list.wallets };
+  }
+  const parsed = typeof wallet === "string" ? parseAddress(wallet, prefix) : null;
+  const match = parsed?.ok ? list.wallets.find((w) => w.evm === parsed.evm) : undefined;
+  if (!match) {
+    return { ok: false, error: "wallet must be one of the requested addresses" };
+  }
+  return { ok: true, wallets: list.wallets, selected: [match] };
+}
+
+export function toPortfolioWallet(wallet: TraderAddress): PortfolioWallet {
+  return { wallet: wallet.evm, bech32: wallet.bech32 };
+}
+
+// Sum a native amount per collateral token (trades without a token are USDC, as in getCollateralPriceMultiplier)
+function sumByToken(trades: Trade[], amount: (native: NonNullable<Trade["native"]>) => number | undefined): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const trade of trades) {
+    const value = trade.native ? amount(trade.native) : undefined;
+    if (value === undefined) continue;
+    const token = trade.collateralToken ?? "USDC";
+    totals[token] = (totals[token] ?? 0) + value;
+  }
+  return totals;
+}
+
+// Closed-trade totals, counted the same way as /api/trader-stats; amounts are summed in USD and per collateral token
+export function summarizeTrades(trades: Trade[]): TradesSummary {
+  const closeTrades = getClosedTrades(trades);
+  return {
+    closedTrades: closeTrades.length,
+    wins: closeTrades.filter(isWinningTrade).length,
+    totalPnlAmount: closeTrades.reduce((sum, t) => sum + (t.pnlAmount ?? 0), 0),
+    totalCollateral: closeTrades.reduce((sum, t) => sum + (t.collateral ?? 0), 0),
+    nativePnlByToken: sumByToken(closeTrades, n => n.pnlAmount),
+    nativeCollateralByToken: sumByToken(closeTrades, n => n.collateral),
+  };
+}
+
+export function summarizeTradesByWallet(wallets: TraderAddress[], trades: Trade[]): WalletTradesSummary[] {
+  return wallets.map((wallet) => {
+    const walletTrades = trades.filter((t) => t.wallet === wallet.evm);
+    return {
+      ...toPortfolioWallet(wallet),
+      ...summarizeTrades(walletTrades),
+      totalTrades: walletTrades.length,
+    };
+  });
+}
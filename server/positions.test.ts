@@ -0,0 +1,63 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Market, PerpTrade } from "@shared/schema";
+import tradesFixture from "./mock/fixtures/trades.json";
+import marketsFixture from "./mock/fixtures/markets.json";
+import { buildOpenPosition, liquidationDistancePct, markToMarketPct } from "./positions";
+import { buildMarketIdToSymbolMap, buildMarkPriceMap } from "./markets";
+import { buildOraclePriceMap } from "./prices";
+
+const markets = marketsFixture.borrowings as Market[];
+const symbolMap = buildMarketIdToSymbolMap(markets);
+const markPrices = buildMarkPriceMap(markets);
+const oraclePriceMap = buildOraclePriceMap(marketsFixture.tokenPricesUsd);
+const openTrade = { ...(tradesFixture as PerpTrade[]).find((t) => t.isOpen)!, wallet: "0xabc" };
+
+function close(actual: number | undefined, expected: number) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+}
+
+describe("markToMarketPct", () => {
+  test("scales the price move by leverage, inverted for shorts", () => {
+    close(markToMarketPct(100, 110, 5, true), 0.5);
+    close(markToMarketPct(100, 110, 5, false), -0.5);
+  });
+});
+
+describe("liquidationDistancePct", () => {
+  test("is the adverse move to the liquidation price as a fraction of the mark price", () => {
+    close(liquidationDistancePct(100, 80, true), 0.2);
+    close(liquidationDistancePct(100, 125, false), 0.25);
+  });
+});
+
+describe("buildOpenPosition", () => {
+  test("values the position at the market's mark price", () => {
+    // 150 USDC at 5x, entry 62000, BTC/USDC market at 63250
+    const position = buildOpenPosition(openTrade, symbolMap, oraclePriceMap, markPrices);
+    assert.equal(position.pair, "BTC");
+    assert.equal(position.currentPrice, 63250);
+    close(position.unrealizedPnlPct, (1250 / 62000) * 5);
+    close(position.unrealizedPnl, 150 * (1250 / 62000) * 5);
+    close(position.liquidationDistancePct, (63250 - 50200) / 63250);
+    close(position.borrowingFee, 0.5);
+    assert.equal(position.wallet, "0xabc");
+  });
+
+  test("falls back to the Keeper's state without a mark price", () => {
+    const position = buildOpenPosition(openTrade, symbolMap, oraclePriceMap, new Map());
+    assert.equal(position.currentPrice, undefined);
+    assert.equal(position.liquidationDistancePct, undefined);
+    close(position.unrealizedPnl, 15.3);
+    assert.equal(position.unrealizedPnlPct, 0.102);
+  });
+
+  test("keeps stNIBI amounts in collateral token units next to their USD value", () => {
+    const stNibiTrade = { ...openTrade, perpBorrowing: { ...openTrade.perpBorrowing!, collateralToken: { symbol: "stNIBI" } } };
+    const position = buildOpenPosition(stNibiTrade, symbolMap, oraclePriceMap, new Map());
+    assert.equal(position.native?.collateral, 150);
+    close(position.native?.unrealizedPnl, 15.3);
+    close(position.collateral, 150 * 0.026);
+    close(position.unrealizedPnl, 15.3 * 0.026);
+  });
+});
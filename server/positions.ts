@@ -0,0 +1,162 @@
+// Open positions of one or more wallets, shared by /api/positions and the live positions WebSocket
+// Positions are valued at the Keeper's current market price, so PnL moves between Keeper state updates
+
+import type { OpenPosition, OpenPositionsResponse, PerpTrade } from "@shared/schema";
+import type { TraderAddress } from "@shared/address";
+import { buildNibiPrices, buildOraclePriceMap, getCollateralPriceMultiplier } from "./prices";
+import { buildMarketIdToSymbolMap, buildMarkPriceMap } from "./markets";
+import { toPortfolioWallet } from "./portfolio";
+import type { NetworkConfig } from "./networks";
+import {
+  TRADES_QUERY,
+  MARKETS_QUERY,
+  type GraphQLResponse,
+  type MarketsQueryResult,
+  type TradesQueryResult,
+} from "./keeper";
+
+// Price PnL as a fraction of collateral, before fees (the same basis as the Keeper's state.pnlCollateral)
+export function markToMarketPct(entryPrice: number, markPrice: number, leverage: number, isLong: boolean): number {
+  const change = (markPrice - entryPrice) / entryPrice;
+  return (isLong ? change : -change) * leverage;
+}
+
+// How far the mark price can move against the position before it is liquidated, as a fraction of the mark price
+export function liquidationDistancePct(markPrice: number, liquidationPrice: number, isLong: boolean): number {
+  return (isLong ? markPrice - liquidationPrice : liquidationPrice - markPrice) / markPrice;
+}
+
+// Convert an open Keeper trade; without a mark price for its market the Keeper's last computed state is used
+export function buildOpenPosition(
+  trade: PerpTrade & { wallet: string },
+  symbolMap: Map<number, string>,
+  oraclePriceMap: Map<string, number>,
+  markPrices: Map<number, number>
+): OpenPosition {
+  const marketId = trade.perpBorrowing?.marketId;
+  const pair = marketId !== undefined ? (symbolMap.get(marketId) || "Unknown") : "Unknown";
+
+  // Get collateral token and USD multiplier; open positions are live, so always at today's price
+  const collateralTokenSymbol = trade.perpBorrowing?.collateralToken?.symbol;
+  const collateralPriceMultiplier = getCollateralPriceMultiplier(collateralTokenSymbol, oraclePriceMap, null, "current");
+  const collateral = (trade.openCollateralAmount || trade.collateralAmount) / 1e6;
+
+  const markPrice = marketId !== undefined ? markPrices.get(marketId) : undefined;
+  const liquidationPrice = trade.state?.liquidationPrice;
+
+  // Amounts in collateral token units, converted to USD below
+  let unrealizedPnlPct = trade.state?.pnlPct;
+  let nativeUnrealizedPnl = trade.state ? trade.state.pnlCollateral / 1e6 : undefined;
+  if (markPrice !== undefined && trade.openPrice > 0) {
+    unrealizedPnlPct = markToMarketPct(trade.openPrice, markPrice, trade.leverage, trade.isLong);
+    nativeUnrealizedPnl = collateral * unrealizedPnlPct;
+  }
+  const native = {
+    collateral,
+    unrealizedPnl: nativeUnrealizedPnl,
+    positionValue: trade.state ? trade.state.positionValue / 1e6 : undefined,
+    borrowingFee: trade.state ? trade.state.borrowingFeeCollateral / 1e6 : undefined,
+  };
+  const toUsd = (amount: number | undefined) => amount !== undefined ? amount * collateralPriceMultiplier : undefined;
+
+  return {
+    tradeId: trade.id,
+    pair,
+    direction: trade.isLong ? "long" : "short",
+    leverage: trade.leverage,
+    collateral: collateral * collateralPriceMultiplier,
+    entryPrice: trade.openPrice,
+    currentPrice: markPrice,
+    stopLoss: trade.sl,
+    takeProfit: trade.tp,
+    liquidationPrice,
+    liquidationDistancePct: markPrice !== undefined && liquidationPrice
+      ? liquidationDistancePct(markPrice, liquidationPrice, trade.isLong)
+      : undefined,
+    unrealizedPnl: toUsd(native.unrealizedPnl),
+    unrealizedPnlPct,
+    positionValue: toUsd(native.positionValue),
+    borrowingFee: toUsd(native.borrowingFee),
+    openedAt: trade.openBlock?.block_ts || new Date().toISOString(),
+    collateralToken: collateralTokenSymbol,
+    wallet: trade.wallet,
+    native,
+  };
+}
+
+// Fetch the wallets' open trades and markets from the Keeper; positions and the total follow `selected`,
+// per-wallet totals cover every wallet
+export async function loadOpenPositions(
+  networkConfig: NetworkConfig,
+  address: string,
+  wallets: TraderAddress[],
+  selected: TraderAddress[]
+): Promise<OpenPositionsResponse> {
+  // Query open trades of every wallet and markets in parallel
+  const [tradesResponses, marketsResponse] = await Promise.all([
+    Promise.all(wallets.map(wallet => fetch(networkConfig.graphql, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: TRADES_QUERY,
+        variables: { trader: wallet.bech32, limit: 100, offset: 0 },
+      }),
+    }))),
+    fetch(networkConfig.graphql, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: MARKETS_QUERY,
+        variables: {},
+      }),
+    }),
+  ]);
+
+  const tradesData = await Promise.all(tradesResponses.map(r => r.json() as Promise<GraphQLResponse<TradesQueryResult>>));
+  const marketsData = await marketsResponse.json() as GraphQLResponse<MarketsQueryResult>;
+
+  const tradesErrors = tradesData.flatMap(d => d.errors ?? []);
+  if (tradesErrors.length > 0) {
+    throw new Error(`GraphQL errors: ${tradesErrors.map(e => e.message).join(", ")}`);
+  }
+
+  // Merge the wallets' open trades, attributing each to its wallet (trade ids dedupe repeated rows)
+  const openTrades: (PerpTrade & { wallet: string })[] = [];
+  const seenTradeIds = new Set<number>();
+  tradesData.forEach((data, i) => {
+    for (const trade of data.data?.perp?.trades || []) {
+      if (!trade.isOpen || seenTradeIds.has(trade.id)) continue;
+      seenTradeIds.add(trade.id);
+      openTrades.push({ ...trade, wallet: wallets[i].evm });
+    }
+  });
+  const markets = marketsData.data?.perp?.borrowings || [];
+
+  const symbolMap = buildMarketIdToSymbolMap(markets);
+  const markPrices = buildMarkPriceMap(markets);
+  const oraclePriceMap = buildOraclePriceMap(marketsData.data?.oracle?.tokenPricesUsd);
+
+  const allPositions = openTrades.map(trade => buildOpenPosition(trade, symbolMap, oraclePriceMap, markPrices));
+
+  // Per-wallet totals cover the whole portfolio; the list and total follow the wallet filter
+  const walletSummaries = wallets.map(wallet => {
+    const walletPositions = allPositions.filter(p => p.wallet === wallet.evm);
+    return {
+      ...toPortfolioWallet(wallet),
+      positions: walletPositions.length,
+      unrealizedPnl: walletPositions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0),
+    };
+  });
+  const selectedWallets = new Set(selected.map(w => w.evm));
+  const positions = allPositions.filter(p => p.wallet !== undefined && selectedWallets.has(p.wallet));
+
+  return {
+    address,
+    positions,
+    totalPositions: positions.length,
+    totalUnrealizedPnl: positions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0),
+    explorer: networkConfig.explorer,
+    wallets: walletSummaries,
+    nibiPrices: buildNibiPrices(oraclePriceMap),
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildNibiPrices,
+  buildOraclePriceMap,
+  getCollateralPriceMultiplier,
+  resolveValuationPolicy,
+  DEFAULT_VALUATION_POLICY,
+} from "./prices";
+
+describe("buildOraclePriceMap", () => {
+  test("skips entries without a symbol or price", () => {
+    const map = buildOraclePriceMap([
+      { token: { symbol: "stNIBI" }, priceUsd: 0.026 },
+      { token: { symbol: "DEAD" }, priceUsd: 0 },
+      { token: { symbol: "" }, priceUsd: 5 },
+    ]);
+    assert.deepEqual(Array.from(map.entries()), [["stNIBI", 0.026]]);
+    assert.equal(buildOraclePriceMap(undefined).size, 0);
+  });
+});
+
+describe("getCollateralPriceMultiplier", () => {
+  const oracle = new Map([["stNIBI", 0.026]]);
+
+  test("USDC and unknown collateral are priced at 1", () => {
+    assert.equal(getCollateralPriceMultiplier("USDC", oracle, 0.5, "current"), 1);
+    assert.equal(getCollateralPriceMultiplier(undefined, oracle, 0.5, "event"), 1);
+  });
+
+  test("stNIBI uses the event's price first under the event policy", () => {
+    assert.equal(getCollateralPriceMultiplier("stNIBI", oracle, 0.02, "event"), 0.02);
+    assert.equal(getCollateralPriceMultiplier("stNIBI", oracle, null, "event"), 0.026);
+  });
+
+  test("stNIBI uses the oracle price first under the current policy", () => {
+    assert.equal(getCollateralPriceMultiplier("stNIBI", oracle, 0.02, "current"), 0.026);
+  });
+
+  test("stNIBI falls back to the historical price, then to 1", () => {
+    assert.equal(getCollateralPriceMultiplier("stNIBI", new Map(), 0.02, "current"), 0.02);
+    assert.equal(getCollateralPriceMultiplier("stNIBI", new Map(), null, "current"), 1);
+    assert.equal(getCollateralPriceMultiplier("stNIBI", new Map(), 0, "event"), 1);
+  });
+});
+
+describe("resolveValuationPolicy", () => {
+  test("accepts a known policy, defaults when absent and rejects anything else", () => {
+    assert.equal(resolveValuationPolicy("current"), "current");
+    assert.equal(resolveValuationPolicy(undefined), DEFAULT_VALUATION_POLICY);
+    assert.equal(resolveValuationPolicy("today"), null);
+    assert.equal(resolveValuationPolicy(["event"]), null);
+  });
+});
+
+describe("buildNibiPrices", () => {
+  test("prices every token in NIBI through its USD price", () => {
+    const nibiPrices = buildNibiPrices(new Map([["stNIBI", 0.026], ["NIBI", 0.02]]));
+    assert.equal(nibiPrices.NIBI, 1);
+    assert.ok(Math.abs(nibiPrices.stNIBI - 1.3) < 1e-9);
+    assert.ok(Math.abs(nibiPrices.USDC - 50) < 1e-9);
+  });
+
+  test("is empty without a NIBI price", () => {
+    assert.deepEqual(buildNibiPrices(new Map([["stNIBI", 0.026]])), {});
+  });
+});
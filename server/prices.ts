@@ -0,0 +1,68 @@
+// Collateral token USD pricing shared by trade conversion, vault positions and volume accumulation
+
+import { valuationPolicies, type NibiPrices, type ValuationPolicy } from "@shared/schema";
+
+// Build oracle price map from token prices
+export function buildOraclePriceMap(tokenPrices: Array<{ token: { symbol: string }; priceUsd: number }> | undefined): Map<string, number> {
+  const priceMap = new Map<string, number>();
+  if (tokenPrices) {
+    for (const tp of tokenPrices) {
+      if (tp.token?.symbol && tp.priceUsd) {
+        priceMap.set(tp.token.symbol, tp.priceUsd);
+      }
+    }
+  }
+  return priceMap;
+}
+
+// Oracle symbol of the native token, for NIBI-denominated views
+export const NIBI_SYMBOL = "NIBI";
+
+// NIBI per unit of each priced token (USDC at parity when the oracle does not list it)
+export function buildNibiPrices(oraclePriceMap: Map<string, number>): NibiPrices {
+  const nibiUsd = oraclePriceMap.get(NIBI_SYMBOL);
+  if (!nibiUsd) return {};
+  const nibiPrices: NibiPrices = { USDC: 1 / nibiUsd };
+  oraclePriceMap.forEach((priceUsd, symbol) => {
+    nibiPrices[symbol] = priceUsd / nibiUsd;
+  });
+  return nibiPrices;
+}
+
+// Server-wide valuation policy (VALUATION_POLICY=event|current); "event" keeps realized amounts fixed once recorded
+export const DEFAULT_VALUATION_POLICY: ValuationPolicy = parseValuationPolicy(process.env.VALUATION_POLICY) ?? "event";
+
+function parseValuationPolicy(value: unknown): ValuationPolicy | null {
+  return valuationPolicies.find(policy => policy === value) ?? null;
+}
+
+// Policy requested by a `valuation` query parameter, the server default when absent, or null when invalid
+export function resolveValuationPolicy(value: unknown): ValuationPolicy | null {
+  return value === undefined ? DEFAULT_VALUATION_POLICY : parseValuationPolicy(value);
+}
+
+export const INVALID_VALUATION_ERROR = `valuation must be one of: ${valuationPolicies.join(", ")}`;
+
+// Today's oracle prices and the policy deciding when they win over an event's recorded price
+export interface CollateralPricing {
+  policy: ValuationPolicy;
+  oraclePriceMap: Map<string, number>;
+}
+
+// Get the USD multiplier for a trade's collateral token
+// For USDC collateral, returns 1. For stNIBI, returns the stNIBI/USD price: the price recorded by the
+// history event under the "event" policy, today's oracle price under "current", each falling back to the other
+export function getCollateralPriceMultiplier(
+  collateralTokenSymbol: string | undefined,
+  oraclePriceMap: Map<string, number>,
+  eventCollateralPrice: number | null | undefined,
+  policy: ValuationPolicy
+): number {
+  if (!collateralTokenSymbol || collateralTokenSymbol === "USDC") {
+    return 1;
+  }
+  const oraclePrice = oraclePriceMap.get(collateralTokenSymbol);
+  const eventPrice = eventCollateralPrice && eventCollateralPrice > 0 ? eventCollateralPrice : undefined;
+  const price = policy === "event" ? eventPrice ?? oraclePrice : oraclePrice ?? eventPrice;
+  return price || 1;
+}
@@ -1,994 +1,294 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import type { Trade, TradesResponse, OpenPosition, OpenPositionsResponse, GlobalStats, GlobalStatsResponse, VaultPosition, VaultPositionsResponse } from "@shared/schema";
-import { bech32 } from "bech32";
-
-// Network configurations for Sai Keeper GraphQL API and EVM RPC
-const NETWORKS = {
-  mainnet: {
-    graphql: "https://sai-keeper.nibiru.fi/query",
-    explorer: "https://nibiscan.io",
-    rpc: "https://evm-rpc.nibiru.fi",
-  },
-  testnet: {
-    graphql: "https://sai-keeper.testnet-2.nibiru.fi/query",
-    explorer: "https://testnet.nibiscan.io",
-    rpc: "https://evm-rpc.testnet-2.nibiru.fi",
-  },
-};
-
-// Convert EVM address (0x...) to Nibiru bech32 address (nibi1...)
-function evmToBech32(evmAddress: string): string {
-  const cleanAddress = evmAddress.toLowerCase().replace("0x", "");
-  const addressBytes: number[] = [];
-  for (let i = 0; i < cleanAddress.length; i += 2) {
-    addressBytes.push(parseInt(cleanAddress.substr(i, 2), 16));
-  }
-  const words = bech32.toWords(new Uint8Array(addressBytes));
-  return bech32.encode("nibi", words);
-}
-
-// GraphQL query for trades - includes perpBorrowing with collateralToken for USD conversion
-const TRADES_QUERY = `
-  query GetTrades($trader: String!, $limit: Int, $offset: Int) {
-    perp {
-      trades(
-        where: { trader: $trader }
-        limit: $limit
-        offset: $offset
-        order_by: sequence
-        order_desc: true
-      ) {
-        id
-        trader
-        isOpen
-        isLong
-        tradeType
-        leverage
-        collateralAmount
-        openCollateralAmount
-        openPrice
-        closePrice
-        sl
-        tp
-        perpBorrowing {
-          marketId
-          collateralToken {
-            symbol
-          }
-        }
-        openBlock {
-          block
-          block_ts
-        }
-        closeBlock {
-          block
-          block_ts
-        }
-        state {
-          pnlCollateral
-          pnlPct
-          pnlCollateralAfterFees
-          positionValue
-          liquidationPrice
-          borrowingFeeCollateral
-          borrowingFeePct
-          closingFeeCollateral
-          closingFeePct
-          remainingCollateralAfterFees
-        }
-      }
-    }
-  }
-`;
-
-// GraphQL query for all markets (borrowings) - fetched separately to build marketId → symbol mapping
-const MARKETS_QUERY = `
-  query GetMarkets {
-    perp {
-      borrowings(limit: 100) {
-        marketId
-        baseToken {
-          symbol
-          name
-        }
-        collateralToken {
-          symbol
-        }
-        price
-      }
-    }
-    oracle {
-      tokenPricesUsd {
-        token {
-          symbol
-        }
-        priceUsd
-      }
+import { randomUUID } from "crypto";
+import proxyaddr from "proxy-addr";
+import { volumeHistoryQuerySchema, createAlertSubscriptionSchema, taxReportQuerySchema, tradeFiltersSchema } from "@shared/schema";
+import type { Trade, TradesResponse, GlobalStats, GlobalStatsResponse, VaultPosition, VaultPositionsResponse, VaultDepositEvent, TraderStatsResponse, TradeDetailResponse, AlertSubscription, AlertSubscriptionResponse, AlertDeliveriesResponse, AlertTestResponse } from "@shared/schema";
+import { computeTraderStats, buildEquityCurve, computeMarketBreakdown } from "@shared/analytics";
+import { bech32ToEvm, parseAddress } from "@shared/address";
+import { isValidTimeZone } from "@shared/calendar";
+import { storage } from "./storage";
+import { syncGlobalVolume, getGlobalVolume, getVolumeHistory } from "./volume";
+import { listNetworks, resolveNetwork, unknownNetworkError, getNetworksResponse, mockKeeperEnabled } from "./networks";
+import { registerMockKeeper } from "./mock/keeper";
+import { buildVaultPositions } from "./vaults";
+import { resolveWalletQuery, toPortfolioWallet, summarizeTrades, summarizeTradesByWallet } from "./portfolio";
+import {
+  loadIndexedTrades,
+  compareTrades,
+  toTradeCursor,
+  matchesTradeFilters,
+  buildTradeFilterOptions,
+  type TradeCursor,
+} from "./trades";
+import { loadOpenPositions } from "./positions";
+import { registerLivePositions } from "./live";
+import { streamTradeExport, EXPORT_CHUNK_SIZE } from "./export";
+import { loadTaxReport, taxReportToCsv } from "./tax";
+import {
+  startAlertEngine,
+  toSubscriptionView,
+  createDelivery,
+  deliverAlert,
+  checkWebhookTarget,
+  alertClientKey,
+  MAX_ALERT_SUBSCRIPTIONS_PER_ADDRESS,
+  MAX_ALERT_SUBSCRIPTIONS_PER_CLIENT,
+} from "./alerts";
+import { syncTrader, syncVaultDeposits } from "./indexer";
+import { buildTradeTxHashMap } from "./conversions";
+import { fetchFeesFromRpc, buildKeeperFeeMap, reconcileFeeMaps, buildFeeTxRefs, getCachedTradeFees, type TradeFees } from "./fees";
+import { buildNibiPrices, buildOraclePriceMap, resolveValuationPolicy, INVALID_VALUATION_ERROR, DEFAULT_VALUATION_POLICY } from "./prices";
+import {
+  GLOBAL_STATS_QUERY,
+  MARKETS_QUERY,
+  graphqlQuery,
+  type MarketsQueryResult,
+} from "./keeper";
+
+// Bring global volume up to date on startup and then every 15 minutes (each run only reads new history)
+const VOLUME_REFRESH_MS = 15 * 60 * 1000;
+
+// The first run waits for the server to listen, since the mock network is served by this same server
+function startVolumeSync(httpServer: Server): void {
+  const runAll = () => {
+    for (const config of listNetworks()) {
+      syncGlobalVolume(config.id, config.graphql).catch((error) => {
+        console.error(`[Volume] Failed to update global volume for ${config.id}:`, error);
+      });
     }
-  }
-`;
-
-
-interface Market {
-  marketId: string;
-  baseToken: { symbol: string; name: string };
-  collateralToken: { symbol: string };
-  price: number;
-}
-
-interface MarketsQueryResult {
-  perp: {
-    borrowings: Market[];
-  };
-  oracle?: {
-    tokenPricesUsd: Array<{ token: { symbol: string }; priceUsd: number }>;
   };
+  httpServer.once("listening", runAll);
+  setInterval(runAll, VOLUME_REFRESH_MS);
 }
 
-// Build a mapping from marketId to symbol using the borrowings data
-function buildMarketIdToSymbolMap(markets: Market[]): Map<number, string> {
-  const symbolMap = new Map<number, string>();
-  for (const market of markets) {
-    const marketId = parseInt(market.marketId);
-    if (!isNaN(marketId) && market.baseToken?.symbol) {
-      symbolMap.set(marketId, market.baseToken.symbol);
-    }
-  }
-  return symbolMap;
-}
+const ALERT_DELIVERIES_DEFAULT_LIMIT = 50;
+const ALERT_DELIVERIES_MAX_LIMIT = 200;
 
-// Build a mapping from marketId to collateral token symbol
-function buildMarketIdToCollateralMap(markets: Market[]): Map<number, string> {
-  const collateralMap = new Map<number, string>();
-  for (const market of markets) {
-    const marketId = parseInt(market.marketId);
-    if (!isNaN(marketId) && market.collateralToken?.symbol) {
-      collateralMap.set(marketId, market.collateralToken.symbol);
-    }
-  }
-  return collateralMap;
+// Optional [closedFrom, closedTo) window on close time (ISO timestamps), e.g. one calendar day
+interface CloseWindow {
+  closedFrom: number | null;
+  closedTo: number | null;
 }
 
-// Build oracle price map from token prices
-function buildOraclePriceMap(tokenPrices: Array<{ token: { symbol: string }; priceUsd: number }> | undefined): Map<string, number> {
-  const priceMap = new Map<string, number>();
-  if (tokenPrices) {
-    for (const tp of tokenPrices) {
-      if (tp.token?.symbol && tp.priceUsd) {
-        priceMap.set(tp.token.symbol, tp.priceUsd);
-      }
-    }
+function parseCloseWindow(query: Request["query"]): CloseWindow | null {
+  const closedFrom = query.closedFrom ? new Date(query.closedFrom as string).getTime() : null;
+  const closedTo = query.closedTo ? new Date(query.closedTo as string).getTime() : null;
+  if ((closedFrom !== null && isNaN(closedFrom)) || (closedTo !== null && isNaN(closedTo))) {
+    return null;
   }
-  return priceMap;
+  return { closedFrom, closedTo };
 }
 
-// Get the USD multiplier for a trade's collateral token
-// For USDC collateral, returns 1. For stNIBI, returns the stNIBI/USD price.
-function getCollateralPriceMultiplier(
-  collateralTokenSymbol: string | undefined,
-  oraclePriceMap: Map<string, number>,
-  fallbackCollateralPrice?: number | null
-): number {
-  if (!collateralTokenSymbol || collateralTokenSymbol === "USDC") {
-    return 1;
-  }
-  // Use oracle price for non-USDC collateral (e.g., stNIBI)
-  const oraclePrice = oraclePriceMap.get(collateralTokenSymbol);
-  if (oraclePrice) return oraclePrice;
-  // Fallback to collateralPrice from tradeHistory if available
-  if (fallbackCollateralPrice && fallbackCollateralPrice > 0) return fallbackCollateralPrice;
-  return 1;
+function isClosedWithin(trade: Trade, { closedFrom, closedTo }: CloseWindow): boolean {
+  if (closedFrom === null && closedTo === null) return true;
+  if (!trade.closeTimestamp) return false;
+  const closedAt = new Date(trade.closeTimestamp).getTime();
+  return (closedFrom === null || closedAt >= closedFrom) && (closedTo === null || closedAt < closedTo);
 }
 
-// GraphQL query for global protocol stats - using borrowings for open interest
-const GLOBAL_STATS_QUERY = `
-  query GetGlobalStats {
-    perp {
-      borrowings {
-        marketId
-        baseToken {
-          symbol
-        }
-        collateralToken {
-          symbol
-        }
-        oiLong
-        oiShort
-        oiMax
-        price
-      }
-    }
-    lp {
-      vaults {
-        tvl
-        availableAssets
-        apy
-        collateralToken {
-          symbol
-        }
-      }
-    }
-    oracle {
-      tokenPricesUsd {
-        token {
-          symbol
-        }
-        priceUsd
-      }
-    }
-  }
-`;
-
-// GraphQL query for user vault deposit history
-const VAULT_POSITIONS_QUERY = `
-  query GetVaultPositions($depositor: String!) {
-    lp {
-      depositHistory(
-        where: { depositor: $depositor }
-        limit: 100
-      ) {
-        id
-        action
-        depositor
-        amount
-        shares
-        collateralPrice
-        block {
-          block
-          block_ts
-        }
-        txHash
-        evmTxHash
-        vault {
-          availableAssets
-          apy
-          collateralToken {
-            symbol
-          }
-        }
-      }
-      vaults {
-        availableAssets
-        apy
-        collateralToken {
-          symbol
-        }
-      }
-    }
-  }
-`;
-
-// GraphQL query for trade history (for realized P&L on closed trades)
-const TRADE_HISTORY_QUERY = `
-  query GetTradeHistory($trader: String!, $limit: Int, $offset: Int) {
-    perp {
-      tradeHistory(
-        where: { trader: $trader }
-        limit: $limit
-        offset: $offset
-        order_by: sequence
-        order_desc: true
-      ) {
-        id
-        tradeChangeType
-        evmTxHash
-        collateralPrice
-        block {
-          block
-          block_ts
-        }
-        trade {
-          id
-          isLong
-          leverage
-          openPrice
-          closePrice
-        }
-        realizedPnlCollateral
-        realizedPnlPct
-      }
-    }
-  }
-`;
-
-// GraphQL query for fee transactions
-const FEE_TRANSACTIONS_QUERY = `
-  query GetFeeTransactions($trader: String!, $limit: Int) {
-    fee {
-      feeTransactions(
-        filter: { traderAddress: $trader }
-        limit: $limit
-      ) {
-        id
-        tradeId
-        feeType
-        totalFeeCharged
-        govFee
-        vaultFee
-        referrerAllocation
-        triggerFee
-        blockTime
-      }
-    }
-  }
-`;
-
-// GraphQL query for all trade history (global volume calculation)
-const ALL_TRADE_HISTORY_QUERY = `
-  query GetAllTradeHistory($limit: Int, $offset: Int) {
-    perp {
-      tradeHistory(
-        limit: $limit
-        offset: $offset
-        order_by: sequence
-        order_desc: true
-      ) {
-        id
-        tradeChangeType
-        collateralPrice
-        trade {
-          id
-          collateralAmount
-          openCollateralAmount
-          leverage
-          perpBorrowing {
-            collateralToken {
-              symbol
-            }
-          }
-        }
-      }
-    }
-  }
-`;
-
-// In-memory cache for global trading volume
-interface VolumeCache {
-  mainnet: {
-    totalVolume: number;
-    tradeCount: number;
-    lastUpdated: string | null;
-  };
-  testnet: {
-    totalVolume: number;
-    tradeCount: number;
-    lastUpdated: string | null;
-  };
+// Cursors are opaque base64url tokens that point at the last trade of the previous page (in the requested sort order)
+function encodeTradeCursor(cursor: TradeCursor): string {
+  const fields = cursor.value === undefined ? [cursor.timestamp, cursor.txHash] : [cursor.timestamp, cursor.txHash, cursor.value];
+  return Buffer.from(JSON.stringify(fields)).toString("base64url");
 }
 
-const volumeCache: VolumeCache = {
-  mainnet: { totalVolume: 0, tradeCount: 0, lastUpdated: null },
-  testnet: { totalVolume: 0, tradeCount: 0, lastUpdated: null },
-};
-
-// Fetch all trade history and calculate total volume
-async function fetchGlobalVolume(network: "mainnet" | "testnet"): Promise<void> {
-  const config = NETWORKS[network];
-  let totalVolume = 0;
-  let tradeCount = 0;
-  let offset = 0;
-  const batchSize = 100;
-  
-  console.log(`[Volume] Starting global volume fetch for ${network}...`);
-  
+function decodeTradeCursor(token: string): TradeCursor | null {
   try {
-    // Fetch oracle prices for collateral token USD conversion
-    const marketsResult = await graphqlQuery<MarketsQueryResult>(config.graphql, MARKETS_QUERY, {});
-    const oraclePriceMap = buildOraclePriceMap(marketsResult.oracle?.tokenPricesUsd);
-    
-    while (true) {
-      const response = await fetch(config.graphql, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          query: ALL_TRADE_HISTORY_QUERY,
-          variables: { limit: batchSize, offset },
-        }),
-      });
-      
-      const result: GraphQLResponse<{ perp: { tradeHistory: Array<{ 
-        id: number; 
-        tradeChangeType: string;
-        collateralPrice: number | null;
-        trade: { 
-          id: number; 
-          collateralAmount: number; 
-          openCollateralAmount: number; 
-          leverage: number;
-          perpBorrowing?: { collateralToken?: { symbol: string } } | null;
-        } | null 
-      }> } }> = await response.json();
-      
-      if (result.errors || !result.data?.perp?.tradeHistory) {
-        console.error(`[Volume] Error fetching trade history for ${network}:`, result.errors);
-        return;
-      }
-      
-      const historyItems = result.data.perp.tradeHistory;
-      if (historyItems.length === 0) break;
-      
-      for (const item of historyItems) {
-        // Count position_opened and order_triggered events (matches sai-explorer methodology)
-        const isVolumeEvent = item.tradeChangeType === "position_opened" || item.tradeChangeType === "order_triggered";
-        if (item.trade && isVolumeEvent) {
-          // Volume = |collateral * leverage / 1e6 * collateralPrice| (convert to USD)
-          const collateral = item.trade.collateralAmount;
-          const collateralTokenSymbol = item.trade.perpBorrowing?.collateralToken?.symbol;
-          const priceMultiplier = getCollateralPriceMultiplier(
-            collateralTokenSymbol, oraclePriceMap, item.collateralPrice
-          );
-          const positionSize = Math.abs((collateral * item.trade.leverage) / 1e6) * priceMultiplier;
-          totalVolume += positionSize;
-          tradeCount++;
-        }
-      }
-      
-      offset += batchSize;
-      
-      // Safety limit - don't fetch more than 100k history entries
-      if (offset >= 100000) {
-        console.log(`[Volume] Reached safety limit of 100k entries for ${network}`);
-        break;
-      }
+    const [timestamp, txHash, ...rest] = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (typeof timestamp !== "string" || typeof txHash !== "string" || isNaN(new Date(timestamp).getTime())) {
+      return null;
     }
-    
-    volumeCache[network] = {
-      totalVolume,
-      tradeCount,
-      lastUpdated: new Date().toISOString(),
-    };
-    
-    console.log(`[Volume] ${network} volume updated: $${totalVolume.toLocaleString()} from ${tradeCount} trades`);
-  } catch (error) {
-    console.error(`[Volume] Failed to fetch global volume for ${network}:`, error);
+    if (rest.length === 0) return { timestamp, txHash };
+    const [value] = rest;
+    if (value !== null && typeof value !== "string" && typeof value !== "number") return null;
+    return { timestamp, txHash, value };
+  } catch (e) {
+    return null;
   }
 }
 
-// Initialize volume cache on startup and set up 8-hour refresh
-async function initializeVolumeCache(): Promise<void> {
-  console.log("[Volume] Initializing volume cache...");
-  await Promise.all([
-    fetchGlobalVolume("mainnet"),
-    fetchGlobalVolume("testnet"),
-  ]);
-  
-  // Refresh every 8 hours (8 * 60 * 60 * 1000 = 28800000 ms)
-  setInterval(() => {
-    console.log("[Volume] Running scheduled 8-hour refresh...");
-    fetchGlobalVolume("mainnet");
-    fetchGlobalVolume("testnet");
-  }, 8 * 60 * 60 * 1000);
-}
-
-interface GraphQLResponse<T> {
-  data?: T;
-  errors?: Array<{ message: string }>;
-}
-
-interface PerpTrade {
-  id: number;
-  trader: string;
-  isOpen: boolean;
-  isLong: boolean;
-  tradeType: string;
-  leverage: number;
-  collateralAmount: number;
-  openCollateralAmount: number;
-  openPrice: number;
-  closePrice: number | null;
-  sl: number | null;
-  tp: number | null;
-  perpBorrowing: {
-    marketId: number;
-    collateralToken?: {
-      symbol: string;
-    };
-  } | null;
-  openBlock: {
-    block: number;
-    block_ts: string;
-  } | null;
-  closeBlock: {
-    block: number;
-    block_ts: string;
-  } | null;
-  state: {
-    pnlCollateral: number;
-    pnlPct: number;
-    pnlCollateralAfterFees: number;
-    positionValue: number;
-    liquidationPrice: number;
-    borrowingFeeCollateral: number;
-    borrowingFeePct: number;
-    closingFeeCollateral: number;
-    closingFeePct: number;
-    remainingCollateralAfterFees: number;
-  } | null;
-}
-
-interface TradeHistoryItem {
-  id: number;
-  tradeChangeType: string;
-  evmTxHash: string | null;
-  collateralPrice: number | null;
-  block: {
-    block: number;
-    block_ts: string;
-  };
-  trade: {
-    id: number;
-    isLong: boolean;
-    leverage: number;
-    openPrice: number;
-    closePrice: number | null;
-  };
-  realizedPnlCollateral: number | null;
-  realizedPnlPct: number | null;
-}
-
-// Interface for RPC transaction receipt
-interface TransactionReceipt {
-  logs: Array<{
-    data: string;
-    topics: string[];
-  }>;
-}
-
-// Fee data extracted from transaction receipt
-interface ExtractedFees {
-  openingFee: number;
-  closingFee: number;
-  openingTriggerFee: number;
-  closingTriggerFee: number;
-}
-
-// Extract fee data from transaction receipt logs
-function extractFeesFromReceipt(receipt: TransactionReceipt): ExtractedFees {
-  let openingFee = 0;
-  let closingFee = 0;
-  let openingTriggerFee = 0;
-  let closingTriggerFee = 0;
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express
+): Promise<Server> {
   
-  for (const log of receipt.logs) {
-    try {
-      const dataHex = log.data.slice(2);
-      if (dataHex.length <= 128) continue;
-      
-      const contentHex = dataHex.slice(128);
-      const decoded = Buffer.from(contentHex, 'hex').toString('utf8').replace(/\x00/g, '');
-      const json = JSON.parse(decoded);
-      
-      if (json.eventType === 'wasm-sai/perp/process_opening_fees') {
-        openingFee = Number(json.total_fee_charged || 0) / 1e6;
-        openingTriggerFee = Number(json.trigger_fee_component || 0) / 1e6;
-      } else if (json.eventType === 'wasm-sai/perp/process_closing_fees') {
-        closingFee = Number(json.final_closing_fee || 0) / 1e6;
-        closingTriggerFee = Number(json.final_trigger_fee || 0) / 1e6;
-      }
-    } catch (e) {
-      // Skip invalid logs
-    }
+  // Offline development: fixture-backed Keeper and RPC for the "mock" network
+  if (mockKeeperEnabled) {
+    registerMockKeeper(app);
   }
   
-  return { openingFee, closingFee, openingTriggerFee, closingTriggerFee };
-}
+  // Resume persisted global volume accumulation
+  startVolumeSync(httpServer);
 
-// Fee data structure for a trade
-interface TradeFees {
-  openingFee: number;
-  closingFee: number;
-  triggerFee: number;
-}
+  // Push open position updates to subscribed clients
+  // Upgrade requests bypass Express, so the client address is resolved with the app's trusted proxies here
+  registerLivePositions(httpServer, (req) => proxyaddr(req, app.get("trust proxy fn")));
 
-// Fetch fees from RPC for a list of transaction hashes
-async function fetchFeesFromRpc(
-  rpcUrl: string, 
-  txHashes: { tradeId: number; evmTxHash: string; isOpening: boolean }[]
-): Promise<Map<number, TradeFees>> {
-  const feeMap = new Map<number, TradeFees>();
+  // Check alert subscriptions and deliver their webhooks
+  startAlertEngine(httpServer);
   
-  // Filter out null hashes and deduplicate
-  const validTxs = txHashes.filter(tx => tx.evmTxHash);
+  // Networks the client can switch between
+  app.get("/api/networks", (_req, res) => {
+    res.json(getNetworksResponse());
+  });
   
-  // Fetch receipts in parallel (batch of 10 at a time to avoid overwhelming the RPC)
-  const batchSize = 10;
-  for (let i = 0; i < validTxs.length; i += batchSize) {
-    const batch = validTxs.slice(i, i + batchSize);
-    
-    const receipts = await Promise.all(
-      batch.map(async (tx) => {
-        try {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 10000);
-          const response = await fetch(rpcUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              jsonrpc: '2.0',
-              method: 'eth_getTransactionReceipt',
-              params: [tx.evmTxHash],
-              id: 1
-            }),
-            signal: controller.signal
-          });
-          clearTimeout(timeoutId);
-          const result = await response.json() as { result?: TransactionReceipt };
-          if (result.result) {
-            const fees = extractFeesFromReceipt(result.result);
-            return { tradeId: tx.tradeId, isOpening: tx.isOpening, ...fees };
-          }
-        } catch (e) {
-          console.log(`Failed to fetch receipt for ${tx.evmTxHash}:`, e);
-        }
-        return null;
-      })
-    );
+  // API endpoint for global trading volume
+  app.get("/api/protocol-stats/volume", async (req, res) => {
+    const networkConfig = resolveNetwork(req.query.network);
+    if (!networkConfig) {
+      return res.status(400).json({ error: unknownNetworkError() });
+    }
+    const network = networkConfig.id;
+    const valuation = resolveValuationPolicy(req.query.valuation);
+    if (!valuation) {
+      return res.status(400).json({ error: INVALID_VALUATION_ERROR });
+    }
     
-    // Aggregate fees by trade ID
-    for (const receipt of receipts) {
-      if (!receipt) continue;
-      
-      const existing = feeMap.get(receipt.tradeId) || { openingFee: 0, closingFee: 0, triggerFee: 0 };
-      if (receipt.isOpening) {
-        existing.openingFee = receipt.openingFee;
-        existing.triggerFee += receipt.openingTriggerFee;
-      } else {
-        existing.closingFee = receipt.closingFee;
-        existing.triggerFee += receipt.closingTriggerFee;
-      }
-      feeMap.set(receipt.tradeId, existing);
+    try {
+      const volume = await getGlobalVolume(network, networkConfig.graphql, valuation);
+      res.json({ ...volume, network });
+    } catch (error) {
+      console.error("Error reading global volume:", error);
+      res.status(500).json({ error: "Failed to read global volume" });
     }
-  }
-  
-  return feeMap;
-}
-
-interface TradesQueryResult {
-  perp: {
-    trades: PerpTrade[];
-  };
-}
-
-interface TradeHistoryQueryResult {
-  perp: {
-    tradeHistory: TradeHistoryItem[];
-  };
-}
-
-interface FeeTransaction {
-  id: string;
-  tradeId: number;
-  feeType: "OPENING" | "CLOSING";
-  totalFeeCharged: number;
-  govFee: number;
-  vaultFee: number;
-  referrerAllocation: number;
-  triggerFee: number;
-  blockTime: string;
-}
-
-interface FeeTransactionsQueryResult {
-  fee: {
-    feeTransactions: FeeTransaction[];
-  };
-}
-
-async function graphqlQuery<T>(endpoint: string, query: string, variables: Record<string, any>): Promise<T> {
-  const response = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ query, variables }),
   });
   
-  const result: GraphQLResponse<T> = await response.json();
-  
-  if (result.errors && result.errors.length > 0) {
-    throw new Error(result.errors.map(e => e.message).join(", "));
-  }
-  
-  if (!result.data) {
-    throw new Error("No data returned from GraphQL query");
-  }
-  
-  return result.data;
-}
-
-// Convert GraphQL trade data to our Trade type
-function convertTrade(
-  perpTrade: PerpTrade, 
-  pnlMap: Map<number, { pnlPct: number; pnlAmount: number; collateralPrice: number }>, 
-  feeMap: Map<number, TradeFees>, 
-  symbolMap: Map<number, string>,
-  oraclePriceMap: Map<string, number>
-): Trade {
-  const isOpen = perpTrade.isOpen;
-  const timestamp = isOpen 
-    ? (perpTrade.openBlock?.block_ts || new Date().toISOString())
-    : (perpTrade.closeBlock?.block_ts || perpTrade.openBlock?.block_ts || new Date().toISOString());
-  
-  // Get market symbol directly from perpBorrowing
-  const marketId = perpTrade.perpBorrowing?.marketId;
-  const pair = marketId !== undefined ? (symbolMap.get(marketId) || "Unknown") : "Unknown";
-  
-  // Determine collateral token and USD price multiplier
-  const collateralTokenSymbol = perpTrade.perpBorrowing?.collateralToken?.symbol;
-  const pnlData = pnlMap.get(perpTrade.id);
-  const collateralPriceMultiplier = getCollateralPriceMultiplier(
-    collateralTokenSymbol, oraclePriceMap, pnlData?.collateralPrice
-  );
-  
-  const trade: Trade = {
-    txHash: `trade-${perpTrade.id}`,
-    timestamp,
-    type: isOpen ? "open" : "close",
-    pair,
-    direction: perpTrade.isLong ? "long" : "short",
-    leverage: perpTrade.leverage,
-    collateral: (perpTrade.openCollateralAmount / 1e6) * collateralPriceMultiplier,
-    openPrice: perpTrade.openPrice,
-    tradeIndex: String(perpTrade.id),
-    openTimestamp: perpTrade.openBlock?.block_ts,
-    closeTimestamp: perpTrade.closeBlock?.block_ts,
-    collateralToken: collateralTokenSymbol,
-  };
-  
-  // Get fees from feeMap (RPC-based) - convert to USD
-  const fees = feeMap.get(perpTrade.id);
-  if (fees) {
-    trade.openingFee = fees.openingFee * collateralPriceMultiplier;
-    trade.closingFee = fees.closingFee * collateralPriceMultiplier;
-    trade.triggerFee = fees.triggerFee * collateralPriceMultiplier;
-    trade.totalFees = (fees.openingFee + fees.closingFee + fees.triggerFee) * collateralPriceMultiplier;
-  }
-  
-  // Get borrowing fee from GraphQL state - convert to USD
-  if (perpTrade.state) {
-    trade.borrowingFee = (perpTrade.state.borrowingFeeCollateral / 1e6) * collateralPriceMultiplier;
-    if (trade.totalFees !== undefined) {
-      trade.totalFees += trade.borrowingFee;
-    } else {
-      trade.totalFees = trade.borrowingFee;
+  // API endpoint for volume bucketed by day/week/month, market and collateral token
+  app.get("/api/protocol-stats/volume/history", async (req, res) => {
+    const parsed = volumeHistoryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid query" });
     }
-  }
-  
-  if (!isOpen) {
-    trade.closePrice = perpTrade.closePrice || undefined;
-    if (perpTrade.state) {
-      trade.profitPct = perpTrade.state.pnlPct;
-      trade.pnlAmount = (perpTrade.state.pnlCollateralAfterFees / 1e6) * collateralPriceMultiplier;
-    } else {
-      if (pnlData) {
-        trade.profitPct = pnlData.pnlPct;
-        trade.pnlAmount = pnlData.pnlAmount * collateralPriceMultiplier;
-      }
+    const { from, to, granularity } = parsed.data;
+    const networkConfig = resolveNetwork(parsed.data.network);
+    if (!networkConfig) {
+      return res.status(400).json({ error: unknownNetworkError() });
     }
-    if (trade.collateral !== undefined && trade.pnlAmount !== undefined) {
-      trade.amountReceived = trade.collateral + trade.pnlAmount;
+    const network = networkConfig.id;
+    if (from && to && from > to) {
+      return res.status(400).json({ error: "'from' must not be after 'to'" });
     }
-  }
-  
-  return trade;
-}
-
-// Convert trade history item to our Trade type (for closed trades with realized P&L)
-function convertTradeHistoryItem(
-  item: TradeHistoryItem, 
-  tradesMap: Map<number, PerpTrade>,
-  symbolMap: Map<number, string>,
-  oraclePriceMap: Map<string, number>
-): Trade | null {
-  const closeTypes = ["position_closed_user", "position_closed_sl", "position_closed_tp", "position_liquidated"];
-  if (!closeTypes.includes(item.tradeChangeType)) {
-    return null;
-  }
-  
-  const perpTrade = tradesMap.get(item.trade.id);
-  const marketId = perpTrade?.perpBorrowing?.marketId;
-  const pair = marketId !== undefined ? (symbolMap.get(marketId) || "Unknown") : "Unknown";
-  
-  // Determine collateral token and USD multiplier
-  const collateralTokenSymbol = perpTrade?.perpBorrowing?.collateralToken?.symbol;
-  const collateralPriceMultiplier = getCollateralPriceMultiplier(
-    collateralTokenSymbol, oraclePriceMap, item.collateralPrice
-  );
-  
-  // Get collateral from the perpTrade if available
-  const rawCollateral = perpTrade 
-    ? (perpTrade.openCollateralAmount || perpTrade.collateralAmount) / 1e6 
-    : undefined;
-  
-  const result: Trade = {
-    txHash: `history-${item.id}`,
-    timestamp: item.block.block_ts,
-    type: "close",
-    pair,
-    direction: item.trade.isLong ? "long" : "short",
-    leverage: item.trade.leverage,
-    collateral: rawCollateral !== undefined ? rawCollateral * collateralPriceMultiplier : undefined,
-    openPrice: item.trade.openPrice,
-    closePrice: item.trade.closePrice || undefined,
-    tradeIndex: String(item.trade.id),
-    collateralToken: collateralTokenSymbol,
-  };
-  
-  if (item.realizedPnlPct !== null) {
-    result.profitPct = item.realizedPnlPct;
-  }
-  if (item.realizedPnlCollateral !== null) {
-    result.pnlAmount = (item.realizedPnlCollateral / 1e6) * collateralPriceMultiplier;
-  }
-  if (result.collateral !== undefined && result.pnlAmount !== undefined) {
-    result.amountReceived = result.collateral + result.pnlAmount;
-  }
-  
-  return result;
-}
-
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express
-): Promise<Server> {
-  
-  // Initialize volume cache on startup
-  initializeVolumeCache();
-  
-  // API endpoint for global trading volume
-  app.get("/api/protocol-stats/volume", (req, res) => {
-    const network = (req.query.network as string) || "mainnet";
     
-    if (network !== "mainnet" && network !== "testnet") {
-      return res.status(400).json({ error: "Invalid network. Use 'mainnet' or 'testnet'" });
+    try {
+      const policy = parsed.data.valuation ?? DEFAULT_VALUATION_POLICY;
+      res.json(await getVolumeHistory(network, networkConfig.graphql, { from, to, granularity, policy }));
+    } catch (error) {
+      console.error("Error reading volume history:", error);
+      res.status(500).json({ error: "Failed to read volume history" });
     }
-    
-    const cache = volumeCache[network];
-    
-    res.json({
-      totalVolume: cache.totalVolume,
-      tradeCount: cache.tradeCount,
-      lastUpdated: cache.lastUpdated,
-      network,
-    });
   });
   
   app.get("/api/trades", async (req, res) => {
     const address = req.query.address as string;
-    const network = (req.query.network as string) || "mainnet";
-    const limit = parseInt(req.query.limit as string) || 100;
-    const offset = parseInt(req.query.offset as string) || 0;
-    
-    if (!address) {
-      return res.status(400).json({ error: "Address is required" });
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    // Validate pagination cursor (opaque token from a previous response)
+    let cursor: TradeCursor | null = null;
+    if (req.query.cursor) {
+      cursor = decodeTradeCursor(req.query.cursor as string);
+      if (!cursor) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
     }
 
-    // Validate address format (0x EVM address)
-    if (!/^0x[a-fA-F0-9]{40}$/i.test(address)) {
-      return res.status(400).json({ error: "Invalid EVM address format" });
+    const closeWindow = parseCloseWindow(req.query);
+    if (!closeWindow) {
+      return res.status(400).json({ error: "closedFrom and closedTo must be ISO timestamps" });
+    }
+    const valuation = resolveValuationPolicy(req.query.valuation);
+    if (!valuation) {
+      return res.status(400).json({ error: INVALID_VALUATION_ERROR });
     }
+    const parsedFilters = tradeFiltersSchema.safeParse(req.query);
+    if (!parsedFilters.success) {
+      return res.status(400).json({ error: parsedFilters.error.errors[0]?.message ?? "Invalid filters" });
+    }
+    const filters = parsedFilters.data;
 
     // Validate network
-    if (network !== "mainnet" && network !== "testnet") {
-      return res.status(400).json({ error: "Invalid network. Use 'mainnet' or 'testnet'" });
+    const networkConfig = resolveNetwork(req.query.network);
+    if (!networkConfig) {
+      return res.status(400).json({ error: unknownNetworkError() });
     }
-
-    const networkConfig = NETWORKS[network as keyof typeof NETWORKS];
+    const network = networkConfig.id;
     
-    // Convert EVM address to Nibiru bech32 format
-    const nibiAddress = evmToBech32(address);
-    console.log(`Converting ${address} to ${nibiAddress}`);
+    // Accept one address or a portfolio of them, each as 0x EVM or bech32 (nibi1...)
+    const walletQuery = resolveWalletQuery(address, req.query.wallet, networkConfig.bech32Prefix);
+    if (!walletQuery.ok) {
+      return res.status(400).json({ error: walletQuery.error });
+    }
+    const { wallets, selected } = walletQuery;
+    console.log(`Converting ${address} to ${wallets.map(w => w.bech32).join(", ")}`);
 
     try {
-      // Fetch trades, trade history, and markets from Sai Keeper GraphQL API
-      // Markets are fetched separately to avoid API failures when perpBorrowing is broken
-      const [tradesResult, historyResult, marketsResult] = await Promise.all([
-        graphqlQuery<TradesQueryResult>(networkConfig.graphql, TRADES_QUERY, {
-          trader: nibiAddress,
-          limit,
-          offset,
-        }),
-        graphqlQuery<TradeHistoryQueryResult>(networkConfig.graphql, TRADE_HISTORY_QUERY, {
-          trader: nibiAddress,
-          limit: limit * 2,
-          offset,
-        }),
-        graphqlQuery<MarketsQueryResult>(networkConfig.graphql, MARKETS_QUERY, {}),
-      ]);
-      
-      const markets = marketsResult.perp.borrowings;
-      
-      // Build marketId → symbol mapping from borrowings data
-      const symbolMap = buildMarketIdToSymbolMap(markets);
-      
-      // Build oracle price map for collateral token USD conversion
-      const oraclePriceMap = buildOraclePriceMap(marketsResult.oracle?.tokenPricesUsd);
-      
-      // Collect transaction hashes for RPC fee extraction
-      const txHashesForFees: { tradeId: number; evmTxHash: string; isOpening: boolean }[] = [];
-      const openingTypes = ["position_opened"];
-      const closingTypes = ["position_closed_user", "position_closed_sl", "position_closed_tp", "position_liquidated"];
-      
-      for (const historyItem of historyResult.perp.tradeHistory) {
-        if (historyItem.evmTxHash) {
-          if (openingTypes.includes(historyItem.tradeChangeType)) {
-            txHashesForFees.push({
-              tradeId: historyItem.trade.id,
-              evmTxHash: historyItem.evmTxHash,
-              isOpening: true
-            });
-          } else if (closingTypes.includes(historyItem.tradeChangeType)) {
-            txHashesForFees.push({
-              tradeId: historyItem.trade.id,
-              evmTxHash: historyItem.evmTxHash,
-              isOpening: false
-            });
-          }
-        }
-      }
-      
-      // Fetch fees from RPC in parallel
+      // Index any new trades and trade history for every wallet, then convert the stored history
+      const { storedHistory, buildTrades, oraclePriceMap } = await loadIndexedTrades(networkConfig, wallets, valuation);
+      
+      // The wallet filter and the trade filters narrow the page and summary; the per-wallet breakdown always covers
+      // the whole portfolio
+      const selectedWallets = new Set(selected.map(w => w.evm));
+      const isSelected = (trade: Trade) => trade.wallet !== undefined && selectedWallets.has(trade.wallet);
+      const isFiltered = (trade: Trade) => isSelected(trade) && matchesTradeFilters(trade, filters);
+      // The close-time window only narrows the listed trades; summary stats still cover every filtered trade
+      const isListed = (trade: Trade) => isFiltered(trade) && isClosedWithin(trade, closeWindow);
+
+      // Sorting by fees needs every trade's fees, so that order comes from cached receipts and Keeper fee
+      // transactions; the RPC is only asked for the page
+      const feeTransactions = (await Promise.all(selected.map(w => storage.getFeeTransactions(network, w.bech32)))).flat();
+      const sortFeeMap = filters.sort === "fees"
+        ? await getCachedTradeFees(network, buildFeeTxRefs(storedHistory), feeTransactions)
+        : new Map<number, TradeFees>();
+      const selectedTrades = buildTrades(sortFeeMap).filter(isSelected);
+      const compare = compareTrades(filters.sort, filters.order);
+      const allTrades = selectedTrades
+        .filter(isListed)
+        .map(trade => ({ trade, cursor: toTradeCursor(trade, filters.sort) }))
+        .sort((a, b) => compare(a.cursor, b.cursor));
+      const startIndex = cursor ? allTrades.findIndex(t => compare(t.cursor, cursor) > 0) : 0;
+      const pageStart = startIndex === -1 ? allTrades.length : startIndex;
+      const pageEntries = allTrades.slice(pageStart, pageStart + limit);
+      const pageTradeIds = new Set(pageEntries.map(t => Number(t.trade.tradeIndex)));
+      
+      // Collect transaction hashes for RPC fee extraction (only for trades on the requested page)
+      const txHashesForFees = buildFeeTxRefs(storedHistory, pageTradeIds);
+      
+      // Fetch fees from RPC receipts, and fill pruned receipts from the indexed Keeper feeTransactions
       console.log(`Fetching fees for ${txHashesForFees.length} transactions from RPC...`);
-      const feeMap = await fetchFeesFromRpc(networkConfig.rpc, txHashesForFees);
-      console.log(`Got fees for ${feeMap.size} trades`);
-      
-      // Build a map of trade ID to realized P&L from trade history (includes collateralPrice for USD conversion)
-      const pnlMap = new Map<number, { pnlPct: number; pnlAmount: number; collateralPrice: number }>();
-      const closeTypes = ["position_closed_user", "position_closed_sl", "position_closed_tp", "position_liquidated"];
-      for (const historyItem of historyResult.perp.tradeHistory) {
-        if (closeTypes.includes(historyItem.tradeChangeType) && historyItem.realizedPnlPct !== null) {
-          pnlMap.set(historyItem.trade.id, {
-            pnlPct: historyItem.realizedPnlPct,
-            pnlAmount: (historyItem.realizedPnlCollateral || 0) / 1e6,
-            collateralPrice: historyItem.collateralPrice || 1,
-          });
-        }
-      }
-      
-      // Build a map of trade ID to PerpTrade for lookups
-      const perpTradesMap = new Map<number, PerpTrade>();
-      for (const perpTrade of tradesResult.perp.trades) {
-        perpTradesMap.set(perpTrade.id, perpTrade);
-      }
-      
-      // Convert trades
-      const trades: Trade[] = [];
-      const seenTradeIds = new Set<number>();
-      
-      // First, add trades from the trades query (includes open positions)
-      for (const perpTrade of tradesResult.perp.trades) {
-        const trade = convertTrade(perpTrade, pnlMap, feeMap, symbolMap, oraclePriceMap);
-        trades.push(trade);
-        seenTradeIds.add(perpTrade.id);
-      }
-      
-      // Add closed trades from history that might not be in the trades list
-      for (const historyItem of historyResult.perp.tradeHistory) {
-        if (!seenTradeIds.has(historyItem.trade.id)) {
-          const trade = convertTradeHistoryItem(historyItem, perpTradesMap, symbolMap, oraclePriceMap);
-          if (trade) {
-            trades.push(trade);
-            seenTradeIds.add(historyItem.trade.id);
-          }
-        }
-      }
-      
-      // Sort by timestamp descending
-      trades.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-      
-      // Calculate stats for closed trades only
-      const closeTrades = trades.filter(t => t.type === "close" && t.profitPct !== undefined);
-      const wins = closeTrades.filter(t => (t.profitPct ?? 0) > 0).length;
-      const winRate = closeTrades.length > 0 ? wins / closeTrades.length : 0;
-      const totalPnl = closeTrades.reduce((sum, t) => sum + (t.profitPct ?? 0), 0);
+      const receiptFeeMap = await fetchFeesFromRpc(network, networkConfig.rpc, txHashesForFees);
+      const feeMap = reconcileFeeMaps(receiptFeeMap, buildKeeperFeeMap(feeTransactions), pageTradeIds);
+      console.log(`Got fees for ${feeMap.size} trades (${receiptFeeMap.size} from receipts)`);
+      
+      const portfolioTrades = buildTrades(feeMap);
+      const trades = portfolioTrades.filter(isFiltered);
+      // Keep the page in sort order even if a receipt changed a trade's fees
+      const tradesById = new Map(trades.map(t => [t.tradeIndex, t]));
+      const pageTrades = pageEntries.map(({ trade }) => tradesById.get(trade.tradeIndex) ?? trade);
+      const hasMore = pageStart + limit < allTrades.length;
+      const lastEntry = pageEntries[pageEntries.length - 1];
+      
+      // Calculate stats for closed trades only - over every filtered trade, not just this page
+      const summary = summarizeTrades(trades);
+      const winRate = summary.closedTrades > 0 ? summary.wins / summary.closedTrades : 0;
+      const totalPnl = summary.totalPnlAmount;
 
       const response: TradesResponse = {
         address,
-        trades,
+        trades: pageTrades,
         totalPnl,
         winRate,
         totalTrades: trades.length,
         explorer: networkConfig.explorer,
+        summary,
+        wallets: summarizeTradesByWallet(wallets, portfolioTrades),
+        nibiPrices: buildNibiPrices(oraclePriceMap),
+        filterOptions: buildTradeFilterOptions(selectedTrades),
+        pagination: {
+          limit,
+          nextCursor: hasMore && lastEntry ? encodeTradeCursor(lastEntry.cursor) : null,
+          hasMore,
+          totalCount: allTrades.length,
+        },
       };
 
       res.json(response);
@@ -998,103 +298,236 @@ export async function registerRoutes(
     }
   });
 
-  // Open positions endpoint
-  app.get("/api/positions", async (req, res) => {
+  // Download every listed trade with fees as CSV or JSON; takes the same filters and sort as /api/trades plus `type`
+  app.get("/api/trades/export", async (req, res) => {
+    const address = req.query.address as string;
+    const format = req.query.format ?? "csv";
+    if (format !== "csv" && format !== "json") {
+      return res.status(400).json({ error: "format must be csv or json" });
+    }
+    const type = req.query.type;
+    if (type !== undefined && type !== "open" && type !== "close") {
+      return res.status(400).json({ error: "type must be open or close" });
+    }
+    const closeWindow = parseCloseWindow(req.query);
+    if (!closeWindow) {
+      return res.status(400).json({ error: "closedFrom and closedTo must be ISO timestamps" });
+    }
+    const valuation = resolveValuationPolicy(req.query.valuation);
+    if (!valuation) {
+      return res.status(400).json({ error: INVALID_VALUATION_ERROR });
+    }
+    const parsedFilters = tradeFiltersSchema.safeParse(req.query);
+    if (!parsedFilters.success) {
+      return res.status(400).json({ error: parsedFilters.error.errors[0]?.message ?? "Invalid filters" });
+    }
+    const filters = parsedFilters.data;
+
+    const networkConfig = resolveNetwork(req.query.network);
+    if (!networkConfig) {
+      return res.status(400).json({ error: unknownNetworkError() });
+    }
+    const network = networkConfig.id;
+
+    const walletQuery = resolveWalletQuery(address, req.query.wallet, networkConfig.bech32Prefix);
+    if (!walletQuery.ok) {
+      return res.status(400).json({ error: walletQuery.error });
+    }
+    const { wallets, selected } = walletQuery;
+
     try {
-      const address = req.query.address as string;
-      const network = (req.query.network as string) || "mainnet";
-      
-      if (!address) {
-        return res.status(400).json({ error: "Address is required" });
-      }
+      const { buildTrades, storedHistory } = await loadIndexedTrades(networkConfig, wallets, valuation);
+      const selectedWallets = new Set(selected.map(w => w.evm));
+      const feeTransactions = (await Promise.all(selected.map(w => storage.getFeeTransactions(network, w.bech32)))).flat();
+      const keeperFeeMap = buildKeeperFeeMap(feeTransactions);
+      // Ordered as on /api/trades
+      const sortFeeMap = filters.sort === "fees"
+        ? await getCachedTradeFees(network, buildFeeTxRefs(storedHistory), feeTransactions)
+        : new Map<number, TradeFees>();
+      const compare = compareTrades(filters.sort, filters.order);
+      const listedTradeIds = buildTrades(sortFeeMap)
+        .filter(t => t.wallet !== undefined && selectedWallets.has(t.wallet))
+        .filter(t => (type === undefined || t.type === type) && isClosedWithin(t, closeWindow) && matchesTradeFilters(t, filters))
+        .sort((a, b) => compare(toTradeCursor(a, filters.sort), toTradeCursor(b, filters.sort)))
+        .map(t => Number(t.tradeIndex));
+      const exportPosition = new Map(listedTradeIds.map((id, index) => [id, index]));
+
+      // Fees are resolved one chunk at a time (receipts from RPC, filled from Keeper fee transactions), in sort order
+      const rpcUrl = networkConfig.rpc;
+      const chunks = async function* () {
+        for (let start = 0; start < listedTradeIds.length; start += EXPORT_CHUNK_SIZE) {
+          const chunkIds = new Set(listedTradeIds.slice(start, start + EXPORT_CHUNK_SIZE));
+          const receiptFeeMap = await fetchFeesFromRpc(network, rpcUrl, buildFeeTxRefs(storedHistory, chunkIds));
+          yield buildTrades(reconcileFeeMaps(receiptFeeMap, keeperFeeMap, chunkIds), chunkIds).sort(
+            (a, b) => exportPosition.get(Number(a.tradeIndex))! - exportPosition.get(Number(b.tradeIndex))!,
+          );
+        }
+      };
 
-      const networkConfig = NETWORKS[network as keyof typeof NETWORKS];
-      if (!networkConfig) {
-        return res.status(400).json({ error: "Invalid network" });
-      }
+      // Errors after this point are handled by the stream, since the headers are already sent
+      const filename = `sai-trades-${network}-${new Date().toISOString().slice(0, 10)}`;
+      await streamTradeExport(
+        res, format, filename, networkConfig.explorer, buildTradeTxHashMap(storedHistory), chunks()
+      );
+    } catch (error) {
+      console.error("Error exporting trades:", error);
+      res.status(500).json({ error: "Failed to export trades" });
+    }
+  });
 
-      // Convert EVM address to bech32
-      const bech32Address = evmToBech32(address);
-      console.log(`Fetching open positions for ${address} (${bech32Address}) on ${network}`);
-
-      // Query open trades and markets in parallel
-      const [tradesResponse, marketsResponse] = await Promise.all([
-        fetch(networkConfig.graphql, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            query: TRADES_QUERY,
-            variables: { trader: bech32Address, limit: 100, offset: 0 },
-          }),
-        }),
-        fetch(networkConfig.graphql, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            query: MARKETS_QUERY,
-            variables: {},
-          }),
-        }),
-      ]);
+  // Trading statistics and the realized equity curve over the entire indexed history (fees are not needed, so no RPC lookups)
+  app.get("/api/trader-stats", async (req, res) => {
+    const address = req.query.address as string;
 
-      const tradesData = await tradesResponse.json() as GraphQLResponse<TradesQueryResult>;
-      const marketsData = await marketsResponse.json() as GraphQLResponse<MarketsQueryResult>;
-      
-      if (tradesData.errors) {
-        console.error("GraphQL errors:", tradesData.errors);
-        return res.status(500).json({ error: "Failed to fetch positions" });
-      }
+    const networkConfig = resolveNetwork(req.query.network);
+    if (!networkConfig) {
+      return res.status(400).json({ error: unknownNetworkError() });
+    }
+    const valuation = resolveValuationPolicy(req.query.valuation);
+    if (!valuation) {
+      return res.status(400).json({ error: INVALID_VALUATION_ERROR });
+    }
 
-      const allTrades = tradesData.data?.perp?.trades || [];
-      const markets = marketsData.data?.perp?.borrowings || [];
-      const openTrades = allTrades.filter(t => t.isOpen);
-      
-      // Build marketId → symbol mapping from borrowings data
-      const symbolMap = buildMarketIdToSymbolMap(markets);
-      
-      // Build oracle price map for collateral token USD conversion
-      const oraclePriceMap = buildOraclePriceMap(marketsData.data?.oracle?.tokenPricesUsd);
+    // Accept one address or a portfolio of them, each as 0x EVM or bech32 (nibi1...)
+    const walletQuery = resolveWalletQuery(address, req.query.wallet, networkConfig.bech32Prefix);
+    if (!walletQuery.ok) {
+      return res.status(400).json({ error: walletQuery.error });
+    }
+    const { wallets, selected } = walletQuery;
 
-      // Convert to OpenPosition format - use perpBorrowing directly from trades
-      const positions: OpenPosition[] = openTrades.map(trade => {
-        const marketId = trade.perpBorrowing?.marketId;
-        const pair = marketId !== undefined ? (symbolMap.get(marketId) || "Unknown") : "Unknown";
-        
-        // Get collateral token and USD multiplier
-        const collateralTokenSymbol = trade.perpBorrowing?.collateralToken?.symbol;
-        const collateralPriceMultiplier = getCollateralPriceMultiplier(collateralTokenSymbol, oraclePriceMap);
-        
-        return {
-          tradeId: trade.id,
-          pair,
-          direction: trade.isLong ? "long" : "short",
-          leverage: trade.leverage,
-          collateral: ((trade.openCollateralAmount || trade.collateralAmount) / 1e6) * collateralPriceMultiplier,
-          entryPrice: trade.openPrice,
-          currentPrice: undefined,
-          stopLoss: trade.sl,
-          takeProfit: trade.tp,
-          liquidationPrice: trade.state?.liquidationPrice,
-          unrealizedPnl: trade.state ? (trade.state.pnlCollateral / 1e6) * collateralPriceMultiplier : undefined,
-          unrealizedPnlPct: trade.state?.pnlPct,
-          positionValue: trade.state ? (trade.state.positionValue / 1e6) * collateralPriceMultiplier : undefined,
-          borrowingFee: trade.state ? (trade.state.borrowingFeeCollateral / 1e6) * collateralPriceMultiplier : undefined,
-          openedAt: trade.openBlock?.block_ts || new Date().toISOString(),
-          collateralToken: collateralTokenSymbol,
-        };
-      });
+    try {
+      const { storedHistory, buildTrades } = await loadIndexedTrades(networkConfig, wallets, valuation);
+      const selectedWallets = new Set(selected.map(w => w.evm));
 
-      // Calculate total unrealized PnL
-      const totalUnrealizedPnl = positions.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0), 0);
+      // Fees for the market breakdown come from what is already indexed, so stats never wait on the RPC
+      const feeTransactions = await Promise.all(selected.map(w => storage.getFeeTransactions(networkConfig.id, w.bech32)));
+      const feeMap = await getCachedTradeFees(networkConfig.id, buildFeeTxRefs(storedHistory), feeTransactions.flat());
+      const trades = buildTrades(feeMap).filter(t => t.wallet !== undefined && selectedWallets.has(t.wallet));
 
-      const response: OpenPositionsResponse = {
+      const response: TraderStatsResponse = {
         address,
-        positions,
-        totalPositions: positions.length,
-        totalUnrealizedPnl,
+        network: networkConfig.id,
+        stats: computeTraderStats(trades),
+        equityCurve: buildEquityCurve(trades),
+        markets: computeMarketBreakdown(trades),
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching trader stats:", error);
+      res.status(500).json({ error: "Failed to fetch trader stats" });
+    }
+  });
+
+  // A single trade with its full event timeline, for auditing its PnL and fees
+  app.get("/api/trade/:id", async (req, res) => {
+    const networkConfig = resolveNetwork(req.query.network);
+    if (!networkConfig) {
+      return res.status(400).json({ error: unknownNetworkError() });
+    }
+    const network = networkConfig.id;
+
+    const tradeId = Number(req.params.id);
+    if (!Number.isInteger(tradeId) || tradeId < 0) {
+      return res.status(400).json({ error: "Trade id must be a non-negative integer" });
+    }
+    const valuation = resolveValuationPolicy(req.query.valuation);
+    if (!valuation) {
+      return res.status(400).json({ error: INVALID_VALUATION_ERROR });
+    }
+
+    try {
+      // Trades are only indexed per trader, so the trader must have been looked up before
+      const owner = await storage.getTradeOwner(network, tradeId);
+      if (!owner) {
+        return res.status(404).json({ error: "Trade not found; search its trader's address first" });
+      }
+      const wallet = { evm: bech32ToEvm(owner, networkConfig.bech32Prefix), bech32: owner };
+
+      const { storedHistory, buildTrades, buildEvents } = await loadIndexedTrades(networkConfig, [wallet], valuation);
+      const [receiptFeeMap, traderFeeTransactions] = await Promise.all([
+        fetchFeesFromRpc(network, networkConfig.rpc, buildFeeTxRefs(storedHistory, new Set([tradeId]))),
+        storage.getFeeTransactions(network, owner),
+      ]);
+      const feeTransactions = traderFeeTransactions.filter(tx => tx.tradeId === tradeId);
+      const feeMap = reconcileFeeMaps(receiptFeeMap, buildKeeperFeeMap(feeTransactions), [tradeId]);
+
+      const trade = buildTrades(feeMap).find(t => t.tradeIndex === String(tradeId));
+      if (!trade) {
+        return res.status(404).json({ error: "Trade not found" });
+      }
+
+      const response: TradeDetailResponse = {
+        network,
+        tradeId,
+        trader: toPortfolioWallet(wallet),
         explorer: networkConfig.explorer,
+        trade,
+        events: buildEvents(tradeId),
+        feeTransactions: feeTransactions.sort((a, b) => a.blockTime.localeCompare(b.blockTime)),
       };
 
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching trade detail:", error);
+      res.status(500).json({ error: "Failed to fetch trade" });
+    }
+  });
+
+  // Realized gain/loss lines of closed trades and vault withdrawals for one tax year, as JSON or a tax-software CSV
+  app.get("/api/tax-report", async (req, res) => {
+    const parsed = taxReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid query" });
+    }
+    const { address, year, timeZone, format } = parsed.data;
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: "Unknown time zone" });
+    }
+
+    const networkConfig = resolveNetwork(parsed.data.network);
+    if (!networkConfig) {
+      return res.status(400).json({ error: unknownNetworkError() });
+    }
+    const walletQuery = resolveWalletQuery(address, parsed.data.wallet, networkConfig.bech32Prefix);
+    if (!walletQuery.ok) {
+      return res.status(400).json({ error: walletQuery.error });
+    }
+
+    try {
+      const report = await loadTaxReport(networkConfig, address, walletQuery.wallets, walletQuery.selected, year, timeZone);
+      if (format === "json") {
+        return res.json(report);
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="sai-tax-${year}-${format}.csv"`);
+      res.send(taxReportToCsv(report, format));
+    } catch (error) {
+      console.error("Error building tax report:", error);
+      res.status(500).json({ error: "Failed to build tax report" });
+    }
+  });
+
+  // Open positions endpoint
+  app.get("/api/positions", async (req, res) => {
+    try {
+      const address = req.query.address as string;
+
+      const networkConfig = resolveNetwork(req.query.network);
+      if (!networkConfig) {
+        return res.status(400).json({ error: unknownNetworkError() });
+      }
+      const network = networkConfig.id;
+
+      // Accept one address or a portfolio of them, each as 0x EVM or bech32 (nibi1...)
+      const walletQuery = resolveWalletQuery(address, req.query.wallet, networkConfig.bech32Prefix);
+      if (!walletQuery.ok) {
+        return res.status(400).json({ error: walletQuery.error });
+      }
+      const { wallets, selected } = walletQuery;
+      console.log(`Fetching open positions for ${address} (${wallets.map(w => w.bech32).join(", ")}) on ${network}`);
+
+      const response = await loadOpenPositions(networkConfig, address, wallets, selected);
       res.json(response);
     } catch (error) {
       console.error("Error fetching positions:", error);
@@ -1105,12 +538,12 @@ export async function registerRoutes(
   // Global protocol stats endpoint
   app.get("/api/stats", async (req, res) => {
     try {
-      const network = (req.query.network as string) || "mainnet";
-      const networkConfig = NETWORKS[network as keyof typeof NETWORKS];
+      const networkConfig = resolveNetwork(req.query.network);
       
       if (!networkConfig) {
-        return res.status(400).json({ error: "Invalid network" });
+        return res.status(400).json({ error: unknownNetworkError() });
       }
+      const network = networkConfig.id;
 
       // Fetch global stats from GraphQL
       const response = await fetch(networkConfig.graphql, {
@@ -1204,165 +637,72 @@ export async function registerRoutes(
   // Get vault positions for a specific address
   app.get("/api/vault-positions", async (req, res) => {
     try {
-      const { address, network: networkParam } = req.query;
-      
-      if (!address || typeof address !== "string") {
-        return res.status(400).json({ error: "Address is required" });
-      }
+      const { address } = req.query;
 
-      const network = (networkParam as string) || "mainnet";
-      const networkConfig = NETWORKS[network as keyof typeof NETWORKS];
+      const networkConfig = resolveNetwork(req.query.network);
       
       if (!networkConfig) {
-        return res.status(400).json({ error: "Invalid network" });
+        return res.status(400).json({ error: unknownNetworkError() });
       }
-
-      // Convert EVM address to bech32 if needed
-      let nibiAddress = address;
-      if (address.startsWith("0x")) {
-        nibiAddress = evmToBech32(address);
+      const network = networkConfig.id;
+      const valuation = resolveValuationPolicy(req.query.valuation);
+      if (!valuation) {
+        return res.status(400).json({ error: INVALID_VALUATION_ERROR });
       }
 
-      // Fetch vault positions from GraphQL
-      const response = await fetch(networkConfig.graphql, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          query: VAULT_POSITIONS_QUERY,
-          variables: { depositor: nibiAddress },
-        }),
-      });
-
-      const data = await response.json();
-      
-      if (data.errors) {
-        console.error("GraphQL errors:", data.errors);
-        return res.status(500).json({ error: "Failed to fetch vault positions" });
+      // Accept one address or a portfolio of them, each as 0x EVM or bech32 (nibi1...)
+      const walletQuery = resolveWalletQuery(address, req.query.wallet, networkConfig.bech32Prefix);
+      if (!walletQuery.ok) {
+        return res.status(400).json({ error: walletQuery.error });
       }
+      const { wallets, selected } = walletQuery;
 
-      const depositHistory = data.data?.lp?.depositHistory || [];
-      const vaults = data.data?.lp?.vaults || [];
-
-      // Create a map of current vault data (for calculating current share value)
-      const vaultMap = new Map<string, { availableAssets: number; apy: number; totalShares?: number }>();
-      vaults.forEach((vault: any) => {
-        const symbol = vault.collateralToken?.symbol || "Unknown";
-        vaultMap.set(symbol, {
-          availableAssets: parseFloat(vault.availableAssets) || 0,
-          apy: parseFloat(vault.apy) || 0,
-        });
-      });
-
-      // Process deposit history to calculate positions
-      // Group deposits by vault symbol and aggregate
-      const positionsByVault = new Map<string, {
-        deposits: any[];
-        totalShares: number;
-        totalDeposited: number;
-      }>();
-
-      depositHistory.forEach((deposit: any) => {
-        const symbol = deposit.vault?.collateralToken?.symbol || "Unknown";
-        const action = deposit.action;
-        const amount = parseFloat(deposit.amount) / 1e6; // Convert from micro-units
-        const shares = parseFloat(deposit.shares) / 1e6;
-
-        if (!positionsByVault.has(symbol)) {
-          positionsByVault.set(symbol, { deposits: [], totalShares: 0, totalDeposited: 0 });
-        }
+      // Oracle prices value the totals under the "current" policy, and entries whose event has no price
+      const marketsResult = await graphqlQuery<MarketsQueryResult>(networkConfig.graphql, MARKETS_QUERY, {});
+      const pricing = { policy: valuation, oraclePriceMap: buildOraclePriceMap(marketsResult.oracle?.tokenPricesUsd) };
 
-        const position = positionsByVault.get(symbol)!;
-        position.deposits.push(deposit);
-
-        if (action === "deposit") {
-          position.totalShares += shares;
-          position.totalDeposited += amount;
-        } else if (action === "withdraw") {
-          position.totalShares -= shares;
-          position.totalDeposited -= amount;
+      // Fetch vault positions of every wallet from GraphQL
+      const walletResults = await Promise.all(wallets.map(async (wallet) => {
+        let vaults: VaultDepositEvent["vault"][];
+        try {
+          // Index any new deposit events, then read back the full stored history
+          vaults = await syncVaultDeposits(network, networkConfig.graphql, wallet.bech32);
+        } catch (error) {
+          console.error("GraphQL errors:", error);
+          return null;
         }
-      });
+        const depositHistory: VaultDepositEvent[] = await storage.getVaultDeposits(network, wallet.bech32);
 
-      // Convert to vault positions array with earnings calculation
-      const positions: VaultPosition[] = [];
-      const now = new Date();
-
-      positionsByVault.forEach((data, symbol) => {
-        const vaultData = vaultMap.get(symbol);
-        const currentApy = vaultData?.apy || data.deposits[0]?.vault?.apy || 0;
-        const isVaultOpen = data.totalShares > 0;
-
-        // Create individual position entries for each deposit and withdrawal
-        data.deposits.forEach((entry: any) => {
-          const action = entry.action as "deposit" | "withdraw";
-          const amount = parseFloat(entry.amount) / 1e6;
-          const shares = parseFloat(entry.shares) / 1e6;
-          const entryDate = entry.block?.block_ts || "";
-          
-          if (action === "deposit") {
-            // For deposits, calculate earnings if vault is still open
-            const depositDaysElapsed = entryDate ? (now.getTime() - new Date(entryDate).getTime()) / (1000 * 60 * 60 * 24) : 0;
-            const depositYearsElapsed = depositDaysElapsed / 365;
-            const depositEstimatedGrowth = isVaultOpen ? amount * currentApy * depositYearsElapsed : 0;
-            const depositCurrentValue = isVaultOpen ? amount + depositEstimatedGrowth : 0;
-            const depositEarnings = isVaultOpen ? depositEstimatedGrowth : 0;
-            const depositEarningsPercent = amount > 0 && isVaultOpen ? (depositEarnings / amount) * 100 : 0;
-
-            positions.push({
-              vaultSymbol: symbol,
-              depositAmount: amount,
-              shares,
-              currentValue: depositCurrentValue,
-              earnings: depositEarnings,
-              earningsPercent: depositEarningsPercent,
-              depositDate: entryDate,
-              txHash: entry.txHash || "",
-              evmTxHash: entry.evmTxHash || "",
-              apy: currentApy,
-              collateralPriceAtDeposit: parseFloat(entry.collateralPrice) || 0,
-              action: "deposit",
-              status: isVaultOpen ? "open" : "closed",
-            });
-          } else if (action === "withdraw") {
-            // For withdrawals, show as closed position with realized earnings
-            positions.push({
-              vaultSymbol: symbol,
-              depositAmount: amount,
-              shares,
-              currentValue: amount, // Withdrawn amount is the realized value
-              earnings: 0, // Earnings already realized at withdrawal
-              earningsPercent: 0,
-              depositDate: entryDate,
-              txHash: entry.txHash || "",
-              evmTxHash: entry.evmTxHash || "",
-              apy: currentApy,
-              collateralPriceAtDeposit: parseFloat(entry.collateralPrice) || 0,
-              action: "withdraw",
-              status: "closed",
-            });
-          }
-        });
-      });
+        return { wallet, ...buildVaultPositions(depositHistory, vaults, pricing) };
+      }));
 
-      // Sort by deposit date (most recent first), handle invalid dates
-      positions.sort((a, b) => {
-        const dateA = a.depositDate ? new Date(a.depositDate).getTime() : 0;
-        const dateB = b.depositDate ? new Date(b.depositDate).getTime() : 0;
-        return dateB - dateA;
-      });
+      if (walletResults.some(result => result === null)) {
+        return res.status(500).json({ error: "Failed to fetch vault positions" });
+      }
+      const results = walletResults.filter(result => result !== null);
 
-      // Calculate totals
-      const totalDeposited = positions.reduce((sum, p) => sum + p.depositAmount, 0);
-      const totalCurrentValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
-      const totalEarnings = positions.reduce((sum, p) => sum + p.earnings, 0);
+      // Vault positions are per wallet, so they are attributed rather than merged
+      const selectedWallets = new Set(selected.map(w => w.evm));
+      const selectedResults = results.filter(result => selectedWallets.has(result.wallet.evm));
+      const positions: VaultPosition[] = selectedResults.flatMap(result =>
+        result.positions.map(position => ({ ...position, wallet: result.wallet.evm })),
+      );
 
       const vaultPositionsResponse: VaultPositionsResponse = {
-        address,
+        address: address as string,
         positions,
-        totalDeposited,
-        totalCurrentValue,
-        totalEarnings,
+        totalDeposited: selectedResults.reduce((sum, r) => sum + r.totalDeposited, 0),
+        totalCurrentValue: selectedResults.reduce((sum, r) => sum + r.totalCurrentValue, 0),
+        totalEarnings: selectedResults.reduce((sum, r) => sum + r.totalEarnings, 0),
         network,
+        wallets: results.map(result => ({
+          ...toPortfolioWallet(result.wallet),
+          positions: result.positions.length,
+          totalDeposited: result.totalDeposited,
+          totalCurrentValue: result.totalCurrentValue,
+          totalEarnings: result.totalEarnings,
+        })),
+        nibiPrices: buildNibiPrices(pricing.oraclePriceMap),
       };
 
       res.json(vaultPositionsResponse);
@@ -1372,5 +712,137 @@ export async function registerRoutes(
     }
   });
 
+  // Alert subscriptions; the id returned on creation is the only handle to a subscription
+  app.post("/api/alerts", async (req, res) => {
+    const parsed = createAlertSubscriptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid alert subscription" });
+    }
+    const input = parsed.data;
+
+    const networkConfig = resolveNetwork(input.network);
+    if (!networkConfig) {
+      return res.status(400).json({ error: unknownNetworkError() });
+    }
+    const address = parseAddress(input.address, networkConfig.bech32Prefix);
+    if (!address.ok) {
+      return res.status(400).json({ error: address.error });
+    }
+
+    const target = await checkWebhookTarget(input.webhookUrl);
+    if (!target.ok) {
+      return res.status(400).json({ error: target.error });
+    }
+
+    try {
+      const client = alertClientKey(req.ip);
+      if ((await storage.countAlertSubscriptions({ network: networkConfig.id, trader: address.bech32 })) >= MAX_ALERT_SUBSCRIPTIONS_PER_ADDRESS) {
+        return res.status(429).json({ error: `An address can have at most ${MAX_ALERT_SUBSCRIPTIONS_PER_ADDRESS} alert subscriptions` });
+      }
+      if ((await storage.countAlertSubscriptions({ client })) >= MAX_ALERT_SUBSCRIPTIONS_PER_CLIENT) {
+        return res.status(429).json({ error: `At most ${MAX_ALERT_SUBSCRIPTIONS_PER_CLIENT} alert subscriptions can be created from one client; delete one first` });
+      }
+
+      // Only closes after the subscription was created are alerted
+      let lastHistoryId = 0;
+      if (input.rules.some(rule => rule.type === "position_closed")) {
+        await syncTrader(networkConfig.id, networkConfig, address.bech32);
+        const history = await storage.getTradeHistory(networkConfig.id, address.bech32);
+        lastHistoryId = history.reduce((max, item) => Math.max(max, item.id), 0);
+      }
+
+      const subscription: AlertSubscription = {
+        id: randomUUID(),
+        network: networkConfig.id,
+        address: address.evm,
+        trader: address.bech32,
+        webhookUrl: input.webhookUrl,
+        secret: input.secret,
+        rules: input.rules,
+        firing: [],
+        lastHistoryId,
+        client,
+        createdAt: new Date().toISOString(),
+      };
+      await storage.saveAlertSubscription(subscription);
+
+      const response: AlertSubscriptionResponse = { subscription: toSubscriptionView(subscription) };
+      res.status(201).json(response);
+    } catch (error) {
+      console.error("Error creating alert subscription:", error);
+      res.status(500).json({ error: "Failed to create alert subscription" });
+    }
+  });
+
+  app.get("/api/alerts/:id", async (req, res) => {
+    try {
+      const subscription = await storage.getAlertSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Alert subscription not found" });
+      }
+      const response: AlertSubscriptionResponse = { subscription: toSubscriptionView(subscription) };
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching alert subscription:", error);
+      res.status(500).json({ error: "Failed to fetch alert subscription" });
+    }
+  });
+
+  app.delete("/api/alerts/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteAlertSubscription(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Alert subscription not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting alert subscription:", error);
+      res.status(500).json({ error: "Failed to delete alert subscription" });
+    }
+  });
+
+  // Delivery log, newest first
+  app.get("/api/alerts/:id/deliveries", async (req, res) => {
+    const limit = req.query.limit === undefined ? ALERT_DELIVERIES_DEFAULT_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > ALERT_DELIVERIES_MAX_LIMIT) {
+      return res.status(400).json({ error: `limit must be an integer between 1 and ${ALERT_DELIVERIES_MAX_LIMIT}` });
+    }
+
+    try {
+      const subscription = await storage.getAlertSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Alert subscription not found" });
+      }
+      const response: AlertDeliveriesResponse = {
+        deliveries: await storage.getAlertDeliveries(subscription.id, limit),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching alert deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch alert deliveries" });
+    }
+  });
+
+  // Send a test alert once, without retries, so the webhook and signature check can be verified
+  app.post("/api/alerts/:id/test", async (req, res) => {
+    try {
+      const subscription = await storage.getAlertSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Alert subscription not found" });
+      }
+      const delivery = createDelivery(subscription, {
+        event: "test",
+        message: `Test alert for ${subscription.address}`,
+        data: {},
+      });
+      await storage.saveAlertDelivery(delivery);
+      const response: AlertTestResponse = { delivery: await deliverAlert(subscription, delivery, []) };
+      res.json(response);
+    } catch (error) {
+      console.error("Error sending test alert:", error);
+      res.status(500).json({ error: "Failed to send test alert" });
+    }
+  });
+
   return httpServer;
 }
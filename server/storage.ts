@@ -1,14 +1,655 @@
 // Storage interface for Sai PnL Tracker
-// Currently using in-memory caching for API responses
+// Persists raw Sai Keeper data so repeat lookups don't re-download everything
+
+import { and, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import {
+  perpTrades,
+  tradeHistoryEvents,
+  vaultDeposits,
+  markets,
+  indexerState,
+  vaultDepositState,
+  txFees,
+  feeTransactions,
+  volumeState,
+  volumeBuckets,
+  alertSubscriptions,
+  alertDeliveries,
+  type AlertSubscription,
+  type AlertDelivery,
+  type IndexerState,
+  type VaultDepositState,
+  type VolumeState,
+  type VolumeBucket,
+  type FeeTransaction,
+  type ExtractedFees,
+  type PerpTrade,
+  type TradeHistoryItem,
+  type VaultDepositEvent,
+  type Market,
+} from "@shared/schema";
+import { db, type Database } from "./db";
 
 export interface IStorage {
-  // Cache for trade data - could be extended for persistence
+  // Trades (open and closed) for a trader
+  upsertTrades(network: string, trader: string, trades: PerpTrade[]): Promise<void>;
+  getTrades(network: string, trader: string): Promise<PerpTrade[]>;
+
+  // Trade history events for a trader, newest first
+  upsertTradeHistory(network: string, trader: string, items: TradeHistoryItem[]): Promise<void>;
+  getTradeHistory(network: string, trader: string): Promise<TradeHistoryItem[]>;
+  // Bech32 address of the indexed trader a trade id belongs to
+  getTradeOwner(network: string, tradeId: number): Promise<string | undefined>;
+
+  // Vault deposit/withdraw events for a depositor, newest first
+  upsertVaultDeposits(network: string, depositor: string, deposits: VaultDepositEvent[]): Promise<void>;
+  getVaultDeposits(network: string, depositor: string): Promise<VaultDepositEvent[]>;
+
+  // Perp markets (borrowings)
+  upsertMarkets(network: string, markets: Market[]): Promise<void>;
+  getMarkets(network: string): Promise<Market[]>;
+
+  // Incremental indexer cursor per trader
+  getIndexerState(network: string, trader: string): Promise<IndexerState | undefined>;
+  saveIndexerState(state: IndexerState): Promise<void>;
+
+  // Incremental vault deposit cursor per depositor
+  getVaultDepositState(network: string, depositor: string): Promise<VaultDepositState | undefined>;
+  saveVaultDepositState(state: VaultDepositState): Promise<void>;
+
+  // Receipt fees by EVM tx hash (only hashes with a cached entry are returned)
+  getTxFees(network: string, txHashes: string[]): Promise<Map<string, ExtractedFees>>;
+  saveTxFees(network: string, fees: Map<string, ExtractedFees>): Promise<void>;
+
+  // Sai Keeper fee transactions for a trader
+  upsertFeeTransactions(network: string, trader: string, transactions: FeeTransaction[]): Promise<void>;
+  getFeeTransactions(network: string, trader: string): Promise<FeeTransaction[]>;
+
+  // Running global volume totals and scan progress; bucket deltas are added in the same write as the state
+  getVolumeState(network: string): Promise<VolumeState | undefined>;
+  saveVolumeState(state: VolumeState, bucketDeltas?: VolumeBucket[]): Promise<void>;
+  // Volume buckets for a network, optionally limited to an inclusive UTC day range
+  getVolumeBuckets(network: string, from?: string, to?: string): Promise<VolumeBucket[]>;
+
+  // Alert subscriptions; deleting one also deletes its delivery log
+  saveAlertSubscription(subscription: AlertSubscription): Promise<void>;
+  getAlertSubscription(id: string): Promise<AlertSubscription | undefined>;
+  getAlertSubscriptions(): Promise<AlertSubscription[]>;
+  // Subscriptions matching every given field
+  countAlertSubscriptions(filter: Partial<Pick<AlertSubscription, "network" | "trader" | "client">>): Promise<number>;
+  deleteAlertSubscription(id: string): Promise<boolean>;
+
+  // Webhook delivery log, newest first
+  saveAlertDelivery(delivery: AlertDelivery): Promise<void>;
+  getAlertDeliveries(subscriptionId: string, limit: number): Promise<AlertDelivery[]>;
+}
+
+function byBlockDesc(a: { block: number; id: number }, b: { block: number; id: number }): number {
+  return b.block - a.block || b.id - a.id;
 }
 
 export class MemStorage implements IStorage {
-  constructor() {
-    // Initialize storage
+  private trades = new Map<string, PerpTrade & { network: string; traderKey: string }>();
+  private history = new Map<string, TradeHistoryItem & { network: string; trader: string }>();
+  private deposits = new Map<string, VaultDepositEvent & { network: string; depositorKey: string }>();
+  private marketsByKey = new Map<string, Market & { network: string }>();
+  private indexerStates = new Map<string, IndexerState>();
+  private vaultDepositStates = new Map<string, VaultDepositState>();
+  private txFeesByHash = new Map<string, ExtractedFees>();
+  private feeTxs = new Map<string, FeeTransaction & { network: string; traderKey: string }>();
+  private volumeStates = new Map<string, VolumeState>();
+  private volumeBucketsByKey = new Map<string, VolumeBucket & { network: string }>();
+  private alertSubscriptionsById = new Map<string, AlertSubscription>();
+  private alertDeliveriesById = new Map<string, AlertDelivery>();
+
+  async upsertTrades(network: string, trader: string, trades: PerpTrade[]): Promise<void> {
+    for (const trade of trades) {
+      this.trades.set(`${network}:${trade.id}`, { ...trade, network, traderKey: trader });
+    }
+  }
+
+  async getTrades(network: string, trader: string): Promise<PerpTrade[]> {
+    return Array.from(this.trades.values())
+      .filter((t) => t.network === network && t.traderKey === trader)
+      .sort((a, b) => b.id - a.id)
+      .map(({ network: _network, traderKey: _traderKey, ...trade }) => trade);
+  }
+
+  async upsertTradeHistory(network: string, trader: string, items: TradeHistoryItem[]): Promise<void> {
+    for (const item of items) {
+      this.history.set(`${network}:${item.id}`, { ...item, network, trader });
+    }
+  }
+
+  async getTradeHistory(network: string, trader: string): Promise<TradeHistoryItem[]> {
+    return Array.from(this.history.values())
+      .filter((h) => h.network === network && h.trader === trader)
+      .sort((a, b) => byBlockDesc({ block: a.block.block, id: a.id }, { block: b.block.block, id: b.id }))
+      .map(({ network: _network, trader: _trader, ...item }) => item);
+  }
+
+  async getTradeOwner(network: string, tradeId: number): Promise<string | undefined> {
+    const trade = this.trades.get(`${network}:${tradeId}`);
+    if (trade) return trade.traderKey;
+    return Array.from(this.history.values()).find((h) => h.network === network && h.trade.id === tradeId)?.trader;
+  }
+
+  async upsertVaultDeposits(network: string, depositor: string, deposits: VaultDepositEvent[]): Promise<void> {
+    for (const deposit of deposits) {
+      this.deposits.set(`${network}:${deposit.id}`, { ...deposit, network, depositorKey: depositor });
+    }
+  }
+
+  async getVaultDeposits(network: string, depositor: string): Promise<VaultDepositEvent[]> {
+    return Array.from(this.deposits.values())
+      .filter((d) => d.network === network && d.depositorKey === depositor)
+      .sort((a, b) => byBlockDesc({ block: a.block?.block ?? 0, id: a.id }, { block: b.block?.block ?? 0, id: b.id }))
+      .map(({ network: _network, depositorKey: _depositorKey, ...deposit }) => deposit);
+  }
+
+  async upsertMarkets(network: string, markets: Market[]): Promise<void> {
+    for (const market of markets) {
+      this.marketsByKey.set(`${network}:${market.marketId}`, { ...market, network });
+    }
+  }
+
+  async getMarkets(network: string): Promise<Market[]> {
+    return Array.from(this.marketsByKey.values())
+      .filter((m) => m.network === network)
+      .map(({ network: _network, ...market }) => market);
+  }
+
+  async getIndexerState(network: string, trader: string): Promise<IndexerState | undefined> {
+    return this.indexerStates.get(`${network}:${trader}`);
+  }
+
+  async saveIndexerState(state: IndexerState): Promise<void> {
+    this.indexerStates.set(`${state.network}:${state.trader}`, { ...state });
+  }
+
+  async getVaultDepositState(network: string, depositor: string): Promise<VaultDepositState | undefined> {
+    return this.vaultDepositStates.get(`${network}:${depositor}`);
+  }
+
+  async saveVaultDepositState(state: VaultDepositState): Promise<void> {
+    this.vaultDepositStates.set(`${state.network}:${state.depositor}`, { ...state });
+  }
+
+  async getTxFees(network: string, txHashes: string[]): Promise<Map<string, ExtractedFees>> {
+    const result = new Map<string, ExtractedFees>();
+    for (const hash of txHashes) {
+      const fees = this.txFeesByHash.get(`${network}:${hash.toLowerCase()}`);
+      if (fees) result.set(hash, fees);
+    }
+    return result;
+  }
+
+  async saveTxFees(network: string, fees: Map<string, ExtractedFees>): Promise<void> {
+    fees.forEach((value, hash) => {
+      const key = `${network}:${hash.toLowerCase()}`;
+      if (!this.txFeesByHash.has(key)) this.txFeesByHash.set(key, { ...value });
+    });
+  }
+
+  async upsertFeeTransactions(network: string, trader: string, transactions: FeeTransaction[]): Promise<void> {
+    for (const tx of transactions) {
+      this.feeTxs.set(`${network}:${tx.id}`, { ...tx, network, traderKey: trader });
+    }
+  }
+
+  async getFeeTransactions(network: string, trader: string): Promise<FeeTransaction[]> {
+    return Array.from(this.feeTxs.values())
+      .filter((tx) => tx.network === network && tx.traderKey === trader)
+      .map(({ network: _network, traderKey: _traderKey, ...tx }) => tx);
+  }
+
+  async getVolumeState(network: string): Promise<VolumeState | undefined> {
+    return this.volumeStates.get(network);
+  }
+
+  async saveVolumeState(state: VolumeState, bucketDeltas: VolumeBucket[] = []): Promise<void> {
+    for (const delta of bucketDeltas) {
+      const key = `${state.network}:${delta.day}:${delta.market}:${delta.collateralToken}`;
+      const existing = this.volumeBucketsByKey.get(key);
+      this.volumeBucketsByKey.set(key, {
+        ...delta,
+        network: state.network,
+        volume: (existing?.volume ?? 0) + delta.volume,
+        nativeVolume: (existing?.nativeVolume ?? 0) + delta.nativeVolume,
+        tradeCount: (existing?.tradeCount ?? 0) + delta.tradeCount,
+      });
+    }
+    this.volumeStates.set(state.network, { ...state });
+  }
+
+  async getVolumeBuckets(network: string, from?: string, to?: string): Promise<VolumeBucket[]> {
+    return Array.from(this.volumeBucketsByKey.values())
+      .filter((b) => b.network === network && (!from || b.day >= from) && (!to || b.day <= to))
+      .sort((a, b) => a.day.localeCompare(b.day))
+      .map(({ network: _network, ...bucket }) => bucket);
+  }
+
+  async saveAlertSubscription(subscription: AlertSubscription): Promise<void> {
+    this.alertSubscriptionsById.set(subscription.id, { ...subscription });
+  }
+
+  async getAlertSubscription(id: string): Promise<AlertSubscription | undefined> {
+    return this.alertSubscriptionsById.get(id);
+  }
+
+  async getAlertSubscriptions(): Promise<AlertSubscription[]> {
+    return Array.from(this.alertSubscriptionsById.values());
+  }
+
+  async countAlertSubscriptions(filter: Partial<Pick<AlertSubscription, "network" | "trader" | "client">>): Promise<number> {
+    const fields = Object.entries(filter) as [keyof typeof filter, string | undefined][];
+    return Array.from(this.alertSubscriptionsById.values()).filter((subscription) =>
+      fields.every(([field, value]) => value === undefined || subscription[field] === value)
+    ).length;
+  }
+
+  async deleteAlertSubscription(id: string): Promise<boolean> {
+    for (const delivery of Array.from(this.alertDeliveriesById.values())) {
+      if (delivery.subscriptionId === id) this.alertDeliveriesById.delete(delivery.id);
+    }
+    return this.alertSubscriptionsById.delete(id);
+  }
+
+  async saveAlertDelivery(delivery: AlertDelivery): Promise<void> {
+    this.alertDeliveriesById.set(delivery.id, { ...delivery });
+  }
+
+  async getAlertDeliveries(subscriptionId: string, limit: number): Promise<AlertDelivery[]> {
+    return Array.from(this.alertDeliveriesById.values())
+      .filter((d) => d.subscriptionId === subscriptionId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+}
+
+// Postgres allows 65535 bind parameters per statement, so bulk writes and IN lists are split into batches
+const BATCH_SIZE = 500;
+
+function batches<T>(items: T[], size = BATCH_SIZE): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async upsertTrades(network: string, trader: string, trades: PerpTrade[]): Promise<void> {
+    if (trades.length === 0) return;
+    const rows = trades.map((trade) => ({
+      network,
+      tradeId: trade.id,
+      trader,
+      isOpen: trade.isOpen,
+      openBlock: trade.openBlock?.block ?? null,
+      closeBlock: trade.closeBlock?.block ?? null,
+      data: trade,
+    }));
+    await this.db.transaction(async (tx) => {
+      for (const batch of batches(rows)) {
+        await tx
+          .insert(perpTrades)
+          .values(batch)
+          .onConflictDoUpdate({
+            target: [perpTrades.network, perpTrades.tradeId],
+            set: {
+              isOpen: sql`excluded.is_open`,
+              openBlock: sql`excluded.open_block`,
+              closeBlock: sql`excluded.close_block`,
+              data: sql`excluded.data`,
+              updatedAt: sql`now()`,
+            },
+          });
+      }
+    });
+  }
+
+  async getTrades(network: string, trader: string): Promise<PerpTrade[]> {
+    const rows = await this.db
+      .select({ data: perpTrades.data })
+      .from(perpTrades)
+      .where(and(eq(perpTrades.network, network), eq(perpTrades.trader, trader)))
+      .orderBy(desc(perpTrades.tradeId));
+    return rows.map((row) => row.data);
+  }
+
+  async upsertTradeHistory(network: string, trader: string, items: TradeHistoryItem[]): Promise<void> {
+    if (items.length === 0) return;
+    const rows = items.map((item) => ({
+      network,
+      historyId: item.id,
+      trader,
+      tradeId: item.trade.id,
+      tradeChangeType: item.tradeChangeType,
+      block: item.block.block,
+      blockTs: item.block.block_ts,
+      evmTxHash: item.evmTxHash,
+      data: item,
+    }));
+    // History events are immutable once indexed, so existing rows are left untouched
+    await this.db.transaction(async (tx) => {
+      for (const batch of batches(rows)) {
+        await tx.insert(tradeHistoryEvents).values(batch).onConflictDoNothing();
+      }
+    });
+  }
+
+  async getTradeHistory(network: string, trader: string): Promise<TradeHistoryItem[]> {
+    const rows = await this.db
+      .select({ data: tradeHistoryEvents.data })
+      .from(tradeHistoryEvents)
+      .where(and(eq(tradeHistoryEvents.network, network), eq(tradeHistoryEvents.trader, trader)))
+      .orderBy(desc(tradeHistoryEvents.block), desc(tradeHistoryEvents.historyId));
+    return rows.map((row) => row.data);
+  }
+
+  async getTradeOwner(network: string, tradeId: number): Promise<string | undefined> {
+    const [trade] = await this.db
+      .select({ trader: perpTrades.trader })
+      .from(perpTrades)
+      .where(and(eq(perpTrades.network, network), eq(perpTrades.tradeId, tradeId)))
+      .limit(1);
+    if (trade) return trade.trader;
+    const [event] = await this.db
+      .select({ trader: tradeHistoryEvents.trader })
+      .from(tradeHistoryEvents)
+      .where(and(eq(tradeHistoryEvents.network, network), eq(tradeHistoryEvents.tradeId, tradeId)))
+      .limit(1);
+    return event?.trader;
+  }
+
+  async upsertVaultDeposits(network: string, depositor: string, deposits: VaultDepositEvent[]): Promise<void> {
+    if (deposits.length === 0) return;
+    const rows = deposits.map((deposit) => ({
+      network,
+      depositId: deposit.id,
+      depositor,
+      action: deposit.action,
+      block: deposit.block?.block ?? null,
+      blockTs: deposit.block?.block_ts ?? null,
+      data: deposit,
+    }));
+    await this.db.transaction(async (tx) => {
+      for (const batch of batches(rows)) {
+        await tx
+          .insert(vaultDeposits)
+          .values(batch)
+          .onConflictDoUpdate({
+            target: [vaultDeposits.network, vaultDeposits.depositId],
+            set: { data: sql`excluded.data` },
+          });
+      }
+    });
+  }
+
+  async getVaultDeposits(network: string, depositor: string): Promise<VaultDepositEvent[]> {
+    const rows = await this.db
+      .select({ data: vaultDeposits.data })
+      .from(vaultDeposits)
+      .where(and(eq(vaultDeposits.network, network), eq(vaultDeposits.depositor, depositor)))
+      .orderBy(desc(vaultDeposits.block), desc(vaultDeposits.depositId));
+    return rows.map((row) => row.data);
+  }
+
+  async upsertMarkets(network: string, marketList: Market[]): Promise<void> {
+    const rows = marketList
+      .map((market) => ({
+        network,
+        marketId: parseInt(market.marketId),
+        baseSymbol: market.baseToken?.symbol ?? null,
+        collateralSymbol: market.collateralToken?.symbol ?? null,
+        price: market.price ?? null,
+        data: market,
+      }))
+      .filter((row) => !isNaN(row.marketId));
+    if (rows.length === 0) return;
+    await this.db.transaction(async (tx) => {
+      for (const batch of batches(rows)) {
+        await tx
+          .insert(markets)
+          .values(batch)
+          .onConflictDoUpdate({
+            target: [markets.network, markets.marketId],
+            set: {
+              baseSymbol: sql`excluded.base_symbol`,
+              collateralSymbol: sql`excluded.collateral_symbol`,
+              price: sql`excluded.price`,
+              data: sql`excluded.data`,
+              updatedAt: sql`now()`,
+            },
+          });
+      }
+    });
+  }
+
+  async getMarkets(network: string): Promise<Market[]> {
+    const rows = await this.db
+      .select({ data: markets.data })
+      .from(markets)
+      .where(eq(markets.network, network))
+      .orderBy(markets.marketId);
+    return rows.map((row) => row.data);
+  }
+
+  async getIndexerState(network: string, trader: string): Promise<IndexerState | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(indexerState)
+      .where(and(eq(indexerState.network, network), eq(indexerState.trader, trader)));
+    if (!row) return undefined;
+    const { updatedAt: _updatedAt, ...state } = row;
+    return state;
+  }
+
+  async saveIndexerState(state: IndexerState): Promise<void> {
+    await this.db
+      .insert(indexerState)
+      .values(state)
+      .onConflictDoUpdate({
+        target: [indexerState.network, indexerState.trader],
+        set: {
+          lastBlock: state.lastBlock,
+          lastHistoryId: state.lastHistoryId,
+          backfilled: state.backfilled,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+
+  async getVaultDepositState(network: string, depositor: string): Promise<VaultDepositState | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(vaultDepositState)
+      .where(and(eq(vaultDepositState.network, network), eq(vaultDepositState.depositor, depositor)));
+    if (!row) return undefined;
+    const { updatedAt: _updatedAt, ...state } = row;
+    return state;
+  }
+
+  async saveVaultDepositState(state: VaultDepositState): Promise<void> {
+    await this.db
+      .insert(vaultDepositState)
+      .values(state)
+      .onConflictDoUpdate({
+        target: [vaultDepositState.network, vaultDepositState.depositor],
+        set: {
+          lastBlock: state.lastBlock,
+          lastDepositId: state.lastDepositId,
+          backfilled: state.backfilled,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+
+  async getTxFees(network: string, txHashes: string[]): Promise<Map<string, ExtractedFees>> {
+    const result = new Map<string, ExtractedFees>();
+    if (txHashes.length === 0) return result;
+    const byLowerHash = new Map(txHashes.map((hash) => [hash.toLowerCase(), hash]));
+    for (const batch of batches(Array.from(byLowerHash.keys()))) {
+      const rows = await this.db
+        .select()
+        .from(txFees)
+        .where(and(eq(txFees.network, network), inArray(txFees.evmTxHash, batch)));
+      for (const row of rows) {
+        result.set(byLowerHash.get(row.evmTxHash) ?? row.evmTxHash, {
+          openingFee: row.openingFee,
+          closingFee: row.closingFee,
+          openingTriggerFee: row.openingTriggerFee,
+          closingTriggerFee: row.closingTriggerFee,
+        });
+      }
+    }
+    return result;
+  }
+
+  async saveTxFees(network: string, fees: Map<string, ExtractedFees>): Promise<void> {
+    if (fees.size === 0) return;
+    const rows = Array.from(fees.entries()).map(([hash, value]) => ({ network, evmTxHash: hash.toLowerCase(), ...value }));
+    // First decoded receipt wins - a later pruned/empty response must never overwrite it
+    await this.db.transaction(async (tx) => {
+      for (const batch of batches(rows)) {
+        await tx.insert(txFees).values(batch).onConflictDoNothing();
+      }
+    });
+  }
+
+  async upsertFeeTransactions(network: string, trader: string, transactions: FeeTransaction[]): Promise<void> {
+    if (transactions.length === 0) return;
+    const rows = transactions.map((transaction) => ({
+      network,
+      feeTxId: String(transaction.id),
+      trader,
+      tradeId: transaction.tradeId,
+      feeType: transaction.feeType,
+      data: transaction,
+    }));
+    await this.db.transaction(async (tx) => {
+      for (const batch of batches(rows)) {
+        await tx
+          .insert(feeTransactions)
+          .values(batch)
+          .onConflictDoUpdate({
+            target: [feeTransactions.network, feeTransactions.feeTxId],
+            set: { data: sql`excluded.data` },
+          });
+      }
+    });
+  }
+
+  async getFeeTransactions(network: string, trader: string): Promise<FeeTransaction[]> {
+    const rows = await this.db
+      .select({ data: feeTransactions.data })
+      .from(feeTransactions)
+      .where(and(eq(feeTransactions.network, network), eq(feeTransactions.trader, trader)));
+    return rows.map((row) => row.data);
+  }
+
+  async getVolumeState(network: string): Promise<VolumeState | undefined> {
+    const [row] = await this.db.select().from(volumeState).where(eq(volumeState.network, network));
+    if (!row) return undefined;
+    const { updatedAt: _updatedAt, ...state } = row;
+    return state;
+  }
+
+  async saveVolumeState(state: VolumeState, bucketDeltas: VolumeBucket[] = []): Promise<void> {
+    const { network: _network, ...values } = state;
+    await this.db.transaction(async (tx) => {
+      for (const batch of batches(bucketDeltas)) {
+        await tx
+          .insert(volumeBuckets)
+          .values(batch.map((delta) => ({ ...delta, network: state.network })))
+          .onConflictDoUpdate({
+            target: [volumeBuckets.network, volumeBuckets.day, volumeBuckets.market, volumeBuckets.collateralToken],
+            set: {
+              volume: sql`${volumeBuckets.volume} + excluded.volume`,
+              nativeVolume: sql`${volumeBuckets.nativeVolume} + excluded.native_volume`,
+              tradeCount: sql`${volumeBuckets.tradeCount} + excluded.trade_count`,
+            },
+          });
+      }
+      await tx
+        .insert(volumeState)
+        .values(state)
+        .onConflictDoUpdate({
+          target: volumeState.network,
+          set: { ...values, updatedAt: sql`now()` },
+        });
+    });
+  }
+
+  async getVolumeBuckets(network: string, from?: string, to?: string): Promise<VolumeBucket[]> {
+    const conditions = [eq(volumeBuckets.network, network)];
+    if (from) conditions.push(gte(volumeBuckets.day, from));
+    if (to) conditions.push(lte(volumeBuckets.day, to));
+    const rows = await this.db
+      .select()
+      .from(volumeBuckets)
+      .where(and(...conditions))
+      .orderBy(volumeBuckets.day);
+    return rows.map(({ network: _network, ...bucket }) => bucket);
+  }
+
+  async saveAlertSubscription(subscription: AlertSubscription): Promise<void> {
+    const { id: _id, ...values } = subscription;
+    await this.db
+      .insert(alertSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({ target: alertSubscriptions.id, set: values });
+  }
+
+  async getAlertSubscription(id: string): Promise<AlertSubscription | undefined> {
+    const [row] = await this.db.select().from(alertSubscriptions).where(eq(alertSubscriptions.id, id));
+    return row;
+  }
+
+  async getAlertSubscriptions(): Promise<AlertSubscription[]> {
+    return this.db.select().from(alertSubscriptions);
+  }
+
+  async countAlertSubscriptions(filter: Partial<Pick<AlertSubscription, "network" | "trader" | "client">>): Promise<number> {
+    const conditions = [];
+    if (filter.network !== undefined) conditions.push(eq(alertSubscriptions.network, filter.network));
+    if (filter.trader !== undefined) conditions.push(eq(alertSubscriptions.trader, filter.trader));
+    if (filter.client !== undefined) conditions.push(eq(alertSubscriptions.client, filter.client));
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(alertSubscriptions)
+      .where(and(...conditions));
+    return row?.count ?? 0;
+  }
+
+  async deleteAlertSubscription(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(alertDeliveries).where(eq(alertDeliveries.subscriptionId, id));
+      const deleted = await tx
+        .delete(alertSubscriptions)
+        .where(eq(alertSubscriptions.id, id))
+        .returning({ id: alertSubscriptions.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async saveAlertDelivery(delivery: AlertDelivery): Promise<void> {
+    const { id: _id, ...values } = delivery;
+    await this.db
+      .insert(alertDeliveries)
+      .values(delivery)
+      .onConflictDoUpdate({ target: alertDeliveries.id, set: values });
+  }
+
+  async getAlertDeliveries(subscriptionId: string, limit: number): Promise<AlertDelivery[]> {
+    return this.db
+      .select()
+      .from(alertDeliveries)
+      .where(eq(alertDeliveries.subscriptionId, subscriptionId))
+      .orderBy(desc(alertDeliveries.createdAt))
+      .limit(limit);
   }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
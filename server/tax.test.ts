@@ -0,0 +1,195 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { TaxReportResponse, Trade, VaultDepositEvent } from "@shared/schema";
+import { buildTradeTaxLine, buildVaultTaxLines, summarizeTaxLines, taxReportToCsv, taxYearOf } from "./tax";
+import type { TradeValuation } from "./trades";
+
+function close(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} != ${expected}`);
+}
+
+// 10,000 stNIBI at 3x, +2,950 stNIBI after fees, converted at today's 0.026 oracle price
+const stNibiTrade: Trade = {
+  txHash: "trade-103",
+  timestamp: "2026-09-25T07:45:00Z",
+  type: "close",
+  pair: "ETH",
+  direction: "long",
+  leverage: 3,
+  collateral: 10000 * 0.026,
+  pnlAmount: 2950 * 0.026,
+  amountReceived: 12950 * 0.026,
+  openingFee: 10 * 0.026,
+  closingFee: 12 * 0.026,
+  tradeIndex: "103",
+  openTimestamp: "2026-09-20T13:05:00Z",
+  closeTimestamp: "2026-09-25T07:45:00Z",
+  collateralToken: "stNIBI",
+  wallet: "0xabc",
+  native: { collateral: 10000, pnlAmount: 2950, amountReceived: 12950, openingFee: 10, closingFee: 12 },
+};
+
+const stNibiValuation: TradeValuation = {
+  collateralToken: "stNIBI",
+  openUsdPrice: 0.026,
+  closeUsdPrice: 0.026,
+  openCollateralPrice: 0.024,
+  closeCollateralPrice: 0.025,
+  openedAt: "2026-09-20T13:05:00Z",
+  closeTxHash: "0xclose",
+};
+
+function vaultEvent(id: number, action: "deposit" | "withdraw", amount: number, shares: number, price: number | null, ts: string): VaultDepositEvent {
+  return {
+    id,
+    action,
+    depositor: "nibi1test",
+    amount: amount * 1e6,
+    shares: shares * 1e6,
+    collateralPrice: price,
+    block: { block: id, block_ts: ts },
+    txHash: null,
+    evmTxHash: `0x${id}`,
+    vault: { availableAssets: 0, apy: 0.08, collateralToken: { symbol: "stNIBI" } },
+  };
+}
+
+describe("buildTradeTaxLine", () => {
+  test("values stNIBI collateral at the historical open and close prices", () => {
+    const line = buildTradeTaxLine(stNibiTrade, stNibiValuation)!;
+    close(line.quantity, 10000);
+    close(line.costBasis, 10000 * 0.024);
+    close(line.proceeds, 12950 * 0.025);
+    close(line.gainLoss, 12950 * 0.025 - 10000 * 0.024);
+    close(line.nativeGainLoss, 2950);
+    close(line.fees, 10 * 0.024 + 12 * 0.025);
+    close(line.holdingDays, 4 + (18 + 40 / 60) / 24);
+    assert.equal(line.term, "short");
+    assert.equal(line.asset, "stNIBI");
+    assert.equal(line.txHash, "0xclose");
+    assert.equal(line.priceEstimated, false);
+  });
+
+  test("falls back to today's price when the history has none, and flags it", () => {
+    const line = buildTradeTaxLine(stNibiTrade, { ...stNibiValuation, openCollateralPrice: null, closeCollateralPrice: null })!;
+    close(line.costBasis, 260);
+    assert.equal(line.priceEstimated, true);
+  });
+
+  test("skips open trades", () => {
+    assert.equal(buildTradeTaxLine({ ...stNibiTrade, type: "open" }, stNibiValuation), null);
+  });
+});
+
+describe("buildVaultTaxLines", () => {
+  test("redeems the oldest deposit lots first", () => {
+    const lines = buildVaultTaxLines([
+      vaultEvent(1, "deposit", 1000, 1000, 0.02, "2025-01-01T00:00:00Z"),
+      vaultEvent(2, "deposit", 1000, 900, 0.03, "2026-03-01T00:00:00Z"),
+      // 1,450 shares redeemed for 1,600 stNIBI at 0.025
+      vaultEvent(3, "withdraw", 1600, 1450, 0.025, "2026-06-01T00:00:00Z"),
+    ], new Map());
+
+    assert.equal(lines.length, 2);
+    const [first, second] = lines;
+    close(first.quantity, 1000);
+    close(first.costBasis, 20);
+    close(first.proceeds, 1600 * (1000 / 1450) * 0.025);
+    assert.equal(first.term, "long");
+    close(second.quantity, 500);
+    close(second.costBasis, 15);
+    assert.equal(second.term, "short");
+    assert.equal(second.acquiredAt, "2026-03-01T00:00:00Z");
+  });
+
+  test("gives unmatched shares a zero cost basis", () => {
+    const [line] = buildVaultTaxLines([vaultEvent(1, "withdraw", 100, 100, null, "2026-06-01T00:00:00Z")], new Map([["stNIBI", 0.03]]));
+    close(line.costBasis, 0);
+    close(line.proceeds, 3);
+    assert.equal(line.priceEstimated, true);
+  });
+
+  test("skips withdrawals without a block timestamp, which still redeem their lots", () => {
+    const lines = buildVaultTaxLines([
+      vaultEvent(1, "deposit", 100, 100, 0.02, "2025-01-01T00:00:00Z"),
+      vaultEvent(2, "deposit", 100, 100, 0.03, "2026-03-01T00:00:00Z"),
+      vaultEvent(3, "withdraw", 110, 100, 0.025, ""),
+      vaultEvent(4, "withdraw", 120, 100, 0.025, "2026-06-01T00:00:00Z"),
+    ], new Map());
+
+    assert.equal(lines.length, 1);
+    assert.equal(lines[0].id, "4");
+    assert.equal(lines[0].acquiredAt, "2026-03-01T00:00:00Z");
+    close(lines[0].costBasis, 3);
+    assert.ok(lines.every(line => !Number.isNaN(line.holdingDays)));
+  });
+
+  test("holds lots from undated deposits from the disposal date and says so", () => {
+    const [line] = buildVaultTaxLines([
+      { ...vaultEvent(1, "deposit", 100, 100, 0.02, ""), block: null },
+      vaultEvent(2, "withdraw", 120, 100, 0.025, "2026-06-01T00:00:00Z"),
+    ], new Map());
+
+    assert.equal(line.acquiredAt, "2026-06-01T00:00:00Z");
+    assert.equal(line.holdingDays, 0);
+    assert.equal(line.term, "short");
+    assert.match(line.description, /deposit date unknown/);
+    assert.equal(taxYearOf(line.disposedAt, "UTC"), 2026);
+  });
+});
+
+describe("taxYearOf", () => {
+  test("uses the chosen time zone", () => {
+    assert.equal(taxYearOf("2026-12-31T20:00:00Z", "UTC"), 2026);
+    assert.equal(taxYearOf("2026-12-31T20:00:00Z", "Asia/Tokyo"), 2027);
+  });
+});
+
+describe("taxReportToCsv", () => {
+  const line = buildTradeTaxLine(stNibiTrade, stNibiValuation)!;
+  const loss = { ...line, id: "102", nativeGainLoss: -40.9, gainLoss: -40.9, asset: "USDC", disposalPrice: 1 };
+  const report: TaxReportResponse = {
+    address: "0xabc",
+    network: "mainnet",
+    year: 2026,
+    timeZone: "UTC",
+    lines: [line, loss],
+    totals: summarizeTaxLines([line, loss]),
+  };
+
+  test("writes Koinly realized gain rows", () => {
+    const [header, gain, lossRow] = taxReportToCsv(report, "koinly").trim().split("\n");
+    assert.equal(header.split(",")[0], "Date");
+    assert.equal(gain, "2026-09-25 07:45:00,,,2950,stNIBI,,,73.75,USD,realized gain,ETH long 3x perp #103,0xclose");
+    assert.ok(lossRow.startsWith("2026-09-25 07:45:00,40.9,USDC,,,,,40.9,USD,"));
+  });
+
+  // +100 stNIBI, but the collateral fell from $0.03 to $0.02 while the trade was open
+  const priceDrop = buildTradeTaxLine(
+    { ...stNibiTrade, native: { collateral: 1000, amountReceived: 1100 } },
+    { ...stNibiValuation, openCollateralPrice: 0.03, closeCollateralPrice: 0.02 }
+  )!;
+  const priceDropReport: TaxReportResponse = { ...report, lines: [priceDrop], totals: summarizeTaxLines([priceDrop]) };
+
+  test("values rows at the token amount's worth when the native and USD results differ in sign", () => {
+    close(priceDrop.nativeGainLoss, 100);
+    close(priceDrop.gainLoss, -8);
+
+    const [, koinly] = taxReportToCsv(priceDropReport, "koinly").trim().split("\n");
+    assert.equal(koinly, "2026-09-25 07:45:00,,,100,stNIBI,,,2,USD,realized gain,ETH long 3x perp #103,0xclose");
+    const [, cointracking] = taxReportToCsv(priceDropReport, "cointracking").trim().split("\n");
+    assert.ok(cointracking.startsWith("Margin Profit,100,stNIBI,"));
+    assert.match(cointracking, /\(2 USD\)/);
+  });
+
+  test("writes CoinTracking margin rows", () => {
+    const rows = taxReportToCsv(report, "cointracking").trim().split("\n");
+    assert.ok(rows[1].startsWith("Margin Profit,2950,stNIBI,"));
+    assert.ok(rows[2].startsWith("Margin Loss,,,40.9,USDC,"));
+  });
+
+  test("writes one generic column per header", () => {
+    const [header, row] = taxReportToCsv(report, "generic").split("\n");
+    assert.equal(row.split(",").length, header.split(",").length);
+  });
+});
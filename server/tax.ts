@@ -0,0 +1,280 @@
+// Tax and accounting report: realized gain/loss lines for one tax year
+// Closed trades dispose of their collateral; vault withdrawals redeem deposit lots first in, first out
+// Amounts are valued at the collateral's historical USD price at each event, not today's oracle price
+
+import type {
+  TaxLine,
+  TaxReportFormat,
+  TaxReportResponse,
+  TaxReportTotals,
+  Trade,
+  VaultDepositEvent,
+} from "@shared/schema";
+import type { TraderAddress } from "@shared/address";
+import { dayKeyInZone } from "@shared/calendar";
+import { storage } from "./storage";
+import { loadIndexedTrades, type TradeValuation } from "./trades";
+import { buildFeeTxRefs, buildKeeperFeeMap, fetchFeesFromRpc, reconcileFeeMaps } from "./fees";
+import { csvField } from "./export";
+import type { NetworkConfig } from "./networks";
+import { syncVaultDeposits } from "./indexer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Holdings of more than a year count as long-term
+const LONG_TERM_DAYS = 365;
+
+function holding(acquiredAt: string, disposedAt: string): Pick<TaxLine, "holdingDays" | "term"> {
+  const holdingDays = Math.max(0, (new Date(disposedAt).getTime() - new Date(acquiredAt).getTime()) / DAY_MS);
+  return { holdingDays, term: holdingDays > LONG_TERM_DAYS ? "long" : "short" };
+}
+
+// A closed trade as one line; its collateral token amounts are valued at the open/close prices
+export function buildTradeTaxLine(trade: Trade, valuation: TradeValuation): TaxLine | null {
+  const native = trade.native;
+  if (trade.type !== "close" || native?.collateral === undefined || native.amountReceived === undefined) {
+    return null;
+  }
+  const closePrice = valuation.closeCollateralPrice ?? valuation.closeUsdPrice;
+  const openPrice = valuation.openCollateralPrice ?? closePrice;
+
+  const collateral = native.collateral;
+  const received = native.amountReceived;
+  const costBasis = collateral * openPrice;
+  const proceeds = received * closePrice;
+  const fees = (native.openingFee ?? 0) * openPrice
+    + ((native.closingFee ?? 0) + (native.triggerFee ?? 0) + (native.borrowingFee ?? 0)) * closePrice;
+
+  const disposedAt = trade.closeTimestamp ?? trade.timestamp;
+  const acquiredAt = trade.openTimestamp ?? valuation.openedAt ?? disposedAt;
+  return {
+    kind: "trade",
+    id: trade.tradeIndex ?? trade.txHash,
+    wallet: trade.wallet,
+    description: `${trade.pair ?? "Unknown"} ${trade.direction ?? ""} ${trade.leverage ?? ""}x perp`.replace(/ +/g, " "),
+    asset: valuation.collateralToken ?? trade.collateralToken ?? "USDC",
+    quantity: collateral,
+    acquiredAt,
+    disposedAt,
+    ...holding(acquiredAt, disposedAt),
+    costBasis,
+    proceeds,
+    fees,
+    gainLoss: proceeds - costBasis,
+    nativeGainLoss: received - collateral,
+    disposalPrice: closePrice,
+    priceEstimated: valuation.closeCollateralPrice === null || valuation.openCollateralPrice === null,
+    ...(valuation.closeTxHash ? { txHash: valuation.closeTxHash } : {}),
+  };
+}
+
+interface VaultLot {
+  shares: number;
+  amount: number;
+  costBasis: number;
+  // Null when the deposit has no block timestamp
+  acquiredAt: string | null;
+  priceEstimated: boolean;
+}
+
+// Withdrawals redeem the oldest deposit lots of the same vault first; shares with no recorded deposit
+// (e.g. older than the indexed history) get a zero cost basis
+// Events without a block timestamp cannot be dated: such withdrawals still redeem their lots but produce no line,
+// and lots from such deposits are held from the disposal date, with the description saying so
+export function buildVaultTaxLines(
+  events: VaultDepositEvent[],
+  oraclePriceMap: Map<string, number>,
+  wallet?: string
+): TaxLine[] {
+  const lots = new Map<string, VaultLot[]>();
+  const lines: TaxLine[] = [];
+
+  const sorted = [...events].sort((a, b) => (a.block?.block ?? 0) - (b.block?.block ?? 0) || a.id - b.id);
+  for (const event of sorted) {
+    const asset = event.vault?.collateralToken?.symbol ?? "Unknown";
+    const amount = Number(event.amount) / 1e6;
+    const shares = Number(event.shares) / 1e6;
+    const at = event.block?.block_ts || null;
+    const historicalPrice = asset === "USDC" ? 1 : Number(event.collateralPrice) || null;
+    const price = historicalPrice ?? oraclePriceMap.get(asset) ?? 1;
+    const vaultLots = lots.get(asset) ?? [];
+    lots.set(asset, vaultLots);
+
+    if (event.action === "deposit") {
+      vaultLots.push({ shares, amount, costBasis: amount * price, acquiredAt: at, priceEstimated: historicalPrice === null });
+      continue;
+    }
+
+    // Split the withdrawal across lots in proportion to the shares each contributes
+    let remaining = shares;
+    const addLine = (lotShares: number, lot: VaultLot | null) => {
+      if (!at) return;
+      const fraction = shares > 0 ? lotShares / shares : 0;
+      const proceeds = amount * fraction * price;
+      const acquiredAt = lot?.acquiredAt ?? at;
+      const quantity = lot ? lot.amount * (lotShares / lot.shares) : 0;
+      const costBasis = lot ? lot.costBasis * (lotShares / lot.shares) : 0;
+      lines.push({
+        kind: "vault",
+        id: String(event.id),
+        wallet,
+        description: `${asset} vault withdrawal${!lot ? " (no matching deposit)" : !lot.acquiredAt ? " (deposit date unknown)" : ""}`,
+        asset,
+        quantity,
+        acquiredAt,
+        disposedAt: at,
+        ...holding(acquiredAt, at),
+        costBasis,
+        proceeds,
+        fees: 0,
+        gainLoss: proceeds - costBasis,
+        nativeGainLoss: amount * fraction - quantity,
+        disposalPrice: price,
+        priceEstimated: historicalPrice === null || (lot?.priceEstimated ?? false),
+        ...(event.evmTxHash || event.txHash ? { txHash: event.evmTxHash ?? event.txHash ?? undefined } : {}),
+      });
+    };
+    while (remaining > 1e-9 && vaultLots.length > 0) {
+      const lot = vaultLots[0];
+      const used = Math.min(lot.shares, remaining);
+      addLine(used, lot);
+      remaining -= used;
+      if (used === lot.shares) {
+        vaultLots.shift();
+      } else {
+        const left = (lot.shares - used) / lot.shares;
+        vaultLots[0] = { ...lot, shares: lot.shares - used, amount: lot.amount * left, costBasis: lot.costBasis * left };
+      }
+    }
+    if (remaining > 1e-9) addLine(remaining, null);
+  }
+  return lines;
+}
+
+export function taxYearOf(timestamp: string, timeZone: string): number {
+  return Number(dayKeyInZone(new Date(timestamp), timeZone).slice(0, 4));
+}
+
+export function summarizeTaxLines(lines: TaxLine[]): TaxReportTotals {
+  const sum = (pick: (line: TaxLine) => number) => lines.reduce((total, line) => total + pick(line), 0);
+  return {
+    lines: lines.length,
+    costBasis: sum(l => l.costBasis),
+    proceeds: sum(l => l.proceeds),
+    fees: sum(l => l.fees),
+    gainLoss: sum(l => l.gainLoss),
+    shortTermGainLoss: sum(l => (l.term === "short" ? l.gainLoss : 0)),
+    longTermGainLoss: sum(l => (l.term === "long" ? l.gainLoss : 0)),
+  };
+}
+
+// Build the year's lines for the selected wallets (trade fees come from RPC receipts, filled from Keeper fee transactions)
+export async function loadTaxReport(
+  networkConfig: NetworkConfig,
+  address: string,
+  wallets: TraderAddress[],
+  selected: TraderAddress[],
+  year: number,
+  timeZone: string
+): Promise<TaxReportResponse> {
+  const network = networkConfig.id;
+  const inYear = (timestamp: string) => taxYearOf(timestamp, timeZone) === year;
+
+  const [{ storedHistory, buildTrades, valuation, oraclePriceMap }, vaultResults] = await Promise.all([
+    // Event-time valuation, matching the historical prices the lines are re-valued at
+    loadIndexedTrades(networkConfig, wallets, "event"),
+    Promise.all(selected.map(async (wallet) => {
+      // Index every deposit event, then read back the full stored history
+      await syncVaultDeposits(network, networkConfig.graphql, wallet.bech32);
+      return { wallet, events: await storage.getVaultDeposits(network, wallet.bech32) };
+    })),
+  ]);
+
+  const selectedWallets = new Set(selected.map(w => w.evm));
+  const yearTradeIds = new Set(
+    buildTrades(new Map())
+      .filter(t => t.type === "close" && t.wallet !== undefined && selectedWallets.has(t.wallet))
+      .filter(t => inYear(t.closeTimestamp ?? t.timestamp))
+      .map(t => Number(t.tradeIndex)),
+  );
+  const [receiptFeeMap, feeTransactions] = await Promise.all([
+    fetchFeesFromRpc(network, networkConfig.rpc, buildFeeTxRefs(storedHistory, yearTradeIds)),
+    Promise.all(selected.map(w => storage.getFeeTransactions(network, w.bech32))),
+  ]);
+  const feeMap = reconcileFeeMaps(receiptFeeMap, buildKeeperFeeMap(feeTransactions.flat()), yearTradeIds);
+
+  const tradeLines = buildTrades(feeMap, yearTradeIds)
+    .map(trade => buildTradeTaxLine(trade, valuation(Number(trade.tradeIndex))))
+    .filter((line): line is TaxLine => line !== null);
+  // The whole vault history is replayed so lots deposited before the year are matched
+  const vaultLines = vaultResults
+    .flatMap(({ wallet, events }) => buildVaultTaxLines(events, oraclePriceMap, wallet.evm))
+    .filter(line => inYear(line.disposedAt));
+
+  const lines = [...tradeLines, ...vaultLines].sort((a, b) => a.disposedAt.localeCompare(b.disposedAt));
+  return { address, network, year, timeZone, lines, totals: summarizeTaxLines(lines) };
+}
+
+// "YYYY-MM-DD HH:mm:ss" in UTC, the date format both Koinly and CoinTracking import
+function csvDate(timestamp: string): string {
+  return new Date(timestamp).toISOString().slice(0, 19).replace("T", " ");
+}
+
+// Drops float noise such as 0.6759999999999999
+function round(value: number, digits: number): number {
+  return Number(value.toFixed(digits)) || 0;
+}
+
+const TAX_CSV_LAYOUTS: Record<Exclude<TaxReportFormat, "json">, { header: string[]; row: (line: TaxLine) => (string | number | boolean | undefined)[] }> = {
+  generic: {
+    header: [
+      "kind", "id", "wallet", "description", "asset", "quantity", "date_acquired", "date_disposed", "holding_days", "term",
+      "cost_basis_usd", "proceeds_usd", "fees_usd", "gain_loss_usd", "native_gain_loss", "price_estimated", "tx_hash",
+    ],
+    row: (l) => [
+      l.kind, l.id, l.wallet, l.description, l.asset, round(l.quantity, 6), l.acquiredAt, l.disposedAt, round(l.holdingDays, 2), l.term,
+      round(l.costBasis, 2), round(l.proceeds, 2), round(l.fees, 2), round(l.gainLoss, 2), round(l.nativeGainLoss, 6),
+      l.priceEstimated, l.txHash,
+    ],
+  },
+  // Koinly records derivative and vault results as "realized gain" rows; fees are already in the gain
+  // The net worth values the row's token amount at disposal, not `gainLoss`, which also moves with the collateral price
+  koinly: {
+    header: [
+      "Date", "Sent Amount", "Sent Currency", "Received Amount", "Received Currency", "Fee Amount", "Fee Currency",
+      "Net Worth Amount", "Net Worth Currency", "Label", "Description", "TxHash",
+    ],
+    row: (l) => {
+      const gain = l.nativeGainLoss >= 0;
+      return [
+        csvDate(l.disposedAt),
+        gain ? "" : round(-l.nativeGainLoss, 6), gain ? "" : l.asset,
+        gain ? round(l.nativeGainLoss, 6) : "", gain ? l.asset : "",
+        "", "",
+        round(Math.abs(l.nativeGainLoss) * l.disposalPrice, 2), "USD",
+        "realized gain", `${l.description} #${l.id}`, l.txHash,
+      ];
+    },
+  },
+  cointracking: {
+    header: ["Type", "Buy Amount", "Buy Currency", "Sell Amount", "Sell Currency", "Fee", "Fee Currency", "Exchange", "Trade-Group", "Comment", "Date", "Tx-ID"],
+    row: (l) => {
+      const gain = l.nativeGainLoss >= 0;
+      const type = l.kind === "trade" ? (gain ? "Margin Profit" : "Margin Loss") : gain ? "Income" : "Lost";
+      return [
+        type,
+        gain ? round(l.nativeGainLoss, 6) : "", gain ? l.asset : "",
+        gain ? "" : round(-l.nativeGainLoss, 6), gain ? "" : l.asset,
+        "", "",
+        "Sai", l.kind === "trade" ? "Sai Perps" : "Sai Vaults",
+        `${l.description} #${l.id} (${round(l.nativeGainLoss * l.disposalPrice, 2)} USD)`, csvDate(l.disposedAt), l.txHash,
+      ];
+    },
+  },
+};
+
+export function taxReportToCsv(report: TaxReportResponse, format: Exclude<TaxReportFormat, "json">): string {
+  const layout = TAX_CSV_LAYOUTS[format];
+  const rows = report.lines.map(line => layout.row(line).map(csvField).join(","));
+  return [layout.header.join(","), ...rows].join("\n") + "\n";
+}
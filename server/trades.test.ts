@@ -0,0 +1,116 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { tradeFiltersSchema, type Market, type Trade } from "@shared/schema";
+import marketsFixture from "./mock/fixtures/markets.json";
+import { buildTradeFilterOptions, compareTrades, loadMarkets, matchesTradeFilters, toTradeCursor } from "./trades";
+import { storage } from "./storage";
+
+function trade(tradeIndex: string, overrides: Partial<Trade>): Trade {
+  return {
+    txHash: `0x${tradeIndex}`,
+    timestamp: "2026-09-25T07:45:00Z",
+    type: "close",
+    tradeIndex,
+    ...overrides,
+  };
+}
+
+const trades = [
+  trade("101", { pair: "BTC", direction: "long", leverage: 10, pnlAmount: 48.36, profitPct: 0.48, timestamp: "2026-09-10T12:00:00Z" }),
+  trade("102", { pair: "ETH", direction: "short", leverage: 5, pnlAmount: -40.9, profitPct: -0.2, timestamp: "2026-09-18T09:30:00Z" }),
+  trade("103", { pair: "ETH", direction: "long", leverage: 3, pnlAmount: 73.75, profitPct: 0.295, collateralToken: "stNIBI" }),
+  trade("104", { pair: "BTC", direction: "long", leverage: 5, type: "open", timestamp: "2026-10-15T08:30:00Z" }),
+];
+
+function filtered(query: Record<string, string>): string[] {
+  const filters = tradeFiltersSchema.parse(query);
+  return trades.filter((t) => matchesTradeFilters(t, filters)).map((t) => t.tradeIndex!);
+}
+
+function sorted(query: Record<string, string>): string[] {
+  const { sort, order } = tradeFiltersSchema.parse(query);
+  const compare = compareTrades(sort, order);
+  return [...trades].sort((a, b) => compare(toTradeCursor(a, sort), toTradeCursor(b, sort))).map((t) => t.tradeIndex!);
+}
+
+describe("matchesTradeFilters", () => {
+  test("filters by pair, direction, status, outcome and collateral token", () => {
+    assert.deepEqual(filtered({ pair: "eth" }), ["102", "103"]);
+    assert.deepEqual(filtered({ direction: "long", status: "closed" }), ["101", "103"]);
+    assert.deepEqual(filtered({ status: "open" }), ["104"]);
+    assert.deepEqual(filtered({ outcome: "loss" }), ["102"]);
+    assert.deepEqual(filtered({ collateralToken: "USDC" }), ["101", "102", "104"]);
+  });
+
+  test("filters by leverage range and inclusive UTC dates", () => {
+    assert.deepEqual(filtered({ minLeverage: "4", maxLeverage: "5" }), ["102", "104"]);
+    assert.deepEqual(filtered({ from: "2026-09-18", to: "2026-09-25" }), ["102", "103"]);
+  });
+
+  test("searches trade ids, ignoring a leading #", () => {
+    assert.deepEqual(filtered({ q: "#103" }), ["103"]);
+    assert.deepEqual(filtered({ q: "10" }), ["101", "102", "103", "104"]);
+  });
+
+  test("rejects malformed values", () => {
+    assert.equal(tradeFiltersSchema.safeParse({ minLeverage: "abc" }).success, false);
+    assert.equal(tradeFiltersSchema.safeParse({ sort: "txHash" }).success, false);
+  });
+});
+
+describe("compareTrades", () => {
+  test("sorts newest first by default", () => {
+    assert.deepEqual(sorted({}), ["104", "103", "102", "101"]);
+    assert.deepEqual(sorted({ order: "asc" }), ["101", "102", "103", "104"]);
+  });
+
+  test("sorts by a column with trades lacking a value last", () => {
+    assert.deepEqual(sorted({ sort: "pnl" }), ["103", "101", "102", "104"]);
+    assert.deepEqual(sorted({ sort: "pnl", order: "asc" }), ["102", "101", "103", "104"]);
+  });
+
+  test("breaks ties by time", () => {
+    assert.deepEqual(sorted({ sort: "pair", order: "asc" }), ["101", "104", "102", "103"]);
+  });
+});
+
+describe("buildTradeFilterOptions", () => {
+  test("lists each pair and collateral token once", () => {
+    assert.deepEqual(buildTradeFilterOptions(trades), { pairs: ["BTC", "ETH"], collateralTokens: ["USDC", "stNIBI"] });
+  });
+});
+
+describe("loadMarkets", () => {
+  const originalFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const borrowings = marketsFixture.borrowings as Market[];
+  const keeperUp = () => {
+    globalThis.fetch = (async () =>
+      Response.json({ data: { perp: { borrowings }, oracle: { tokenPricesUsd: marketsFixture.tokenPricesUsd } } })) as typeof fetch;
+  };
+  const keeperDown = () => {
+    globalThis.fetch = (async () => Response.json({ errors: [{ message: "Keeper unavailable" }] })) as typeof fetch;
+  };
+
+  test("stores the markets and serves them without oracle prices once the Keeper fails", async () => {
+    keeperUp();
+    const live = await loadMarkets("markets-fallback", "http://keeper.test/query");
+    assert.equal(live.oracle?.tokenPricesUsd.length, marketsFixture.tokenPricesUsd.length);
+
+    keeperDown();
+    const fallback = await loadMarkets("markets-fallback", "http://keeper.test/query");
+    assert.deepEqual(
+      fallback.perp.borrowings.map((m) => m.marketId).sort(),
+      borrowings.map((m) => m.marketId).sort()
+    );
+    assert.equal(fallback.oracle, undefined);
+  });
+
+  test("fails when the Keeper fails and nothing is stored", async () => {
+    keeperDown();
+    await assert.rejects(loadMarkets("markets-empty", "http://keeper.test/query"), /Keeper unavailable/);
+  });
+});
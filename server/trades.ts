@@ -0,0 +1,263 @@
+// Indexed trade history of one or more wallets, converted to API `Trade`s
+// Shared by /api/trades (paged, with fees) and /api/trader-stats (whole history)
+
+import type {
+  Trade,
+  TradeEvent,
+  TradeHistoryItem,
+  PerpTrade,
+  ValuationPolicy,
+  TradeFilters,
+  TradeSortKey,
+  SortOrder,
+} from "@shared/schema";
+import type { TraderAddress } from "@shared/address";
+import { isLosingTrade, isWinningTrade } from "@shared/analytics";
+import { storage } from "./storage";
+import { syncTrader } from "./indexer";
+import { buildOraclePriceMap } from "./prices";
+import { buildMarketIdToSymbolMap } from "./markets";
+import {
+  convertTrade,
+  convertTradeHistoryItem,
+  convertTradeEvent,
+  buildRealizedPnlMap,
+  buildTradeEventPriceMap,
+  getTradeUsdPrices,
+  CLOSE_TYPES,
+  type TradePricing,
+} from "./conversions";
+import type { TradeFees } from "./fees";
+import type { NetworkConfig } from "./networks";
+import { MARKETS_QUERY, graphqlQuery, type MarketsQueryResult } from "./keeper";
+
+// Sort position of a trade in /api/trades results (newest first, ties broken by txHash), plus its value for the
+// requested sort key when that is not `time`
+export type TradeCursor = Pick<Trade, "timestamp" | "txHash"> & { value?: string | number | null };
+
+export function compareTradesDesc(a: TradeCursor, b: TradeCursor): number {
+  const timeDiff = new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+  if (timeDiff !== 0) return timeDiff;
+  return a.txHash < b.txHash ? 1 : a.txHash > b.txHash ? -1 : 0;
+}
+
+// Sort values for the other sort keys (amounts in USD)
+const TRADE_SORT_VALUES: Record<Exclude<TradeSortKey, "time">, (trade: Trade) => string | number | undefined> = {
+  opened: t => (t.openTimestamp ? new Date(t.openTimestamp).getTime() : undefined),
+  pair: t => t.pair,
+  direction: t => t.direction,
+  leverage: t => t.leverage,
+  collateral: t => t.collateral,
+  pnl: t => t.pnlAmount,
+  received: t => t.amountReceived,
+  fees: t => t.totalFees,
+};
+
+export function toTradeCursor(trade: Trade, sort: TradeSortKey): TradeCursor {
+  const cursor: TradeCursor = { timestamp: trade.timestamp, txHash: trade.txHash };
+  if (sort !== "time") cursor.value = TRADE_SORT_VALUES[sort](trade) ?? null;
+  return cursor;
+}
+
+// Orders by the sort value, then by time; `asc` reverses both, and trades without a value come last either way
+export function compareTrades(sort: TradeSortKey, order: SortOrder): (a: TradeCursor, b: TradeCursor) => number {
+  const sign = order === "asc" ? -1 : 1;
+  return (a, b) => {
+    if (sort !== "time") {
+      const aValue = a.value ?? null;
+      const bValue = b.value ?? null;
+      if (aValue === null || bValue === null) {
+        if (aValue !== bValue) return aValue === null ? 1 : -1;
+      } else if (aValue !== bValue) {
+        return sign * (aValue < bValue ? 1 : -1);
+      }
+    }
+    return sign * compareTradesDesc(a, b);
+  };
+}
+
+// Everything but the sort order; trades without a collateral token are USDC, as in the conversions
+export function matchesTradeFilters(trade: Trade, filters: TradeFilters): boolean {
+  if (filters.pair && trade.pair?.toLowerCase() !== filters.pair.toLowerCase()) return false;
+  if (filters.direction && trade.direction !== filters.direction) return false;
+  if (filters.status && trade.type !== (filters.status === "open" ? "open" : "close")) return false;
+  if (filters.outcome) {
+    const matchesOutcome = filters.outcome === "win" ? isWinningTrade(trade) : isLosingTrade(trade);
+    if (trade.type !== "close" || !matchesOutcome) return false;
+  }
+  if (filters.collateralToken && (trade.collateralToken ?? "USDC") !== filters.collateralToken) return false;
+  if (filters.minLeverage !== undefined && (trade.leverage ?? 0) < filters.minLeverage) return false;
+  if (filters.maxLeverage !== undefined && (trade.leverage ?? Infinity) > filters.maxLeverage) return false;
+  if (filters.from || filters.to) {
+    const day = new Date(trade.timestamp).toISOString().slice(0, 10);
+    if ((filters.from && day < filters.from) || (filters.to && day > filters.to)) return false;
+  }
+  const query = filters.q?.trim().replace(/^#/, "");
+  if (query && !trade.tradeIndex?.includes(query)) return false;
+  return true;
+}
+
+export function buildTradeFilterOptions(trades: Trade[]): { pairs: string[]; collateralTokens: string[] } {
+  const pairs = new Set<string>();
+  const collateralTokens = new Set<string>();
+  for (const trade of trades) {
+    if (trade.pair) pairs.add(trade.pair);
+    collateralTokens.add(trade.collateralToken ?? "USDC");
+  }
+  return { pairs: Array.from(pairs).sort(), collateralTokens: Array.from(collateralTokens).sort() };
+}
+
+// Markets and oracle prices from the Keeper, stored on every success. When the Keeper call fails, the stored markets
+// still name the pairs; there are no oracle prices then, so collateral falls back to the event-time prices
+export async function loadMarkets(network: string, graphqlUrl: string): Promise<MarketsQueryResult> {
+  try {
+    const result = await graphqlQuery<MarketsQueryResult>(graphqlUrl, MARKETS_QUERY, {});
+    await storage.upsertMarkets(network, result.perp.borrowings);
+    return result;
+  } catch (error) {
+    const stored = await storage.getMarkets(network);
+    if (stored.length === 0) throw error;
+    console.error(`[Markets] ${network}: Keeper query failed, using ${stored.length} stored markets:`, error);
+    return { perp: { borrowings: stored } };
+  }
+}
+
+// The USD prices a trade's amounts were converted at (see getTradeUsdPrices), and its collateral's historical USD prices
+export interface TradeValuation {
+  collateralToken?: string;
+  openUsdPrice: number;
+  closeUsdPrice: number;
+  // From the opening and closing history events; null when the event is not indexed or has no price
+  openCollateralPrice: number | null;
+  closeCollateralPrice: number | null;
+  openedAt: string | null;
+  closeTxHash: string | null;
+}
+
+export interface IndexedTrades {
+  storedHistory: TradeHistoryItem[];
+  // Conversion is cheap, so callers re-run it once fees for the trades they return are known
+  // (optionally only for `tradeIds`, e.g. one chunk of an export)
+  buildTrades: (feeMap: Map<number, TradeFees>, tradeIds?: Set<number>) => Trade[];
+  // One trade's history events, oldest first
+  buildEvents: (tradeId: number) => TradeEvent[];
+  valuation: (tradeId: number) => TradeValuation;
+  // Current collateral token USD prices from the Keeper oracle
+  oraclePriceMap: Map<string, number>;
+}
+
+export async function loadIndexedTrades(
+  networkConfig: NetworkConfig,
+  wallets: TraderAddress[],
+  policy: ValuationPolicy
+): Promise<IndexedTrades> {
+  const network = networkConfig.id;
+
+  // Index any new trades and trade history, and fetch markets from Sai Keeper GraphQL API
+  // Markets are fetched separately to avoid API failures when perpBorrowing is broken
+  const [, marketsResult] = await Promise.all([
+    Promise.all(wallets.map(w => syncTrader(network, networkConfig, w.bech32))),
+    loadMarkets(network, networkConfig.graphql),
+  ]);
+
+  // Serve the full indexed history of every wallet, remembering which wallet each trade belongs to
+  const walletHistories = await Promise.all(wallets.map(async (wallet) => {
+    const [trades, history] = await Promise.all([
+      storage.getTrades(network, wallet.bech32),
+      storage.getTradeHistory(network, wallet.bech32),
+    ]);
+    return { wallet, trades, history };
+  }));
+  const storedTrades = walletHistories.flatMap(w => w.trades);
+  const storedHistory = walletHistories.flatMap(w => w.history);
+  const tradeOwners = new Map<number, string>();
+  for (const { wallet, trades, history } of walletHistories) {
+    for (const trade of trades) tradeOwners.set(trade.id, wallet.evm);
+    for (const item of history) tradeOwners.set(item.trade.id, wallet.evm);
+  }
+
+  const markets = marketsResult.perp.borrowings;
+
+  // Build marketId → symbol mapping from borrowings data
+  const symbolMap = buildMarketIdToSymbolMap(markets);
+
+  // Build oracle price map for collateral token USD conversion
+  const oraclePriceMap = buildOraclePriceMap(marketsResult.oracle?.tokenPricesUsd);
+
+  // Build a map of trade ID to realized P&L from trade history, and the collateral prices its events recorded
+  const pnlMap = buildRealizedPnlMap(storedHistory);
+  const pricing: TradePricing = { policy, oraclePriceMap, eventPrices: buildTradeEventPriceMap(storedHistory) };
+
+  // Build a map of trade ID to PerpTrade for lookups
+  const perpTradesMap = new Map<number, PerpTrade>();
+  for (const perpTrade of storedTrades) {
+    perpTradesMap.set(perpTrade.id, perpTrade);
+  }
+
+  // Convert trades, sorted newest first
+  // Trade ids are unique per network, so they also deduplicate across the wallets of a portfolio
+  const buildTrades = (feeMap: Map<number, TradeFees>, tradeIds?: Set<number>): Trade[] => {
+    const trades: Trade[] = [];
+    const seenTradeIds = new Set<number>();
+
+    // First, add trades from the trades query (includes open positions)
+    for (const perpTrade of storedTrades) {
+      if (seenTradeIds.has(perpTrade.id) || (tradeIds && !tradeIds.has(perpTrade.id))) continue;
+      const trade = convertTrade(perpTrade, pnlMap, feeMap, symbolMap, pricing);
+      trade.wallet = tradeOwners.get(perpTrade.id);
+      trades.push(trade);
+      seenTradeIds.add(perpTrade.id);
+    }
+
+    // Add closed trades from history that might not be in the trades list
+    for (const historyItem of storedHistory) {
+      if (!seenTradeIds.has(historyItem.trade.id) && (!tradeIds || tradeIds.has(historyItem.trade.id))) {
+        const trade = convertTradeHistoryItem(historyItem, perpTradesMap, symbolMap, pricing);
+        if (trade) {
+          trade.wallet = tradeOwners.get(historyItem.trade.id);
+          trades.push(trade);
+          seenTradeIds.add(historyItem.trade.id);
+        }
+      }
+    }
+
+    return trades.sort(compareTradesDesc);
+  };
+
+  const buildEvents = (tradeId: number): TradeEvent[] => {
+    const collateralTokenSymbol = perpTradesMap.get(tradeId)?.perpBorrowing?.collateralToken?.symbol;
+    return storedHistory
+      .filter(item => item.trade.id === tradeId)
+      .map(item => convertTradeEvent(item, collateralTokenSymbol, pricing))
+      .sort((a, b) => a.block - b.block || a.id - b.id);
+  };
+
+  // Opening and closing events per trade, for valuations
+  const openEvents = new Map<number, TradeHistoryItem>();
+  const closeEvents = new Map<number, TradeHistoryItem>();
+  for (const item of storedHistory) {
+    if (item.tradeChangeType === "position_opened") openEvents.set(item.trade.id, item);
+    if (CLOSE_TYPES.includes(item.tradeChangeType)) closeEvents.set(item.trade.id, item);
+  }
+
+  const valuation = (tradeId: number): TradeValuation => {
+    const collateralToken = perpTradesMap.get(tradeId)?.perpBorrowing?.collateralToken?.symbol;
+    const openEvent = openEvents.get(tradeId);
+    const closeEvent = closeEvents.get(tradeId);
+    // USDC is valued at 1 regardless of what the event recorded, as in getCollateralPriceMultiplier
+    const historicalPrice = (item: TradeHistoryItem | undefined) =>
+      !collateralToken || collateralToken === "USDC" ? 1 : item?.collateralPrice || null;
+    const usdPrices = getTradeUsdPrices(tradeId, collateralToken, perpTradesMap.get(tradeId)?.isOpen ?? !closeEvent, pricing);
+    return {
+      collateralToken,
+      openUsdPrice: usdPrices.open,
+      closeUsdPrice: usdPrices.close,
+      openCollateralPrice: historicalPrice(openEvent),
+      closeCollateralPrice: historicalPrice(closeEvent),
+      openedAt: perpTradesMap.get(tradeId)?.openBlock?.block_ts ?? openEvent?.block.block_ts ?? null,
+      closeTxHash: closeEvent?.evmTxHash ?? null,
+    };
+  };
+
+  return { storedHistory, buildTrades, buildEvents, valuation, oraclePriceMap };
+}
@@ -0,0 +1,77 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { VaultDepositEvent } from "@shared/schema";
+import vaultsFixture from "./mock/fixtures/vaults.json";
+import { buildVaultPositions } from "./vaults";
+import type { CollateralPricing } from "./prices";
+
+const deposits = vaultsFixture.depositHistory as VaultDepositEvent[];
+const usdcDeposit = deposits.find((d) => d.vault?.collateralToken?.symbol === "USDC")!;
+const pricing: CollateralPricing = { policy: "event", oraclePriceMap: new Map([["stNIBI", 0.026]]) };
+const oneYearLater = new Date(new Date(usdcDeposit.block!.block_ts).getTime() + 365 * 24 * 60 * 60 * 1000);
+
+function withdrawal(deposit: VaultDepositEvent, fraction: number): VaultDepositEvent {
+  return {
+    ...deposit,
+    id: deposit.id + 1000,
+    action: "withdraw",
+    amount: Number(deposit.amount) * fraction,
+    shares: Number(deposit.shares) * fraction,
+    block: { block: 9000, block_ts: "2026-10-01T00:00:00Z" },
+  };
+}
+
+describe("buildVaultPositions", () => {
+  test("open deposits accrue the current vault APY since the deposit date", () => {
+    const { positions, totalEarnings } = buildVaultPositions([usdcDeposit], vaultsFixture.vaults, pricing, oneYearLater);
+    assert.equal(positions.length, 1);
+    const [position] = positions;
+    assert.equal(position.vaultSymbol, "USDC");
+    assert.equal(position.status, "open");
+    assert.equal(position.depositAmount, 500);
+    assert.ok(Math.abs(position.earnings - 500 * 0.114) < 1e-9);
+    assert.ok(Math.abs(position.currentValue - 500 * 1.114) < 1e-9);
+    assert.ok(Math.abs(position.earningsPercent - 11.4) < 1e-9);
+    assert.equal(totalEarnings, position.earnings);
+  });
+
+  test("fully withdrawn vaults close every entry and stop accruing", () => {
+    const { positions, totalEarnings } = buildVaultPositions(
+      [usdcDeposit, withdrawal(usdcDeposit, 1)],
+      vaultsFixture.vaults,
+      pricing,
+      oneYearLater,
+    );
+    assert.deepEqual(positions.map((p) => [p.action, p.status]), [["withdraw", "closed"], ["deposit", "closed"]]);
+    const withdrawn = positions.find((p) => p.action === "withdraw")!;
+    assert.equal(withdrawn.currentValue, 500);
+    assert.equal(totalEarnings, 0);
+  });
+
+  test("partial withdrawals keep the deposit open", () => {
+    const { positions } = buildVaultPositions([usdcDeposit, withdrawal(usdcDeposit, 0.5)], vaultsFixture.vaults, pricing, oneYearLater);
+    assert.equal(positions.find((p) => p.action === "deposit")!.status, "open");
+  });
+
+  test("vaults are tracked separately and sorted newest first", () => {
+    const { positions } = buildVaultPositions(deposits, vaultsFixture.vaults, pricing, oneYearLater);
+    assert.deepEqual(positions.map((p) => p.vaultSymbol), ["stNIBI", "USDC"]);
+    assert.equal(positions[0].apy, 0.079);
+  });
+
+  test("uses the deposit's vault APY when the vault is no longer listed", () => {
+    const { positions } = buildVaultPositions([usdcDeposit], [], pricing, oneYearLater);
+    assert.equal(positions[0].apy, 0.114);
+  });
+
+  test("totals value stNIBI at the deposit's price, or at today's when marking to market", () => {
+    const stNibiDeposit = deposits.find((d) => d.vault?.collateralToken?.symbol === "stNIBI")!;
+    const atEvent = buildVaultPositions([stNibiDeposit], [], pricing, oneYearLater);
+    assert.equal(atEvent.positions[0].depositAmount, 20000);
+    assert.equal(atEvent.positions[0].usdPrice, 0.024);
+    assert.ok(Math.abs(atEvent.totalDeposited - 20000 * 0.024) < 1e-9);
+
+    const atCurrent = buildVaultPositions([stNibiDeposit], [], { ...pricing, policy: "current" }, oneYearLater);
+    assert.ok(Math.abs(atCurrent.totalDeposited - 20000 * 0.026) < 1e-9);
+  });
+});
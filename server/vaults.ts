@@ -0,0 +1,139 @@
+// Vault deposit positions and estimated earnings from a depositor's deposit/withdraw history
+
+import type { VaultDepositEvent, VaultPosition, VaultPositionsResponse } from "@shared/schema";
+import { getCollateralPriceMultiplier, type CollateralPricing } from "./prices";
+
+export type VaultPositionsSummary = Omit<VaultPositionsResponse, "address" | "network" | "wallets">;
+
+// Earnings are estimated from the current vault APY and the time since each deposit
+// Entries are in collateral token units with their USD values in `usd`, valued under the pricing policy; totals are USD
+export function buildVaultPositions(
+  depositHistory: VaultDepositEvent[],
+  vaults: any[],
+  pricing: CollateralPricing,
+  now: Date = new Date(),
+): VaultPositionsSummary {
+  // Create a map of current vault data (for calculating current share value)
+  const vaultMap = new Map<string, { availableAssets: number; apy: number; totalShares?: number }>();
+  vaults.forEach((vault: any) => {
+    const symbol = vault.collateralToken?.symbol || "Unknown";
+    vaultMap.set(symbol, {
+      availableAssets: parseFloat(vault.availableAssets) || 0,
+      apy: parseFloat(vault.apy) || 0,
+    });
+  });
+
+  // Process deposit history to calculate positions
+  // Group deposits by vault symbol and aggregate
+  const positionsByVault = new Map<string, {
+    deposits: any[];
+    totalShares: number;
+    totalDeposited: number;
+  }>();
+
+  depositHistory.forEach((deposit: any) => {
+    const symbol = deposit.vault?.collateralToken?.symbol || "Unknown";
+    const action = deposit.action;
+    const amount = parseFloat(deposit.amount) / 1e6; // Convert from micro-units
+    const shares = parseFloat(deposit.shares) / 1e6;
+
+    if (!positionsByVault.has(symbol)) {
+      positionsByVault.set(symbol, { deposits: [], totalShares: 0, totalDeposited: 0 });
+    }
+
+    const position = positionsByVault.get(symbol)!;
+    position.deposits.push(deposit);
+
+    if (action === "deposit") {
+      position.totalShares += shares;
+      position.totalDeposited += amount;
+    } else if (action === "withdraw") {
+      position.totalShares -= shares;
+      position.totalDeposited -= amount;
+    }
+  });
+
+  // Convert to vault positions array with earnings calculation
+  const positions: VaultPosition[] = [];
+
+  positionsByVault.forEach((data, symbol) => {
+    const vaultData = vaultMap.get(symbol);
+    const currentApy = vaultData?.apy || data.deposits[0]?.vault?.apy || 0;
+    const isVaultOpen = data.totalShares > 0;
+
+    // Create individual position entries for each deposit and withdrawal
+    data.deposits.forEach((entry: any) => {
+      const action = entry.action as "deposit" | "withdraw";
+      const amount = parseFloat(entry.amount) / 1e6;
+      const shares = parseFloat(entry.shares) / 1e6;
+      const entryDate = entry.block?.block_ts || "";
+      const collateralPrice = parseFloat(entry.collateralPrice) || 0;
+      const usdPrice = getCollateralPriceMultiplier(symbol, pricing.oraclePriceMap, collateralPrice, pricing.policy);
+      
+      if (action === "deposit") {
+        // For deposits, calculate earnings if vault is still open
+        const depositDaysElapsed = entryDate ? (now.getTime() - new Date(entryDate).getTime()) / (1000 * 60 * 60 * 24) : 0;
+        const depositYearsElapsed = depositDaysElapsed / 365;
+        const depositEstimatedGrowth = isVaultOpen ? amount * currentApy * depositYearsElapsed : 0;
+        const depositCurrentValue = isVaultOpen ? amount + depositEstimatedGrowth : 0;
+        const depositEarnings = isVaultOpen ? depositEstimatedGrowth : 0;
+        const depositEarningsPercent = amount > 0 && isVaultOpen ? (depositEarnings / amount) * 100 : 0;
+
+        positions.push({
+          vaultSymbol: symbol,
+          depositAmount: amount,
+          shares,
+          currentValue: depositCurrentValue,
+          earnings: depositEarnings,
+          earningsPercent: depositEarningsPercent,
+          depositDate: entryDate,
+          txHash: entry.txHash || "",
+          evmTxHash: entry.evmTxHash || "",
+          apy: currentApy,
+          collateralPriceAtDeposit: collateralPrice,
+          usdPrice,
+          usd: {
+            depositAmount: amount * usdPrice,
+            currentValue: depositCurrentValue * usdPrice,
+            earnings: depositEarnings * usdPrice,
+          },
+          action: "deposit",
+          status: isVaultOpen ? "open" : "closed",
+        });
+      } else if (action === "withdraw") {
+        // For withdrawals, show as closed position with realized earnings
+        positions.push({
+          vaultSymbol: symbol,
+          depositAmount: amount,
+          shares,
+          currentValue: amount, // Withdrawn amount is the realized value
+          earnings: 0, // Earnings already realized at withdrawal
+          earningsPercent: 0,
+          depositDate: entryDate,
+          txHash: entry.txHash || "",
+          evmTxHash: entry.evmTxHash || "",
+          apy: currentApy,
+          collateralPriceAtDeposit: collateralPrice,
+          usdPrice,
+          usd: { depositAmount: amount * usdPrice, currentValue: amount * usdPrice, earnings: 0 },
+          action: "withdraw",
+          status: "closed",
+        });
+      }
+    });
+  });
+
+  // Sort by deposit date (most recent first), handle invalid dates
+  positions.sort((a, b) => {
+    const dateA = a.depositDate ? new Date(a.depositDate).getTime() : 0;
+    const dateB = b.depositDate ? new Date(b.depositDate).getTime() : 0;
+    return dateB - dateA;
+  });
+
+  // Calculate totals
+  const totalDeposited = positions.reduce((sum, p) => sum + p.usd.depositAmount, 0);
+  const totalCurrentValue = positions.reduce((sum, p) => sum + p.usd.currentValue, 0);
+  const totalEarnings = positions.reduce((sum, p) => sum + p.usd.earnings, 0);
+
+  return { positions, totalDeposited, totalCurrentValue, totalEarnings };
+}
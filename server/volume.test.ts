@@ -0,0 +1,139 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { VolumeHistoryItem } from "./keeper";
+import { syncGlobalVolume } from "./volume";
+import { storage } from "./storage";
+
+const GRAPHQL_URL = "http://keeper.test/query";
+
+// An opening event worth $2 of volume (1 USDC at 2x)
+function opened(id: number, day = "2026-10-01"): VolumeHistoryItem {
+  return {
+    id,
+    tradeChangeType: "position_opened",
+    collateralPrice: 1,
+    block: { block_ts: `${day}T12:00:00Z` },
+    trade: {
+      id,
+      collateralAmount: 1e6,
+      openCollateralAmount: 1e6,
+      leverage: 2,
+      perpBorrowing: { marketId: 0, collateralToken: { symbol: "USDC" } },
+    },
+  };
+}
+
+function events(from: number, to: number, day?: string): VolumeHistoryItem[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => opened(from + i, day));
+}
+
+// Serves the events newest first like the Keeper; the history page at `failAtOffset` errors
+function stubKeeper(history: VolumeHistoryItem[], failAtOffset?: number): void {
+  const newestFirst = [...history].sort((a, b) => b.id - a.id);
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    const { query, variables } = JSON.parse(init.body as string);
+    if (query.includes("GetMarkets")) {
+      return Response.json({ data: { perp: { borrowings: [{ marketId: "0", baseToken: { symbol: "BTC" } }] } } });
+    }
+    if (variables.offset === failAtOffset) {
+      return Response.json({ errors: [{ message: "Keeper unavailable" }] });
+    }
+    const page = newestFirst.slice(variables.offset, variables.offset + variables.limit);
+    return Response.json({ data: { perp: { tradeHistory: page } } });
+  }) as typeof fetch;
+}
+
+// Stored totals and buckets both hold each event exactly once
+async function assertCounted(network: string, tradeCount: number): Promise<void> {
+  const state = await storage.getVolumeState(network);
+  assert.equal(state?.tradeCount, tradeCount);
+  assert.equal(state?.totalVolume, tradeCount * 2);
+  const buckets = await storage.getVolumeBuckets(network);
+  assert.equal(buckets.reduce((sum, bucket) => sum + bucket.tradeCount, 0), tradeCount);
+  assert.equal(buckets.reduce((sum, bucket) => sum + bucket.volume, 0), tradeCount * 2);
+}
+
+describe("syncGlobalVolume", () => {
+  const originalFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("counts every event once and moves the cursor to the newest", async () => {
+    stubKeeper(events(1, 250));
+    await syncGlobalVolume("volume-first", GRAPHQL_URL);
+    await assertCounted("volume-first", 250);
+
+    const state = await storage.getVolumeState("volume-first");
+    assert.equal(state?.lastHistoryId, 250);
+    assert.equal(state?.scanHighId, null);
+    assert.equal(state?.scanLowId, null);
+    assert.notEqual(state?.lastUpdated, null);
+
+    // Nothing new: nothing is added
+    await syncGlobalVolume("volume-first", GRAPHQL_URL);
+    await assertCounted("volume-first", 250);
+  });
+
+  test("keeps the pages saved before an interruption and resumes below them", async () => {
+    stubKeeper(events(1, 250), 100);
+    await assert.rejects(syncGlobalVolume("volume-resume", GRAPHQL_URL), /Keeper unavailable/);
+    await assertCounted("volume-resume", 100);
+    const interrupted = await storage.getVolumeState("volume-resume");
+    assert.equal(interrupted?.scanHighId, 250);
+    assert.equal(interrupted?.scanLowId, 151);
+    assert.equal(interrupted?.lastHistoryId, 0);
+
+    stubKeeper(events(1, 250));
+    await syncGlobalVolume("volume-resume", GRAPHQL_URL);
+    await assertCounted("volume-resume", 250);
+    const state = await storage.getVolumeState("volume-resume");
+    assert.equal(state?.lastHistoryId, 250);
+    assert.equal(state?.scanHighId, null);
+  });
+
+  test("counts events newer than an interrupted scan once the resume reaches its range", async () => {
+    stubKeeper(events(1, 250), 100);
+    await assert.rejects(syncGlobalVolume("volume-new", GRAPHQL_URL));
+
+    // 130 new events: the first resumed page is all above the interrupted scan's top
+    const history = [...events(1, 250), ...events(251, 380, "2026-10-02")];
+
+    // Failing before the walk reaches the scan range drops the held-back events rather than half-saving them
+    stubKeeper(history, 100);
+    await assert.rejects(syncGlobalVolume("volume-new", GRAPHQL_URL));
+    await assertCounted("volume-new", 100);
+    assert.equal((await storage.getVolumeState("volume-new"))?.scanHighId, 250);
+
+    // Reaching the range merges them and extends the scan top; the next failure keeps that progress
+    stubKeeper(history, 200);
+    await assert.rejects(syncGlobalVolume("volume-new", GRAPHQL_URL));
+    await assertCounted("volume-new", 230);
+    const extended = await storage.getVolumeState("volume-new");
+    assert.equal(extended?.scanHighId, 380);
+    assert.equal(extended?.scanLowId, 151);
+
+    stubKeeper(history);
+    await syncGlobalVolume("volume-new", GRAPHQL_URL);
+    await assertCounted("volume-new", 380);
+    const state = await storage.getVolumeState("volume-new");
+    assert.equal(state?.lastHistoryId, 380);
+    assert.equal(state?.scanHighId, null);
+    assert.equal(state?.scanLowId, null);
+
+    const newDay = await storage.getVolumeBuckets("volume-new", "2026-10-02", "2026-10-02");
+    assert.deepEqual(
+      newDay.map(({ market, collateralToken, tradeCount }) => ({ market, collateralToken, tradeCount })),
+      [{ market: "BTC", collateralToken: "USDC", tradeCount: 130 }]
+    );
+  });
+
+  test("only adds events above the cursor on later runs", async () => {
+    stubKeeper(events(1, 120));
+    await syncGlobalVolume("volume-incremental", GRAPHQL_URL);
+    stubKeeper(events(1, 135));
+    await syncGlobalVolume("volume-incremental", GRAPHQL_URL);
+    await assertCounted("volume-incremental", 135);
+    assert.equal((await storage.getVolumeState("volume-incremental"))?.lastHistoryId, 135);
+  });
+});
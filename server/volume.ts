@@ -0,0 +1,309 @@
+// Incremental global trading volume, persisted per network and bucketed by UTC day, market and collateral token
+// Buckets store USD at each event's collateral price plus collateral token units, so reads can mark them to today
+// History is paged newest first and totals are saved after every page, so restarts and failed runs resume
+// from the last processed history id instead of rescanning everything
+
+import type {
+  VolumeBucket,
+  VolumeState,
+  VolumeGranularity,
+  VolumePeriod,
+  VolumeBreakdownEntry,
+  VolumeHistoryResponse,
+  ValuationPolicy,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { buildOraclePriceMap, getCollateralPriceMultiplier, type CollateralPricing } from "./prices";
+import { buildMarketIdToSymbolMap } from "./markets";
+import {
+  MARKETS_QUERY,
+  ALL_TRADE_HISTORY_QUERY,
+  graphqlQuery,
+  type MarketsQueryResult,
+  type VolumeHistoryItem,
+  type VolumeHistoryQueryResult,
+} from "./keeper";
+
+// Sai Keeper caps every list query at 100 rows
+const PAGE_SIZE = 100;
+
+// Count position_opened and order_triggered events (matches sai-explorer methodology)
+const VOLUME_EVENT_TYPES = ["position_opened", "order_triggered"];
+
+// Volume runs already in progress, keyed by network
+const inFlight = new Map<string, Promise<void>>();
+
+// Volume not yet written, summed per bucket
+class BucketDeltas {
+  private buckets = new Map<string, VolumeBucket>();
+  volume = 0;
+  count = 0;
+
+  add(bucket: Omit<VolumeBucket, "volume" | "nativeVolume" | "tradeCount"> | null, volume: EventVolume): void {
+    this.volume += volume.usd;
+    this.count++;
+    // Events without a block timestamp still count towards the totals
+    if (!bucket) return;
+    const key = `${bucket.day}:${bucket.market}:${bucket.collateralToken}`;
+    const existing = this.buckets.get(key) ?? { ...bucket, volume: 0, nativeVolume: 0, tradeCount: 0 };
+    existing.volume += volume.usd;
+    existing.nativeVolume += volume.native;
+    existing.tradeCount++;
+    this.buckets.set(key, existing);
+  }
+
+  merge(other: BucketDeltas): void {
+    this.volume += other.volume;
+    this.count += other.count;
+    other.buckets.forEach((bucket, key) => {
+      const existing = this.buckets.get(key);
+      if (existing) {
+        existing.volume += bucket.volume;
+        existing.nativeVolume += bucket.nativeVolume;
+        existing.tradeCount += bucket.tradeCount;
+      } else {
+        this.buckets.set(key, { ...bucket });
+      }
+    });
+  }
+
+  list(): VolumeBucket[] {
+    return Array.from(this.buckets.values());
+  }
+}
+
+// One event's volume in collateral token units and in USD
+interface EventVolume {
+  native: number;
+  usd: number;
+}
+
+// Volume = |collateral * leverage / 1e6 * collateralPrice| (convert to USD)
+// Stored totals are always at the event's own price; the oracle price only stands in when the event has none
+function eventVolume(item: VolumeHistoryItem, oraclePriceMap: Map<string, number>): EventVolume | null {
+  if (!item.trade || !VOLUME_EVENT_TYPES.includes(item.tradeChangeType)) return null;
+  const priceMultiplier = getCollateralPriceMultiplier(
+    item.trade.perpBorrowing?.collateralToken?.symbol, oraclePriceMap, item.collateralPrice, "event"
+  );
+  const native = Math.abs((item.trade.collateralAmount * item.trade.leverage) / 1e6);
+  return { native, usd: native * priceMultiplier };
+}
+
+async function runVolumeSync(network: string, graphqlUrl: string): Promise<void> {
+  const state: VolumeState = (await storage.getVolumeState(network)) ?? {
+    network,
+    totalVolume: 0,
+    tradeCount: 0,
+    lastHistoryId: 0,
+    scanHighId: null,
+    scanLowId: null,
+    lastUpdated: null,
+  };
+
+  // Fetch oracle prices for collateral token USD conversion, and market symbols for the buckets
+  const marketsResult = await graphqlQuery<MarketsQueryResult>(graphqlUrl, MARKETS_QUERY, {});
+  const oraclePriceMap = buildOraclePriceMap(marketsResult.oracle?.tokenPricesUsd);
+  const symbolMap = buildMarketIdToSymbolMap(marketsResult.perp.borrowings);
+
+  const bucketFor = (item: VolumeHistoryItem) => {
+    if (!item.block?.block_ts) return null;
+    const marketId = item.trade?.perpBorrowing?.marketId;
+    return {
+      day: new Date(item.block.block_ts).toISOString().slice(0, 10),
+      market: (marketId !== undefined && symbolMap.get(marketId)) || "Unknown",
+      collateralToken: item.trade?.perpBorrowing?.collateralToken?.symbol || "USDC",
+    };
+  };
+
+  // Events newer than an interrupted scan are held back until the walk reaches that scan's range,
+  // otherwise the counted ids would no longer form a single range
+  let pageDeltas = new BucketDeltas();
+  let pending = new BucketDeltas();
+  let pendingHighId: number | null = null;
+  const mergePending = () => {
+    if (pendingHighId === null) return;
+    pageDeltas.merge(pending);
+    state.scanHighId = pendingHighId;
+    pending = new BucketDeltas();
+    pendingHighId = null;
+  };
+
+  const saveProgress = async () => {
+    const next = {
+      ...state,
+      totalVolume: state.totalVolume + pageDeltas.volume,
+      tradeCount: state.tradeCount + pageDeltas.count,
+    };
+    await storage.saveVolumeState(next, pageDeltas.list());
+    Object.assign(state, next);
+    pageDeltas = new BucketDeltas();
+  };
+
+  let processed = 0;
+  let done = false;
+  for (let offset = 0; !done; offset += PAGE_SIZE) {
+    const result = await graphqlQuery<VolumeHistoryQueryResult>(graphqlUrl, ALL_TRADE_HISTORY_QUERY, {
+      limit: PAGE_SIZE,
+      offset,
+    });
+    const page = result.perp.tradeHistory;
+    if (page.length < PAGE_SIZE) done = true;
+
+    for (const item of page) {
+      if (item.id <= state.lastHistoryId) {
+        done = true;
+        break;
+      }
+      const volume = eventVolume(item, oraclePriceMap);
+
+      if (state.scanHighId !== null && state.scanLowId !== null) {
+        if (item.id > state.scanHighId) {
+          pendingHighId = Math.max(pendingHighId ?? item.id, item.id);
+          if (volume !== null) pending.add(bucketFor(item), volume);
+          processed++;
+          continue;
+        }
+        mergePending();
+        // Already counted by the interrupted scan
+        if (item.id >= state.scanLowId) continue;
+      }
+
+      if (volume !== null) pageDeltas.add(bucketFor(item), volume);
+      state.scanHighId = state.scanHighId ?? item.id;
+      state.scanLowId = item.id;
+      processed++;
+    }
+
+    // A page is either fully persisted or redone by the next run
+    await saveProgress();
+  }
+
+  // The walk reached the previous cursor (or the oldest event), so everything up to the scan top is counted
+  mergePending();
+  if (state.scanHighId !== null) {
+    state.lastHistoryId = state.scanHighId;
+  }
+  state.scanHighId = null;
+  state.scanLowId = null;
+  state.lastUpdated = new Date().toISOString();
+  await saveProgress();
+
+  console.log(`[Volume] ${network} volume updated: $${state.totalVolume.toLocaleString()} from ${state.tradeCount} trades (${processed} new events)`);
+}
+
+// Bring the stored global volume for a network up to date
+export function syncGlobalVolume(network: string, graphqlUrl: string): Promise<void> {
+  const existing = inFlight.get(network);
+  if (existing) return existing;
+
+  const sync = runVolumeSync(network, graphqlUrl).finally(() => {
+    inFlight.delete(network);
+  });
+  inFlight.set(network, sync);
+  return sync;
+}
+
+// Oracle prices are only needed to mark buckets to today
+async function loadVolumePricing(graphqlUrl: string, policy: ValuationPolicy): Promise<CollateralPricing> {
+  if (policy === "event") return { policy, oraclePriceMap: new Map() };
+  const marketsResult = await graphqlQuery<MarketsQueryResult>(graphqlUrl, MARKETS_QUERY, {});
+  return { policy, oraclePriceMap: buildOraclePriceMap(marketsResult.oracle?.tokenPricesUsd) };
+}
+
+// A bucket's USD volume under the pricing policy; buckets without collateral units (written before they were
+// recorded) or without an oracle price keep their event-time USD
+function bucketVolume(bucket: VolumeBucket, pricing: CollateralPricing): number {
+  if (pricing.policy === "event" || bucket.collateralToken === "USDC" || bucket.nativeVolume === 0) {
+    return bucket.volume;
+  }
+  const oraclePrice = pricing.oraclePriceMap.get(bucket.collateralToken);
+  return oraclePrice ? bucket.nativeVolume * oraclePrice : bucket.volume;
+}
+
+// Current totals for a network (whatever has been persisted so far, even mid-backfill)
+export async function getGlobalVolume(
+  network: string,
+  graphqlUrl: string,
+  policy: ValuationPolicy,
+): Promise<Pick<VolumeState, "totalVolume" | "tradeCount" | "lastUpdated">> {
+  const state = await storage.getVolumeState(network);
+  let totalVolume = state?.totalVolume ?? 0;
+  if (policy === "current") {
+    // Re-mark the bucketed part; events without a timestamp only exist in the stored total
+    const [buckets, pricing] = await Promise.all([storage.getVolumeBuckets(network), loadVolumePricing(graphqlUrl, policy)]);
+    totalVolume += buckets.reduce((sum, bucket) => sum + bucketVolume(bucket, pricing) - bucket.volume, 0);
+  }
+  return {
+    totalVolume,
+    tradeCount: state?.tradeCount ?? 0,
+    lastUpdated: state?.lastUpdated ?? null,
+  };
+}
+
+// First UTC day of the period containing `day` (weeks start on Monday)
+function periodStart(day: string, granularity: VolumeGranularity): string {
+  if (granularity === "day") return day;
+  if (granularity === "month") return `${day.slice(0, 7)}-01`;
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function sortedBreakdown(totals: Map<string, VolumeBreakdownEntry>): VolumeBreakdownEntry[] {
+  return Array.from(totals.values()).sort((a, b) => b.volume - a.volume);
+}
+
+// Volume buckets rolled up into periods plus market and collateral totals for the range
+export async function getVolumeHistory(
+  network: string,
+  graphqlUrl: string,
+  options: { from?: string; to?: string; granularity: VolumeGranularity; policy: ValuationPolicy },
+): Promise<VolumeHistoryResponse> {
+  const [stored, state, pricing] = await Promise.all([
+    storage.getVolumeBuckets(network, options.from, options.to),
+    storage.getVolumeState(network),
+    loadVolumePricing(graphqlUrl, options.policy),
+  ]);
+  const buckets = stored.map(bucket => ({ ...bucket, volume: bucketVolume(bucket, pricing) }));
+
+  const periods = new Map<string, VolumePeriod>();
+  const byMarket = new Map<string, VolumeBreakdownEntry>();
+  const byCollateral = new Map<string, VolumeBreakdownEntry>();
+  let totalVolume = 0;
+  let tradeCount = 0;
+
+  const addTo = (totals: Map<string, VolumeBreakdownEntry>, key: string, bucket: VolumeBucket) => {
+    const entry = totals.get(key) ?? { key, volume: 0, tradeCount: 0 };
+    entry.volume += bucket.volume;
+    entry.tradeCount += bucket.tradeCount;
+    totals.set(key, entry);
+  };
+
+  for (const bucket of buckets) {
+    const key = periodStart(bucket.day, options.granularity);
+    const period = periods.get(key) ?? { period: key, volume: 0, tradeCount: 0, byMarket: {}, byCollateral: {} };
+    period.volume += bucket.volume;
+    period.tradeCount += bucket.tradeCount;
+    period.byMarket[bucket.market] = (period.byMarket[bucket.market] ?? 0) + bucket.volume;
+    period.byCollateral[bucket.collateralToken] = (period.byCollateral[bucket.collateralToken] ?? 0) + bucket.volume;
+    periods.set(key, period);
+
+    addTo(byMarket, bucket.market, bucket);
+    addTo(byCollateral, bucket.collateralToken, bucket);
+    totalVolume += bucket.volume;
+    tradeCount += bucket.tradeCount;
+  }
+
+  return {
+    network,
+    granularity: options.granularity,
+    from: options.from ?? null,
+    to: options.to ?? null,
+    series: Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period)),
+    byMarket: sortedBreakdown(byMarket),
+    byCollateral: sortedBreakdown(byCollateral),
+    totalVolume,
+    tradeCount,
+    lastUpdated: state?.lastUpdated ?? null,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { bech32 } from "bech32";
+import { bech32ToEvm, evmToBech32, parseAddress, parseAddressList, MAX_PORTFOLIO_WALLETS } from "./address";
+
+const EVM = "0x5DBa7Aa28074201a2c3Abe4e743Adaf8E74BD183";
+const NIBI = "nibi1tka84g5qwssp5tp6he88gwk6lrn5h5vrumrhqx";
+
+describe("evmToBech32", () => {
+  test("converts an EVM address to a nibi1 address", () => {
+    assert.equal(evmToBech32(EVM, "nibi"), NIBI);
+  });
+
+  test("ignores address case and uses the given prefix", () => {
+    assert.equal(evmToBech32(EVM.toLowerCase(), "nibi"), NIBI);
+    assert.match(evmToBech32(EVM, "cosmos"), /^cosmos1/);
+  });
+});
+
+describe("bech32ToEvm", () => {
+  test("round-trips with evmToBech32", () => {
+    assert.equal(bech32ToEvm(NIBI, "nibi"), EVM.toLowerCase());
+    assert.equal(bech32ToEvm(NIBI.toUpperCase(), "nibi"), EVM.toLowerCase());
+  });
+
+  test("rejects a bad checksum", () => {
+    const typo = NIBI.slice(0, -1) + (NIBI.endsWith("x") ? "y" : "x");
+    assert.throws(() => bech32ToEvm(typo, "nibi"), /checksum/);
+  });
+
+  test("rejects the wrong prefix", () => {
+    assert.throws(() => bech32ToEvm(evmToBech32(EVM, "cosmos"), "nibi"), /Wrong address prefix "cosmos1"/);
+  });
+
+  test("rejects data that is not a 20-byte account", () => {
+    const contract = bech32.encode("nibi", bech32.toWords(new Uint8Array(32).fill(7)));
+    assert.throws(() => bech32ToEvm(contract, "nibi"), /20-byte account address, got 32 bytes/);
+  });
+});
+
+describe("parseAddress", () => {
+  test("returns both forms for either input", () => {
+    const fromEvm = parseAddress(` ${EVM} `, "nibi");
+    const fromBech32 = parseAddress(NIBI, "nibi");
+    assert.deepEqual(fromEvm, { ok: true, evm: EVM.toLowerCase(), bech32: NIBI });
+    assert.deepEqual(fromBech32, fromEvm);
+  });
+
+  test("explains what is wrong with invalid input", () => {
+    const short = parseAddress("0x1234", "nibi");
+    assert.equal(short.ok, false);
+    assert.match(!short.ok ? short.error : "", /40 hex characters/);
+
+    const empty = parseAddress("   ", "nibi");
+    assert.equal(empty.ok, false);
+
+    const garbage = parseAddress("hello", "nibi");
+    assert.match(!garbage.ok ? garbage.error : "", /nibi1\.\.\. address/);
+  });
+});
+
+describe("parseAddressList", () => {
+  test("accepts commas, spaces and newlines and drops duplicate spellings", () => {
+    const other = "0x" + "ab".repeat(20);
+    const result = parseAddressList(`${EVM}, ${NIBI}\n${other}`, "nibi");
+    assert.equal(result.ok, true);
+    assert.deepEqual(
+      result.ok ? result.wallets.map((w) => w.evm) : [],
+      [EVM.toLowerCase(), other],
+    );
+  });
+
+  test("names the offending entry", () => {
+    const result = parseAddressList(`${EVM},0x1234`, "nibi");
+    assert.match(!result.ok ? result.error : "", /^0x1234: Invalid EVM address/);
+  });
+
+  test("caps the number of wallets", () => {
+    const many = Array.from({ length: MAX_PORTFOLIO_WALLETS + 1 }, (_, i) => "0x" + i.toString(16).padStart(40, "0"));
+    const result = parseAddressList(many.join(","), "nibi");
+    assert.match(!result.ok ? result.error : "", /at most 20 addresses/);
+  });
+});
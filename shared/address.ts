@@ -0,0 +1,106 @@
+// Address parsing shared by the API routes and the search form
+// A Nibiru account has an EVM form (0x + 20 bytes hex) and a bech32 form (nibi1...) of the same 20 bytes
+
+import { bech32 } from "bech32";
+
+const EVM_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+export interface TraderAddress {
+  // Lowercase 0x form
+  evm: string;
+  bech32: string;
+}
+
+export type AddressParseResult = ({ ok: true } & TraderAddress) | { ok: false; error: string };
+
+export function isEvmAddress(value: string): boolean {
+  return EVM_ADDRESS_REGEX.test(value);
+}
+
+// Convert EVM address (0x...) to Nibiru bech32 address (nibi1...)
+export function evmToBech32(evmAddress: string, prefix: string): string {
+  const cleanAddress = evmAddress.toLowerCase().replace("0x", "");
+  const addressBytes: number[] = [];
+  for (let i = 0; i < cleanAddress.length; i += 2) {
+    addressBytes.push(parseInt(cleanAddress.substr(i, 2), 16));
+  }
+  const words = bech32.toWords(new Uint8Array(addressBytes));
+  return bech32.encode(prefix, words);
+}
+
+// Decode a bech32 account address back to its lowercase 0x form; throws with a user-facing message
+export function bech32ToEvm(address: string, prefix: string): string {
+  let decoded: { prefix: string; words: number[] };
+  try {
+    decoded = bech32.decode(address);
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    if (/checksum/i.test(reason)) {
+      throw new Error("Invalid bech32 address: checksum does not match (check for typos)");
+    }
+    if (/mixed-case/i.test(reason)) {
+      throw new Error("Invalid bech32 address: mixes upper and lower case");
+    }
+    throw new Error("Invalid bech32 address: not a valid bech32 string");
+  }
+  if (decoded.prefix !== prefix) {
+    throw new Error(`Wrong address prefix "${decoded.prefix}1": expected a ${prefix}1... address`);
+  }
+  const bytes = bech32.fromWords(decoded.words);
+  if (bytes.length !== 20) {
+    throw new Error(`Invalid ${prefix}1 address: expected a 20-byte account address, got ${bytes.length} bytes`);
+  }
+  return `0x${bytes.map((byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Accept either form and return both
+export function parseAddress(input: string, prefix: string): AddressParseResult {
+  const value = input.trim();
+  if (!value) {
+    return { ok: false, error: "Address is required" };
+  }
+  if (/^0x/i.test(value)) {
+    if (!isEvmAddress(value)) {
+      return { ok: false, error: "Invalid EVM address: expected 0x followed by 40 hex characters" };
+    }
+    const evm = value.toLowerCase();
+    return { ok: true, evm, bech32: evmToBech32(evm, prefix) };
+  }
+  if (!value.includes("1")) {
+    return { ok: false, error: `Enter a 0x EVM address or a ${prefix}1... address` };
+  }
+  try {
+    const evm = bech32ToEvm(value, prefix);
+    return { ok: true, evm, bech32: value.toLowerCase() };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Invalid address" };
+  }
+}
+
+// Portfolios are capped so one request cannot fan out into an unbounded number of Keeper syncs
+export const MAX_PORTFOLIO_WALLETS = 20;
+
+export type AddressListParseResult = { ok: true; wallets: TraderAddress[] } | { ok: false; error: string };
+
+// Parse a comma/whitespace separated list of addresses in either form, dropping duplicates (0x and nibi1 spellings of one account included)
+export function parseAddressList(input: string, prefix: string): AddressListParseResult {
+  const entries = input.split(/[\s,]+/).filter(Boolean);
+  if (entries.length === 0) {
+    return { ok: false, error: "Address is required" };
+  }
+  const wallets: TraderAddress[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const parsed = parseAddress(entry, prefix);
+    if (!parsed.ok) {
+      return { ok: false, error: entries.length > 1 ? `${entry}: ${parsed.error}` : parsed.error };
+    }
+    if (seen.has(parsed.evm)) continue;
+    seen.add(parsed.evm);
+    wallets.push({ evm: parsed.evm, bech32: parsed.bech32 });
+  }
+  if (wallets.length > MAX_PORTFOLIO_WALLETS) {
+    return { ok: false, error: `A portfolio can hold at most ${MAX_PORTFOLIO_WALLETS} addresses` };
+  }
+  return { ok: true, wallets };
+}
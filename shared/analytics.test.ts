@@ -0,0 +1,160 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Trade } from "./schema";
+import { computeTraderStats, buildEquityCurve, computeMarketBreakdown } from "./analytics";
+
+let seq = 0;
+function closed(day: number, pnlAmount: number, collateral = 100, extra: Partial<Trade> = {}): Trade {
+  const closeTimestamp = new Date(Date.UTC(2026, 0, day)).toISOString();
+  return {
+    txHash: `0x${(seq++).toString(16)}`,
+    timestamp: closeTimestamp,
+    closeTimestamp,
+    type: "close",
+    pair: "BTC",
+    direction: "long",
+    leverage: 5,
+    collateral,
+    pnlAmount,
+    profitPct: pnlAmount / collateral,
+    ...extra,
+  };
+}
+
+describe("computeTraderStats", () => {
+  // Realized in order: +30, -10, -20, +40, +10 (passed in shuffled to check close-time ordering)
+  const trades = [
+    closed(4, 40, 100, { pair: "ETH", direction: "short", leverage: 10 }),
+    closed(1, 30),
+    closed(3, -20),
+    closed(5, 10),
+    closed(2, -10),
+    { txHash: "0xopen", timestamp: "2026-01-06T00:00:00Z", type: "open", pair: "ETH", direction: "long", leverage: 2, collateral: 50 } as Trade,
+  ];
+  const stats = computeTraderStats(trades);
+
+  test("counts closed trades and realized PnL in USD", () => {
+    assert.equal(stats.totalTrades, 6);
+    assert.equal(stats.closedTrades, 5);
+    assert.equal(stats.wins, 3);
+    assert.equal(stats.losses, 2);
+    assert.equal(stats.winRate, 0.6);
+    assert.equal(stats.totalPnl, 50);
+  });
+
+  test("volume, size, leverage and pairs include open trades", () => {
+    assert.equal(stats.totalVolume, 4 * 100 * 5 + 100 * 10 + 50 * 2);
+    assert.equal(stats.avgTradeSize, 550 / 6);
+    assert.equal(stats.avgLeverage, (4 * 5 + 10 + 2) / 6);
+    assert.deepEqual(stats.mostTradedPair, { pair: "BTC", count: 4 });
+    assert.deepEqual([stats.longTrades, stats.shortTrades], [5, 1]);
+  });
+
+  test("win/loss averages, profit factor, expectancy and R-multiple", () => {
+    assert.equal(stats.biggestWin, 40);
+    assert.equal(stats.biggestLoss, -20);
+    assert.equal(stats.biggestLossPct, -0.2);
+    assert.equal(stats.profitFactor, 80 / 30);
+    assert.equal(stats.avgWin, 80 / 3);
+    assert.equal(stats.avgLoss, -15);
+    assert.equal(stats.expectancy, 10);
+    assert.equal(stats.avgRMultiple, 10 / 15);
+  });
+
+  test("drawdown and streaks follow close time", () => {
+    // Equity 30 → 20 → 0 → 40 → 50: the deepest fall is 30 below the first peak
+    assert.equal(stats.maxDrawdown, 30);
+    assert.equal(stats.longestWinStreak, 2);
+    assert.equal(stats.longestLossStreak, 2);
+  });
+
+  test("Sharpe and Sortino use per-trade returns", () => {
+    const returns = [0.3, -0.1, -0.2, 0.4, 0.1];
+    const mean = 0.1;
+    const std = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / 4);
+    const downside = Math.sqrt((0.01 + 0.04) / 5);
+    assert.ok(Math.abs((stats.sharpeRatio ?? 0) - mean / std) < 1e-12);
+    assert.ok(Math.abs((stats.sortinoRatio ?? 0) - mean / downside) < 1e-12);
+  });
+
+  test("undefined ratios are null rather than Infinity or NaN", () => {
+    const onlyWins = computeTraderStats([closed(1, 10), closed(2, 20)]);
+    assert.equal(onlyWins.profitFactor, null);
+    assert.equal(onlyWins.avgLoss, null);
+    assert.equal(onlyWins.avgRMultiple, null);
+    assert.equal(onlyWins.sortinoRatio, null);
+    assert.equal(onlyWins.maxDrawdown, 0);
+
+    const empty = computeTraderStats([]);
+    assert.equal(empty.winRate, 0);
+    assert.equal(empty.expectancy, null);
+    assert.equal(empty.sharpeRatio, null);
+    assert.equal(empty.mostTradedPair, null);
+  });
+});
+
+describe("buildEquityCurve", () => {
+  test("accumulates realized PnL by close time and tracks the fall from the peak", () => {
+    const curve = buildEquityCurve([
+      closed(3, -20),
+      closed(1, 30),
+      closed(2, -10),
+      { txHash: "0xopen", timestamp: "2026-01-04T00:00:00Z", type: "open" } as Trade,
+    ]);
+    assert.deepEqual(
+      curve.map((p) => [p.timestamp.slice(0, 10), p.pnl, p.realizedPnl, p.drawdown]),
+      [
+        ["2026-01-01", 30, 30, 0],
+        ["2026-01-02", -10, 20, -10],
+        ["2026-01-03", -20, 0, -30],
+      ],
+    );
+  });
+
+  test("losses from the start count as drawdown below zero", () => {
+    const curve = buildEquityCurve([closed(1, -5), closed(2, 8)]);
+    assert.deepEqual(curve.map((p) => p.drawdown), [-5, 0]);
+  });
+});
+
+describe("computeMarketBreakdown", () => {
+  const hours = (n: number) => n * 3600 * 1000;
+  const openedHoursBefore = (trade: Trade, n: number): Trade => ({
+    ...trade,
+    openTimestamp: new Date(new Date(trade.closeTimestamp!).getTime() - hours(n)).toISOString(),
+  });
+  const trades = [
+    openedHoursBefore(closed(1, 30, 100, { collateralToken: "USDC", totalFees: 1 }), 2),
+    openedHoursBefore(closed(2, -10, 100, { collateralToken: "USDC", direction: "short", leverage: 10, totalFees: 2 }), 4),
+    closed(3, 5, 100, { collateralToken: "stNIBI", totalFees: 0.5 }),
+    { txHash: "0xopen", timestamp: "2026-01-06T00:00:00Z", type: "open", pair: "BTC", collateralToken: "USDC", direction: "long", leverage: 3, totalFees: 0.25 } as Trade,
+  ];
+  const markets = computeMarketBreakdown(trades);
+
+  test("groups by pair and collateral token, biggest realized PnL first", () => {
+    assert.deepEqual(markets.map((m) => [m.pair, m.collateralToken]), [["BTC", "USDC"], ["BTC", "stNIBI"]]);
+  });
+
+  test("counts trades without a collateral token as USDC", () => {
+    const [market] = computeMarketBreakdown([closed(4, 1, 100, { collateralToken: undefined }), closed(5, 2, 100, { collateralToken: "USDC" })]);
+    assert.equal(market.collateralToken, "USDC");
+    assert.equal(market.trades, 2);
+  });
+
+  test("win rate, PnL and holding time cover closed trades; counts, fees and leverage cover all", () => {
+    const usdc = markets[0];
+    assert.equal(usdc.trades, 3);
+    assert.equal(usdc.closedTrades, 2);
+    assert.equal(usdc.winRate, 0.5);
+    assert.equal(usdc.realizedPnl, 20);
+    assert.equal(usdc.fees, 3.25);
+    assert.equal(usdc.avgLeverage, 6);
+    assert.equal(usdc.avgHoldingMs, hours(3));
+    assert.equal(usdc.longTrades, 2);
+    assert.equal(usdc.shortTrades, 1);
+  });
+
+  test("holding time is null when no closed trade has an open time", () => {
+    assert.equal(markets[1].avgHoldingMs, null);
+  });
+});
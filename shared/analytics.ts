@@ -0,0 +1,171 @@
+// Trader performance analytics shared by /api/trader-stats and the client, so both use the same formulas
+// All inputs are converted API `Trade`s; amounts are USD
+
+import type { EquityPoint, MarketStats, Trade, TraderStats } from "./schema";
+
+// A closed trade counts once its realized PnL is known
+export function getClosedTrades(trades: Trade[]): Trade[] {
+  return trades.filter((t) => t.type === "close" && t.profitPct !== undefined);
+}
+
+export function isWinningTrade(trade: Trade): boolean {
+  return (trade.pnlAmount ?? 0) > 0;
+}
+
+export function isLosingTrade(trade: Trade): boolean {
+  return (trade.pnlAmount ?? 0) < 0;
+}
+
+// Oldest close first, which is the order PnL was realized in
+export function sortByCloseTime(trades: Trade[]): Trade[] {
+  const closeTime = (t: Trade) => new Date(t.closeTimestamp ?? t.timestamp).getTime();
+  return [...trades].sort((a, b) => closeTime(a) - closeTime(b));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Per-trade ratios on the return on collateral (profitPct), not annualized: trades are not evenly spaced in time
+function sharpeRatio(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const avg = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - avg) ** 2, 0) / (returns.length - 1);
+  return variance > 0 ? avg / Math.sqrt(variance) : null;
+}
+
+function sortinoRatio(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length);
+  return downside > 0 ? mean(returns) / downside : null;
+}
+
+// Cumulative realized PnL after each closed trade, with the fall from the running peak (the curve starts at 0)
+export function buildEquityCurve(trades: Trade[]): EquityPoint[] {
+  let realizedPnl = 0;
+  let peak = 0;
+  return sortByCloseTime(getClosedTrades(trades)).map((trade) => {
+    realizedPnl += trade.pnlAmount ?? 0;
+    peak = Math.max(peak, realizedPnl);
+    return {
+      timestamp: trade.closeTimestamp ?? trade.timestamp,
+      pnl: trade.pnlAmount ?? 0,
+      realizedPnl,
+      drawdown: realizedPnl - peak,
+    };
+  });
+}
+
+// Largest peak-to-trough fall of cumulative realized PnL, as a positive USD amount
+function maxDrawdown(curve: EquityPoint[]): number {
+  return curve.reduce((worst, point) => Math.max(worst, -point.drawdown), 0);
+}
+
+function longestStreak(closedInOrder: Trade[], matches: (trade: Trade) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const trade of closedInOrder) {
+    current = matches(trade) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+export function computeTraderStats(trades: Trade[]): TraderStats {
+  const closedTrades = getClosedTrades(trades);
+  const closedInOrder = sortByCloseTime(closedTrades);
+  const winners = closedTrades.filter(isWinningTrade);
+  const losers = closedTrades.filter(isLosingTrade);
+
+  // Volume, size, leverage and pair counts cover open trades too
+  const totalVolume = trades.reduce((sum, t) => sum + (t.collateral ?? 0) * (t.leverage ?? 1), 0);
+  const avgTradeSize = trades.length > 0 ? trades.reduce((sum, t) => sum + (t.collateral ?? 0), 0) / trades.length : 0;
+  const avgLeverage = trades.length > 0 ? trades.reduce((sum, t) => sum + (t.leverage ?? 1), 0) / trades.length : 0;
+
+  const pairCounts = new Map<string, number>();
+  for (const trade of trades) {
+    const pair = trade.pair ?? "Unknown";
+    pairCounts.set(pair, (pairCounts.get(pair) ?? 0) + 1);
+  }
+  const [mostTraded] = Array.from(pairCounts.entries()).sort((a, b) => b[1] - a[1]);
+
+  const pnl = (t: Trade) => t.pnlAmount ?? 0;
+  const grossProfit = winners.reduce((sum, t) => sum + pnl(t), 0);
+  const grossLoss = Math.abs(losers.reduce((sum, t) => sum + pnl(t), 0));
+  const totalPnl = closedTrades.reduce((sum, t) => sum + pnl(t), 0);
+
+  const avgWin = winners.length > 0 ? grossProfit / winners.length : null;
+  const avgLoss = losers.length > 0 ? -grossLoss / losers.length : null;
+  const expectancy = closedTrades.length > 0 ? totalPnl / closedTrades.length : null;
+  // Trades do not record their initial risk, so one R is the average losing trade
+  const avgRMultiple = expectancy !== null && avgLoss !== null ? expectancy / Math.abs(avgLoss) : null;
+
+  const returns = closedInOrder.map((t) => t.profitPct ?? 0);
+
+  return {
+    totalTrades: trades.length,
+    closedTrades: closedTrades.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRate: closedTrades.length > 0 ? winners.length / closedTrades.length : 0,
+    totalPnl,
+    totalVolume,
+    avgTradeSize,
+    avgLeverage,
+    longTrades: trades.filter((t) => t.direction === "long").length,
+    shortTrades: trades.filter((t) => t.direction === "short").length,
+    mostTradedPair: mostTraded ? { pair: mostTraded[0], count: mostTraded[1] } : null,
+    biggestWin: winners.length > 0 ? Math.max(...winners.map(pnl)) : null,
+    biggestWinPct: winners.length > 0 ? Math.max(...winners.map((t) => t.profitPct ?? 0)) : null,
+    biggestLoss: losers.length > 0 ? Math.min(...losers.map(pnl)) : null,
+    biggestLossPct: losers.length > 0 ? Math.min(...losers.map((t) => t.profitPct ?? 0)) : null,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    avgWin,
+    avgLoss,
+    expectancy,
+    avgRMultiple,
+    sharpeRatio: sharpeRatio(returns),
+    sortinoRatio: sortinoRatio(returns),
+    maxDrawdown: maxDrawdown(buildEquityCurve(closedInOrder)),
+    longestWinStreak: longestStreak(closedInOrder, isWinningTrade),
+    longestLossStreak: longestStreak(closedInOrder, isLosingTrade),
+  };
+}
+
+// Trades grouped by pair and collateral token, biggest realized PnL first; trades without a collateral token are USDC
+// like everywhere else, so each group matches a collateral filter option
+// Fees include open trades' opening and borrowing fees, so they can exceed what closed trades realized
+export function computeMarketBreakdown(trades: Trade[]): MarketStats[] {
+  const groups = new Map<string, Trade[]>();
+  for (const trade of trades) {
+    const key = `${trade.pair ?? "Unknown"}|${trade.collateralToken ?? "USDC"}`;
+    const group = groups.get(key);
+    if (group) group.push(trade);
+    else groups.set(key, [trade]);
+  }
+
+  const markets = Array.from(groups.values()).map((marketTrades): MarketStats => {
+    const closedTrades = getClosedTrades(marketTrades);
+    const wins = closedTrades.filter(isWinningTrade).length;
+    const holdingTimes = closedTrades
+      .filter((t) => t.openTimestamp && t.closeTimestamp)
+      .map((t) => new Date(t.closeTimestamp!).getTime() - new Date(t.openTimestamp!).getTime());
+    return {
+      pair: marketTrades[0].pair ?? "Unknown",
+      collateralToken: marketTrades[0].collateralToken ?? "USDC",
+      trades: marketTrades.length,
+      closedTrades: closedTrades.length,
+      wins,
+      winRate: closedTrades.length > 0 ? wins / closedTrades.length : 0,
+      realizedPnl: closedTrades.reduce((sum, t) => sum + (t.pnlAmount ?? 0), 0),
+      fees: marketTrades.reduce((sum, t) => sum + (t.totalFees ?? 0), 0),
+      avgLeverage: mean(marketTrades.map((t) => t.leverage ?? 1)),
+      avgHoldingMs: holdingTimes.length > 0 ? mean(holdingTimes) : null,
+      longTrades: marketTrades.filter((t) => t.direction === "long").length,
+      shortTrades: marketTrades.filter((t) => t.direction === "short").length,
+    };
+  });
+  return markets.sort((a, b) => b.realizedPnl - a.realizedPnl);
+}
@@ -0,0 +1,71 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { EquityPoint } from "./schema";
+import { buildDailyPnl, dayKeyInZone, isValidTimeZone, monthWeeks, zonedDayRange } from "./calendar";
+
+function point(timestamp: string, pnl: number): EquityPoint {
+  return { timestamp, pnl, realizedPnl: 0, drawdown: 0 };
+}
+
+describe("dayKeyInZone", () => {
+  test("uses the calendar day of the zone", () => {
+    const instant = new Date("2026-03-01T03:30:00Z");
+    assert.equal(dayKeyInZone(instant, "UTC"), "2026-03-01");
+    assert.equal(dayKeyInZone(instant, "America/New_York"), "2026-02-28");
+    assert.equal(dayKeyInZone(instant, "Asia/Tokyo"), "2026-03-01");
+  });
+
+  test("rejects unknown zones", () => {
+    assert.equal(isValidTimeZone("Europe/London"), true);
+    assert.equal(isValidTimeZone("Mars/Olympus"), false);
+  });
+});
+
+describe("zonedDayRange", () => {
+  test("returns local midnight to midnight in UTC", () => {
+    assert.deepEqual(zonedDayRange("2026-01-15", "UTC"), {
+      from: "2026-01-15T00:00:00.000Z",
+      to: "2026-01-16T00:00:00.000Z",
+    });
+    assert.deepEqual(zonedDayRange("2026-01-15", "Asia/Singapore"), {
+      from: "2026-01-14T16:00:00.000Z",
+      to: "2026-01-15T16:00:00.000Z",
+    });
+  });
+
+  test("handles days that are 23 hours long across a DST change", () => {
+    // US clocks spring forward on 2026-03-08
+    const { from, to } = zonedDayRange("2026-03-08", "America/New_York");
+    assert.equal(from, "2026-03-08T05:00:00.000Z");
+    assert.equal(to, "2026-03-09T04:00:00.000Z");
+  });
+});
+
+describe("buildDailyPnl", () => {
+  test("sums PnL and counts trades per local day", () => {
+    const curve = [
+      point("2026-03-01T01:00:00Z", 10),
+      point("2026-03-01T10:00:00Z", -4),
+      point("2026-03-02T02:00:00Z", 7),
+    ];
+    assert.deepEqual(Array.from(buildDailyPnl(curve, "UTC").values()), [
+      { day: "2026-03-01", pnl: 6, trades: 2 },
+      { day: "2026-03-02", pnl: 7, trades: 1 },
+    ]);
+    // In New York the first trade closed the evening before
+    assert.deepEqual(Array.from(buildDailyPnl(curve, "America/New_York").keys()), [
+      "2026-02-28",
+      "2026-03-01",
+    ]);
+  });
+});
+
+describe("monthWeeks", () => {
+  test("lays a month out in Monday-first weeks", () => {
+    // February 2026 starts on a Sunday
+    const weeks = monthWeeks(2026, 1);
+    assert.equal(weeks.length, 5);
+    assert.deepEqual(weeks[0].slice(5), [null, "2026-02-01"]);
+    assert.deepEqual(weeks[4], ["2026-02-23", "2026-02-24", "2026-02-25", "2026-02-26", "2026-02-27", "2026-02-28", null]);
+  });
+});
@@ -0,0 +1,100 @@
+// Calendar-day bucketing of realized PnL in a chosen IANA time zone
+// Used by the client's daily PnL heatmap; day keys are "YYYY-MM-DD" in that zone
+
+import type { EquityPoint } from "./schema";
+
+export interface DayPnl {
+  day: string;
+  pnl: number;
+  trades: number;
+}
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function dayFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    // en-CA formats dates as YYYY-MM-DD
+    formatter = new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" });
+    dayFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    dayFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function dayKeyInZone(date: Date, timeZone: string): string {
+  return dayFormatter(timeZone).format(date);
+}
+
+// Offset of the zone from UTC at an instant, in ms (positive east of UTC)
+function zoneOffsetMs(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(time / 1000) * 1000;
+}
+
+// The UTC instant at which local midnight of a day key starts in the zone (DST-aware)
+function zonedMidnight(day: string, timeZone: string): number {
+  const [year, month, date] = day.split("-").map(Number);
+  const guess = Date.UTC(year, month - 1, date);
+  const first = guess - zoneOffsetMs(guess, timeZone);
+  return guess - zoneOffsetMs(first, timeZone);
+}
+
+// [from, to) bounds of a local calendar day, as ISO timestamps
+export function zonedDayRange(day: string, timeZone: string): { from: string; to: string } {
+  const [year, month, date] = day.split("-").map(Number);
+  const next = new Date(Date.UTC(year, month - 1, date + 1)).toISOString().slice(0, 10);
+  return {
+    from: new Date(zonedMidnight(day, timeZone)).toISOString(),
+    to: new Date(zonedMidnight(next, timeZone)).toISOString(),
+  };
+}
+
+// Realized PnL per local day, from the equity curve's per-trade PnL
+export function buildDailyPnl(curve: EquityPoint[], timeZone: string): Map<string, DayPnl> {
+  const days = new Map<string, DayPnl>();
+  for (const point of curve) {
+    const day = dayKeyInZone(new Date(point.timestamp), timeZone);
+    const entry = days.get(day) ?? { day, pnl: 0, trades: 0 };
+    entry.pnl += point.pnl;
+    entry.trades += 1;
+    days.set(day, entry);
+  }
+  return days;
+}
+
+// Weeks of a month for a calendar grid: Monday-first rows of day keys, null outside the month
+export function monthWeeks(year: number, month: number): (string | null)[][] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const leading = (new Date(Date.UTC(year, month, 1)).getUTCDay() + 6) % 7;
+  const cells: (string | null)[] = Array(leading).fill(null);
+  for (let date = 1; date <= daysInMonth; date++) {
+    cells.push(new Date(Date.UTC(year, month, date)).toISOString().slice(0, 10));
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
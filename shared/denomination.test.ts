@@ -0,0 +1,47 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { denominate, denominateTotal, formatDenominated } from "./denomination";
+
+const nibiPrices = { stNIBI: 1.3, USDC: 50 };
+
+describe("denominate", () => {
+  test("picks the USD, native or NIBI amount", () => {
+    assert.deepEqual(denominate(76.7, 2950, "stNIBI", "usd", nibiPrices), { value: 76.7, unit: "USD" });
+    assert.deepEqual(denominate(76.7, 2950, "stNIBI", "native", nibiPrices), { value: 2950, unit: "stNIBI" });
+    assert.deepEqual(denominate(76.7, 2950, "stNIBI", "nibi", nibiPrices), { value: 2950 * 1.3, unit: "NIBI" });
+    assert.deepEqual(denominate(10, 10, undefined, "native", nibiPrices), { value: 10, unit: "USDC" });
+  });
+
+  test("falls back to USD without a native amount or NIBI rate", () => {
+    assert.deepEqual(denominate(76.7, undefined, "stNIBI", "native", nibiPrices), { value: 76.7, unit: "USD" });
+    assert.deepEqual(denominate(76.7, 2950, "stNIBI", "nibi", {}), { value: 76.7, unit: "USD" });
+    assert.equal(denominate(undefined, undefined, "stNIBI", "nibi", nibiPrices), null);
+  });
+});
+
+describe("denominateTotal", () => {
+  const byToken = { USDC: 7.46, stNIBI: 2950 };
+
+  test("lists native totals per token and sums NIBI", () => {
+    assert.deepEqual(denominateTotal(84.16, byToken, "native", nibiPrices), [
+      { value: 7.46, unit: "USDC" },
+      { value: 2950, unit: "stNIBI" },
+    ]);
+    const [nibi] = denominateTotal(84.16, byToken, "nibi", nibiPrices);
+    assert.equal(nibi.unit, "NIBI");
+    assert.ok(Math.abs(nibi.value - (7.46 * 50 + 2950 * 1.3)) < 1e-9);
+  });
+
+  test("falls back to USD when a token has no NIBI rate", () => {
+    assert.deepEqual(denominateTotal(84.16, byToken, "nibi", { stNIBI: 1.3 }), [{ value: 84.16, unit: "USD" }]);
+    assert.deepEqual(denominateTotal(0, undefined, "native", nibiPrices), [{ value: 0, unit: "USD" }]);
+  });
+});
+
+describe("formatDenominated", () => {
+  test("formats USD with a dollar sign and tokens with their symbol", () => {
+    assert.equal(formatDenominated({ value: -40.9, unit: "USD" }), "-$40.90");
+    assert.equal(formatDenominated({ value: 2950, unit: "stNIBI" }, { signed: true }), "+2950.00 stNIBI");
+    assert.equal(formatDenominated({ value: 0.5, unit: "NIBI" }, { digits: 4 }), "0.5000 NIBI");
+  });
+});
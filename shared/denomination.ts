@@ -0,0 +1,71 @@
+// Display denominations for monetary amounts: USD, the amount's own collateral token, or NIBI
+// NIBI amounts are collateral token amounts at today's NIBI rate (`NibiPrices`), whatever the valuation policy
+
+import type { NibiPrices } from "./schema";
+
+export const denominations = ["usd", "native", "nibi"] as const;
+export type Denomination = (typeof denominations)[number];
+
+export const DENOMINATION_LABELS: Record<Denomination, string> = {
+  usd: "USD",
+  native: "Native",
+  nibi: "NIBI",
+};
+
+// An amount and its unit: "USD", a collateral token symbol or "NIBI"
+export interface DenominatedAmount {
+  value: number;
+  unit: string;
+}
+
+// One amount in the chosen denomination; falls back to USD when the native amount or the NIBI rate is missing
+// (trades without a collateral token are USDC, as on the server)
+export function denominate(
+  usd: number | undefined,
+  native: number | undefined,
+  token: string | undefined,
+  denomination: Denomination,
+  nibiPrices: NibiPrices | undefined,
+): DenominatedAmount | null {
+  const symbol = token ?? "USDC";
+  if (denomination === "native" && native !== undefined) {
+    return { value: native, unit: symbol };
+  }
+  const rate = nibiPrices?.[symbol];
+  if (denomination === "nibi" && native !== undefined && rate) {
+    return { value: native * rate, unit: "NIBI" };
+  }
+  return usd !== undefined ? { value: usd, unit: "USD" } : null;
+}
+
+// A total kept in USD and per collateral token: one amount per token for "native", a single NIBI amount when
+// every token has a rate, otherwise the USD total
+export function denominateTotal(
+  usd: number,
+  byToken: Record<string, number> | undefined,
+  denomination: Denomination,
+  nibiPrices: NibiPrices | undefined,
+): DenominatedAmount[] {
+  const tokens = Object.keys(byToken ?? {}).sort();
+  if (!byToken || tokens.length === 0 || denomination === "usd") {
+    return [{ value: usd, unit: "USD" }];
+  }
+  if (denomination === "native") {
+    return tokens.map(token => ({ value: byToken[token], unit: token }));
+  }
+  if (tokens.every(token => nibiPrices?.[token])) {
+    return [{ value: tokens.reduce((sum, token) => sum + byToken[token] * nibiPrices![token], 0), unit: "NIBI" }];
+  }
+  return [{ value: usd, unit: "USD" }];
+}
+
+// "$12.34" for USD, "2950.00 stNIBI" otherwise; `signed` always prefixes + or -
+export function formatDenominated(
+  amount: DenominatedAmount,
+  options: { signed?: boolean; digits?: number } = {},
+): string {
+  const sign = amount.value < 0 ? "-" : options.signed ? "+" : "";
+  const digits = options.digits ?? 2;
+  const abs = Math.abs(amount.value);
+  return amount.unit === "USD" ? `${sign}$${abs.toFixed(digits)}` : `${sign}${abs.toFixed(digits)} ${amount.unit}`;
+}
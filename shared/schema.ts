@@ -1,6 +1,18 @@
 import { z } from "zod";
+import {
+  pgTable,
+  text,
+  integer,
+  boolean,
+  doublePrecision,
+  jsonb,
+  timestamp,
+  primaryKey,
+  index,
+} from "drizzle-orm/pg-core";
 
 // Trade types for Sai Perps
+// Monetary fields are USD; `native` repeats them in collateral token units, as recorded by the Keeper
 export const tradeSchema = z.object({
   txHash: z.string(),
   timestamp: z.string(),
@@ -23,11 +35,28 @@ export const tradeSchema = z.object({
   totalFees: z.number().optional(),
   amountReceived: z.number().optional(),
   collateralToken: z.string().optional(),
+  feeSource: z.enum(["receipt", "keeper", "both"]).optional(),
+  feeMismatch: z.boolean().optional(),
+  // Lowercase 0x address of the wallet the trade belongs to
+  wallet: z.string().optional(),
+  native: z.object({
+    collateral: z.number().optional(),
+    pnlAmount: z.number().optional(),
+    openingFee: z.number().optional(),
+    closingFee: z.number().optional(),
+    borrowingFee: z.number().optional(),
+    triggerFee: z.number().optional(),
+    totalFees: z.number().optional(),
+    amountReceived: z.number().optional(),
+  }).optional(),
 });
 
 export type Trade = z.infer<typeof tradeSchema>;
 
-// Open position schema
+// Where a trade's opening/closing/trigger fees came from: RPC receipts, Sai Keeper feeTransactions, or both (reconciled)
+export type FeeSource = NonNullable<Trade["feeSource"]>;
+
+// Open position schema (USD, with the collateral token amounts in `native`)
 export const openPositionSchema = z.object({
   tradeId: z.number(),
   pair: z.string(),
@@ -39,12 +68,21 @@ export const openPositionSchema = z.object({
   stopLoss: z.number().nullable(),
   takeProfit: z.number().nullable(),
   liquidationPrice: z.number().optional(),
+  // Fraction of the mark price (currentPrice) the market can move against the position before liquidation
+  liquidationDistancePct: z.number().optional(),
   unrealizedPnl: z.number().optional(),
   unrealizedPnlPct: z.number().optional(),
   positionValue: z.number().optional(),
   borrowingFee: z.number().optional(),
   openedAt: z.string(),
   collateralToken: z.string().optional(),
+  wallet: z.string().optional(),
+  native: z.object({
+    collateral: z.number(),
+    unrealizedPnl: z.number().optional(),
+    positionValue: z.number().optional(),
+    borrowingFee: z.number().optional(),
+  }).optional(),
 });
 
 export type OpenPosition = z.infer<typeof openPositionSchema>;
@@ -55,10 +93,35 @@ export interface OpenPositionsResponse {
   totalPositions: number;
   totalUnrealizedPnl: number;
   explorer?: string;
+  wallets: WalletPositionsSummary[];
+  nibiPrices?: NibiPrices;
+}
+
+// NIBI per unit of each collateral token at today's oracle prices (empty when the oracle has no NIBI price)
+export type NibiPrices = Record<string, number>;
+
+// Messages pushed on the live positions WebSocket (server/live.ts); intervalMs is the server's polling cadence
+export type LivePositionsMessage =
+  | { type: "positions"; data: OpenPositionsResponse; updatedAt: string; intervalMs: number }
+  | { type: "error"; error: string };
+
+// A network from the server's registry, as exposed to the client
+export interface NetworkInfo {
+  id: string;
+  name: string;
+  explorer: string;
+  bech32Prefix: string;
+  testnet: boolean;
+}
+
+export interface NetworksResponse {
+  networks: NetworkInfo[];
+  defaultNetwork: string;
 }
 
+// Either form is accepted; see parseAddress in shared/address.ts for full bech32 validation
 export const addressQuerySchema = z.object({
-  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid EVM address"),
+  address: z.string().regex(/^(0x[a-fA-F0-9]{40}|[a-z0-9]+1[02-9ac-hj-np-z]{38,})$/i, "Invalid address"),
 });
 
 export type AddressQuery = z.infer<typeof addressQuerySchema>;
@@ -70,15 +133,187 @@ export interface TradesResponse {
   winRate: number;
   totalTrades: number;
   explorer?: string;
+  summary?: TradesSummary;
+  wallets: WalletTradesSummary[];
+  nibiPrices?: NibiPrices;
+  // Pairs and collateral tokens across the selected wallets' whole history, for the filter controls
+  filterOptions?: {
+    pairs: string[];
+    collateralTokens: string[];
+  };
   pagination?: {
-    currentPage: number;
+    limit: number;
+    nextCursor: string | null;
     hasMore: boolean;
-    fromBlock: number;
-    toBlock: number;
-    latestBlock: number;
+    totalCount: number;
   };
 }
 
+// Closed-trade totals across the trades matching the filters (independent of the page returned)
+export interface TradesSummary {
+  closedTrades: number;
+  wins: number;
+  totalPnlAmount: number;
+  totalCollateral: number;
+  // The same totals in collateral token units, per token symbol
+  nativePnlByToken: Record<string, number>;
+  nativeCollateralByToken: Record<string, number>;
+}
+
+const utcDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+// Trade History filters and sort order (server/trades.ts), taken by /api/trades and /api/trades/export and kept
+// in the page URL. They narrow the listed trades and the summary; `time` sorts by `timestamp` (the close time of
+// a closed trade), and amounts sort in USD
+export const tradeSortKeys = ["time", "opened", "pair", "direction", "leverage", "collateral", "pnl", "received", "fees"] as const;
+export type TradeSortKey = (typeof tradeSortKeys)[number];
+
+export const sortOrders = ["asc", "desc"] as const;
+export type SortOrder = (typeof sortOrders)[number];
+
+const leverageSchema = (name: string) =>
+  z.coerce.number({ invalid_type_error: `${name} must be a number` }).positive(`${name} must be positive`);
+
+export const tradeFiltersSchema = z.object({
+  pair: z.string().optional(),
+  direction: z.enum(["long", "short"]).optional(),
+  status: z.enum(["open", "closed"]).optional(),
+  outcome: z.enum(["win", "loss"]).optional(),
+  collateralToken: z.string().optional(),
+  minLeverage: leverageSchema("minLeverage").optional(),
+  maxLeverage: leverageSchema("maxLeverage").optional(),
+  // Inclusive UTC days, matched against `timestamp`
+  from: utcDateSchema.optional(),
+  to: utcDateSchema.optional(),
+  // Trade id search; a leading # is ignored
+  q: z.string().max(80, "q must be at most 80 characters").optional(),
+  sort: z.enum(tradeSortKeys).default("time"),
+  order: z.enum(sortOrders).default("desc"),
+});
+
+export type TradeFilters = z.infer<typeof tradeFiltersSchema>;
+
+// Portfolio breakdowns: the address parameter takes one address or a comma-separated list, and each response
+// reports per-wallet totals for every address in it (regardless of the wallet filter)
+export interface PortfolioWallet {
+  // Lowercase 0x form
+  wallet: string;
+  bech32: string;
+}
+
+export interface WalletTradesSummary extends PortfolioWallet, TradesSummary {
+  totalTrades: number;
+}
+
+export interface WalletPositionsSummary extends PortfolioWallet {
+  positions: number;
+  unrealizedPnl: number;
+}
+
+export interface WalletVaultsSummary extends PortfolioWallet {
+  positions: number;
+  totalDeposited: number;
+  totalCurrentValue: number;
+  totalEarnings: number;
+}
+
+// Personal trading statistics over a trader's entire history (see shared/analytics.ts for the formulas)
+// Amounts are USD; ratios that are undefined for the history (e.g. no losing trades) are null
+export interface TraderStats {
+  totalTrades: number;
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalPnl: number;
+  totalVolume: number;
+  avgTradeSize: number;
+  avgLeverage: number;
+  longTrades: number;
+  shortTrades: number;
+  mostTradedPair: { pair: string; count: number } | null;
+  biggestWin: number | null;
+  biggestWinPct: number | null;
+  biggestLoss: number | null;
+  biggestLossPct: number | null;
+  grossProfit: number;
+  grossLoss: number;
+  profitFactor: number | null;
+  avgWin: number | null;
+  avgLoss: number | null;
+  expectancy: number | null;
+  avgRMultiple: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  maxDrawdown: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+}
+
+// One point per closed trade, oldest first; drawdown is the (non-positive) distance below the running peak
+export interface EquityPoint {
+  timestamp: string;
+  pnl: number;
+  realizedPnl: number;
+  drawdown: number;
+}
+
+// Performance of one market (pair and collateral token); win rate, PnL and holding time cover closed trades only
+export interface MarketStats {
+  pair: string;
+  collateralToken: string;
+  trades: number;
+  closedTrades: number;
+  wins: number;
+  winRate: number;
+  realizedPnl: number;
+  fees: number;
+  avgLeverage: number;
+  avgHoldingMs: number | null;
+  longTrades: number;
+  shortTrades: number;
+}
+
+export interface TraderStatsResponse {
+  address: string;
+  network: string;
+  stats: TraderStats;
+  equityCurve: EquityPoint[];
+  markets: MarketStats[];
+}
+
+// One tradeHistory event of a trade as shown on the trade detail page
+// realizedPnl is in collateral token units, realizedPnlUsd uses the same USD multiplier as the trade
+export interface TradeEvent {
+  id: number;
+  tradeChangeType: string;
+  block: number;
+  timestamp: string;
+  evmTxHash: string | null;
+  collateralPrice: number | null;
+  leverage: number;
+  openPrice: number;
+  closePrice: number | null;
+  sl: number | null;
+  tp: number | null;
+  realizedPnl: number | null;
+  realizedPnlUsd: number | null;
+  realizedPnlPct: number | null;
+  // Realized PnL on an event that does not close the trade
+  partialClose: boolean;
+}
+
+// A single trade with every indexed history event (oldest first) and its raw Keeper fee transactions
+export interface TradeDetailResponse {
+  network: string;
+  tradeId: number;
+  trader: PortfolioWallet;
+  explorer: string;
+  trade: Trade;
+  events: TradeEvent[];
+  feeTransactions: FeeTransaction[];
+}
+
 export interface GlobalStats {
   totalTvl: number;
   totalOpenInterest: number;
@@ -95,6 +330,50 @@ export interface GlobalStats {
   }[];
 }
 
+// How collateral token amounts are converted to USD (server/prices.ts): at the price recorded by the
+// history event (open, close, deposit, withdrawal), or marked to today's oracle price
+export const valuationPolicies = ["event", "current"] as const;
+export type ValuationPolicy = (typeof valuationPolicies)[number];
+
+export const volumeGranularities = ["day", "week", "month"] as const;
+export type VolumeGranularity = (typeof volumeGranularities)[number];
+
+export const volumeHistoryQuerySchema = z.object({
+  network: z.string().optional(),
+  from: utcDateSchema.optional(),
+  to: utcDateSchema.optional(),
+  granularity: z.enum(volumeGranularities).default("day"),
+  valuation: z.enum(valuationPolicies).optional(),
+});
+
+// Volume for one UTC period (day, ISO week starting Monday, or month), keyed by its first day
+export interface VolumePeriod {
+  period: string;
+  volume: number;
+  tradeCount: number;
+  byMarket: Record<string, number>;
+  byCollateral: Record<string, number>;
+}
+
+export interface VolumeBreakdownEntry {
+  key: string;
+  volume: number;
+  tradeCount: number;
+}
+
+export interface VolumeHistoryResponse {
+  network: string;
+  granularity: VolumeGranularity;
+  from: string | null;
+  to: string | null;
+  series: VolumePeriod[];
+  byMarket: VolumeBreakdownEntry[];
+  byCollateral: VolumeBreakdownEntry[];
+  totalVolume: number;
+  tradeCount: number;
+  lastUpdated: string | null;
+}
+
 export interface GlobalStatsResponse {
   stats: GlobalStats;
   network: string;
@@ -112,8 +391,16 @@ export interface VaultPosition {
   evmTxHash: string;
   apy: number;
   collateralPriceAtDeposit: number;
+  // USD per collateral token that the response totals value this entry at, and the entry's amounts at that price
+  usdPrice: number;
+  usd: {
+    depositAmount: number;
+    currentValue: number;
+    earnings: number;
+  };
   action: "deposit" | "withdraw";
   status: "open" | "closed";
+  wallet?: string;
 }
 
 export interface VaultPositionsResponse {
@@ -123,4 +410,446 @@ export interface VaultPositionsResponse {
   totalCurrentValue: number;
   totalEarnings: number;
   network: string;
+  wallets: WalletVaultsSummary[];
+  nibiPrices?: NibiPrices;
+}
+
+// Raw Sai Keeper GraphQL types (persisted as-is so conversions can be re-run)
+export interface BlockRef {
+  block: number;
+  block_ts: string;
+}
+
+export interface PerpTrade {
+  id: number;
+  trader: string;
+  isOpen: boolean;
+  isLong: boolean;
+  tradeType: string;
+  leverage: number;
+  collateralAmount: number;
+  openCollateralAmount: number;
+  openPrice: number;
+  closePrice: number | null;
+  sl: number | null;
+  tp: number | null;
+  perpBorrowing: {
+    marketId: number;
+    collateralToken?: {
+      symbol: string;
+    };
+  } | null;
+  openBlock: BlockRef | null;
+  closeBlock: BlockRef | null;
+  state: {
+    pnlCollateral: number;
+    pnlPct: number;
+    pnlCollateralAfterFees: number;
+    positionValue: number;
+    liquidationPrice: number;
+    borrowingFeeCollateral: number;
+    borrowingFeePct: number;
+    closingFeeCollateral: number;
+    closingFeePct: number;
+    remainingCollateralAfterFees: number;
+  } | null;
+}
+
+export interface TradeHistoryItem {
+  id: number;
+  tradeChangeType: string;
+  evmTxHash: string | null;
+  collateralPrice: number | null;
+  block: BlockRef;
+  trade: {
+    id: number;
+    isLong: boolean;
+    leverage: number;
+    openPrice: number;
+    closePrice: number | null;
+    // Not selected by history indexed before the trade detail page existed
+    sl?: number | null;
+    tp?: number | null;
+  };
+  realizedPnlCollateral: number | null;
+  realizedPnlPct: number | null;
+}
+
+export interface Market {
+  marketId: string;
+  baseToken: { symbol: string; name: string };
+  collateralToken: { symbol: string };
+  price: number;
+}
+
+export interface FeeTransaction {
+  id: string;
+  tradeId: number;
+  feeType: "OPENING" | "CLOSING";
+  totalFeeCharged: number;
+  govFee: number;
+  vaultFee: number;
+  referrerAllocation: number;
+  triggerFee: number;
+  blockTime: string;
+}
+
+export interface VaultDepositEvent {
+  id: number;
+  action: "deposit" | "withdraw";
+  depositor: string;
+  amount: string | number;
+  shares: string | number;
+  collateralPrice: string | number | null;
+  block: BlockRef | null;
+  txHash: string | null;
+  evmTxHash: string | null;
+  vault: {
+    availableAssets: string | number;
+    apy: string | number;
+    collateralToken: { symbol: string } | null;
+  } | null;
+}
+
+// Database tables - keyed by network so mainnet/testnet data never mix
+export const perpTrades = pgTable(
+  "perp_trades",
+  {
+    network: text("network").notNull(),
+    tradeId: integer("trade_id").notNull(),
+    trader: text("trader").notNull(),
+    isOpen: boolean("is_open").notNull(),
+    openBlock: integer("open_block"),
+    closeBlock: integer("close_block"),
+    data: jsonb("data").$type<PerpTrade>().notNull(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.network, table.tradeId] }),
+    index("perp_trades_trader_idx").on(table.network, table.trader),
+  ],
+);
+
+export const tradeHistoryEvents = pgTable(
+  "trade_history_events",
+  {
+    network: text("network").notNull(),
+    historyId: integer("history_id").notNull(),
+    trader: text("trader").notNull(),
+    tradeId: integer("trade_id").notNull(),
+    tradeChangeType: text("trade_change_type").notNull(),
+    block: integer("block").notNull(),
+    blockTs: text("block_ts").notNull(),
+    evmTxHash: text("evm_tx_hash"),
+    data: jsonb("data").$type<TradeHistoryItem>().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.network, table.historyId] }),
+    index("trade_history_trader_idx").on(table.network, table.trader),
+    index("trade_history_trade_idx").on(table.network, table.tradeId),
+  ],
+);
+
+export const vaultDeposits = pgTable(
+  "vault_deposits",
+  {
+    network: text("network").notNull(),
+    depositId: integer("deposit_id").notNull(),
+    depositor: text("depositor").notNull(),
+    action: text("action").notNull(),
+    block: integer("block"),
+    blockTs: text("block_ts"),
+    data: jsonb("data").$type<VaultDepositEvent>().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.network, table.depositId] }),
+    index("vault_deposits_depositor_idx").on(table.network, table.depositor),
+  ],
+);
+
+export const markets = pgTable(
+  "markets",
+  {
+    network: text("network").notNull(),
+    marketId: integer("market_id").notNull(),
+    baseSymbol: text("base_symbol"),
+    collateralSymbol: text("collateral_symbol"),
+    price: doublePrecision("price"),
+    data: jsonb("data").$type<Market>().notNull(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.network, table.marketId] })],
+);
+
+// Per-trader indexer cursor: newest history event already stored and whether the full backfill finished
+export const indexerState = pgTable(
+  "indexer_state",
+  {
+    network: text("network").notNull(),
+    trader: text("trader").notNull(),
+    lastBlock: integer("last_block").notNull().default(0),
+    lastHistoryId: integer("last_history_id").notNull().default(0),
+    backfilled: boolean("backfilled").notNull().default(false),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.network, table.trader] })],
+);
+
+export type IndexerState = Omit<typeof indexerState.$inferSelect, "updatedAt">;
+
+// Per-depositor vault deposit cursor, like `indexerState` for trade history
+export const vaultDepositState = pgTable(
+  "vault_deposit_state",
+  {
+    network: text("network").notNull(),
+    depositor: text("depositor").notNull(),
+    lastBlock: integer("last_block").notNull().default(0),
+    lastDepositId: integer("last_deposit_id").notNull().default(0),
+    backfilled: boolean("backfilled").notNull().default(false),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.network, table.depositor] })],
+);
+
+export type VaultDepositState = Omit<typeof vaultDepositState.$inferSelect, "updatedAt">;
+
+// Fee data extracted from an EVM transaction receipt (collateral token units)
+export interface ExtractedFees {
+  openingFee: number;
+  closingFee: number;
+  openingTriggerFee: number;
+  closingTriggerFee: number;
+}
+
+// Decoded receipt fees per tx hash - receipts get pruned from the RPC, so these are kept forever
+export const txFees = pgTable(
+  "tx_fees",
+  {
+    network: text("network").notNull(),
+    evmTxHash: text("evm_tx_hash").notNull(),
+    openingFee: doublePrecision("opening_fee").notNull(),
+    closingFee: doublePrecision("closing_fee").notNull(),
+    openingTriggerFee: doublePrecision("opening_trigger_fee").notNull(),
+    closingTriggerFee: doublePrecision("closing_trigger_fee").notNull(),
+    fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.network, table.evmTxHash] })],
+);
+
+export const feeTransactions = pgTable(
+  "fee_transactions",
+  {
+    network: text("network").notNull(),
+    feeTxId: text("fee_tx_id").notNull(),
+    trader: text("trader").notNull(),
+    tradeId: integer("trade_id").notNull(),
+    feeType: text("fee_type").notNull(),
+    data: jsonb("data").$type<FeeTransaction>().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.network, table.feeTxId] }),
+    index("fee_transactions_trader_idx").on(table.network, table.trader),
+  ],
+);
+
+// Running global volume per network. History ids at or below lastHistoryId are counted; while a scan is
+// in progress, ids in [scanLowId, scanHighId] are counted as well so an interrupted scan resumes where it stopped
+export const volumeState = pgTable("volume_state", {
+  network: text("network").primaryKey(),
+  totalVolume: doublePrecision("total_volume").notNull().default(0),
+  tradeCount: integer("trade_count").notNull().default(0),
+  lastHistoryId: integer("last_history_id").notNull().default(0),
+  scanHighId: integer("scan_high_id"),
+  scanLowId: integer("scan_low_id"),
+  lastUpdated: timestamp("last_updated", { mode: "string" }),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type VolumeState = Omit<typeof volumeState.$inferSelect, "updatedAt">;
+
+// Volume per UTC day, market and collateral token; written in the same transaction as volume_state
+export const volumeBuckets = pgTable(
+  "volume_buckets",
+  {
+    network: text("network").notNull(),
+    day: text("day").notNull(),
+    market: text("market").notNull(),
+    collateralToken: text("collateral_token").notNull(),
+    volume: doublePrecision("volume").notNull().default(0),
+    // The same volume in collateral token units, so it can be marked to today's price
+    nativeVolume: doublePrecision("native_volume").notNull().default(0),
+    tradeCount: integer("trade_count").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.network, table.day, table.market, table.collateralToken] })],
+);
+
+export type VolumeBucket = Omit<typeof volumeBuckets.$inferSelect, "network">;
+
+// Liquidation-risk alerts (server/alerts.ts): rules watched per subscribed address, delivered as signed webhooks
+export const alertCloseReasons = ["user", "sl", "tp", "liquidation"] as const;
+export type AlertCloseReason = (typeof alertCloseReasons)[number];
+
+export const alertRuleSchema = z.discriminatedUnion("type", [
+  // Mark price within this fraction of the liquidation price (0.1 = 10%)
+  z.object({ type: z.literal("liquidation_proximity"), withinPct: z.number().positive().max(1) }),
+  // Unrealized PnL (USD) of a position below this amount
+  z.object({ type: z.literal("unrealized_pnl_below"), thresholdUsd: z.number() }),
+  z.object({ type: z.literal("position_closed"), reasons: z.array(z.enum(alertCloseReasons)).min(1) }),
+]);
+
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+
+export const createAlertSubscriptionSchema = z.object({
+  address: z.string(),
+  network: z.string().optional(),
+  webhookUrl: z
+    .string()
+    .url("Webhook URL must be a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "Webhook URL must use http or https"),
+  // Shared with the receiving relay to verify signatures; never returned by the API
+  secret: z.string().min(16, "Secret must be at least 16 characters"),
+  rules: z.array(alertRuleSchema).min(1, "Add at least one rule"),
+});
+
+export type AlertEvent = AlertRule["type"] | "test";
+
+// JSON body of a webhook delivery
+export interface AlertPayload {
+  deliveryId: string;
+  subscriptionId: string;
+  event: AlertEvent;
+  network: string;
+  address: string;
+  message: string;
+  tradeId?: number;
+  pair?: string;
+  data: Record<string, unknown>;
+  triggeredAt: string;
+}
+
+export type AlertDeliveryStatus = "pending" | "delivered" | "failed";
+
+export const alertSubscriptions = pgTable(
+  "alert_subscriptions",
+  {
+    id: text("id").primaryKey(),
+    network: text("network").notNull(),
+    // Lowercase 0x form, and the bech32 form the Keeper is queried with
+    address: text("address").notNull(),
+    trader: text("trader").notNull(),
+    webhookUrl: text("webhook_url").notNull(),
+    secret: text("secret").notNull(),
+    rules: jsonb("rules").$type<AlertRule[]>().notNull(),
+    // Position alerts currently firing ("<rule index>:<trade id>"), so each fires once until its condition clears
+    firing: jsonb("firing").$type<string[]>().notNull(),
+    // Close events at or below this history id have already been checked
+    lastHistoryId: integer("last_history_id").notNull().default(0),
+    // Hash of the creating client's IP address, for the per-client subscription cap
+    client: text("client").notNull().default(""),
+    createdAt: timestamp("created_at", { mode: "string" }).notNull(),
+  },
+  (table) => [
+    index("alert_subscriptions_trader_idx").on(table.network, table.trader),
+    index("alert_subscriptions_client_idx").on(table.client),
+  ],
+);
+
+export type AlertSubscription = typeof alertSubscriptions.$inferSelect;
+
+// A subscription as returned by the API
+export type AlertSubscriptionView = Omit<AlertSubscription, "secret" | "firing" | "client">;
+
+export const alertDeliveries = pgTable(
+  "alert_deliveries",
+  {
+    id: text("id").primaryKey(),
+    subscriptionId: text("subscription_id").notNull(),
+    event: text("event").$type<AlertEvent>().notNull(),
+    payload: jsonb("payload").$type<AlertPayload>().notNull(),
+    status: text("status").$type<AlertDeliveryStatus>().notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    // HTTP status of the last attempt, or its network error
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    createdAt: timestamp("created_at", { mode: "string" }).notNull(),
+    updatedAt: timestamp("updated_at", { mode: "string" }).notNull(),
+  },
+  (table) => [index("alert_deliveries_subscription_idx").on(table.subscriptionId, table.createdAt)],
+);
+
+export type AlertDelivery = typeof alertDeliveries.$inferSelect;
+
+export interface AlertSubscriptionResponse {
+  subscription: AlertSubscriptionView;
+}
+
+export interface AlertDeliveriesResponse {
+  deliveries: AlertDelivery[];
+}
+
+export interface AlertTestResponse {
+  delivery: AlertDelivery;
+}
+
+// Tax report (server/tax.ts): realized gain/loss lines for one tax year, as JSON or a crypto-tax CSV layout
+export const taxReportFormats = ["json", "generic", "koinly", "cointracking"] as const;
+export type TaxReportFormat = (typeof taxReportFormats)[number];
+
+export const taxReportQuerySchema = z.object({
+  address: z.string({ required_error: "Address is required" }),
+  network: z.string().optional(),
+  wallet: z.string().optional(),
+  year: z.coerce.number({ invalid_type_error: "year must be a number" }).int().min(2000, "year must be 2000 or later").max(2100, "year must be 2100 or earlier"),
+  // The tax year runs from January 1 to December 31 in this IANA time zone
+  timeZone: z.string().default("UTC"),
+  format: z.enum(taxReportFormats).default("json"),
+});
+
+// One disposal: a closed trade's collateral, or vault shares redeemed by a withdrawal (one line per deposit lot used)
+export interface TaxLine {
+  kind: "trade" | "vault";
+  // Trade id, or the withdrawal's vault event id
+  id: string;
+  wallet?: string;
+  description: string;
+  // Collateral token the position or vault was held in
+  asset: string;
+  // Collateral committed (trade) or deposited (vault lot), in asset units
+  quantity: number;
+  acquiredAt: string;
+  disposedAt: string;
+  holdingDays: number;
+  // Held for more than a year
+  term: "short" | "long";
+  // USD at the collateral's historical price when acquired / disposed
+  costBasis: number;
+  proceeds: number;
+  // Trading fees are already netted out of proceeds; reported for reference
+  fees: number;
+  gainLoss: number;
+  nativeGainLoss: number;
+  // USD per asset unit at disposal; values `nativeGainLoss` on its own, which `gainLoss` does not when the price moved
+  disposalPrice: number;
+  // No historical collateral price was indexed, so today's price was used
+  priceEstimated: boolean;
+  txHash?: string;
+}
+
+export interface TaxReportTotals {
+  lines: number;
+  costBasis: number;
+  proceeds: number;
+  fees: number;
+  gainLoss: number;
+  shortTermGainLoss: number;
+  longTermGainLoss: number;
+}
+
+export interface TaxReportResponse {
+  address: string;
+  network: string;
+  year: number;
+  timeZone: string;
+  lines: TaxLine[];
+  totals: TaxReportTotals;
 }